@@ -0,0 +1,179 @@
+import { useRef, type CSSProperties } from "react";
+import { useWhepPlayer, type UseWhepPlayerOptions } from "./useWhepPlayer";
+import type { WhepPlaybackState } from "./whepClient";
+
+export interface DaydreamOutputPlayerProps extends UseWhepPlayerOptions {
+  muted?: boolean;
+  showStatus?: boolean;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const STATE_LABELS: Record<WhepPlaybackState, string> = {
+  idle: "Waiting for output",
+  connecting: "Connecting...",
+  connected: "Live",
+  disconnected: "Reconnecting...",
+  failed: "Connection failed",
+  closed: "Stopped",
+};
+
+const fill: CSSProperties = { position: "absolute", inset: 0 };
+
+const centred: CSSProperties = {
+  ...fill,
+  display: "flex",
+  flexDirection: "column",
+  alignItems: "center",
+  justifyContent: "center",
+  gap: "0.5rem",
+};
+
+/** A ring that turns by itself, so it needs no stylesheet */
+const Spinner = () => (
+  <svg width="16" height="16" viewBox="0 0 16 16" aria-hidden>
+    <circle
+      cx="8"
+      cy="8"
+      r="6.5"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2"
+      strokeDasharray="30 11"
+    >
+      <animateTransform
+        attributeName="transform"
+        type="rotate"
+        from="0 8 8"
+        to="360 8 8"
+        dur="0.8s"
+        repeatCount="indefinite"
+      />
+    </circle>
+  </svg>
+);
+
+/**
+ * Plays the AI-transformed Daydream output over WHEP. Styled inline, so it
+ * renders the same with or without Tailwind; `className` and `style` apply
+ * to the outer element.
+ */
+export const DaydreamOutputPlayer = ({
+  muted = true,
+  showStatus = true,
+  className,
+  style,
+  ...playerOptions
+}: DaydreamOutputPlayerProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { state, error, firstFrameMs, isStalled, play } = useWhepPlayer(
+    videoRef,
+    playerOptions
+  );
+
+  const hasVideo = firstFrameMs !== null;
+
+  return (
+    <div
+      className={className}
+      style={{
+        position: "relative",
+        width: "100%",
+        height: "100%",
+        backgroundColor: "#111827",
+        ...style,
+      }}
+    >
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        style={{ width: "100%", height: "100%", objectFit: "contain" }}
+      />
+
+      {!hasVideo && !error && (
+        <div
+          style={{
+            ...centred,
+            flexDirection: "row",
+            color: "#d1d5db",
+            fontSize: "0.875rem",
+            fontWeight: 500,
+          }}
+        >
+          {state === "connecting" && <Spinner />}
+          <span>
+            {playerOptions.endpoint ? STATE_LABELS[state] : "No output endpoint"}
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div
+          style={{
+            ...centred,
+            padding: "1rem",
+            backgroundColor: "#111827",
+            color: "#ffffff",
+          }}
+        >
+          <div style={{ fontSize: "1.125rem", fontWeight: 600 }}>
+            Playback Error
+          </div>
+          <div
+            style={{ fontSize: "0.875rem", color: "#d1d5db", textAlign: "center" }}
+          >
+            {error}
+          </div>
+          <button
+            onClick={play}
+            style={{
+              padding: "0.5rem 1rem",
+              border: "none",
+              borderRadius: "0.5rem",
+              backgroundColor: "#2563eb",
+              color: "#ffffff",
+              cursor: "pointer",
+            }}
+          >
+            Try Again
+          </button>
+        </div>
+      )}
+
+      {showStatus && hasVideo && (
+        <div
+          style={{
+            position: "absolute",
+            top: "0.5rem",
+            left: "0.5rem",
+            display: "flex",
+            alignItems: "center",
+            gap: "0.5rem",
+            padding: "0.25rem 0.5rem",
+            borderRadius: "0.25rem",
+            backgroundColor: "rgba(0, 0, 0, 0.6)",
+            color: "#ffffff",
+            fontSize: "0.75rem",
+          }}
+        >
+          <span
+            style={{
+              width: "0.5rem",
+              height: "0.5rem",
+              borderRadius: "9999px",
+              backgroundColor: isStalled
+                ? "#facc15"
+                : state === "connected"
+                  ? "#22c55e"
+                  : "#9ca3af",
+            }}
+          />
+          <span>{isStalled ? "Stalled" : STATE_LABELS[state]}</span>
+          <span style={{ color: "#d1d5db" }}>first frame {firstFrameMs}ms</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,294 @@
+import { useState, type CSSProperties } from "react";
+import type { DaydreamStreamParams } from "./daydreamClient";
+import { useParamUpdater, type ParamUpdateStatus } from "./useParamUpdater";
+
+export interface PromptPreset {
+  name: string;
+  prompt: string;
+  negative_prompt?: string;
+}
+
+export type PromptPanelTheme = "light" | "dark";
+
+export interface PromptPanelProps {
+  /** Sends parameters to the running stream, e.g. `useDaydreamStream().updateParams` */
+  updateParams: (params: DaydreamStreamParams) => Promise<unknown>;
+  initialParams?: DaydreamStreamParams;
+  /** One-click prompts shown as buttons (default: none) */
+  presets?: PromptPreset[];
+  debounceMs?: number;
+  disabled?: boolean;
+  /** Colours for a light or a dark page (default: "light") */
+  theme?: PromptPanelTheme;
+  className?: string;
+  style?: CSSProperties;
+}
+
+const THEMES: Record<
+  PromptPanelTheme,
+  {
+    text: string;
+    field: string;
+    fieldText: string;
+    border: string;
+    button: string;
+    buttonText: string;
+    status: string;
+    error: string;
+  }
+> = {
+  light: {
+    text: "#334155",
+    field: "#ffffff",
+    fieldText: "#1e293b",
+    border: "#cbd5e1",
+    button: "#f1f5f9",
+    buttonText: "#334155",
+    status: "#64748b",
+    error: "#dc2626",
+  },
+  dark: {
+    text: "inherit",
+    field: "#1f2937",
+    fieldText: "#f9fafb",
+    border: "#4b5563",
+    button: "#374151",
+    buttonText: "#ffffff",
+    status: "#9ca3af",
+    error: "#f87171",
+  },
+};
+
+const STATUS_LABELS: Record<ParamUpdateStatus, string> = {
+  idle: "",
+  pending: "Editing...",
+  sending: "Sending...",
+  acknowledged: "Applied",
+  error: "Update failed",
+};
+
+const randomSeed = () => Math.floor(Math.random() * 1_000_000);
+
+const rowStyle: CSSProperties = {
+  display: "flex",
+  alignItems: "center",
+  gap: "0.75rem",
+  fontSize: "0.875rem",
+};
+
+/**
+ * Edits the prompt and pipeline parameters of a running stream. Styled
+ * inline, so it renders the same with or without Tailwind; `className` and
+ * `style` apply to the outer element.
+ */
+export const PromptPanel = ({
+  updateParams,
+  initialParams = {},
+  presets = [],
+  debounceMs,
+  disabled = false,
+  theme = "light",
+  className,
+  style,
+}: PromptPanelProps) => {
+  const [prompt, setPrompt] = useState(
+    typeof initialParams.prompt === "string" ? initialParams.prompt : ""
+  );
+  const [negativePrompt, setNegativePrompt] = useState(
+    initialParams.negative_prompt ?? ""
+  );
+  const [seed, setSeed] = useState(initialParams.seed ?? 42);
+  const [guidanceScale, setGuidanceScale] = useState(
+    initialParams.guidance_scale ?? 1.2
+  );
+  const [strength, setStrength] = useState(initialParams.delta ?? 0.7);
+
+  const { status, error, lastAckMs, queueUpdate, flush } = useParamUpdater({
+    updateParams,
+    debounceMs,
+  });
+
+  const applyPreset = (preset: PromptPreset) => {
+    setPrompt(preset.prompt);
+    setNegativePrompt(preset.negative_prompt ?? "");
+    queueUpdate({
+      prompt: preset.prompt,
+      negative_prompt: preset.negative_prompt ?? "",
+    });
+    flush();
+  };
+
+  const colors = THEMES[theme];
+  const fieldStyle: CSSProperties = {
+    width: "100%",
+    boxSizing: "border-box",
+    padding: "0.5rem",
+    borderRadius: "0.5rem",
+    border: `1px solid ${colors.border}`,
+    backgroundColor: colors.field,
+    color: colors.fieldText,
+    fontSize: "0.875rem",
+    opacity: disabled ? 0.5 : 1,
+  };
+  const buttonStyle = (active = false): CSSProperties => ({
+    padding: "0.25rem 0.75rem",
+    borderRadius: "0.5rem",
+    border: "none",
+    fontSize: "0.75rem",
+    fontWeight: 500,
+    cursor: disabled ? "not-allowed" : "pointer",
+    opacity: disabled ? 0.5 : 1,
+    backgroundColor: active ? "#2563eb" : colors.button,
+    color: active ? "#ffffff" : colors.buttonText,
+  });
+  const labelStyle: CSSProperties = {
+    display: "flex",
+    flexDirection: "column",
+    gap: "0.25rem",
+    fontSize: "0.875rem",
+    fontWeight: 500,
+  };
+
+  return (
+    <div
+      className={className}
+      style={{
+        display: "flex",
+        flexDirection: "column",
+        gap: "0.75rem",
+        color: colors.text,
+        ...style,
+      }}
+    >
+      <label style={labelStyle}>
+        Prompt
+        <textarea
+          value={prompt}
+          disabled={disabled}
+          rows={2}
+          onChange={(e) => {
+            setPrompt(e.target.value);
+            queueUpdate({ prompt: e.target.value });
+          }}
+          style={fieldStyle}
+        />
+      </label>
+
+      <label style={labelStyle}>
+        Negative prompt
+        <input
+          type="text"
+          value={negativePrompt}
+          disabled={disabled}
+          onChange={(e) => {
+            setNegativePrompt(e.target.value);
+            queueUpdate({ negative_prompt: e.target.value });
+          }}
+          style={fieldStyle}
+        />
+      </label>
+
+      {presets.length > 0 && (
+        <div style={{ display: "flex", flexWrap: "wrap", gap: "0.5rem" }}>
+          {presets.map((preset) => (
+            <button
+              key={preset.name}
+              disabled={disabled}
+              onClick={() => applyPreset(preset)}
+              style={buttonStyle(preset.prompt === prompt)}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label style={rowStyle}>
+        <span style={{ width: "5rem", fontWeight: 500 }}>Guidance</span>
+        <input
+          type="range"
+          min={0}
+          max={10}
+          step={0.1}
+          value={guidanceScale}
+          disabled={disabled}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            setGuidanceScale(value);
+            queueUpdate({ guidance_scale: value });
+          }}
+          style={{ flex: 1 }}
+        />
+        <span style={{ width: "2.5rem", textAlign: "right" }}>
+          {guidanceScale.toFixed(1)}
+        </span>
+      </label>
+
+      <label style={rowStyle}>
+        <span style={{ width: "5rem", fontWeight: 500 }}>Strength</span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={strength}
+          disabled={disabled}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            setStrength(value);
+            queueUpdate({ delta: value });
+          }}
+          style={{ flex: 1 }}
+        />
+        <span style={{ width: "2.5rem", textAlign: "right" }}>
+          {strength.toFixed(2)}
+        </span>
+      </label>
+
+      <div style={rowStyle}>
+        <label style={rowStyle}>
+          <span style={{ width: "5rem", fontWeight: 500 }}>Seed</span>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={seed}
+            disabled={disabled}
+            onChange={(e) => {
+              const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+              setSeed(value);
+              queueUpdate({ seed: value });
+            }}
+            style={{ ...fieldStyle, width: "7rem", padding: "0.25rem 0.5rem" }}
+          />
+        </label>
+        <button
+          disabled={disabled}
+          title="Random seed"
+          onClick={() => {
+            const value = randomSeed();
+            setSeed(value);
+            queueUpdate({ seed: value });
+            flush();
+          }}
+          style={{ ...buttonStyle(), padding: "0.25rem 0.5rem" }}
+        >
+          🎲
+        </button>
+      </div>
+
+      <div
+        aria-live="polite"
+        style={{
+          minHeight: "1rem",
+          fontSize: "0.75rem",
+          color: status === "error" ? colors.error : colors.status,
+        }}
+      >
+        {STATUS_LABELS[status]}
+        {status === "acknowledged" && lastAckMs !== null && ` in ${lastAckMs}ms`}
+        {status === "error" && error && `: ${error}`}
+      </div>
+    </div>
+  );
+};
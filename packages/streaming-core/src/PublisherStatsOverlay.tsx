@@ -0,0 +1,97 @@
+import type { CSSProperties } from "react";
+import type { PublisherStatsSample } from "./publisherStats";
+import {
+  usePublisherStats,
+  type UsePublisherStatsOptions,
+} from "./usePublisherStats";
+
+export interface PublisherStatsOverlayProps extends UsePublisherStatsOptions {
+  className?: string;
+  style?: CSSProperties;
+}
+
+const formatBitrate = (bps: number | null) => {
+  if (bps === null) return "–";
+  return bps >= 1_000_000
+    ? `${(bps / 1_000_000).toFixed(2)} Mbps`
+    : `${Math.round(bps / 1000)} kbps`;
+};
+
+const formatValue = (value: number | null, unit = "", digits = 0) =>
+  value === null ? "–" : `${value.toFixed(digits)}${unit}`;
+
+const rowsFor = (sample: PublisherStatsSample) => [
+  ["FPS", formatValue(sample.fps, "", 1)],
+  ["Bitrate", formatBitrate(sample.bitrate)],
+  ["Estimate", formatBitrate(sample.availableOutgoingBitrate)],
+  ["Loss", formatValue(sample.packetLossPercent, "%", 1)],
+  ["RTT", formatValue(sample.rttMs, " ms")],
+  ["Limited by", sample.qualityLimitationReason ?? "–"],
+  ["Dropped", String(sample.framesDropped)],
+  [
+    "Size",
+    sample.frameWidth !== null && sample.frameHeight !== null
+      ? `${sample.frameWidth}×${sample.frameHeight}`
+      : "–",
+  ],
+];
+
+/**
+ * Live connection health of the WHIP publisher. Position it over the input
+ * preview (the parent needs `position: relative`); `style` moves it.
+ */
+export const PublisherStatsOverlay = ({
+  className,
+  style,
+  ...statsOptions
+}: PublisherStatsOverlayProps) => {
+  const { latest } = usePublisherStats(statsOptions);
+  const isLimited =
+    latest?.qualityLimitationReason !== null &&
+    latest?.qualityLimitationReason !== undefined &&
+    latest.qualityLimitationReason !== "none";
+
+  return (
+    <div
+      className={className}
+      style={{
+        position: "absolute",
+        top: "0.5rem",
+        right: "0.5rem",
+        padding: "0.25rem 0.5rem",
+        borderRadius: "0.25rem",
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        color: "#ffffff",
+        fontFamily: "monospace",
+        fontSize: "0.75rem",
+        pointerEvents: "none",
+        ...style,
+      }}
+    >
+      {latest ? (
+        <table>
+          <tbody>
+            {rowsFor(latest).map(([label, value]) => (
+              <tr key={label}>
+                <td style={{ paddingRight: "0.5rem", color: "#9ca3af" }}>
+                  {label}
+                </td>
+                <td
+                  style={
+                    label === "Limited by" && isLimited
+                      ? { color: "#facc15" }
+                      : undefined
+                  }
+                >
+                  {value}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <span style={{ color: "#d1d5db" }}>Waiting for publisher stats...</span>
+      )}
+    </div>
+  );
+};
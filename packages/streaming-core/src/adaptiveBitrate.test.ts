@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeEncodingParams,
+  type EncodingParams,
+} from "./adaptiveBitrate";
+import type { PublisherStatsSample } from "./publisherStats";
+import type { ComplexityMetrics } from "./streamComplexityManager";
+
+const scene = (detail: number, motion: number): ComplexityMetrics => ({
+  spatialComplexity: detail,
+  temporalComplexity: motion,
+  overallComplexity: detail,
+  frameVariance: 0,
+  isLowComplexity: detail < 0.2,
+});
+
+const still = scene(0, 0);
+const busy = scene(0.3, 0.1);
+
+const network = (
+  sample: Partial<PublisherStatsSample> = {}
+): PublisherStatsSample => ({
+  timestamp: 0,
+  fps: 30,
+  bitrate: null,
+  availableOutgoingBitrate: null,
+  packetsSent: 1000,
+  packetsLost: 0,
+  packetLossPercent: 0,
+  rttMs: 40,
+  qualityLimitationReason: "none",
+  frameWidth: 512,
+  frameHeight: 512,
+  framesEncoded: 300,
+  framesDropped: 0,
+  ...sample,
+});
+
+const encoding = (
+  maxBitrate: number,
+  maxFramerate = 30,
+  scaleResolutionDownBy = 1
+): EncodingParams => ({ maxBitrate, maxFramerate, scaleResolutionDownBy });
+
+describe("computeEncodingParams", () => {
+  it("gives a still scene the floor and a busy one the ceiling", () => {
+    expect(
+      computeEncodingParams({ complexity: still, network: null, current: null })
+    ).toEqual(encoding(300_000, 15));
+    expect(
+      computeEncodingParams({ complexity: busy, network: null, current: null })
+    ).toEqual(encoding(2_000_000, 30));
+  });
+
+  it("scales between the floor and the ceiling with the content", () => {
+    expect(
+      computeEncodingParams({
+        complexity: scene(0.1, 0.025),
+        network: null,
+        current: null,
+      })
+    ).toEqual(encoding(1_150_000, 23));
+  });
+
+  it("assumes the content needs everything before the first sample", () => {
+    expect(
+      computeEncodingParams({ complexity: null, network: null, current: null })
+    ).toEqual(encoding(2_000_000, 30));
+  });
+
+  it("caps the bitrate at the measured bandwidth with headroom", () => {
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ availableOutgoingBitrate: 1_000_000 }),
+        current: null,
+      })
+    ).toEqual(encoding(850_000));
+  });
+
+  it("scales the resolution down when full resolution is unaffordable", () => {
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ availableOutgoingBitrate: 400_000 }),
+        current: null,
+      })
+    ).toEqual(encoding(340_000, 30, 1.5));
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ availableOutgoingBitrate: 100_000 }),
+        current: null,
+      })
+    ).toEqual(encoding(300_000, 30, 2));
+  });
+
+  it("backs off from the current bitrate on packet loss", () => {
+    const current = encoding(1_500_000);
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ packetLossPercent: 10 }),
+        current,
+      })
+    ).toEqual(encoding(1_050_000));
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ packetLossPercent: 3 }),
+        current,
+      })
+    ).toEqual(encoding(2_000_000));
+  });
+
+  it("holds the current settings through small content swings", () => {
+    const current = encoding(1_000_000, 30);
+    expect(
+      computeEncodingParams({
+        complexity: scene(0.09, 0.043),
+        network: network(),
+        current,
+      })
+    ).toEqual(current);
+    // Past the hysteresis band the new estimate applies
+    expect(
+      computeEncodingParams({
+        complexity: scene(0.12, 0.1),
+        network: network(),
+        current,
+      })
+    ).toEqual(encoding(1_320_000, 30));
+  });
+
+  it("applies network cuts however small they are", () => {
+    expect(
+      computeEncodingParams({
+        complexity: busy,
+        network: network({ availableOutgoingBitrate: 1_100_000 }),
+        current: encoding(1_000_000),
+      })
+    ).toEqual(encoding(940_000));
+  });
+
+  it("sends fewer pixels while the encoder is CPU-limited", () => {
+    const cpu = network({ qualityLimitationReason: "cpu" });
+    const first = computeEncodingParams({
+      complexity: busy,
+      network: cpu,
+      current: encoding(2_000_000),
+    });
+    expect(first).toEqual(encoding(2_000_000, 30, 1.25));
+
+    const second = computeEncodingParams({
+      complexity: busy,
+      network: cpu,
+      current: first,
+    });
+    expect(second.scaleResolutionDownBy).toBe(1.5);
+
+    // Once it keeps up, full resolution returns one notch at a time
+    const recovering = computeEncodingParams({
+      complexity: busy,
+      network: network(),
+      current: second,
+    });
+    expect(recovering.scaleResolutionDownBy).toBe(1.25);
+  });
+
+  it("never scales past maxScaleDownBy", () => {
+    expect(
+      computeEncodingParams(
+        {
+          complexity: busy,
+          network: network({ qualityLimitationReason: "cpu" }),
+          current: encoding(2_000_000, 30, 1.5),
+        },
+        { maxScaleDownBy: 1.5 }
+      ).scaleResolutionDownBy
+    ).toBe(1.5);
+  });
+});
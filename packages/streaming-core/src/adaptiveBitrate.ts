@@ -0,0 +1,165 @@
+import { STREAMING_CONFIG } from "./streamingConfig";
+import type { ComplexityMetrics } from "./streamComplexityManager";
+import type { PublisherStatsSample } from "./publisherStats";
+
+export interface AdaptiveBitrateOptions {
+  /** Bitrate floor in bps, used for static scenes (default: 300 kbps) */
+  minBitrate?: number;
+  /** Bitrate ceiling in bps (default: STREAMING_CONFIG.VIDEO_BITRATE) */
+  maxBitrate?: number;
+  /** Overall complexity that earns the full bitrate (default: 0.2) */
+  complexityForMaxBitrate?: number;
+  /** Framerate for still scenes (default: 15) */
+  minFramerate?: number;
+  /** Framerate for busy scenes (default: STREAMING_CONFIG.FPS) */
+  maxFramerate?: number;
+  /** Temporal complexity that earns the full framerate (default: 0.05) */
+  motionForMaxFramerate?: number;
+  /** Bitrate below which the resolution is scaled down (default: 600 kbps) */
+  fullResolutionBitrate?: number;
+  /** Largest resolution downscale factor (default: 2) */
+  maxScaleDownBy?: number;
+  /** Share of the bandwidth estimate video may use (default: 0.85) */
+  bandwidthHeadroom?: number;
+  /** Packet loss in percent above which the bitrate is cut (default: 5) */
+  maxPacketLossPercent?: number;
+  /** Relative bitrate change too small to re-apply (default: 0.15) */
+  hysteresis?: number;
+}
+
+/** Sender encoding parameters chosen by the adaptive bitrate policy */
+export interface EncodingParams {
+  maxBitrate: number;
+  maxFramerate: number;
+  scaleResolutionDownBy: number;
+}
+
+export interface AdaptiveBitrateInput {
+  /** Complexity of the published frames, null before the first sample */
+  complexity: ComplexityMetrics | null;
+  /** Latest outbound stats, null before the first poll */
+  network: PublisherStatsSample | null;
+  /** Parameters currently applied to the sender */
+  current: EncodingParams | null;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Picks sender encoding parameters for the scene and the connection. The
+ * content decides what the frames need: a still scene gets the floor bitrate
+ * and framerate, a detailed or moving one the ceiling. The network caps that
+ * at the bandwidth estimate and backs off on loss, and when the cap is below
+ * what full resolution needs, fewer pixels are sent instead of blockier ones.
+ * Pure, so it can run against canned metrics and stats.
+ */
+export const computeEncodingParams = (
+  { complexity, network, current }: AdaptiveBitrateInput,
+  options: AdaptiveBitrateOptions = {}
+): EncodingParams => {
+  const {
+    minBitrate = 300_000,
+    maxBitrate = STREAMING_CONFIG.VIDEO_BITRATE,
+    complexityForMaxBitrate = 0.2,
+    minFramerate = 15,
+    maxFramerate = STREAMING_CONFIG.FPS,
+    motionForMaxFramerate = 0.05,
+    fullResolutionBitrate = 600_000,
+    maxScaleDownBy = 2,
+    bandwidthHeadroom = 0.85,
+    maxPacketLossPercent = 5,
+    hysteresis = 0.15,
+  } = options;
+
+  // What the content needs; without a sample, assume it needs everything
+  let contentBitrate = maxBitrate;
+  let framerate = maxFramerate;
+  if (complexity) {
+    const detail = clamp(
+      complexity.overallComplexity / complexityForMaxBitrate,
+      0,
+      1
+    );
+    const motion = clamp(
+      complexity.temporalComplexity / motionForMaxFramerate,
+      0,
+      1
+    );
+    contentBitrate = minBitrate + (maxBitrate - minBitrate) * detail;
+    framerate = minFramerate + (maxFramerate - minFramerate) * motion;
+  }
+
+  // What the connection allows
+  let networkBitrate = Infinity;
+  const available = network?.availableOutgoingBitrate ?? null;
+  if (available !== null) {
+    networkBitrate = available * bandwidthHeadroom;
+  }
+  const loss = network?.packetLossPercent ?? null;
+  if (current && loss !== null && loss > maxPacketLossPercent) {
+    networkBitrate = Math.min(networkBitrate, current.maxBitrate * 0.7);
+  }
+
+  let bitrate = clamp(
+    Math.round(Math.min(contentBitrate, networkBitrate) / 10_000) * 10_000,
+    minBitrate,
+    maxBitrate
+  );
+  // Small swings in the content estimate are noise; network cuts always apply
+  if (
+    current &&
+    networkBitrate >= current.maxBitrate &&
+    Math.abs(bitrate - current.maxBitrate) / current.maxBitrate < hysteresis
+  ) {
+    bitrate = current.maxBitrate;
+  }
+
+  framerate = Math.round(framerate);
+  if (current && Math.abs(framerate - current.maxFramerate) < 3) {
+    framerate = current.maxFramerate;
+  }
+
+  let scale =
+    networkBitrate < fullResolutionBitrate
+      ? Math.sqrt(fullResolutionBitrate / Math.max(networkBitrate, 1))
+      : 1;
+  // A CPU-bound encoder needs fewer pixels whatever the bitrate; once it
+  // keeps up again, step back towards full resolution one notch at a time
+  const currentScale = current?.scaleResolutionDownBy ?? 1;
+  if (network?.qualityLimitationReason === "cpu") {
+    scale = Math.max(scale, currentScale + 0.25);
+  } else if (currentScale > scale) {
+    scale = Math.max(scale, currentScale - 0.25);
+  }
+
+  return {
+    maxBitrate: bitrate,
+    maxFramerate: framerate,
+    scaleResolutionDownBy: clamp(Math.ceil(scale * 4) / 4, 1, maxScaleDownBy),
+  };
+};
+
+export const isSameEncoding = (a: EncodingParams, b: EncodingParams) =>
+  a.maxBitrate === b.maxBitrate &&
+  a.maxFramerate === b.maxFramerate &&
+  a.scaleResolutionDownBy === b.scaleResolutionDownBy;
+
+export const getVideoSender = (pc: RTCPeerConnection | null) =>
+  pc?.getSenders().find((s) => s.track && s.track.kind === "video") ?? null;
+
+/**
+ * Apply encoding parameters to the first encoding of a sender, leaving the
+ * rest of its parameters untouched
+ */
+export const applyEncodingParams = async (
+  sender: RTCRtpSender,
+  params: EncodingParams
+): Promise<void> => {
+  const parameters = sender.getParameters();
+  if (!parameters.encodings || parameters.encodings.length === 0) {
+    parameters.encodings = [{}];
+  }
+  Object.assign(parameters.encodings[0], params);
+  await sender.setParameters(parameters);
+};
@@ -64,7 +64,7 @@ class AudioTrackManager {
       try {
         this.oscillator.stop();
         this.oscillator.disconnect();
-      } catch (error) {
+      } catch {
         // Oscillator might already be stopped
       }
       this.oscillator = null;
@@ -97,3 +97,12 @@ export const audioTrackManager = AudioTrackManager.getInstance();
 export const createSilentAudioTrack = (): MediaStreamTrack => {
   return audioTrackManager.getSilentAudioTrack();
 };
+
+/**
+ * Stops a track handed out by createSilentAudioTrack once its stream is done
+ */
+export const cleanupAudioTrack = (track: MediaStreamTrack): void => {
+  if (track && track.readyState === "live") {
+    track.stop();
+  }
+};
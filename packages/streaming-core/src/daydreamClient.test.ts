@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import {
+  DaydreamApiError,
+  DaydreamClient,
+  DaydreamRateLimitError,
+  DaydreamValidationError,
+} from "./daydreamClient";
+import { createFakeDaydreamServer } from "./fakeDaydreamServer";
+
+type Reply = Response | Error;
+
+/** Fetch that answers from a script and records the request methods */
+const scriptedFetch = (replies: Reply[]) => {
+  const calls: string[] = [];
+  const fetch = (async (_input: RequestInfo | URL, init?: RequestInit) => {
+    calls.push(init?.method ?? "GET");
+    const reply = replies.shift();
+    if (!reply) throw new Error("No reply scripted");
+    if (reply instanceof Error) throw reply;
+    return reply;
+  }) as typeof globalThis.fetch;
+  return { fetch, calls };
+};
+
+const status = (code: number, headers?: HeadersInit) =>
+  new Response(JSON.stringify({ error: `status ${code}` }), {
+    status: code,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const stream = () =>
+  new Response(
+    JSON.stringify({
+      id: "str_1",
+      pipeline_id: "pip_1",
+      output_playback_id: "out_1",
+      whip_url: "https://example.com/whip/str_1",
+      params: {},
+      created_at: "2026-01-01T00:00:00.000Z",
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+
+const client = (fetch: typeof globalThis.fetch) =>
+  new DaydreamClient({
+    apiKey: "dev-key",
+    baseUrl: "https://example.com",
+    retry: { maxRetries: 3, baseDelayMs: 0 },
+    fetch,
+  });
+
+describe("DaydreamClient", () => {
+  it("sends and reads the pipeline parameters as params", async () => {
+    const server = createFakeDaydreamServer({ latencyMs: 0 });
+    const daydream = new DaydreamClient({
+      apiKey: "dev-key",
+      ...server.clientOptions,
+    });
+
+    const created = await daydream.createStream({
+      pipelineId: "pip_1",
+      params: { prompt: "a forest", seed: 7 },
+    });
+    expect(created.params).toEqual({ prompt: "a forest", seed: 7 });
+
+    const updated = await daydream.updateParams(created.id, { seed: 8 });
+    expect(updated.params).toEqual({ prompt: "a forest", seed: 8 });
+    expect(server.getStreams()[0].params).toEqual(updated.params);
+  });
+
+  it("rejects invalid parameters with the field details", async () => {
+    const server = createFakeDaydreamServer({ latencyMs: 0 });
+    const daydream = new DaydreamClient({
+      apiKey: "dev-key",
+      ...server.clientOptions,
+    });
+
+    const error = await daydream
+      .createStream({ pipelineId: "pip_1", params: { seed: -1 } })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DaydreamValidationError);
+    expect((error as DaydreamValidationError).details).toEqual([
+      { field: "seed", message: "must be a non-negative integer" },
+    ]);
+  });
+
+  it.each(["GET", "PATCH", "DELETE"])(
+    "retries %s on 5xx and network errors",
+    async (method) => {
+      const { fetch, calls } = scriptedFetch([
+        status(503),
+        new TypeError("Failed to fetch"),
+        method === "DELETE" ? new Response(null, { status: 204 }) : stream(),
+      ]);
+      const daydream = client(fetch);
+
+      if (method === "GET") await daydream.getStream("str_1");
+      if (method === "PATCH") await daydream.updateParams("str_1", {});
+      if (method === "DELETE") await daydream.deleteStream("str_1");
+
+      expect(calls).toEqual([method, method, method]);
+    }
+  );
+
+  it("does not retry a POST that may have created the stream", async () => {
+    for (const failure of [status(503), new TypeError("Failed to fetch")]) {
+      const { fetch, calls } = scriptedFetch([failure, stream()]);
+
+      await expect(
+        client(fetch).createStream({ pipelineId: "pip_1" })
+      ).rejects.toBeDefined();
+      expect(calls).toEqual(["POST"]);
+    }
+  });
+
+  it("retries a rate-limited POST only when Retry-After is sent", async () => {
+    const limited = scriptedFetch([
+      status(429, { "Retry-After": "0" }),
+      stream(),
+    ]);
+    const created = await client(limited.fetch).createStream({
+      pipelineId: "pip_1",
+    });
+    expect(created.id).toBe("str_1");
+    expect(limited.calls).toEqual(["POST", "POST"]);
+
+    const bare = scriptedFetch([status(429), stream()]);
+    const error = await client(bare.fetch)
+      .createStream({ pipelineId: "pip_1" })
+      .catch((e) => e);
+    expect(error).toBeInstanceOf(DaydreamRateLimitError);
+    expect(bare.calls).toEqual(["POST"]);
+  });
+
+  it("gives up once the retries run out", async () => {
+    const { fetch, calls } = scriptedFetch([
+      status(500),
+      status(500),
+      status(500),
+      status(500),
+    ]);
+
+    const error = await client(fetch)
+      .getStream("str_1")
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(DaydreamApiError);
+    expect((error as DaydreamApiError).status).toBe(500);
+    expect(calls).toHaveLength(4);
+  });
+});
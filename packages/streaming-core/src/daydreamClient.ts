@@ -0,0 +1,286 @@
+export interface DaydreamStreamParams {
+  model_id?: string;
+  /** A single prompt or a list of weighted prompts */
+  prompt?: string | Array<[string, number]>;
+  negative_prompt?: string;
+  seed?: number;
+  guidance_scale?: number;
+  /** Denoise strength */
+  delta?: number;
+  num_inference_steps?: number;
+  t_index_list?: number[];
+  prompt_interpolation_method?: "linear" | "slerp";
+  normalize_prompt_weights?: boolean;
+  [key: string]: unknown;
+}
+
+export interface DaydreamStream {
+  id: string;
+  pipelineId: string;
+  playbackId: string;
+  whipUrl: string;
+  whepUrl: string;
+  params: DaydreamStreamParams;
+  createdAt: string;
+}
+
+export interface CreateDaydreamStreamOptions {
+  pipelineId: string;
+  params?: DaydreamStreamParams;
+}
+
+export interface DaydreamRetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubled on every attempt (default: 500) */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface DaydreamClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  /** Base URL that playback ids are appended to for WHEP playback */
+  whepBaseUrl?: string;
+  retry?: DaydreamRetryOptions;
+  /** Fetch implementation, overridable to run against a fake server */
+  fetch?: typeof fetch;
+}
+
+/** Wire format of a stream as returned by the Daydream API */
+export interface DaydreamStreamResponse {
+  id: string;
+  pipeline_id: string;
+  output_playback_id: string;
+  whip_url: string;
+  params?: DaydreamStreamParams;
+  created_at: string;
+}
+
+export const DAYDREAM_API_URL = "https://api.daydream.live";
+export const DAYDREAM_WHEP_URL = "https://livepeer.studio/webrtc";
+
+export class DaydreamApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+
+  constructor(message: string, status: number, body: unknown) {
+    super(message);
+    this.name = "DaydreamApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** 401 - missing or invalid API key */
+export class DaydreamAuthError extends DaydreamApiError {
+  constructor(message: string, body: unknown) {
+    super(message, 401, body);
+    this.name = "DaydreamAuthError";
+  }
+}
+
+/** 404 - the stream does not exist (or was already deleted) */
+export class DaydreamNotFoundError extends DaydreamApiError {
+  constructor(message: string, body: unknown) {
+    super(message, 404, body);
+    this.name = "DaydreamNotFoundError";
+  }
+}
+
+/** 422 - the request body failed validation */
+export class DaydreamValidationError extends DaydreamApiError {
+  readonly details: Array<{ field?: string; message: string }>;
+
+  constructor(message: string, body: unknown) {
+    super(message, 422, body);
+    this.name = "DaydreamValidationError";
+    const details = (body as { details?: unknown } | null)?.details;
+    this.details = Array.isArray(details) ? details : [];
+  }
+}
+
+/**
+ * 429 - too many requests; retried automatically until retries run out.
+ * Stream creation is only retried when the response carries Retry-After.
+ */
+export class DaydreamRateLimitError extends DaydreamApiError {
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, body: unknown, retryAfterMs: number | null) {
+    super(message, 429, body);
+    this.name = "DaydreamRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const toApiError = async (response: Response): Promise<DaydreamApiError> => {
+  let body: unknown = null;
+  try {
+    body = await response.json();
+  } catch {
+    body = null;
+  }
+
+  const message =
+    (body as { error?: string; message?: string } | null)?.error ??
+    (body as { message?: string } | null)?.message ??
+    `Daydream API request failed with ${response.status}`;
+
+  switch (response.status) {
+    case 401:
+      return new DaydreamAuthError(message, body);
+    case 404:
+      return new DaydreamNotFoundError(message, body);
+    case 422:
+      return new DaydreamValidationError(message, body);
+    case 429:
+      return new DaydreamRateLimitError(
+        message,
+        body,
+        parseRetryAfter(response.headers.get("Retry-After"))
+      );
+    default:
+      return new DaydreamApiError(message, response.status, body);
+  }
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "DELETE", "PATCH"]);
+
+const isRetryable = (method: string, error: unknown) => {
+  // A POST that failed may still have created the stream, so it is only
+  // repeated when the server asked for it to be
+  if (!IDEMPOTENT_METHODS.has(method)) {
+    return (
+      error instanceof DaydreamRateLimitError && error.retryAfterMs !== null
+    );
+  }
+  if (error instanceof DaydreamRateLimitError) return true;
+  if (error instanceof DaydreamApiError) return error.status >= 500;
+  // fetch rejects with a TypeError on network failures
+  return error instanceof TypeError;
+};
+
+/**
+ * Typed client for the Daydream stream lifecycle: create a stream, read it,
+ * push pipeline parameter updates and delete it
+ */
+export class DaydreamClient {
+  private options: DaydreamClientOptions;
+
+  constructor(options: DaydreamClientOptions) {
+    this.options = options;
+  }
+
+  async createStream({
+    pipelineId,
+    params,
+  }: CreateDaydreamStreamOptions): Promise<DaydreamStream> {
+    const body = await this.request<DaydreamStreamResponse>(
+      "POST",
+      "/v1/streams",
+      { pipeline_id: pipelineId, params: params ?? {} }
+    );
+    return this.toStream(body);
+  }
+
+  async getStream(id: string): Promise<DaydreamStream> {
+    const body = await this.request<DaydreamStreamResponse>(
+      "GET",
+      `/v1/streams/${encodeURIComponent(id)}`
+    );
+    return this.toStream(body);
+  }
+
+  async updateParams(
+    id: string,
+    params: DaydreamStreamParams
+  ): Promise<DaydreamStream> {
+    const body = await this.request<DaydreamStreamResponse>(
+      "PATCH",
+      `/v1/streams/${encodeURIComponent(id)}`,
+      { params }
+    );
+    return this.toStream(body);
+  }
+
+  async deleteStream(id: string): Promise<void> {
+    await this.request("DELETE", `/v1/streams/${encodeURIComponent(id)}`);
+  }
+
+  private toStream(body: DaydreamStreamResponse): DaydreamStream {
+    const whepBaseUrl = (this.options.whepBaseUrl ?? DAYDREAM_WHEP_URL).replace(
+      /\/$/,
+      ""
+    );
+    return {
+      id: body.id,
+      pipelineId: body.pipeline_id,
+      playbackId: body.output_playback_id,
+      whipUrl: body.whip_url,
+      whepUrl: `${whepBaseUrl}/${body.output_playback_id}`,
+      params: body.params ?? {},
+      createdAt: body.created_at,
+    };
+  }
+
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const {
+      maxRetries = 3,
+      baseDelayMs = 500,
+      maxDelayMs = 8000,
+    } = this.options.retry ?? {};
+    const baseUrl = (this.options.baseUrl ?? DAYDREAM_API_URL).replace(
+      /\/$/,
+      ""
+    );
+    const doFetch = this.options.fetch ?? ((input, init) => fetch(input, init));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await doFetch(`${baseUrl}${path}`, {
+          method,
+          headers: {
+            Authorization: `Bearer ${this.options.apiKey}`,
+            ...(body !== undefined && { "Content-Type": "application/json" }),
+          },
+          body: body !== undefined ? JSON.stringify(body) : undefined,
+        });
+
+        if (!response.ok) {
+          throw await toApiError(response);
+        }
+
+        if (response.status === 204) {
+          return undefined as T;
+        }
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(method, error)) {
+          throw error;
+        }
+
+        const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+        const jittered = backoff / 2 + Math.random() * (backoff / 2);
+        const retryAfter =
+          error instanceof DaydreamRateLimitError ? error.retryAfterMs : null;
+        await sleep(Math.max(jittered, retryAfter ?? 0));
+      }
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DaydreamClient } from "./daydreamClient";
+import { createFakeDaydreamServer } from "./fakeDaydreamServer";
+import { WhipClient } from "./whipClient";
+
+const sdp = (ufrag: string, direction: string, candidate?: string) =>
+  [
+    "v=0",
+    "o=- 1 2 IN IP4 127.0.0.1",
+    "s=-",
+    "t=0 0",
+    "m=video 9 UDP/TLS/RTP/SAVPF 96",
+    "a=mid:0",
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${ufrag}password0123456789`,
+    "a=fingerprint:sha-256 AB:CD",
+    `a=${direction}`,
+    ...(candidate ? [`a=${candidate}`] : []),
+    "",
+  ].join("\r\n");
+
+const LOOPBACK_CANDIDATE = "1 udp 2130706431 127.0.0.1 9 typ host";
+
+/**
+ * Peer connection for both ends of the loopback: offers come from the
+ * publisher, answers from the fake server, each with fresh ICE credentials
+ */
+class FakePeerConnection extends EventTarget {
+  static instances: FakePeerConnection[] = [];
+
+  connectionState: RTCPeerConnectionState = "new";
+  iceGatheringState: RTCIceGatheringState = "new";
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  candidates: RTCIceCandidateInit[] = [];
+  private generation = 0;
+
+  constructor() {
+    super();
+    FakePeerConnection.instances.push(this);
+  }
+
+  addTransceiver() {}
+
+  getSenders() {
+    return [];
+  }
+
+  getTransceivers() {
+    return [];
+  }
+
+  async createOffer() {
+    const ufrag = `publisher${++this.generation}`;
+    return { type: "offer" as const, sdp: sdp(ufrag, "sendonly") };
+  }
+
+  async createAnswer() {
+    const ufrag = `server${++this.generation}`;
+    const candidate = `candidate:${this.generation} ${LOOPBACK_CANDIDATE}`;
+    return { type: "answer" as const, sdp: sdp(ufrag, "recvonly", candidate) };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+    this.iceGatheringState = "complete";
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+  }
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    this.candidates.push(candidate);
+  }
+
+  close() {
+    this.connectionState = "closed";
+  }
+}
+
+const createStream = () => {
+  const video = { id: "video", kind: "video" } as MediaStreamTrack;
+  return Object.assign(new EventTarget(), {
+    getAudioTracks: () => [],
+    getVideoTracks: () => [video],
+    getTrackById: () => video,
+  }) as unknown as MediaStream;
+};
+
+const publish = async () => {
+  const server = createFakeDaydreamServer({ latencyMs: 0 });
+  const daydream = new DaydreamClient({
+    apiKey: "dev-key",
+    ...server.clientOptions,
+  });
+  const { whipUrl } = await daydream.createStream({ pipelineId: "pip_1" });
+  const whip = new WhipClient({ endpoint: whipUrl, fetch: server.fetch });
+  await whip.publish(createStream());
+  const [publisher, ingest] = FakePeerConnection.instances;
+  return { whip, publisher, ingest };
+};
+
+describe("fake Daydream WHIP ingest", () => {
+  beforeEach(() => {
+    FakePeerConnection.instances = [];
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("answers the offer on a new ingest connection", async () => {
+    const { whip, publisher, ingest } = await publish();
+
+    expect(whip.getResourceUrl()).toBe(
+      "https://fake.daydream.local/whip/str_fake1/ingest"
+    );
+    expect(ingest.remoteDescription?.sdp).toContain("a=ice-ufrag:publisher1");
+    expect(publisher.remoteDescription?.sdp).toContain("a=ice-ufrag:server1");
+  });
+
+  it("takes a publish to the stream's whip_url only through its fetch", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (input: RequestInfo | URL) => {
+        throw new TypeError(`Failed to fetch ${input.toString()}`);
+      })
+    );
+    const server = createFakeDaydreamServer({ latencyMs: 0 });
+    const daydream = new DaydreamClient({
+      apiKey: "dev-key",
+      ...server.clientOptions,
+    });
+    const { whipUrl } = await daydream.createStream({ pipelineId: "pip_1" });
+
+    const unwired = new WhipClient({ endpoint: whipUrl });
+    await expect(unwired.publish(createStream())).rejects.toThrow(
+      "Failed to fetch https://fake.daydream.local/whip/str_fake1"
+    );
+
+    const whip = new WhipClient({ endpoint: whipUrl, fetch: server.fetch });
+    await whip.publish(createStream());
+    expect(whip.getResourceUrl()).toBe(
+      "https://fake.daydream.local/whip/str_fake1/ingest"
+    );
+    const ingest = FakePeerConnection.instances.at(-1);
+    expect(ingest?.remoteDescription?.type).toBe("offer");
+  });
+
+  it("restarts ICE when a PATCH carries new credentials", async () => {
+    const { whip, publisher, ingest } = await publish();
+
+    await whip.restartIce();
+
+    // The ingest side renegotiated with the publisher's new credentials...
+    expect(ingest.remoteDescription?.sdp).toContain("a=ice-ufrag:publisher2");
+    expect(ingest.remoteDescription?.sdp).toContain(
+      "a=ice-pwd:publisher2password0123456789"
+    );
+    // ...and the publisher took the server's new ones from the sdpfrag
+    expect(publisher.remoteDescription?.type).toBe("answer");
+    expect(publisher.remoteDescription?.sdp).toContain("a=ice-ufrag:server2");
+    expect(publisher.remoteDescription?.sdp).toContain(
+      "a=ice-pwd:server2password0123456789"
+    );
+    expect(publisher.candidates).toEqual([
+      {
+        candidate: "candidate:2 1 udp 2130706431 127.0.0.1 9 typ host",
+        sdpMid: "0",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,580 @@
+import type {
+  DaydreamClientOptions,
+  DaydreamStreamParams,
+  DaydreamStreamResponse,
+} from "./daydreamClient";
+
+export interface FakeDaydreamServerOptions {
+  baseUrl?: string;
+  /** Artificial latency added to every response (default: 50) */
+  latencyMs?: number;
+  /** Reject API requests with 429 once this many arrive within the window */
+  rateLimit?: { requests: number; windowMs: number };
+  width?: number;
+  height?: number;
+}
+
+export interface FakeDaydreamServer {
+  fetch: typeof fetch;
+  /** Options that point a DaydreamClient at this server */
+  clientOptions: Required<
+    Pick<DaydreamClientOptions, "baseUrl" | "whepBaseUrl" | "fetch">
+  >;
+  getStreams(): DaydreamStreamResponse[];
+  reset(): void;
+}
+
+type ValidationDetail = { field: string; message: string };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const json = (status: number, body: unknown, headers?: HeadersInit) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const validateParams = (params: unknown): ValidationDetail[] => {
+  if (params === undefined) return [];
+  if (typeof params !== "object" || params === null || Array.isArray(params)) {
+    return [{ field: "params", message: "must be an object" }];
+  }
+
+  const details: ValidationDetail[] = [];
+  const { prompt, seed, guidance_scale, delta, num_inference_steps } =
+    params as DaydreamStreamParams;
+
+  const isWeightedPrompt = (value: unknown) =>
+    Array.isArray(value) &&
+    value.every(
+      (entry) =>
+        Array.isArray(entry) &&
+        typeof entry[0] === "string" &&
+        typeof entry[1] === "number"
+    );
+  if (
+    prompt !== undefined &&
+    typeof prompt !== "string" &&
+    !isWeightedPrompt(prompt)
+  ) {
+    details.push({
+      field: "prompt",
+      message: "must be a string or a list of [prompt, weight] pairs",
+    });
+  }
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+    details.push({ field: "seed", message: "must be a non-negative integer" });
+  }
+  if (guidance_scale !== undefined && typeof guidance_scale !== "number") {
+    details.push({ field: "guidance_scale", message: "must be a number" });
+  }
+  if (delta !== undefined && (typeof delta !== "number" || delta < 0)) {
+    details.push({ field: "delta", message: "must be a non-negative number" });
+  }
+  if (
+    num_inference_steps !== undefined &&
+    (!Number.isInteger(num_inference_steps) || num_inference_steps < 1)
+  ) {
+    details.push({
+      field: "num_inference_steps",
+      message: "must be a positive integer",
+    });
+  }
+
+  return details;
+};
+
+const promptText = (prompt: DaydreamStreamParams["prompt"]) => {
+  if (typeof prompt === "string") return prompt;
+  if (!prompt || prompt.length === 0) return "";
+  return [...prompt].sort((a, b) => b[1] - a[1])[0][0];
+};
+
+const hashString = (value: string) => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const waitForIceGathering = (pc: RTCPeerConnection, timeoutMs: number) =>
+  new Promise<void>((resolve) => {
+    if (pc.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+
+    const timeout = setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timeout);
+      pc.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    }
+    function onChange() {
+      if (pc.iceGatheringState === "complete") done();
+    }
+
+    pc.addEventListener("icegatheringstatechange", onChange);
+  });
+
+/**
+ * Stands in for the AI pipeline: redraws the ingested video onto a canvas
+ * with a tint derived from the prompt and seed, and captions the prompt so
+ * parameter updates are visible in the output
+ */
+class FakePipeline {
+  private video: HTMLVideoElement;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null;
+  private timer: ReturnType<typeof setInterval>;
+  private params: DaydreamStreamParams;
+  readonly outputTrack: MediaStreamTrack;
+
+  constructor(width: number, height: number, params: DaydreamStreamParams) {
+    this.params = params;
+    this.video = document.createElement("video");
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.canvas = document.createElement("canvas");
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.ctx = this.canvas.getContext("2d");
+    this.outputTrack = this.canvas.captureStream(30).getVideoTracks()[0];
+    this.timer = setInterval(() => this.render(), 1000 / 30);
+  }
+
+  setInput(track: MediaStreamTrack) {
+    this.video.srcObject = new MediaStream([track]);
+    this.video.play().catch(() => {});
+  }
+
+  setParams(params: DaydreamStreamParams) {
+    this.params = params;
+  }
+
+  destroy() {
+    clearInterval(this.timer);
+    this.outputTrack.stop();
+    this.video.srcObject = null;
+  }
+
+  private render() {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    const { width, height } = this.canvas;
+    const prompt = promptText(this.params.prompt);
+
+    ctx.filter = "none";
+    ctx.fillStyle = "#111";
+    ctx.fillRect(0, 0, width, height);
+
+    if (this.video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      const hue = hashString(`${prompt}:${this.params.seed ?? 0}`) % 360;
+      const strength = Math.min(1, Math.max(0, this.params.delta ?? 0.5));
+      ctx.filter = `hue-rotate(${hue}deg) saturate(${1 + strength * 2})`;
+
+      const scale = Math.max(
+        width / (this.video.videoWidth || width),
+        height / (this.video.videoHeight || height)
+      );
+      const drawWidth = (this.video.videoWidth || width) * scale;
+      const drawHeight = (this.video.videoHeight || height) * scale;
+      ctx.drawImage(
+        this.video,
+        (width - drawWidth) / 2,
+        (height - drawHeight) / 2,
+        drawWidth,
+        drawHeight
+      );
+      ctx.filter = "none";
+    }
+
+    ctx.fillStyle = "rgba(0, 0, 0, 0.6)";
+    ctx.fillRect(0, height - 32, width, 32);
+    ctx.fillStyle = "#fff";
+    ctx.font = "14px sans-serif";
+    ctx.textBaseline = "middle";
+    ctx.fillText(prompt || "(no prompt)", 10, height - 16, width - 20);
+  }
+}
+
+interface FakeStreamRecord {
+  stream: DaydreamStreamResponse;
+  pipeline: FakePipeline | null;
+  audioTrack: MediaStreamTrack | null;
+  ingest: RTCPeerConnection | null;
+  egress: Map<string, RTCPeerConnection>;
+}
+
+/**
+ * In-process stand-in for the Daydream API plus its WHIP ingest and WHEP
+ * playback endpoints, exposed as a fetch implementation. Media is looped back
+ * through real peer connections so the examples run end-to-end offline.
+ */
+export const createFakeDaydreamServer = ({
+  baseUrl = "https://fake.daydream.local",
+  latencyMs = 50,
+  rateLimit,
+  width = 512,
+  height = 512,
+}: FakeDaydreamServerOptions = {}): FakeDaydreamServer => {
+  const origin = baseUrl.replace(/\/$/, "");
+  const records = new Map<string, FakeStreamRecord>();
+  let requestTimes: number[] = [];
+  let nextId = 1;
+
+  const findByPlaybackId = (playbackId: string) =>
+    [...records.values()].find(
+      (record) => record.stream.output_playback_id === playbackId
+    );
+
+  const closeRecord = (record: FakeStreamRecord) => {
+    record.ingest?.close();
+    record.egress.forEach((pc) => pc.close());
+    record.egress.clear();
+    record.pipeline?.destroy();
+  };
+
+  const updateEgressAudio = (record: FakeStreamRecord) => {
+    record.egress.forEach((pc) => {
+      pc.getTransceivers()
+        .filter((t) => t.receiver.track.kind === "audio")
+        .forEach((t) => t.sender.replaceTrack(record.audioTrack).catch(() => {}));
+    });
+  };
+
+  const answerOffer = async (pc: RTCPeerConnection) => {
+    const answer = await pc.createAnswer();
+    await pc.setLocalDescription(answer);
+    await waitForIceGathering(pc, 1000);
+    return pc.localDescription?.sdp ?? answer.sdp ?? "";
+  };
+
+  const handleApi = async (
+    method: string,
+    path: string[],
+    headers: Headers,
+    body: string | null
+  ): Promise<Response> => {
+    if (rateLimit) {
+      const now = Date.now();
+      requestTimes = requestTimes.filter((t) => now - t < rateLimit.windowMs);
+      if (requestTimes.length >= rateLimit.requests) {
+        const retryAfter = Math.ceil(
+          (rateLimit.windowMs - (now - requestTimes[0])) / 1000
+        );
+        return json(
+          429,
+          { error: "Too many requests" },
+          { "Retry-After": String(retryAfter) }
+        );
+      }
+      requestTimes.push(now);
+    }
+
+    const auth = headers.get("Authorization") ?? "";
+    if (!/^Bearer \S+/.test(auth)) {
+      return json(401, { error: "Missing or invalid API key" });
+    }
+
+    let payload: Record<string, unknown> = {};
+    if (body) {
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return json(422, {
+          error: "Invalid request body",
+          details: [{ field: "body", message: "must be valid JSON" }],
+        });
+      }
+    }
+
+    const [id] = path;
+
+    if (!id) {
+      if (method !== "POST") return json(405, { error: "Method not allowed" });
+
+      const details = validateParams(payload.params);
+      if (typeof payload.pipeline_id !== "string" || !payload.pipeline_id) {
+        details.unshift({ field: "pipeline_id", message: "is required" });
+      }
+      if (details.length > 0) {
+        return json(422, { error: "Invalid stream request", details });
+      }
+
+      const streamId = `str_fake${nextId++}`;
+      const stream: DaydreamStreamResponse = {
+        id: streamId,
+        pipeline_id: payload.pipeline_id as string,
+        output_playback_id: `${streamId}_out`,
+        whip_url: `${origin}/whip/${streamId}`,
+        params: (payload.params as DaydreamStreamParams) ?? {},
+        created_at: new Date().toISOString(),
+      };
+      records.set(streamId, {
+        stream,
+        pipeline: null,
+        audioTrack: null,
+        ingest: null,
+        egress: new Map(),
+      });
+      return json(201, stream);
+    }
+
+    const record = records.get(id);
+    if (!record) {
+      return json(404, { error: `Stream ${id} not found` });
+    }
+
+    switch (method) {
+      case "GET":
+        return json(200, record.stream);
+      case "PATCH": {
+        const details = validateParams(payload.params);
+        if (details.length > 0) {
+          return json(422, { error: "Invalid stream parameters", details });
+        }
+        record.stream = {
+          ...record.stream,
+          params: {
+            ...record.stream.params,
+            ...(payload.params as DaydreamStreamParams),
+          },
+        };
+        record.pipeline?.setParams(record.stream.params ?? {});
+        return json(200, record.stream);
+      }
+      case "DELETE":
+        closeRecord(record);
+        records.delete(id);
+        return new Response(null, { status: 204 });
+      default:
+        return json(405, { error: "Method not allowed" });
+    }
+  };
+
+  /**
+   * New ICE credentials in a session PATCH are an ICE restart: renegotiate
+   * the ingest connection with them and answer with the server's new
+   * credentials and candidates as an sdpfrag
+   */
+  const restartIngestIce = async (
+    record: FakeStreamRecord,
+    pc: RTCPeerConnection,
+    remoteSdp: string,
+    ufrag: string,
+    pwd: string
+  ): Promise<Response> => {
+    const offer = remoteSdp
+      .replace(/a=ice-ufrag:.*\r?\n/g, `a=ice-ufrag:${ufrag}\r\n`)
+      .replace(/a=ice-pwd:.*\r?\n/g, `a=ice-pwd:${pwd}\r\n`)
+      .replace(/a=candidate:.*\r?\n/g, "");
+    await pc.setRemoteDescription({ type: "offer", sdp: offer });
+    const answer = await answerOffer(pc);
+
+    const newUfrag = answer.match(/a=ice-ufrag:(.*)\r?\n/)?.[1];
+    const newPwd = answer.match(/a=ice-pwd:(.*)\r?\n/)?.[1];
+    const lines = [`a=ice-ufrag:${newUfrag}`, `a=ice-pwd:${newPwd}`];
+    for (const line of answer.split(/\r?\n/)) {
+      if (
+        line.startsWith("m=") ||
+        line.startsWith("a=mid:") ||
+        line.startsWith("a=candidate:")
+      ) {
+        lines.push(line);
+      }
+    }
+
+    return new Response(`${lines.join("\r\n")}\r\n`, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/trickle-ice-sdpfrag",
+        ETag: `"${record.stream.id}-ingest-${nextId++}"`,
+      },
+    });
+  };
+
+  const handleWhip = async (
+    method: string,
+    path: string[],
+    body: string | null
+  ): Promise<Response> => {
+    const [id, session] = path;
+    const record = id ? records.get(id) : undefined;
+    if (!record) return new Response("Stream not found", { status: 404 });
+
+    if (session) {
+      if (method === "PATCH") {
+        const fragment = body ?? "";
+        const ufrag = fragment.match(/a=ice-ufrag:(.*)\r?\n/)?.[1];
+        const pwd = fragment.match(/a=ice-pwd:(.*)\r?\n/)?.[1];
+        const remoteSdp = record.ingest?.remoteDescription?.sdp;
+        if (
+          record.ingest &&
+          remoteSdp &&
+          ufrag &&
+          pwd &&
+          !remoteSdp.includes(`a=ice-ufrag:${ufrag}\r\n`)
+        ) {
+          return restartIngestIce(record, record.ingest, remoteSdp, ufrag, pwd);
+        }
+
+        // Trickled candidates: one m-section per mid with a=candidate lines
+        let mid = "0";
+        for (const line of fragment.split(/\r?\n/)) {
+          if (line.startsWith("a=mid:")) mid = line.slice(6);
+          if (line.startsWith("a=candidate:")) {
+            await record.ingest
+              ?.addIceCandidate({ candidate: line.slice(2), sdpMid: mid })
+              .catch(() => {});
+          }
+        }
+        return new Response(null, { status: 204 });
+      }
+      if (method === "DELETE") {
+        record.ingest?.close();
+        record.ingest = null;
+        return new Response(null, { status: 200 });
+      }
+      return new Response(null, { status: 405 });
+    }
+
+    if (method !== "POST" || !body) return new Response(null, { status: 400 });
+    if (typeof RTCPeerConnection === "undefined") {
+      return new Response("WebRTC is unavailable", { status: 501 });
+    }
+
+    record.ingest?.close();
+    const pc = new RTCPeerConnection();
+    record.ingest = pc;
+
+    pc.addEventListener("track", (event) => {
+      if (event.track.kind === "video") {
+        if (!record.pipeline) {
+          record.pipeline = new FakePipeline(
+            width,
+            height,
+            record.stream.params ?? {}
+          );
+          record.egress.forEach((egress) => {
+            egress
+              .getTransceivers()
+              .filter((t) => t.receiver.track.kind === "video")
+              .forEach((t) =>
+                t.sender.replaceTrack(record.pipeline!.outputTrack).catch(() => {})
+              );
+          });
+        }
+        record.pipeline.setInput(event.track);
+      } else {
+        record.audioTrack = event.track;
+        updateEgressAudio(record);
+      }
+    });
+
+    await pc.setRemoteDescription({ type: "offer", sdp: body });
+    const answer = await answerOffer(pc);
+    return new Response(answer, {
+      status: 201,
+      headers: {
+        "Content-Type": "application/sdp",
+        Location: `${origin}/whip/${id}/ingest`,
+        ETag: `"${id}-ingest"`,
+      },
+    });
+  };
+
+  const handleWhep = async (
+    method: string,
+    path: string[],
+    body: string | null
+  ): Promise<Response> => {
+    const [playbackId, session] = path;
+    const record = playbackId ? findByPlaybackId(playbackId) : undefined;
+    if (!record) return new Response("Playback not found", { status: 404 });
+
+    if (session) {
+      if (method !== "DELETE") return new Response(null, { status: 405 });
+      record.egress.get(session)?.close();
+      record.egress.delete(session);
+      return new Response(null, { status: 200 });
+    }
+
+    if (method !== "POST" || !body) return new Response(null, { status: 400 });
+    if (typeof RTCPeerConnection === "undefined") {
+      return new Response("WebRTC is unavailable", { status: 501 });
+    }
+
+    const pc = new RTCPeerConnection();
+    await pc.setRemoteDescription({ type: "offer", sdp: body });
+    for (const transceiver of pc.getTransceivers()) {
+      transceiver.direction = "sendonly";
+      const track =
+        transceiver.receiver.track.kind === "video"
+          ? record.pipeline?.outputTrack ?? null
+          : record.audioTrack;
+      await transceiver.sender.replaceTrack(track);
+    }
+
+    const sessionId = `egress${nextId++}`;
+    record.egress.set(sessionId, pc);
+    const answer = await answerOffer(pc);
+    return new Response(answer, {
+      status: 201,
+      headers: {
+        "Content-Type": "application/sdp",
+        Location: `${origin}/whep/${playbackId}/${sessionId}`,
+      },
+    });
+  };
+
+  const fakeFetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = input instanceof Request ? input : null;
+    const url = new URL(request ? request.url : input.toString());
+    const method = (init?.method ?? request?.method ?? "GET").toUpperCase();
+    const headers = new Headers(init?.headers ?? request?.headers);
+    const body =
+      typeof init?.body === "string"
+        ? init.body
+        : request
+          ? await request.text()
+          : null;
+
+    if (latencyMs > 0) await sleep(latencyMs);
+
+    if (url.origin !== new URL(origin).origin) {
+      throw new TypeError(`Failed to fetch ${url.href}`);
+    }
+
+    const [root, ...rest] = url.pathname.split("/").filter(Boolean);
+    switch (root) {
+      case "v1":
+        if (rest[0] !== "streams") break;
+        return handleApi(method, rest.slice(1), headers, body || null);
+      case "whip":
+        return handleWhip(method, rest, body || null);
+      case "whep":
+        return handleWhep(method, rest, body || null);
+    }
+    return json(404, { error: "Not found" });
+  };
+
+  return {
+    fetch: fakeFetch as typeof fetch,
+    clientOptions: {
+      baseUrl: origin,
+      whepBaseUrl: `${origin}/whep`,
+      fetch: fakeFetch as typeof fetch,
+    },
+    getStreams: () => [...records.values()].map((record) => record.stream),
+    reset: () => {
+      records.forEach(closeRecord);
+      records.clear();
+      requestTimes = [];
+    },
+  };
+};
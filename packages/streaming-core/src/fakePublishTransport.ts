@@ -0,0 +1,118 @@
+import { WhipRequestError, type WhipPublishState } from "./whipClient";
+import { systemClock } from "./promptScheduler";
+import type {
+  PublishTransport,
+  PublishTransportFactory,
+  ReconnectClock,
+} from "./reconnectingPublisher";
+
+export type FakeTransportOperation = "publish" | "restartIce";
+
+interface FakeSession {
+  id: number;
+  setState: (state: WhipPublishState) => void;
+  stopped: boolean;
+}
+
+export interface FakePublishTransportOptions {
+  clock?: ReconnectClock;
+  /** Time from a successful publish or ICE restart to "connected" (default: 100) */
+  connectDelayMs?: number;
+}
+
+export interface FakePublishTransport {
+  createTransport: PublishTransportFactory;
+  /** Make the next call of `operation` reject (default: a 503 from the endpoint) */
+  failNext(operation: FakeTransportOperation, error?: Error): void;
+  /** Interrupt the current session, as a network change or sleeping tab would */
+  drop(state?: "disconnected" | "failed"): void;
+  /** Let an interrupted session come back on its own */
+  recover(): void;
+  /** Every transport call so far, e.g. `["publish:1", "restartIce:1"]` */
+  getCalls(): string[];
+  /** Stream passed to the most recent publish */
+  getPublishedStream(): MediaStream | null;
+}
+
+/**
+ * Scripted stand-in for WhipClient so the reconnect state machine can be
+ * driven without a network. Queue failures with `failNext`, interrupt the
+ * live session with `drop` and bring it back with `recover`.
+ */
+export const createFakePublishTransport = ({
+  clock = systemClock,
+  connectDelayMs = 100,
+}: FakePublishTransportOptions = {}): FakePublishTransport => {
+  const failures: Array<{ operation: FakeTransportOperation; error: Error }> =
+    [];
+  const calls: string[] = [];
+  let sessions = 0;
+  let current: FakeSession | null = null;
+  let publishedStream: MediaStream | null = null;
+
+  const takeFailure = (operation: FakeTransportOperation) => {
+    const index = failures.findIndex((f) => f.operation === operation);
+    return index === -1 ? null : failures.splice(index, 1)[0].error;
+  };
+
+  const createTransport: PublishTransportFactory = (onStateChange) => {
+    const session: FakeSession = {
+      id: ++sessions,
+      setState: onStateChange,
+      stopped: false,
+    };
+
+    const connectLater = () => {
+      clock.setTimeout(() => {
+        if (!session.stopped) onStateChange("connected");
+      }, connectDelayMs);
+    };
+
+    const transport: PublishTransport = {
+      async publish(stream) {
+        calls.push(`publish:${session.id}`);
+        current = session;
+        publishedStream = stream;
+        onStateChange("connecting");
+        const error = takeFailure("publish");
+        if (error) {
+          onStateChange("failed");
+          throw error;
+        }
+        connectLater();
+      },
+      async restartIce() {
+        calls.push(`restartIce:${session.id}`);
+        const error = takeFailure("restartIce");
+        if (error) throw error;
+        connectLater();
+      },
+      async stop() {
+        calls.push(`stop:${session.id}`);
+        session.stopped = true;
+        if (current === session) current = null;
+        onStateChange("closed");
+      },
+      getPeerConnection: () => null,
+    };
+    return transport;
+  };
+
+  return {
+    createTransport,
+    failNext: (
+      operation,
+      error = new WhipRequestError("WHIP endpoint responded with 503", 503)
+    ) => {
+      failures.push({ operation, error });
+    },
+    drop: (state = "disconnected") => {
+      current?.setState(state);
+    },
+    recover: () => {
+      current?.setState("connected");
+    },
+    getCalls: () => [...calls],
+    getPublishedStream: () => publishedStream,
+  };
+};
@@ -0,0 +1,175 @@
+export { STREAMING_CORE_VERSION } from "./version";
+export { STREAMING_CONFIG } from "./streamingConfig";
+
+export {
+  OUTPUT_PROFILES,
+  DEFAULT_OUTPUT_PROFILE,
+  resolveOutputProfile,
+  replaceStreamTrack,
+  recaptureCanvasTrack,
+} from "./outputProfiles";
+export type { OutputProfile, OutputProfileName } from "./outputProfiles";
+
+export {
+  audioTrackManager,
+  createSilentAudioTrack,
+  cleanupAudioTrack,
+} from "./audioTrackManager";
+
+export {
+  streamStabilizer,
+  createStableCanvasStream,
+  logStreamValidation,
+} from "./streamStabilizer";
+export type {
+  StreamValidationOptions,
+  StreamStabilizationResult,
+} from "./streamStabilizer";
+
+export {
+  streamComplexityManager,
+  StreamComplexityManager,
+  measureFrameComplexity,
+} from "./streamComplexityManager";
+export type {
+  ComplexityInjectionOptions,
+  ComplexityMetrics,
+  ComplexitySource,
+} from "./streamComplexityManager";
+
+export { useBackgroundStreaming } from "./useBackgroundStreaming";
+export type {
+  UseBackgroundStreamingOptions,
+  BackgroundStreamingHook,
+} from "./useBackgroundStreaming";
+
+export { WhipClient, WhipRequestError } from "./whipClient";
+export type { WhipClientOptions, WhipPublishState } from "./whipClient";
+
+export { createMockWhipServer } from "./mockWhipServer";
+export type {
+  MockWhipRequest,
+  MockWhipServer,
+  MockWhipServerOptions,
+} from "./mockWhipServer";
+
+export { WhepClient } from "./whepClient";
+export type { WhepClientOptions, WhepPlaybackState } from "./whepClient";
+
+export {
+  ReconnectingPublisher,
+  reconnectDelay,
+  isRetryablePublishError,
+} from "./reconnectingPublisher";
+export type {
+  PublishConnectionState,
+  PublishTransport,
+  PublishTransportFactory,
+  ReconnectClock,
+  ReconnectOptions,
+  ReconnectStrategy,
+  ReconnectingPublisherOptions,
+} from "./reconnectingPublisher";
+
+export { createFakePublishTransport } from "./fakePublishTransport";
+export type {
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+} from "./fakePublishTransport";
+
+export {
+  DAYDREAM_API_URL,
+  DAYDREAM_WHEP_URL,
+  DaydreamClient,
+  DaydreamApiError,
+  DaydreamAuthError,
+  DaydreamNotFoundError,
+  DaydreamValidationError,
+  DaydreamRateLimitError,
+} from "./daydreamClient";
+export type {
+  CreateDaydreamStreamOptions,
+  DaydreamClientOptions,
+  DaydreamRetryOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  DaydreamStreamResponse,
+} from "./daydreamClient";
+
+export { createFakeDaydreamServer } from "./fakeDaydreamServer";
+export type {
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+} from "./fakeDaydreamServer";
+
+export {
+  PromptScheduler,
+  evaluateTimeline,
+  crossfadeTimeline,
+  timelineDuration,
+  systemClock,
+  DEFAULT_PROMPT_STEP_MS,
+} from "./promptScheduler";
+export type {
+  PromptKeyframe,
+  PromptEasing,
+  PromptTimeline,
+  PromptSchedulerOptions,
+  SchedulerClock,
+} from "./promptScheduler";
+
+export { createManualClock } from "./manualClock";
+export type { ManualClock } from "./manualClock";
+
+export { PublisherStatsMonitor, readPublisherStats } from "./publisherStats";
+export type {
+  PublisherStatsSample,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  QualityLimitationReason,
+} from "./publisherStats";
+
+export {
+  computeEncodingParams,
+  applyEncodingParams,
+  isSameEncoding,
+  getVideoSender,
+} from "./adaptiveBitrate";
+export type {
+  AdaptiveBitrateInput,
+  AdaptiveBitrateOptions,
+  EncodingParams,
+} from "./adaptiveBitrate";
+
+export { useWhipPublisher } from "./useWhipPublisher";
+export type { UseWhipPublisherOptions } from "./useWhipPublisher";
+export { useWhepPlayer } from "./useWhepPlayer";
+export type { UseWhepPlayerOptions } from "./useWhepPlayer";
+export { useDaydreamStream } from "./useDaydreamStream";
+export type {
+  DaydreamStreamStatus,
+  UseDaydreamStreamOptions,
+} from "./useDaydreamStream";
+export { useParamUpdater } from "./useParamUpdater";
+export type {
+  ParamUpdateStatus,
+  UseParamUpdaterOptions,
+} from "./useParamUpdater";
+export { usePromptScheduler } from "./usePromptScheduler";
+export type { UsePromptSchedulerOptions } from "./usePromptScheduler";
+export { usePublisherStats } from "./usePublisherStats";
+export type { UsePublisherStatsOptions } from "./usePublisherStats";
+export { useAdaptiveBitrate } from "./useAdaptiveBitrate";
+export type { UseAdaptiveBitrateOptions } from "./useAdaptiveBitrate";
+
+export { DaydreamOutputPlayer } from "./DaydreamOutputPlayer";
+export type { DaydreamOutputPlayerProps } from "./DaydreamOutputPlayer";
+export { PromptPanel } from "./PromptPanel";
+export type {
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+} from "./PromptPanel";
+export { PublisherStatsOverlay } from "./PublisherStatsOverlay";
+export type { PublisherStatsOverlayProps } from "./PublisherStatsOverlay";
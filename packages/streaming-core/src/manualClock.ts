@@ -0,0 +1,65 @@
+import type { SchedulerClock } from "./promptScheduler";
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+export interface ManualClock extends SchedulerClock {
+  /**
+   * Move time forward, running every timer that falls due in order. Pending
+   * promise callbacks are flushed after each timer, so async work a timer
+   * starts settles before the next one fires.
+   */
+  advance(ms: number): Promise<void>;
+  /** Timers scheduled and not yet run or cleared */
+  pendingTimers(): number;
+}
+
+const flushPromises = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * SchedulerClock that only moves when told to, for driving the scheduler,
+ * the reconnect backoff and the fake transports deterministically
+ */
+export const createManualClock = (startMs = 0): ManualClock => {
+  let now = startMs;
+  let nextId = 0;
+  const timers: ManualTimer[] = [];
+
+  const nextDue = (until: number) => {
+    let next: ManualTimer | null = null;
+    for (const timer of timers) {
+      if (timer.dueAt > until) continue;
+      if (!next || timer.dueAt < next.dueAt) next = timer;
+    }
+    return next;
+  };
+
+  return {
+    now: () => now,
+    setTimeout: (callback, ms) => {
+      const timer = { id: ++nextId, dueAt: now + Math.max(0, ms), callback };
+      timers.push(timer);
+      return timer.id;
+    },
+    clearTimeout: (handle) => {
+      const index = timers.findIndex((timer) => timer.id === handle);
+      if (index !== -1) timers.splice(index, 1);
+    },
+    async advance(ms) {
+      const until = now + ms;
+      await flushPromises();
+      for (let timer = nextDue(until); timer; timer = nextDue(until)) {
+        timers.splice(timers.indexOf(timer), 1);
+        now = timer.dueAt;
+        timer.callback();
+        await flushPromises();
+      }
+      now = until;
+    },
+    pendingTimers: () => timers.length,
+  };
+};
@@ -0,0 +1,167 @@
+export interface MockWhipRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body: string | null;
+}
+
+export interface MockWhipServerOptions {
+  /** Endpoint the WhipClient POSTs its offer to */
+  endpoint?: string;
+  /**
+   * SDP answer to return. Defaults to the offer mirrored as receive-only,
+   * with fixed ICE credentials and DTLS fingerprint.
+   */
+  answerSdp?: string | ((offer: string) => string);
+  /** Answer trickle PATCHes with 405, as endpoints without trickle do */
+  trickleIce?: boolean;
+  /** Artificial latency added to every response (default: 0) */
+  latencyMs?: number;
+}
+
+export interface MockWhipServer {
+  fetch: typeof fetch;
+  endpoint: string;
+  /** Every request received so far, in order */
+  getRequests(): MockWhipRequest[];
+  /** Resource URLs of the sessions that have not been deleted */
+  getSessions(): string[];
+  reset(): void;
+}
+
+const MOCK_ICE_UFRAG = "mockufrag";
+const MOCK_ICE_PWD = "mockwhippassword0123456789";
+const MOCK_FINGERPRINT =
+  "sha-256 3A:1F:5C:00:9B:42:7E:D1:88:6A:0C:F3:21:B5:94:6D:E7:10:4C:A8:3B:55:C2:9F:07:E6:81:2D:73:BA:4E:19";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * The offer turned around: every m-section receive-only, with the mock's
+ * ICE credentials, fingerprint and a single loopback candidate
+ */
+const mirrorOffer = (offer: string): string => {
+  const lines: string[] = [];
+  for (const line of offer.split(/\r?\n/)) {
+    if (!line) continue;
+    if (line.startsWith("a=candidate:") || line === "a=end-of-candidates") {
+      continue;
+    }
+    if (line.startsWith("a=ice-ufrag:")) {
+      lines.push(`a=ice-ufrag:${MOCK_ICE_UFRAG}`);
+    } else if (line.startsWith("a=ice-pwd:")) {
+      lines.push(`a=ice-pwd:${MOCK_ICE_PWD}`);
+    } else if (line.startsWith("a=fingerprint:")) {
+      lines.push(`a=fingerprint:${MOCK_FINGERPRINT}`);
+    } else if (line.startsWith("a=setup:")) {
+      lines.push("a=setup:passive");
+    } else if (line === "a=sendonly" || line === "a=sendrecv") {
+      lines.push("a=recvonly");
+    } else {
+      lines.push(line);
+    }
+    if (line.startsWith("a=mid:")) {
+      lines.push("a=candidate:1 1 udp 2130706431 127.0.0.1 9 typ host");
+    }
+  }
+  return lines.join("\r\n") + "\r\n";
+};
+
+/**
+ * In-process WHIP endpoint exposed as a fetch implementation: answers the
+ * offer POST with 201 and a Location, accepts trickle PATCHes and DELETE.
+ * No media flows, so it is for exercising the signalling, in tests or in an
+ * example with `fetch: server.fetch`.
+ */
+export const createMockWhipServer = ({
+  endpoint = "https://mock.whip.local/whip",
+  answerSdp = mirrorOffer,
+  trickleIce = true,
+  latencyMs = 0,
+}: MockWhipServerOptions = {}): MockWhipServer => {
+  let requests: MockWhipRequest[] = [];
+  const sessions = new Set<string>();
+  let nextId = 1;
+
+  const sessionPath = (id: number) =>
+    `${new URL(endpoint).pathname.replace(/\/$/, "")}/sessions/${id}`;
+
+  const handle = (request: MockWhipRequest): Response => {
+    const url = new URL(request.url);
+
+    if (url.href === new URL(endpoint).href) {
+      if (request.method !== "POST") {
+        return new Response(null, { status: 405 });
+      }
+      if (request.headers.get("Content-Type") !== "application/sdp") {
+        return new Response("Expected application/sdp", { status: 415 });
+      }
+      if (!request.body) return new Response(null, { status: 400 });
+
+      const id = nextId++;
+      const answer =
+        typeof answerSdp === "function" ? answerSdp(request.body) : answerSdp;
+      sessions.add(new URL(sessionPath(id), endpoint).href);
+      // Relative, as real endpoints often send it
+      return new Response(answer, {
+        status: 201,
+        headers: {
+          "Content-Type": "application/sdp",
+          Location: sessionPath(id),
+          ETag: `"session-${id}"`,
+        },
+      });
+    }
+
+    if (!sessions.has(url.href)) return new Response(null, { status: 404 });
+
+    switch (request.method) {
+      case "PATCH":
+        if (!trickleIce) return new Response(null, { status: 405 });
+        if (
+          request.headers.get("Content-Type") !==
+          "application/trickle-ice-sdpfrag"
+        ) {
+          return new Response(null, { status: 415 });
+        }
+        return new Response(null, { status: 204 });
+      case "DELETE":
+        sessions.delete(url.href);
+        return new Response(null, { status: 200 });
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  const mockFetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = input instanceof Request ? input : null;
+    const recorded: MockWhipRequest = {
+      method: (init?.method ?? request?.method ?? "GET").toUpperCase(),
+      url: request ? request.url : input.toString(),
+      headers: new Headers(init?.headers ?? request?.headers),
+      body:
+        typeof init?.body === "string"
+          ? init.body
+          : request
+            ? await request.text()
+            : null,
+    };
+    requests.push(recorded);
+    if (latencyMs > 0) await sleep(latencyMs);
+    return handle(recorded);
+  };
+
+  return {
+    fetch: mockFetch as typeof fetch,
+    endpoint,
+    getRequests: () => [...requests],
+    getSessions: () => [...sessions],
+    reset: () => {
+      requests = [];
+      sessions.clear();
+    },
+  };
+};
@@ -0,0 +1,94 @@
+import { STREAMING_CONFIG } from "./streamingConfig";
+
+export interface OutputProfile {
+  name: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export const OUTPUT_PROFILES = {
+  "square-512": {
+    name: "square-512",
+    label: "512 × 512",
+    width: STREAMING_CONFIG.WIDTH,
+    height: STREAMING_CONFIG.HEIGHT,
+  },
+  "square-768": {
+    name: "square-768",
+    label: "768 × 768",
+    width: 768,
+    height: 768,
+  },
+  "landscape-720p": {
+    name: "landscape-720p",
+    label: "720p landscape (16:9)",
+    width: 1280,
+    height: 720,
+  },
+  "portrait-720p": {
+    name: "portrait-720p",
+    label: "720p portrait (9:16)",
+    width: 720,
+    height: 1280,
+  },
+} as const satisfies Record<string, OutputProfile>;
+
+export type OutputProfileName = keyof typeof OUTPUT_PROFILES;
+
+export const DEFAULT_OUTPUT_PROFILE: OutputProfileName = "square-512";
+
+/**
+ * The profile for a name, or a custom profile as it is. Unknown names
+ * throw, so a typo doesn't silently publish at the default size.
+ */
+export function resolveOutputProfile(
+  profile: OutputProfileName | OutputProfile = DEFAULT_OUTPUT_PROFILE,
+): OutputProfile {
+  if (typeof profile !== "string") return profile;
+  const resolved = (OUTPUT_PROFILES as Record<string, OutputProfile>)[profile];
+  if (!resolved) {
+    throw new Error(`Unknown output profile "${profile}"`);
+  }
+  return resolved;
+}
+
+/**
+ * Swap `track` into `stream` in place of the stream's track of the same
+ * kind, and stop the old one. The stream object stays the same, so previews
+ * keep playing it; `removetrack`/`addtrack` are dispatched (browsers only
+ * fire them for remote changes) so publishers can follow the swap.
+ */
+export function replaceStreamTrack(
+  stream: MediaStream,
+  track: MediaStreamTrack,
+): MediaStreamTrack | null {
+  const previous =
+    stream.getTracks().find((t) => t.kind === track.kind && t !== track) ??
+    null;
+  if (previous) {
+    stream.removeTrack(previous);
+    stream.dispatchEvent(
+      new MediaStreamTrackEvent("removetrack", { track: previous }),
+    );
+  }
+  stream.addTrack(track);
+  stream.dispatchEvent(new MediaStreamTrackEvent("addtrack", { track }));
+  previous?.stop();
+  return previous;
+}
+
+/**
+ * Capture a fresh video track from `canvas`, e.g. after it was resized,
+ * and swap it into `stream` with `replaceStreamTrack`
+ */
+export function recaptureCanvasTrack(
+  canvas: HTMLCanvasElement,
+  stream: MediaStream,
+  fps: number = STREAMING_CONFIG.FPS,
+): MediaStreamTrack | null {
+  const track = canvas.captureStream(fps).getVideoTracks()[0];
+  if (!track) return null;
+  replaceStreamTrack(stream, track);
+  return track;
+}
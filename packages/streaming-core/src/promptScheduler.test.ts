@@ -0,0 +1,234 @@
+import { describe, expect, it } from "vitest";
+import type { DaydreamStreamParams } from "./daydreamClient";
+import { createManualClock } from "./manualClock";
+import {
+  PromptScheduler,
+  crossfadeTimeline,
+  evaluateTimeline,
+  timelineDuration,
+  type PromptSchedulerOptions,
+  type PromptTimeline,
+} from "./promptScheduler";
+
+const cycle: PromptTimeline = {
+  keyframes: [
+    { prompt: "forest", holdMs: 1000, transitionMs: 1000, seed: 1 },
+    { prompt: "city", holdMs: 1000, transitionMs: 1000, seed: 2 },
+  ],
+  loop: true,
+};
+
+const setup = (options: Partial<PromptSchedulerOptions> = {}) => {
+  const clock = createManualClock();
+  const emitted: DaydreamStreamParams[] = [];
+  let completed = 0;
+  const scheduler = new PromptScheduler({
+    clock,
+    onParams: (params) => emitted.push(params),
+    onComplete: () => completed++,
+    ...options,
+  });
+  return { clock, scheduler, emitted, completed: () => completed };
+};
+
+describe("evaluateTimeline", () => {
+  it("holds each keyframe at full weight with its seed", () => {
+    expect(evaluateTimeline(cycle, 500)).toEqual({
+      params: { prompt: [["forest", 1]], seed: 1 },
+      done: false,
+    });
+    expect(evaluateTimeline(cycle, 2500).params).toEqual({
+      prompt: [["city", 1]],
+      seed: 2,
+    });
+  });
+
+  it("crossfades into the next keyframe with weighted prompts", () => {
+    expect(evaluateTimeline(cycle, 1250).params).toEqual({
+      prompt: [
+        ["forest", 0.75],
+        ["city", 0.25],
+      ],
+      prompt_interpolation_method: "slerp",
+      normalize_prompt_weights: true,
+      seed: 1,
+    });
+    // The seed follows whichever prompt outweighs the other
+    expect(evaluateTimeline(cycle, 1500).params.seed).toBe(2);
+  });
+
+  it("eases the weights in and out", () => {
+    const eased = { ...cycle, easing: "ease-in-out" as const };
+    const weights = [1000, 1250, 1500, 1750].map(
+      (ms) => evaluateTimeline(eased, ms).params.prompt
+    );
+    expect(weights).toEqual([
+      [
+        ["forest", 1],
+        ["city", 0],
+      ],
+      [
+        ["forest", 0.84],
+        ["city", 0.16],
+      ],
+      [
+        ["forest", 0.5],
+        ["city", 0.5],
+      ],
+      [
+        ["forest", 0.16],
+        ["city", 0.84],
+      ],
+    ]);
+  });
+
+  it("wraps a looping timeline back into the first keyframe", () => {
+    expect(timelineDuration(cycle)).toBe(4000);
+    expect(evaluateTimeline(cycle, 3500).params.prompt).toEqual([
+      ["city", 0.5],
+      ["forest", 0.5],
+    ]);
+    expect(evaluateTimeline(cycle, 4000 + 500)).toEqual(
+      evaluateTimeline(cycle, 500)
+    );
+    expect(evaluateTimeline(cycle, 40_000 + 1250)).toEqual(
+      evaluateTimeline(cycle, 1250)
+    );
+  });
+
+  it("ends on the last keyframe when the timeline doesn't loop", () => {
+    const once = { ...cycle, loop: false };
+    expect(timelineDuration(once)).toBe(3000);
+    expect(evaluateTimeline(once, 3000)).toEqual({
+      params: { prompt: [["city", 1]], seed: 2 },
+      done: true,
+    });
+    expect(evaluateTimeline(once, 1_000_000).done).toBe(true);
+  });
+
+  it("is done at once for an empty timeline", () => {
+    expect(evaluateTimeline({ keyframes: [] }, 0)).toEqual({
+      params: {},
+      done: true,
+    });
+  });
+});
+
+describe("PromptScheduler", () => {
+  it("samples a crossfade every step, then completes", async () => {
+    const { clock, scheduler, emitted, completed } = setup({ stepMs: 500 });
+
+    scheduler.play(crossfadeTimeline("forest", "city", 2000));
+    await clock.advance(2000);
+
+    expect(emitted.map((params) => params.prompt)).toEqual([
+      [
+        ["forest", 1],
+        ["city", 0],
+      ],
+      [
+        ["forest", 0.75],
+        ["city", 0.25],
+      ],
+      [
+        ["forest", 0.5],
+        ["city", 0.5],
+      ],
+      [
+        ["forest", 0.25],
+        ["city", 0.75],
+      ],
+      [["city", 1]],
+    ]);
+    expect(completed()).toBe(1);
+    expect(scheduler.isRunning()).toBe(false);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("sends at most one update a second by default", async () => {
+    const { clock, scheduler, emitted } = setup();
+
+    scheduler.crossfade("forest", "city", 10_000, "ease-in-out");
+    await clock.advance(10_000);
+
+    expect(emitted).toHaveLength(11);
+  });
+
+  it("emits nothing while a keyframe is held", async () => {
+    const { clock, scheduler, emitted } = setup({ stepMs: 100 });
+
+    scheduler.play({ keyframes: [{ prompt: "forest", holdMs: 5000 }] });
+    await clock.advance(4000);
+
+    expect(emitted).toEqual([{ prompt: [["forest", 1]] }]);
+    expect(scheduler.isRunning()).toBe(true);
+  });
+
+  it("keeps looping past the end of the timeline", async () => {
+    const { clock, scheduler, emitted, completed } = setup({ stepMs: 500 });
+
+    scheduler.play(cycle);
+    await clock.advance(4500);
+
+    expect(emitted.map((params) => params.prompt)).toEqual([
+      [["forest", 1]],
+      [
+        ["forest", 1],
+        ["city", 0],
+      ],
+      [
+        ["forest", 0.5],
+        ["city", 0.5],
+      ],
+      [["city", 1]],
+      [
+        ["city", 1],
+        ["forest", 0],
+      ],
+      [
+        ["city", 0.5],
+        ["forest", 0.5],
+      ],
+      [["forest", 1]],
+    ]);
+    expect(completed()).toBe(0);
+    expect(scheduler.isRunning()).toBe(true);
+  });
+
+  it("completes when seeking past the end", () => {
+    const { clock, scheduler, emitted, completed } = setup();
+
+    scheduler.play({ ...cycle, loop: false });
+    scheduler.seek(60_000);
+
+    expect(emitted.at(-1)).toEqual({ prompt: [["city", 1]], seed: 2 });
+    expect(completed()).toBe(1);
+    expect(scheduler.isRunning()).toBe(false);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("wraps when seeking past the end of a looping timeline", async () => {
+    const { clock, scheduler, emitted } = setup({ stepMs: 500 });
+
+    scheduler.play(cycle);
+    scheduler.seek(8000 + 2000);
+    await clock.advance(500);
+
+    expect(emitted.map((params) => params.prompt)).toEqual([
+      [["forest", 1]],
+      [["city", 1]],
+    ]);
+  });
+
+  it("stops emitting once stopped", async () => {
+    const { clock, scheduler, emitted, completed } = setup();
+
+    scheduler.play(cycle);
+    scheduler.stop();
+    await clock.advance(10_000);
+
+    expect(emitted).toHaveLength(1);
+    expect(completed()).toBe(0);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+});
@@ -0,0 +1,238 @@
+import type { DaydreamStreamParams } from "./daydreamClient";
+
+export interface PromptKeyframe {
+  prompt: string;
+  /** Time the prompt is held at full weight */
+  holdMs: number;
+  /** Crossfade into the next keyframe; ignored on the last one unless looping */
+  transitionMs?: number;
+  seed?: number;
+}
+
+export type PromptEasing = "linear" | "ease-in-out";
+
+export interface PromptTimeline {
+  keyframes: PromptKeyframe[];
+  loop?: boolean;
+  easing?: PromptEasing;
+}
+
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export interface PromptSchedulerOptions {
+  onParams: (params: DaydreamStreamParams) => void;
+  onComplete?: () => void;
+  clock?: SchedulerClock;
+  /**
+   * How often the timeline is sampled while running. Every changed sample
+   * becomes a parameter update, so this is also the fastest rate updates
+   * are sent at during a crossfade (default: 1000).
+   */
+  stepMs?: number;
+}
+
+export const DEFAULT_PROMPT_STEP_MS = 1000;
+
+export const systemClock: SchedulerClock = {
+  now: () => performance.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+const ease = (progress: number, easing: PromptEasing) =>
+  easing === "ease-in-out"
+    ? progress * progress * (3 - 2 * progress)
+    : progress;
+
+// Two decimals is plenty for prompt weights and keeps repeated samples equal
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Timeline that crossfades from one prompt to another and then holds it
+ */
+export const crossfadeTimeline = (
+  from: string,
+  to: string,
+  durationMs: number,
+  easing: PromptEasing = "linear"
+): PromptTimeline => ({
+  keyframes: [
+    { prompt: from, holdMs: 0, transitionMs: durationMs },
+    { prompt: to, holdMs: 0 },
+  ],
+  easing,
+});
+
+/**
+ * Total length of one pass through the timeline
+ */
+export const timelineDuration = ({ keyframes, loop }: PromptTimeline) =>
+  keyframes.reduce((total, keyframe, index) => {
+    const isLast = index === keyframes.length - 1;
+    const transition = isLast && !loop ? 0 : keyframe.transitionMs ?? 0;
+    return total + keyframe.holdMs + transition;
+  }, 0);
+
+/**
+ * Stream parameters for a point in time on the timeline. Pure, so a sequence
+ * of samples can be checked without a clock or a browser.
+ */
+export const evaluateTimeline = (
+  timeline: PromptTimeline,
+  elapsedMs: number
+): { params: DaydreamStreamParams; done: boolean } => {
+  const { keyframes, loop = false, easing = "linear" } = timeline;
+  if (keyframes.length === 0) {
+    return { params: {}, done: true };
+  }
+
+  const duration = timelineDuration(timeline);
+  const last = keyframes[keyframes.length - 1];
+  const finalParams = (): DaydreamStreamParams => ({
+    prompt: [[last.prompt, 1]],
+    ...(last.seed !== undefined && { seed: last.seed }),
+  });
+
+  if (duration <= 0) {
+    return { params: finalParams(), done: !loop };
+  }
+  if (!loop && elapsedMs >= duration) {
+    return { params: finalParams(), done: true };
+  }
+
+  let t = loop ? elapsedMs % duration : Math.max(0, elapsedMs);
+  for (let i = 0; i < keyframes.length; i++) {
+    const keyframe = keyframes[i];
+    const next = keyframes[(i + 1) % keyframes.length];
+
+    if (t < keyframe.holdMs) {
+      return {
+        params: {
+          prompt: [[keyframe.prompt, 1]],
+          ...(keyframe.seed !== undefined && { seed: keyframe.seed }),
+        },
+        done: false,
+      };
+    }
+    t -= keyframe.holdMs;
+
+    const transitionMs =
+      i === keyframes.length - 1 && !loop ? 0 : keyframe.transitionMs ?? 0;
+    if (t < transitionMs) {
+      const progress = round(ease(t / transitionMs, easing));
+      const seed = progress < 0.5 ? keyframe.seed : next.seed;
+      return {
+        params: {
+          prompt: [
+            [keyframe.prompt, round(1 - progress)],
+            [next.prompt, progress],
+          ],
+          prompt_interpolation_method: "slerp",
+          normalize_prompt_weights: true,
+          ...(seed !== undefined && { seed }),
+        },
+        done: false,
+      };
+    }
+    t -= transitionMs;
+  }
+
+  return { params: finalParams(), done: !loop };
+};
+
+/**
+ * Plays a prompt timeline against a clock, emitting parameters whenever the
+ * sampled value changes
+ */
+export class PromptScheduler {
+  private options: PromptSchedulerOptions;
+  private timeline: PromptTimeline | null = null;
+  private startedAt = 0;
+  private handle: unknown = null;
+  private lastEmitted: string | null = null;
+
+  constructor(options: PromptSchedulerOptions) {
+    this.options = options;
+  }
+
+  isRunning(): boolean {
+    return this.timeline !== null;
+  }
+
+  play(timeline: PromptTimeline) {
+    this.stop();
+    this.timeline = timeline;
+    this.startedAt = this.clock.now();
+    this.tick();
+  }
+
+  crossfade(
+    from: string,
+    to: string,
+    durationMs: number,
+    easing?: PromptEasing
+  ) {
+    this.play(crossfadeTimeline(from, to, durationMs, easing));
+  }
+
+  /**
+   * Jump to a point on the running timeline. Seeking past the end of a
+   * timeline that doesn't loop emits the last keyframe and completes it.
+   */
+  seek(elapsedMs: number) {
+    if (!this.timeline) return;
+    if (this.handle !== null) {
+      this.clock.clearTimeout(this.handle);
+      this.handle = null;
+    }
+    this.startedAt = this.clock.now() - elapsedMs;
+    this.tick();
+  }
+
+  stop() {
+    if (this.handle !== null) {
+      this.clock.clearTimeout(this.handle);
+      this.handle = null;
+    }
+    this.timeline = null;
+    this.lastEmitted = null;
+  }
+
+  private get clock() {
+    return this.options.clock ?? systemClock;
+  }
+
+  private tick = () => {
+    this.handle = null;
+    const timeline = this.timeline;
+    if (!timeline) return;
+
+    const { params, done } = evaluateTimeline(
+      timeline,
+      this.clock.now() - this.startedAt
+    );
+
+    const key = JSON.stringify(params);
+    if (key !== this.lastEmitted) {
+      this.lastEmitted = key;
+      this.options.onParams(params);
+    }
+
+    if (done) {
+      this.timeline = null;
+      this.lastEmitted = null;
+      this.options.onComplete?.();
+      return;
+    }
+
+    this.handle = this.clock.setTimeout(
+      this.tick,
+      this.options.stepMs ?? DEFAULT_PROMPT_STEP_MS
+    );
+  };
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import {
+  readPublisherStats,
+  type PublisherStatsCounters,
+} from "./publisherStats";
+
+type Stat = Record<string, unknown> & { id: string; type: string };
+
+const report = (...stats: Stat[]) =>
+  new Map(stats.map((stat) => [stat.id, stat])) as unknown as RTCStatsReport;
+
+const outbound = (stat: Record<string, unknown> = {}): Stat => ({
+  id: "OT01V",
+  type: "outbound-rtp",
+  kind: "video",
+  timestamp: 10_000,
+  bytesSent: 0,
+  packetsSent: 0,
+  framesEncoded: 0,
+  ...stat,
+});
+
+const mediaSource = (frames: number): Stat => ({
+  id: "SV1",
+  type: "media-source",
+  kind: "video",
+  frames,
+});
+
+const remoteInbound = (stat: Record<string, unknown> = {}): Stat => ({
+  id: "RI01V",
+  type: "remote-inbound-rtp",
+  kind: "video",
+  packetsLost: 0,
+  ...stat,
+});
+
+/** Two polls a second apart, returning the second sample */
+const overOneSecond = (first: Stat[], second: Stat[]) => {
+  const { counters } = readPublisherStats(report(...first), null);
+  return readPublisherStats(report(...second), counters).sample;
+};
+
+describe("readPublisherStats", () => {
+  it("reports no rates on the first poll", () => {
+    const { sample } = readPublisherStats(
+      report(
+        outbound({ bytesSent: 5_000_000, packetsSent: 4000, framesEncoded: 900 }),
+        mediaSource(950)
+      ),
+      null
+    );
+
+    expect(sample.bitrate).toBeNull();
+    expect(sample.fps).toBeNull();
+    expect(sample.packetLossPercent).toBeNull();
+    expect(sample.framesDropped).toBe(0);
+    expect(sample.packetsSent).toBe(4000);
+    expect(sample.framesEncoded).toBe(900);
+  });
+
+  it("reports no rates until the outbound stream appears", () => {
+    // Browsers time stats by the wall clock
+    const sample = overOneSecond(
+      [],
+      [outbound({ bytesSent: 5_000_000, timestamp: Date.now() + 1000 })]
+    );
+    expect(sample.bitrate).toBeNull();
+  });
+
+  it("starts over when the outbound stream changes", () => {
+    const sample = overOneSecond(
+      [outbound({ bytesSent: 5_000_000 })],
+      [outbound({ id: "OT02V", bytesSent: 250_000, timestamp: 11_000 })]
+    );
+    expect(sample.bitrate).toBeNull();
+  });
+
+  it("measures the bitrate over the interval", () => {
+    const sample = overOneSecond(
+      [outbound({ bytesSent: 1_000_000 })],
+      [outbound({ bytesSent: 1_250_000, timestamp: 11_000 })]
+    );
+    expect(sample.bitrate).toBe(2_000_000);
+  });
+
+  it("takes the encoder's fps, or counts encoded frames without it", () => {
+    expect(
+      overOneSecond(
+        [outbound({ framesEncoded: 300 })],
+        [outbound({ framesEncoded: 330, framesPerSecond: 29, timestamp: 11_000 })]
+      ).fps
+    ).toBe(29);
+    expect(
+      overOneSecond(
+        [outbound({ framesEncoded: 300 })],
+        [outbound({ framesEncoded: 330, timestamp: 12_000 })]
+      ).fps
+    ).toBe(15);
+  });
+
+  it("reads loss from the receiver's fraction lost", () => {
+    const { sample } = readPublisherStats(
+      report(outbound(), remoteInbound({ fractionLost: 0.05, packetsLost: 12 })),
+      null
+    );
+    expect(sample.packetLossPercent).toBe(5);
+    expect(sample.packetsLost).toBe(12);
+  });
+
+  it("counts loss over the interval without a fraction lost", () => {
+    const sample = overOneSecond(
+      [outbound({ packetsSent: 1000 }), remoteInbound({ packetsLost: 10 })],
+      [
+        outbound({ packetsSent: 1090, timestamp: 11_000 }),
+        remoteInbound({ packetsLost: 20 }),
+      ]
+    );
+    expect(sample.packetLossPercent).toBe(10);
+  });
+
+  it("reads the RTT from the receiver, else the selected candidate pair", () => {
+    const pairs: Stat[] = [
+      {
+        id: "CPa",
+        type: "candidate-pair",
+        nominated: true,
+        state: "succeeded",
+        currentRoundTripTime: 0.2,
+        availableOutgoingBitrate: 900_000,
+      },
+      {
+        id: "CPb",
+        type: "candidate-pair",
+        nominated: true,
+        state: "succeeded",
+        currentRoundTripTime: 0.08,
+        availableOutgoingBitrate: 2_500_000,
+      },
+      { id: "T01", type: "transport", selectedCandidatePairId: "CPb" },
+    ];
+
+    const fromPair = readPublisherStats(report(outbound(), ...pairs), null);
+    expect(fromPair.sample.rttMs).toBe(80);
+    expect(fromPair.sample.availableOutgoingBitrate).toBe(2_500_000);
+
+    const fromReceiver = readPublisherStats(
+      report(outbound(), remoteInbound({ roundTripTime: 0.045 }), ...pairs),
+      null
+    );
+    expect(fromReceiver.sample.rttMs).toBe(45);
+  });
+
+  it("reads the quality limitation reason and frame size", () => {
+    const { sample } = readPublisherStats(
+      report(
+        outbound({
+          qualityLimitationReason: "bandwidth",
+          frameWidth: 384,
+          frameHeight: 384,
+        })
+      ),
+      null
+    );
+    expect(sample.qualityLimitationReason).toBe("bandwidth");
+    expect(sample.frameWidth).toBe(384);
+    expect(sample.frameHeight).toBe(384);
+
+    const bare = readPublisherStats(report(outbound()), null).sample;
+    expect(bare.qualityLimitationReason).toBeNull();
+    expect(bare.frameWidth).toBeNull();
+  });
+
+  it("adds up captured frames the encoder dropped", () => {
+    let counters: PublisherStatsCounters | null = null;
+    const dropped: number[] = [];
+    const polls: Array<[number, number]> = [
+      [300, 300],
+      [330, 328],
+      [360, 350],
+      [390, 380],
+    ];
+
+    polls.forEach(([captured, encoded], i) => {
+      const result = readPublisherStats(
+        report(
+          outbound({ framesEncoded: encoded, timestamp: 10_000 + i * 1000 }),
+          mediaSource(captured)
+        ),
+        counters
+      );
+      counters = result.counters;
+      dropped.push(result.sample.framesDropped);
+    });
+
+    expect(dropped).toEqual([0, 2, 10, 10]);
+  });
+
+  it("ignores audio and other streams", () => {
+    const { sample } = readPublisherStats(
+      report(
+        outbound({ id: "OT01A", kind: "audio", packetsSent: 500 }),
+        outbound({ packetsSent: 70 })
+      ),
+      null
+    );
+    expect(sample.packetsSent).toBe(70);
+  });
+});
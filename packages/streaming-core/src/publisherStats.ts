@@ -0,0 +1,249 @@
+export type QualityLimitationReason = "none" | "cpu" | "bandwidth" | "other";
+
+export interface PublisherStatsSample {
+  timestamp: number;
+  /** Outbound video frames per second */
+  fps: number | null;
+  /** Outbound video bitrate in bps over the last interval; null on the first poll */
+  bitrate: number | null;
+  /** Bandwidth estimate for the selected candidate pair, in bps */
+  availableOutgoingBitrate: number | null;
+  packetsSent: number;
+  packetsLost: number;
+  /** Loss reported by the receiver over the last interval, in percent */
+  packetLossPercent: number | null;
+  rttMs: number | null;
+  qualityLimitationReason: QualityLimitationReason | null;
+  frameWidth: number | null;
+  frameHeight: number | null;
+  framesEncoded: number;
+  /** Captured frames that never made it out of the encoder */
+  framesDropped: number;
+}
+
+/** Cumulative counters carried from one poll to the next */
+export interface PublisherStatsCounters {
+  /** The outbound-rtp stat they were read from; null before one exists */
+  outboundId: string | null;
+  timestamp: number;
+  bytesSent: number;
+  packetsSent: number;
+  packetsLost: number;
+  framesEncoded: number;
+  sourceFrames: number | null;
+  framesDropped: number;
+}
+
+export interface PublisherStatsMonitorOptions {
+  getPeerConnection: () => RTCPeerConnection | null;
+  /** Poll interval (default: 1000) */
+  intervalMs?: number;
+  /** Samples kept for getHistory() (default: 60) */
+  historySize?: number;
+}
+
+type StatsEntry = Record<string, unknown>;
+
+const num = (stat: StatsEntry | undefined, key: string): number | null => {
+  const value = stat?.[key];
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Turns one getStats() report into a sample, using the previous poll's
+ * counters for per-interval values. Those are null until two polls of the
+ * same outbound stream can be compared, rather than a running total divided
+ * by one interval. Pure, so it can run against canned reports.
+ */
+export const readPublisherStats = (
+  report: RTCStatsReport,
+  previous: PublisherStatsCounters | null
+): { sample: PublisherStatsSample; counters: PublisherStatsCounters } => {
+  let outbound: StatsEntry | undefined;
+  let source: StatsEntry | undefined;
+  let remoteInbound: StatsEntry | undefined;
+  let candidatePair: StatsEntry | undefined;
+  let selectedPairId: string | undefined;
+
+  report.forEach((value) => {
+    const stat = value as StatsEntry;
+    const kind = stat.kind ?? stat.mediaType;
+    switch (stat.type) {
+      case "outbound-rtp":
+        if (kind === "video") outbound = stat;
+        break;
+      case "media-source":
+        if (kind === "video") source = stat;
+        break;
+      case "remote-inbound-rtp":
+        if (kind === "video") remoteInbound = stat;
+        break;
+      case "transport":
+        if (typeof stat.selectedCandidatePairId === "string") {
+          selectedPairId = stat.selectedCandidatePairId;
+        }
+        break;
+      case "candidate-pair":
+        if (stat.nominated && stat.state === "succeeded") {
+          candidatePair ??= stat;
+        }
+        break;
+    }
+  });
+
+  if (selectedPairId) {
+    const selected = report.get(selectedPairId) as StatsEntry | undefined;
+    if (selected) candidatePair = selected;
+  }
+
+  const outboundId = typeof outbound?.id === "string" ? outbound.id : null;
+  const timestamp = num(outbound, "timestamp") ?? Date.now();
+  const bytesSent = num(outbound, "bytesSent") ?? 0;
+  const packetsSent = num(outbound, "packetsSent") ?? 0;
+  const packetsLost = Math.max(0, num(remoteInbound, "packetsLost") ?? 0);
+  const framesEncoded = num(outbound, "framesEncoded") ?? 0;
+  const sourceFrames = num(source, "frames");
+
+  const elapsedSeconds = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+  // Counters from another (or no) outbound stream start from a different zero
+  const last =
+    previous &&
+    outboundId !== null &&
+    previous.outboundId === outboundId &&
+    elapsedSeconds > 0
+      ? previous
+      : null;
+  const bitrate = last
+    ? Math.max(0, ((bytesSent - last.bytesSent) * 8) / elapsedSeconds)
+    : null;
+
+  let fps = num(outbound, "framesPerSecond");
+  if (fps === null && last) {
+    fps = Math.max(0, (framesEncoded - last.framesEncoded) / elapsedSeconds);
+  }
+
+  let framesDropped = previous?.framesDropped ?? 0;
+  if (last && sourceFrames !== null && last.sourceFrames !== null) {
+    const captured = sourceFrames - last.sourceFrames;
+    const encoded = framesEncoded - last.framesEncoded;
+    framesDropped += Math.max(0, captured - encoded);
+  }
+
+  let packetLossPercent: number | null = null;
+  const fractionLost = num(remoteInbound, "fractionLost");
+  if (fractionLost !== null) {
+    packetLossPercent = fractionLost * 100;
+  } else if (last) {
+    const sent = packetsSent - last.packetsSent;
+    const lost = packetsLost - last.packetsLost;
+    packetLossPercent = sent + lost > 0 ? (lost / (sent + lost)) * 100 : 0;
+  }
+
+  const rttSeconds =
+    num(remoteInbound, "roundTripTime") ??
+    num(candidatePair, "currentRoundTripTime");
+  const reason = outbound?.qualityLimitationReason;
+
+  return {
+    sample: {
+      timestamp,
+      fps,
+      bitrate,
+      availableOutgoingBitrate: num(candidatePair, "availableOutgoingBitrate"),
+      packetsSent,
+      packetsLost,
+      packetLossPercent,
+      rttMs: rttSeconds !== null ? rttSeconds * 1000 : null,
+      qualityLimitationReason:
+        typeof reason === "string" ? (reason as QualityLimitationReason) : null,
+      frameWidth: num(outbound, "frameWidth"),
+      frameHeight: num(outbound, "frameHeight"),
+      framesEncoded,
+      framesDropped,
+    },
+    counters: {
+      outboundId,
+      timestamp,
+      bytesSent,
+      packetsSent,
+      packetsLost,
+      framesEncoded,
+      sourceFrames,
+      framesDropped,
+    },
+  };
+};
+
+/**
+ * Polls getStats() on the publishing peer connection and emits a typed
+ * sample to every subscriber on each poll
+ */
+export class PublisherStatsMonitor {
+  private options: PublisherStatsMonitorOptions;
+  private listeners = new Set<(sample: PublisherStatsSample) => void>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private counters: PublisherStatsCounters | null = null;
+  private peerConnection: RTCPeerConnection | null = null;
+  private history: PublisherStatsSample[] = [];
+
+  constructor(options: PublisherStatsMonitorOptions) {
+    this.options = options;
+  }
+
+  subscribe(listener: (sample: PublisherStatsSample) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getLatest(): PublisherStatsSample | null {
+    return this.history[this.history.length - 1] ?? null;
+  }
+
+  getHistory(): PublisherStatsSample[] {
+    return [...this.history];
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.poll(), this.options.intervalMs ?? 1000);
+    this.poll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.counters = null;
+    this.peerConnection = null;
+  }
+
+  private async poll() {
+    const pc = this.options.getPeerConnection();
+    if (!pc || pc.connectionState === "closed") return;
+
+    // A new session starts its counters from zero
+    if (pc !== this.peerConnection) {
+      this.peerConnection = pc;
+      this.counters = null;
+    }
+
+    try {
+      const report = await pc.getStats();
+      if (!this.timer || pc !== this.peerConnection) return;
+
+      const { sample, counters } = readPublisherStats(report, this.counters);
+      this.counters = counters;
+      this.history.push(sample);
+      const historySize = this.options.historySize ?? 60;
+      if (this.history.length > historySize) {
+        this.history.splice(0, this.history.length - historySize);
+      }
+      this.listeners.forEach((listener) => listener(sample));
+    } catch (error) {
+      console.warn("Failed to read publisher stats:", error);
+    }
+  }
+}
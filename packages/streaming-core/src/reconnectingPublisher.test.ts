@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { createFakePublishTransport } from "./fakePublishTransport";
+import { createManualClock } from "./manualClock";
+import {
+  ReconnectingPublisher,
+  reconnectDelay,
+  type PublishConnectionState,
+  type ReconnectOptions,
+  type ReconnectStrategy,
+} from "./reconnectingPublisher";
+import { WhipRequestError } from "./whipClient";
+
+const stream = { id: "canvas-stream" } as MediaStream;
+
+const setup = (options: ReconnectOptions = {}) => {
+  const clock = createManualClock();
+  const fake = createFakePublishTransport({ clock, connectDelayMs: 100 });
+  const states: PublishConnectionState[] = [];
+  const attempts: Array<[number, ReconnectStrategy, number]> = [];
+  const publisher = new ReconnectingPublisher({
+    ...options,
+    createTransport: fake.createTransport,
+    clock,
+    // Upper end of the jitter, so delays are the full backoff
+    random: () => 1,
+    onStateChange: (state) => states.push(state),
+    onReconnectAttempt: (attempt, strategy, delayMs) =>
+      attempts.push([attempt, strategy, delayMs]),
+  });
+  return { clock, fake, publisher, states, attempts };
+};
+
+describe("reconnectDelay", () => {
+  it("doubles from the base delay and stops at the cap", () => {
+    const delays = [1, 2, 3, 4, 5, 6].map((attempt) =>
+      reconnectDelay(attempt, { baseDelayMs: 500, maxDelayMs: 4000 }, () => 1)
+    );
+    expect(delays).toEqual([500, 1000, 2000, 4000, 4000, 4000]);
+  });
+
+  it("jitters within the upper half of the backoff", () => {
+    expect(reconnectDelay(3, {}, () => 0)).toBe(1000);
+    expect(reconnectDelay(3, {}, () => 0.5)).toBe(1500);
+    expect(reconnectDelay(3, {}, () => 1)).toBe(2000);
+  });
+});
+
+describe("ReconnectingPublisher", () => {
+  it("goes live once the first session connects", async () => {
+    const { clock, fake, publisher, states } = setup();
+
+    await publisher.start(stream);
+    expect(publisher.getState()).toBe("connecting");
+
+    await clock.advance(100);
+    expect(states).toEqual(["connecting", "live"]);
+    expect(fake.getCalls()).toEqual(["publish:1"]);
+  });
+
+  it("stays on the session when a drop recovers by itself", async () => {
+    const { clock, fake, publisher, states } = setup();
+    await publisher.start(stream);
+    await clock.advance(100);
+
+    fake.drop();
+    expect(publisher.getState()).toBe("degraded");
+    await clock.advance(1000);
+    fake.recover();
+
+    expect(states).toEqual(["connecting", "live", "degraded", "live"]);
+    expect(fake.getCalls()).toEqual(["publish:1"]);
+  });
+
+  it("restarts ICE on the existing session before renegotiating", async () => {
+    const { clock, fake, publisher, states, attempts } = setup({
+      degradedTimeoutMs: 3000,
+    });
+    await publisher.start(stream);
+    await clock.advance(100);
+
+    fake.drop();
+    await clock.advance(3000);
+    expect(publisher.getState()).toBe("reconnecting");
+    expect(attempts).toEqual([[1, "ice-restart", 500]]);
+
+    await clock.advance(500 + 100);
+    expect(states).toEqual([
+      "connecting",
+      "live",
+      "degraded",
+      "reconnecting",
+      "live",
+    ]);
+    expect(fake.getCalls()).toEqual(["publish:1", "restartIce:1"]);
+    expect(publisher.getAttempt()).toBe(0);
+  });
+
+  it("renegotiates a new session when the ICE restart fails", async () => {
+    const { clock, fake, publisher, states, attempts } = setup();
+    await publisher.start(stream);
+    await clock.advance(100);
+
+    fake.failNext("restartIce");
+    fake.drop();
+    await clock.advance(3000 + 500);
+    expect(attempts).toEqual([
+      [1, "ice-restart", 500],
+      [2, "renegotiate", 1000],
+    ]);
+
+    await clock.advance(1000 + 100);
+    expect(fake.getCalls()).toEqual([
+      "publish:1",
+      "restartIce:1",
+      "stop:1",
+      "publish:2",
+    ]);
+    expect(states).toEqual([
+      "connecting",
+      "live",
+      "degraded",
+      "reconnecting",
+      "live",
+    ]);
+  });
+
+  it("republishes the same MediaStream after reconnecting", async () => {
+    const { clock, fake, publisher } = setup();
+    await publisher.start(stream);
+    await clock.advance(100);
+
+    fake.drop("failed");
+    fake.failNext("restartIce");
+    await clock.advance(500 + 1000 + 100);
+
+    expect(publisher.getState()).toBe("live");
+    expect(fake.getCalls()).toContain("publish:2");
+    expect(fake.getPublishedStream()).toBe(stream);
+  });
+
+  it("caps the backoff and fails after the last attempt", async () => {
+    const { clock, fake, publisher, states, attempts } = setup({
+      maxAttempts: 5,
+      baseDelayMs: 500,
+      maxDelayMs: 2000,
+    });
+    for (let i = 0; i < 6; i++) fake.failNext("publish");
+
+    await publisher.start(stream);
+    await clock.advance(60_000);
+
+    expect(attempts.map(([, , delayMs]) => delayMs)).toEqual([
+      500, 1000, 2000, 2000, 2000,
+    ]);
+    expect(attempts.every(([, strategy]) => strategy === "renegotiate")).toBe(
+      true
+    );
+    expect(states).toEqual(["connecting", "reconnecting", "failed"]);
+    expect(clock.pendingTimers()).toBe(0);
+  });
+
+  it("gives up at once on errors a retry won't fix", async () => {
+    const { clock, fake, publisher, states } = setup();
+    fake.failNext("publish", new WhipRequestError("Unauthorized", 401));
+
+    await publisher.start(stream);
+    await clock.advance(10_000);
+
+    expect(states).toEqual(["connecting", "failed"]);
+    expect(fake.getCalls()).toEqual(["publish:1", "stop:1"]);
+  });
+
+  it("skips the remaining backoff on retryNow", async () => {
+    const { clock, fake, publisher } = setup({ baseDelayMs: 5000 });
+    fake.failNext("publish");
+    await publisher.start(stream);
+    expect(publisher.getState()).toBe("reconnecting");
+
+    publisher.retryNow();
+    await clock.advance(100);
+
+    expect(publisher.getState()).toBe("live");
+    expect(fake.getCalls()).toEqual(["publish:1", "stop:1", "publish:2"]);
+  });
+
+  it("closes the session and cancels pending retries on stop", async () => {
+    const { clock, fake, publisher, states } = setup();
+    fake.failNext("publish");
+    await publisher.start(stream);
+
+    await publisher.stop();
+    await clock.advance(10_000);
+
+    expect(states).toEqual(["connecting", "reconnecting", "closed"]);
+    expect(fake.getCalls()).toEqual(["publish:1", "stop:1"]);
+  });
+});
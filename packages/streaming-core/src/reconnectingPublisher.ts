@@ -0,0 +1,313 @@
+import { WhipRequestError, type WhipPublishState } from "./whipClient";
+import { systemClock, type SchedulerClock } from "./promptScheduler";
+
+export type PublishConnectionState =
+  | "idle"
+  | "connecting"
+  | "live"
+  | "degraded"
+  | "reconnecting"
+  | "failed"
+  | "closed";
+
+export type ReconnectStrategy = "ice-restart" | "renegotiate";
+
+/**
+ * The part of WhipClient the reconnect logic drives. A transport is used for
+ * one WHIP session; full renegotiation creates a new one.
+ */
+export interface PublishTransport {
+  publish(stream: MediaStream): Promise<void>;
+  restartIce(): Promise<void>;
+  stop(): Promise<void>;
+  getPeerConnection(): RTCPeerConnection | null;
+}
+
+export type PublishTransportFactory = (
+  onStateChange: (state: WhipPublishState) => void
+) => PublishTransport;
+
+export interface ReconnectOptions {
+  /** Reconnect attempts before giving up (default: 8) */
+  maxAttempts?: number;
+  /** Delay before the first attempt; doubled on every attempt (default: 500) */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** How long a disconnected session may recover on its own (default: 3000) */
+  degradedTimeoutMs?: number;
+  /** Time an attempt has to reach "connected" (default: 10000) */
+  attemptTimeoutMs?: number;
+}
+
+/** The timer half of `SchedulerClock`, all reconnect backoff needs */
+export type ReconnectClock = Pick<
+  SchedulerClock,
+  "setTimeout" | "clearTimeout"
+>;
+
+export interface ReconnectingPublisherOptions extends ReconnectOptions {
+  createTransport: PublishTransportFactory;
+  clock?: ReconnectClock;
+  /** Random source for backoff jitter, overridable for deterministic runs */
+  random?: () => number;
+  onStateChange?: (state: PublishConnectionState) => void;
+  onTransportStateChange?: (state: WhipPublishState) => void;
+  onReconnectAttempt?: (
+    attempt: number,
+    strategy: ReconnectStrategy,
+    delayMs: number
+  ) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Backoff before reconnect attempt `attempt` (1-based): exponential, capped,
+ * with the upper half jittered so publishers don't retry in lockstep
+ */
+export const reconnectDelay = (
+  attempt: number,
+  { baseDelayMs = 500, maxDelayMs = 15000 }: ReconnectOptions = {},
+  random: () => number = Math.random
+) => {
+  const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return backoff / 2 + random() * (backoff / 2);
+};
+
+/**
+ * Whether a failed publish is worth retrying. Client errors such as a deleted
+ * stream (404) or a bad token (401) won't fix themselves.
+ */
+export const isRetryablePublishError = (error: unknown) => {
+  if (error instanceof WhipRequestError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return true;
+};
+
+const toError = (error: unknown) =>
+  error instanceof Error ? error : new Error(String(error));
+
+/**
+ * Keeps a MediaStream published across network drops. The session moves
+ * connecting → live, drops to degraded when the connection is interrupted and
+ * to reconnecting if it does not come back on its own. The first reconnect
+ * attempt restarts ICE on the existing session; later ones renegotiate a new
+ * WHIP session. The same stream is republished every time.
+ */
+export class ReconnectingPublisher {
+  private options: ReconnectingPublisherOptions;
+  private stream: MediaStream | null = null;
+  private transport: PublishTransport | null = null;
+  private transportState: WhipPublishState = "idle";
+  private state: PublishConnectionState = "idle";
+  private attempt = 0;
+  private timer: unknown = null;
+  private pendingStrategy: ReconnectStrategy | null = null;
+  private isAttempting = false;
+  // Bumped whenever an in-flight attempt or timer becomes stale
+  private generation = 0;
+
+  constructor(options: ReconnectingPublisherOptions) {
+    this.options = options;
+  }
+
+  getState(): PublishConnectionState {
+    return this.state;
+  }
+
+  getAttempt(): number {
+    return this.attempt;
+  }
+
+  getPeerConnection(): RTCPeerConnection | null {
+    return this.transport?.getPeerConnection() ?? null;
+  }
+
+  /**
+   * Publish a stream and keep it published until stop() is called. Resolves
+   * once the first attempt has settled; failures are reported via onError.
+   */
+  async start(stream: MediaStream): Promise<void> {
+    await this.stop();
+    this.stream = stream;
+    this.attempt = 0;
+    this.setState("connecting");
+    await this.runAttempt("renegotiate");
+  }
+
+  async stop(): Promise<void> {
+    this.generation++;
+    this.clearTimer();
+    this.pendingStrategy = null;
+    this.isAttempting = false;
+    this.stream = null;
+    await this.closeTransport();
+    if (this.state !== "idle") {
+      this.setState("closed");
+    }
+  }
+
+  /**
+   * Skip the remaining backoff, e.g. when the browser reports it is back
+   * online or the tab becomes visible again
+   */
+  retryNow() {
+    const strategy = this.pendingStrategy;
+    if (this.state !== "reconnecting" || !strategy) return;
+    this.clearTimer();
+    this.pendingStrategy = null;
+    this.runAttempt(strategy);
+  }
+
+  private get clock() {
+    return this.options.clock ?? systemClock;
+  }
+
+  private async runAttempt(strategy: ReconnectStrategy) {
+    const generation = ++this.generation;
+    const stream = this.stream;
+    if (!stream) return;
+
+    let failure: Error | null = null;
+    this.isAttempting = true;
+    try {
+      if (strategy === "ice-restart" && this.transport) {
+        await this.transport.restartIce();
+      } else {
+        await this.closeTransport();
+        if (generation !== this.generation) return;
+        const transport = this.options.createTransport((state) =>
+          this.handleTransportState(transport, state)
+        );
+        this.transport = transport;
+        await transport.publish(stream);
+      }
+    } catch (error) {
+      failure = toError(error);
+    }
+
+    if (generation !== this.generation) return;
+    this.isAttempting = false;
+
+    if (failure) {
+      // A rejected ICE restart falls back to renegotiation
+      this.handleFailure(failure, {
+        retryable:
+          strategy === "ice-restart" || isRetryablePublishError(failure),
+      });
+    } else if (this.transportState === "connected") {
+      this.handleConnected();
+    } else {
+      this.setTimer(this.options.attemptTimeoutMs ?? 10000, () =>
+        this.handleFailure(new Error("Timed out waiting for the connection"))
+      );
+    }
+  }
+
+  private handleTransportState(
+    transport: PublishTransport,
+    state: WhipPublishState
+  ) {
+    if (transport !== this.transport) return;
+    this.transportState = state;
+    this.options.onTransportStateChange?.(state);
+
+    switch (state) {
+      case "connected":
+        this.handleConnected();
+        break;
+      case "disconnected":
+        if (this.state === "live") {
+          this.setState("degraded");
+          this.setTimer(this.options.degradedTimeoutMs ?? 3000, () =>
+            this.handleFailure(new Error("Connection lost"), {
+              connectionDropped: true,
+            })
+          );
+        }
+        break;
+      case "failed":
+        // Rejected attempts are handled by runAttempt, and a scheduled
+        // retry is already on its way
+        if (this.isAttempting || this.pendingStrategy) break;
+        this.handleFailure(new Error("Connection failed"), {
+          connectionDropped: this.state === "live" || this.state === "degraded",
+        });
+        break;
+    }
+  }
+
+  private handleConnected() {
+    if (this.state === "failed" || this.state === "closed") return;
+    this.clearTimer();
+    this.pendingStrategy = null;
+    this.attempt = 0;
+    this.setState("live");
+  }
+
+  private handleFailure(
+    error: Error,
+    { retryable = true, connectionDropped = false } = {}
+  ) {
+    this.clearTimer();
+    this.options.onError?.(error);
+
+    if (!retryable || this.attempt >= (this.options.maxAttempts ?? 8)) {
+      this.generation++;
+      this.pendingStrategy = null;
+      this.setState("failed");
+      this.closeTransport();
+      return;
+    }
+
+    this.attempt++;
+    // ICE restart only helps a session that was up; everything else
+    // needs a fresh WHIP session
+    const strategy: ReconnectStrategy =
+      connectionDropped && this.transport ? "ice-restart" : "renegotiate";
+    const delayMs = reconnectDelay(
+      this.attempt,
+      this.options,
+      this.options.random
+    );
+
+    this.setState("reconnecting");
+    this.options.onReconnectAttempt?.(this.attempt, strategy, delayMs);
+    this.pendingStrategy = strategy;
+    this.setTimer(delayMs, () => {
+      this.pendingStrategy = null;
+      this.runAttempt(strategy);
+    });
+  }
+
+  private async closeTransport() {
+    const transport = this.transport;
+    this.transport = null;
+    this.transportState = "idle";
+    if (transport) {
+      await transport.stop().catch(() => {});
+    }
+  }
+
+  private setTimer(ms: number, callback: () => void) {
+    this.clearTimer();
+    const generation = this.generation;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      if (generation === this.generation) callback();
+    }, ms);
+  }
+
+  private clearTimer() {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private setState(state: PublishConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
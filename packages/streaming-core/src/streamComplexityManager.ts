@@ -1,4 +1,4 @@
-interface ComplexityInjectionOptions {
+export interface ComplexityInjectionOptions {
   /** Target complexity level (0-1) */
   targetComplexity?: number;
   /** Type of complexity to inject */
@@ -13,7 +13,7 @@ interface ComplexityInjectionOptions {
   analysisInterval?: number;
 }
 
-interface ComplexityMetrics {
+export interface ComplexityMetrics {
   spatialComplexity: number;
   temporalComplexity: number;
   overallComplexity: number;
@@ -21,17 +21,121 @@ interface ComplexityMetrics {
   isLowComplexity: boolean;
 }
 
-class StreamComplexityManager {
+/** What a manager can read frames from */
+export type ComplexitySource = HTMLCanvasElement | HTMLVideoElement;
+
+const calculateSpatialComplexity = (imageData: ImageData): number => {
+  const data = imageData.data;
+  const width = imageData.width;
+  const height = imageData.height;
+  let edgeSum = 0;
+  let pixelCount = 0;
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = (y * width + x) * 4;
+
+      const center = (data[i] + data[i + 1] + data[i + 2]) / 3;
+      const right = (data[i + 4] + data[i + 5] + data[i + 6]) / 3;
+      const bottom =
+        (data[i + width * 4] +
+          data[i + width * 4 + 1] +
+          data[i + width * 4 + 2]) /
+        3;
+
+      const gradientX = Math.abs(right - center);
+      const gradientY = Math.abs(bottom - center);
+      const gradient = Math.sqrt(gradientX * gradientX + gradientY * gradientY);
+
+      edgeSum += gradient;
+      pixelCount++;
+    }
+  }
+
+  return pixelCount > 0 ? edgeSum / pixelCount / 255 : 0;
+};
+
+const calculateTemporalComplexity = (
+  imageData: ImageData,
+  previous: ImageData | null,
+): number => {
+  if (
+    !previous ||
+    previous.width !== imageData.width ||
+    previous.height !== imageData.height
+  ) {
+    return 0;
+  }
+
+  const currentData = imageData.data;
+  const previousData = previous.data;
+  let diffSum = 0;
+  const pixelCount = currentData.length / 4;
+
+  for (let i = 0; i < currentData.length; i += 4) {
+    const currentGray =
+      (currentData[i] + currentData[i + 1] + currentData[i + 2]) / 3;
+    const previousGray =
+      (previousData[i] + previousData[i + 1] + previousData[i + 2]) / 3;
+    diffSum += Math.abs(currentGray - previousGray);
+  }
+
+  return diffSum / pixelCount / 255;
+};
+
+const calculateFrameVariance = (imageData: ImageData): number => {
+  const data = imageData.data;
+  const pixelCount = data.length / 4;
+  let sum = 0;
+  let sumSquares = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = (data[i] + data[i + 1] + data[i + 2]) / 3;
+    sum += gray;
+    sumSquares += gray * gray;
+  }
+
+  const mean = sum / pixelCount;
+  const variance = sumSquares / pixelCount - mean * mean;
+  return variance / (255 * 255); // Normalize to 0-1
+};
+
+/**
+ * Spatial detail, motion against the previous sample and variance of one
+ * frame sample. Pure, so it can run against canned ImageData.
+ */
+export const measureFrameComplexity = (
+  imageData: ImageData,
+  previous: ImageData | null,
+): ComplexityMetrics => {
+  const spatialComplexity = calculateSpatialComplexity(imageData);
+  const temporalComplexity = calculateTemporalComplexity(imageData, previous);
+  const frameVariance = calculateFrameVariance(imageData);
+  const overallComplexity = (spatialComplexity + temporalComplexity) / 2;
+
+  return {
+    spatialComplexity,
+    temporalComplexity,
+    overallComplexity,
+    frameVariance,
+    isLowComplexity: overallComplexity < 0.2,
+  };
+};
+
+/**
+ * Keeps a canvas's frames complex enough for the encoder. Monitoring runs
+ * one canvas at a time, so each canvas needs its own manager;
+ * `streamComplexityManager` is a shared one.
+ */
+export class StreamComplexityManager {
   private static instance: StreamComplexityManager | null = null;
-  // private _analysisCanvas: HTMLCanvasElement | null = null;
-  // private _analysisCtx: CanvasRenderingContext2D | null = null;
   private previousFrameData: ImageData | null = null;
   private complexityHistory: number[] = [];
   private maxHistorySize = 30;
   private isAnalyzing = false;
-  private analysisInterval: number | null = null;
-
-  private constructor() {}
+  private analysisInterval: ReturnType<typeof setInterval> | null = null;
+  private sampleCanvas: HTMLCanvasElement | null = null;
+  private sampleCtx: CanvasRenderingContext2D | null = null;
 
   static getInstance(): StreamComplexityManager {
     if (!StreamComplexityManager.instance) {
@@ -45,7 +149,7 @@ class StreamComplexityManager {
    */
   injectComplexity(
     canvas: HTMLCanvasElement,
-    options: ComplexityInjectionOptions = {}
+    options: ComplexityInjectionOptions = {},
   ): void {
     const {
       targetComplexity = 0.3,
@@ -62,7 +166,7 @@ class StreamComplexityManager {
     if (metrics.isLowComplexity) {
       const injectionIntensity = Math.min(
         (targetComplexity - metrics.overallComplexity) * 2,
-        maxIntensity
+        maxIntensity,
       );
 
       if (injectionIntensity > 0.01) {
@@ -70,7 +174,7 @@ class StreamComplexityManager {
           ctx,
           canvas,
           complexityType,
-          injectionIntensity
+          injectionIntensity,
         );
       }
     }
@@ -79,9 +183,9 @@ class StreamComplexityManager {
   /**
    * Analyze frame complexity to determine if injection is needed
    */
-  analyzeFrameComplexity(canvas: HTMLCanvasElement): ComplexityMetrics {
-    const ctx = canvas.getContext("2d");
-    if (!ctx) {
+  analyzeFrameComplexity(source: ComplexitySource): ComplexityMetrics {
+    const imageData = this.readFrame(source);
+    if (!imageData) {
       return {
         spatialComplexity: 0,
         temporalComplexity: 0,
@@ -90,44 +194,71 @@ class StreamComplexityManager {
         isLowComplexity: true,
       };
     }
+    return this.measure(imageData);
+  }
 
-    const sampleSize = 128;
-    const scale = Math.min(canvas.width, canvas.height) / sampleSize;
-    const sampleWidth = Math.floor(canvas.width / scale);
-    const sampleHeight = Math.floor(canvas.height / scale);
-
-    const imageData = ctx.getImageData(0, 0, sampleWidth, sampleHeight);
-    const spatialComplexity = this.calculateSpatialComplexity(imageData);
+  private measure(imageData: ImageData): ComplexityMetrics {
+    const metrics = measureFrameComplexity(imageData, this.previousFrameData);
 
-    const temporalComplexity = this.calculateTemporalComplexity(imageData);
+    this.complexityHistory.push(metrics.overallComplexity);
+    if (this.complexityHistory.length > this.maxHistorySize) {
+      this.complexityHistory.shift();
+    }
 
-    const frameVariance = this.calculateFrameVariance(imageData);
+    this.previousFrameData = imageData;
 
-    const overallComplexity = (spatialComplexity + temporalComplexity) / 2;
+    return metrics;
+  }
 
-    this.complexityHistory.push(overallComplexity);
-    if (this.complexityHistory.length > this.maxHistorySize) {
-      this.complexityHistory.shift();
+  /**
+   * A 2D canvas is read in place. Video elements and canvases without a 2D
+   * context, such as WebGL ones, are drawn scaled down into a sampling
+   * canvas first. Null while the source has no frame to read.
+   */
+  private readFrame(source: ComplexitySource): ImageData | null {
+    const sampleSize = 128;
+    const isVideo = "videoWidth" in source;
+
+    const ctx = isVideo ? null : source.getContext("2d");
+    if (ctx) {
+      const { width, height } = ctx.canvas;
+      const scale = Math.min(width, height) / sampleSize;
+      const sampleWidth = Math.floor(width / scale);
+      const sampleHeight = Math.floor(height / scale);
+      return ctx.getImageData(0, 0, sampleWidth, sampleHeight);
     }
 
-    const isLowComplexity = overallComplexity < 0.2;
+    const width = isVideo ? source.videoWidth : source.width;
+    const height = isVideo ? source.videoHeight : source.height;
+    if (!width || !height) return null;
 
-    this.previousFrameData = imageData;
+    if (!this.sampleCanvas) {
+      this.sampleCanvas = document.createElement("canvas");
+      this.sampleCtx = this.sampleCanvas.getContext("2d", {
+        willReadFrequently: true,
+      });
+    }
+    if (!this.sampleCtx) return null;
 
-    return {
-      spatialComplexity,
-      temporalComplexity,
-      overallComplexity,
-      frameVariance,
-      isLowComplexity,
-    };
+    const scale = Math.min(width, height) / sampleSize;
+    const sampleWidth = Math.max(1, Math.floor(width / scale));
+    const sampleHeight = Math.max(1, Math.floor(height / scale));
+    if (
+      this.sampleCanvas.width !== sampleWidth ||
+      this.sampleCanvas.height !== sampleHeight
+    ) {
+      this.sampleCanvas.width = sampleWidth;
+      this.sampleCanvas.height = sampleHeight;
+    }
+    this.sampleCtx.drawImage(source, 0, 0, sampleWidth, sampleHeight);
+    return this.sampleCtx.getImageData(0, 0, sampleWidth, sampleHeight);
   }
 
   private applyComplexityInjection(
     ctx: CanvasRenderingContext2D,
     canvas: HTMLCanvasElement,
     type: string,
-    intensity: number
+    intensity: number,
   ): void {
     const width = canvas.width;
     const height = canvas.height;
@@ -157,7 +288,7 @@ class StreamComplexityManager {
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
-    intensity: number
+    intensity: number,
   ): void {
     const imageData = ctx.createImageData(width, height);
     const data = imageData.data;
@@ -188,7 +319,7 @@ class StreamComplexityManager {
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
-    intensity: number
+    intensity: number,
   ): void {
     const time = Date.now() * 0.002;
     const numDots = Math.floor(intensity * 20) + 2;
@@ -221,7 +352,7 @@ class StreamComplexityManager {
     ctx: CanvasRenderingContext2D,
     width: number,
     height: number,
-    intensity: number
+    intensity: number,
   ): void {
     const imageData = ctx.getImageData(0, 0, width, height);
     const data = imageData.data;
@@ -238,81 +369,6 @@ class StreamComplexityManager {
     ctx.putImageData(imageData, 0, 0);
   }
 
-  private calculateSpatialComplexity(imageData: ImageData): number {
-    const data = imageData.data;
-    const width = imageData.width;
-    const height = imageData.height;
-    let edgeSum = 0;
-    let pixelCount = 0;
-
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const i = (y * width + x) * 4;
-
-        const center = (data[i] + data[i + 1] + data[i + 2]) / 3;
-        const right = (data[i + 4] + data[i + 5] + data[i + 6]) / 3;
-        const bottom =
-          (data[i + width * 4] +
-            data[i + width * 4 + 1] +
-            data[i + width * 4 + 2]) /
-          3;
-
-        const gradientX = Math.abs(right - center);
-        const gradientY = Math.abs(bottom - center);
-        const gradient = Math.sqrt(
-          gradientX * gradientX + gradientY * gradientY
-        );
-
-        edgeSum += gradient;
-        pixelCount++;
-      }
-    }
-
-    return pixelCount > 0 ? edgeSum / pixelCount / 255 : 0;
-  }
-
-  private calculateTemporalComplexity(imageData: ImageData): number {
-    if (
-      !this.previousFrameData ||
-      this.previousFrameData.width !== imageData.width ||
-      this.previousFrameData.height !== imageData.height
-    ) {
-      return 0;
-    }
-
-    const currentData = imageData.data;
-    const previousData = this.previousFrameData.data;
-    let diffSum = 0;
-    const pixelCount = currentData.length / 4;
-
-    for (let i = 0; i < currentData.length; i += 4) {
-      const currentGray =
-        (currentData[i] + currentData[i + 1] + currentData[i + 2]) / 3;
-      const previousGray =
-        (previousData[i] + previousData[i + 1] + previousData[i + 2]) / 3;
-      diffSum += Math.abs(currentGray - previousGray);
-    }
-
-    return diffSum / pixelCount / 255;
-  }
-
-  private calculateFrameVariance(imageData: ImageData): number {
-    const data = imageData.data;
-    const pixelCount = data.length / 4;
-    let sum = 0;
-    let sumSquares = 0;
-
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = (data[i] + data[i + 1] + data[i + 2]) / 3;
-      sum += gray;
-      sumSquares += gray * gray;
-    }
-
-    const mean = sum / pixelCount;
-    const variance = sumSquares / pixelCount - mean * mean;
-    return variance / (255 * 255); // Normalize to 0-1
-  }
-
   private smoothNoise(x: number, y: number, z: number): number {
     const intX = Math.floor(x);
     const intY = Math.floor(y);
@@ -366,7 +422,7 @@ class StreamComplexityManager {
 
   startMonitoring(
     canvas: HTMLCanvasElement,
-    options: ComplexityInjectionOptions = {}
+    options: ComplexityInjectionOptions = {},
   ): void {
     if (this.isAnalyzing) return;
 
@@ -395,15 +451,18 @@ class StreamComplexityManager {
     this.previousFrameData = null;
   }
 
-  getCurrentMetrics(canvas: HTMLCanvasElement): ComplexityMetrics | null {
+  /**
+   * Complexity of the source's current frame against the previous one this
+   * manager read, or null while there is no frame to read
+   */
+  getCurrentMetrics(source: ComplexitySource): ComplexityMetrics | null {
     try {
-      return this.analyzeFrameComplexity(canvas);
-    } catch (error) {
+      const imageData = this.readFrame(source);
+      return imageData ? this.measure(imageData) : null;
+    } catch {
       return null;
     }
   }
 }
 
 export const streamComplexityManager = StreamComplexityManager.getInstance();
-
-export type { ComplexityInjectionOptions, ComplexityMetrics };
@@ -1,4 +1,21 @@
-import type { StreamValidationOptions, StreamStabilizationResult } from '../types';
+export interface StreamValidationOptions {
+  minStableFrames?: number;
+  timeoutMs?: number;
+  validateAudio?: boolean;
+  /**
+   * "frames" plays the stream and waits for `minStableFrames` distinct
+   * frames; "track-state" only checks that the tracks stay live, for sources
+   * that may not produce frames until the user interacts (default: "frames")
+   */
+  strategy?: "frames" | "track-state";
+}
+
+export interface StreamStabilizationResult {
+  isStable: boolean;
+  frameCount: number;
+  timeElapsed: number;
+  error?: string;
+}
 
 class StreamStabilizer {
   private static instance: StreamStabilizer | null = null;
@@ -21,6 +38,7 @@ class StreamStabilizer {
       minStableFrames = 5,
       timeoutMs = 3000,
       validateAudio = true,
+      strategy = "frames",
     } = options;
 
     const streamId = stream.id;
@@ -38,6 +56,7 @@ class StreamStabilizer {
         minStableFrames,
         timeoutMs,
         validateAudio,
+        strategy,
         abortController.signal,
       );
 
@@ -54,6 +73,7 @@ class StreamStabilizer {
     minStableFrames: number,
     timeoutMs: number,
     validateAudio: boolean,
+    strategy: "frames" | "track-state",
     signal: AbortSignal,
   ): Promise<StreamStabilizationResult> {
     const startTime = Date.now();
@@ -100,6 +120,25 @@ class StreamStabilizer {
       };
     }
 
+    if (strategy === "track-state") {
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      if (stream.active && videoTrack.readyState === "live") {
+        return {
+          isStable: true,
+          frameCount: minStableFrames,
+          timeElapsed: Date.now() - startTime,
+        };
+      }
+
+      return {
+        isStable: false,
+        frameCount: 0,
+        timeElapsed: Date.now() - startTime,
+        error: "Stream became inactive during validation",
+      };
+    }
+
     const video = document.createElement("video");
     video.muted = true;
     video.playsInline = true;
@@ -179,13 +218,13 @@ class StreamStabilizer {
 
       const imageData = ctx.getImageData(0, 0, 1, 1);
       return imageData.data.some(value => value > 0);
-    } catch (error) {
+    } catch {
       return false;
     }
   }
 
   cancelAllValidations(): void {
-    for (const [streamId, controller] of this.pendingValidations) {
+    for (const [, controller] of this.pendingValidations) {
       controller.abort();
     }
     this.pendingValidations.clear();
@@ -230,7 +269,7 @@ export function logStreamValidation(
   result: StreamStabilizationResult,
   context: string,
 ): void {
-  if (typeof window !== 'undefined' && window.location.hostname === 'localhost') {
+  if (typeof window !== "undefined" && window.location.hostname === "localhost") {
     console.log(`[StreamStabilizer] ${context}:`, result);
   }
 }
@@ -29,7 +29,7 @@ export const STREAMING_CONFIG = {
     frameRate: { ideal: 30 },
   },
 
-  // Default screen share constraints  
+  // Default screen share constraints
   DEFAULT_SCREENSHARE_CONSTRAINTS: {
     width: { ideal: 1280 },
     height: { ideal: 720 },
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  StreamComplexityManager,
+  type ComplexityMetrics,
+} from "./streamComplexityManager";
+import {
+  applyEncodingParams,
+  computeEncodingParams,
+  getVideoSender,
+  isSameEncoding,
+  type AdaptiveBitrateOptions,
+  type EncodingParams,
+} from "./adaptiveBitrate";
+import { usePublisherStats } from "./usePublisherStats";
+
+export interface UseAdaptiveBitrateOptions {
+  /** The published stream; its frames are sampled for complexity */
+  stream: MediaStream | null;
+  /**
+   * Manager that measures the frames. Defaults to one owned by the hook;
+   * pass a manager to read its history, e.g. with `getAverageComplexity`.
+   */
+  complexityManager?: StreamComplexityManager;
+  /** e.g. `useWhipPublisher().getPeerConnection` */
+  getPeerConnection: () => RTCPeerConnection | null;
+  enabled?: boolean;
+  /** Policy settings, e.g. a lower floor for mostly still content */
+  options?: AdaptiveBitrateOptions;
+  /** How often the policy is re-evaluated (default: 2000) */
+  intervalMs?: number;
+  onChange?: (params: EncodingParams) => void;
+}
+
+/**
+ * Drives the publisher's video sender from frame complexity and outbound
+ * network stats. Every stats poll measures the stream's current frame with
+ * a StreamComplexityManager, runs the policy and applies the result when it
+ * differs from what the sender already has.
+ */
+export const useAdaptiveBitrate = ({
+  stream,
+  complexityManager,
+  getPeerConnection,
+  enabled = true,
+  options,
+  intervalMs = 2000,
+  onChange,
+}: UseAdaptiveBitrateOptions) => {
+  const [params, setParams] = useState<EncodingParams | null>(null);
+  const [complexity, setComplexity] = useState<ComplexityMetrics | null>(
+    null
+  );
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const ownManagerRef = useRef<StreamComplexityManager | null>(null);
+  const appliedRef = useRef<{
+    sender: RTCRtpSender;
+    params: EncodingParams;
+  } | null>(null);
+  const optionsRef = useRef({ options, onChange });
+  optionsRef.current = { options, onChange };
+
+  useEffect(() => {
+    if (!enabled || !stream) return;
+
+    // Frames are read through a video element, so WebGL canvases and
+    // camera tracks are measured the same way as 2D canvases
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    video.play().catch(() => {});
+    videoRef.current = video;
+    return () => {
+      video.pause();
+      video.srcObject = null;
+      if (videoRef.current === video) videoRef.current = null;
+      // The next stream's first frame shouldn't count as motion
+      ownManagerRef.current?.reset();
+      setComplexity(null);
+    };
+  }, [enabled, stream]);
+
+  const { latest: network } = usePublisherStats({
+    getPeerConnection,
+    enabled,
+    intervalMs,
+    historySize: 1,
+    onSample: (sample) => {
+      const sender = getVideoSender(getPeerConnection());
+      if (!sender) return;
+
+      const manager =
+        complexityManager ??
+        (ownManagerRef.current ??= new StreamComplexityManager());
+      const video = videoRef.current;
+      const metrics = video ? manager.getCurrentMetrics(video) : null;
+      setComplexity(metrics);
+
+      // A reconnect brings a new sender that starts from the defaults
+      const applied = appliedRef.current;
+      const current = applied?.sender === sender ? applied.params : null;
+      const next = computeEncodingParams(
+        { complexity: metrics, network: sample, current },
+        optionsRef.current.options
+      );
+      if (current && isSameEncoding(current, next)) return;
+
+      appliedRef.current = { sender, params: next };
+      setParams(next);
+      optionsRef.current.onChange?.(next);
+      applyEncodingParams(sender, next).catch((error) => {
+        console.warn("Failed to apply adaptive encoding:", error);
+      });
+    },
+  });
+
+  return {
+    params,
+    complexity,
+    network,
+  };
+};
@@ -1,47 +1,65 @@
 import { useCallback, useEffect, useRef } from "react";
-import { STREAMING_CONFIG } from "../config/streamingConfig";
+import { STREAMING_CONFIG } from "./streamingConfig";
 import {
   streamComplexityManager,
   type ComplexityInjectionOptions,
-} from "../utils/streamComplexityManager";
+} from "./streamComplexityManager";
 
-interface UseBackgroundStreamingOptions {
+export interface UseBackgroundStreamingOptions {
+  /** Repaint the canvas; called on every background tick */
   onBackgroundFrame?: () => void;
   fps?: number;
   enabled?: boolean;
+  /** Canvas behind the stream, needed for complexity injection and the keep-alive pixel */
   canvas?: HTMLCanvasElement | null;
+  /** Stream to request frames on, where the browser supports it */
   stream?: MediaStream | null;
-  complexityOptions?: ComplexityInjectionOptions;
+  /**
+   * "hidden" ticks only while the tab is in the background, when
+   * requestAnimationFrame stops; "always" ticks whenever enabled
+   * (default: "hidden")
+   */
+  trigger?: "hidden" | "always";
+  /** Inject noise into low-complexity frames while ticking (default: false) */
   enableComplexityManagement?: boolean;
+  complexityOptions?: ComplexityInjectionOptions;
 }
 
-interface BackgroundStreamingHook {
+export interface BackgroundStreamingHook {
   isBackgroundStreaming: boolean;
   startBackgroundStreaming: () => void;
   stopBackgroundStreaming: () => void;
 }
 
+interface CanvasCaptureTrack extends MediaStreamTrack {
+  requestFrame?: () => void;
+}
+
+/**
+ * Keeps a canvas stream producing frames when the page stops painting it,
+ * so the encoder doesn't stall and the remote side doesn't freeze
+ */
 export const useBackgroundStreaming = ({
   onBackgroundFrame,
   fps = STREAMING_CONFIG.FPS,
   enabled = true,
   canvas,
   stream,
-  complexityOptions = {},
-  enableComplexityManagement = true,
+  trigger = "hidden",
+  enableComplexityManagement = false,
+  complexityOptions,
 }: UseBackgroundStreamingOptions): BackgroundStreamingHook => {
-  const intervalRef = useRef<number | null>(null);
+  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const isStreamingRef = useRef(false);
+  const isMonitoringRef = useRef(false);
 
   const startBackgroundStreaming = useCallback(() => {
-    if (!enabled || !canvas || !stream || isStreamingRef.current) return;
-
-    const videoTrack = stream.getVideoTracks()[0];
-    if (!videoTrack) return;
+    if (!enabled || isStreamingRef.current) return;
 
     isStreamingRef.current = true;
 
-    if (enableComplexityManagement) {
+    if (enableComplexityManagement && canvas) {
+      isMonitoringRef.current = true;
       streamComplexityManager.startMonitoring(canvas, {
         targetComplexity: 0.3,
         complexityType: "adaptive",
@@ -55,9 +73,9 @@ export const useBackgroundStreaming = ({
     intervalRef.current = setInterval(() => {
       if (onBackgroundFrame) {
         onBackgroundFrame();
-      }
-
-      if (!enableComplexityManagement) {
+      } else if (!isMonitoringRef.current && canvas) {
+        // Nothing else repaints the canvas: flicker one corner pixel so the
+        // encoder keeps seeing new frames
         const ctx = canvas.getContext("2d");
         if (ctx) {
           const time = Date.now();
@@ -67,11 +85,13 @@ export const useBackgroundStreaming = ({
         }
       }
 
-      if (
-        "requestFrame" in videoTrack &&
-        typeof (videoTrack as any).requestFrame === "function"
-      ) {
-        (videoTrack as any).requestFrame();
+      // Looked up every tick, since a resize swaps in a new capture track
+      const videoTrack = stream?.getVideoTracks()[0] as
+        | CanvasCaptureTrack
+        | undefined;
+      // Chrome-only: push the frame out instead of waiting for a repaint
+      if (typeof videoTrack?.requestFrame === "function") {
+        videoTrack.requestFrame();
       }
     }, 1000 / fps);
   }, [
@@ -90,25 +110,29 @@ export const useBackgroundStreaming = ({
       intervalRef.current = null;
     }
 
-    if (enableComplexityManagement) {
+    if (isMonitoringRef.current) {
       streamComplexityManager.stopMonitoring();
+      isMonitoringRef.current = false;
     }
 
     isStreamingRef.current = false;
-  }, [enableComplexityManagement]);
+  }, []);
 
-  const handleVisibilityChange = useCallback(() => {
-    if (!enabled) return;
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
 
-    if (document.hidden) {
+    if (trigger === "always") {
       startBackgroundStreaming();
-    } else {
-      stopBackgroundStreaming();
+      return stopBackgroundStreaming;
     }
-  }, [enabled, startBackgroundStreaming, stopBackgroundStreaming]);
 
-  useEffect(() => {
-    if (!enabled || typeof window === "undefined") return;
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        startBackgroundStreaming();
+      } else {
+        stopBackgroundStreaming();
+      }
+    };
 
     document.addEventListener("visibilitychange", handleVisibilityChange);
 
@@ -116,13 +140,7 @@ export const useBackgroundStreaming = ({
       document.removeEventListener("visibilitychange", handleVisibilityChange);
       stopBackgroundStreaming();
     };
-  }, [enabled, handleVisibilityChange, stopBackgroundStreaming]);
-
-  useEffect(() => {
-    return () => {
-      stopBackgroundStreaming();
-    };
-  }, [stopBackgroundStreaming]);
+  }, [enabled, trigger, startBackgroundStreaming, stopBackgroundStreaming]);
 
   return {
     isBackgroundStreaming: isStreamingRef.current,
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DaydreamNotFoundError,
+  type DaydreamClient,
+  type DaydreamStream,
+  type DaydreamStreamParams,
+} from "./daydreamClient";
+
+export type DaydreamStreamStatus = "idle" | "creating" | "ready" | "error";
+
+export interface UseDaydreamStreamOptions {
+  client: DaydreamClient;
+  pipelineId: string;
+  initialParams?: DaydreamStreamParams;
+  /** Create the stream on mount and delete it on unmount (default: true) */
+  autoCreate?: boolean;
+  onError?: (error: string) => void;
+}
+
+export const useDaydreamStream = ({
+  client,
+  pipelineId,
+  initialParams,
+  autoCreate = true,
+  onError,
+}: UseDaydreamStreamOptions) => {
+  const [stream, setStream] = useState<DaydreamStream | null>(null);
+  const [status, setStatus] = useState<DaydreamStreamStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<DaydreamStream | null>(null);
+  // Bumped on every create/remove so late responses can tell they are stale
+  const generationRef = useRef(0);
+  const paramsRef = useRef(initialParams);
+  const onErrorRef = useRef(onError);
+  paramsRef.current = initialParams;
+  onErrorRef.current = onError;
+
+  const remove = useCallback(async () => {
+    generationRef.current++;
+    const current = streamRef.current;
+    streamRef.current = null;
+    setStream(null);
+    setStatus("idle");
+
+    if (current) {
+      try {
+        await client.deleteStream(current.id);
+      } catch (err) {
+        // Already gone is what we wanted anyway
+        if (!(err instanceof DaydreamNotFoundError)) {
+          console.warn("Failed to delete Daydream stream:", err);
+        }
+      }
+    }
+  }, [client]);
+
+  const create = useCallback(async () => {
+    await remove();
+    const generation = ++generationRef.current;
+    setStatus("creating");
+    setError(null);
+
+    try {
+      const created = await client.createStream({
+        pipelineId,
+        params: paramsRef.current,
+      });
+
+      if (generation !== generationRef.current) {
+        // Superseded (or unmounted) while the request was in flight
+        client.deleteStream(created.id).catch(() => {});
+        return null;
+      }
+
+      streamRef.current = created;
+      setStream(created);
+      setStatus("ready");
+      return created;
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to create stream";
+      if (generation === generationRef.current) {
+        setError(errorMessage);
+        setStatus("error");
+      }
+      onErrorRef.current?.(errorMessage);
+      return null;
+    }
+  }, [client, pipelineId, remove]);
+
+  /**
+   * Push new pipeline parameters to the active stream. Rejects with the
+   * typed API error so callers can tell validation failures from the rest.
+   */
+  const updateParams = useCallback(
+    async (params: DaydreamStreamParams) => {
+      const current = streamRef.current;
+      if (!current) {
+        throw new Error("No active Daydream stream");
+      }
+
+      const updated = await client.updateParams(current.id, params);
+      if (streamRef.current?.id === updated.id) {
+        streamRef.current = updated;
+        setStream(updated);
+      }
+      return updated;
+    },
+    [client]
+  );
+
+  useEffect(() => {
+    if (!autoCreate) return;
+    create();
+    return () => {
+      remove();
+    };
+  }, [autoCreate, create, remove]);
+
+  return {
+    stream,
+    status,
+    error,
+    create,
+    updateParams,
+    remove,
+  };
+};
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  DaydreamApiError,
+  DaydreamValidationError,
+  type DaydreamStreamParams,
+} from "./daydreamClient";
+
+export type ParamUpdateStatus =
+  | "idle"
+  | "pending"
+  | "sending"
+  | "acknowledged"
+  | "error";
+
+export interface UseParamUpdaterOptions {
+  updateParams: (params: DaydreamStreamParams) => Promise<unknown>;
+  /** Quiet period after the last edit before the update is sent */
+  debounceMs?: number;
+  /** Wait before resending an update that failed (default: 2000) */
+  retryDelayMs?: number;
+}
+
+const describeError = (err: unknown) => {
+  if (err instanceof DaydreamValidationError && err.details.length > 0) {
+    return err.details
+      .map((detail) =>
+        detail.field ? `${detail.field} ${detail.message}` : detail.message
+      )
+      .join(", ");
+  }
+  return err instanceof Error ? err.message : "Failed to update parameters";
+};
+
+// Network failures, rate limits and server errors may pass on a later try;
+// a rejected value or a deleted stream won't
+const isTransient = (err: unknown) =>
+  !(err instanceof DaydreamApiError) ||
+  err.status === 429 ||
+  err.status >= 500;
+
+/**
+ * Debounces parameter edits into a single update. Edits made while a request
+ * is in flight are merged and sent once it settles. A failed update is kept
+ * under any newer edits and resent after `retryDelayMs`, so the stream ends
+ * up with the latest values once the API is reachable again. Updates the API
+ * rejects outright, e.g. invalid values, are dropped; `error` says why.
+ */
+export const useParamUpdater = ({
+  updateParams,
+  debounceMs = 400,
+  retryDelayMs = 2000,
+}: UseParamUpdaterOptions) => {
+  const [status, setStatus] = useState<ParamUpdateStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+  const [lastAckMs, setLastAckMs] = useState<number | null>(null);
+
+  const pendingRef = useRef<DaydreamStreamParams | null>(null);
+  const inFlightRef = useRef(false);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const updateParamsRef = useRef(updateParams);
+  updateParamsRef.current = updateParams;
+
+  const send = useCallback(async () => {
+    if (inFlightRef.current || !pendingRef.current) return;
+
+    const params = pendingRef.current;
+    pendingRef.current = null;
+    inFlightRef.current = true;
+    setStatus("sending");
+    const startedAt = performance.now();
+
+    try {
+      await updateParamsRef.current(params);
+      if (!pendingRef.current) {
+        setLastAckMs(Math.round(performance.now() - startedAt));
+        setError(null);
+        setStatus("acknowledged");
+      }
+    } catch (err) {
+      setError(describeError(err));
+      setStatus("error");
+      if (isTransient(err)) {
+        // Newer edits win over the values that failed to land
+        pendingRef.current = { ...params, ...(pendingRef.current ?? {}) };
+        if (timerRef.current) {
+          clearTimeout(timerRef.current);
+        }
+        timerRef.current = setTimeout(() => {
+          timerRef.current = null;
+          send();
+        }, retryDelayMs);
+        return;
+      }
+    } finally {
+      inFlightRef.current = false;
+    }
+
+    if (pendingRef.current) {
+      send();
+    }
+  }, [retryDelayMs]);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    send();
+  }, [send]);
+
+  const queueUpdate = useCallback(
+    (params: DaydreamStreamParams) => {
+      pendingRef.current = { ...pendingRef.current, ...params };
+      setStatus("pending");
+
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        send();
+      }, debounceMs);
+    },
+    [debounceMs, send]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (timerRef.current) {
+        clearTimeout(timerRef.current);
+      }
+    };
+  }, []);
+
+  return {
+    status,
+    error,
+    lastAckMs,
+    queueUpdate,
+    flush,
+  };
+};
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useParamUpdater } from "./useParamUpdater";
+import type { DaydreamStreamParams } from "./daydreamClient";
+import {
+  PromptScheduler,
+  type PromptEasing,
+  type PromptTimeline,
+  type SchedulerClock,
+} from "./promptScheduler";
+
+export interface UsePromptSchedulerOptions {
+  updateParams: (params: DaydreamStreamParams) => Promise<unknown>;
+  /** Read once, when the scheduler is first used */
+  stepMs?: number;
+  clock?: SchedulerClock;
+}
+
+export const usePromptScheduler = ({
+  updateParams,
+  stepMs,
+  clock,
+}: UsePromptSchedulerOptions) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [currentParams, setCurrentParams] =
+    useState<DaydreamStreamParams | null>(null);
+
+  // Sampled params go out latest-wins, so a slow request never queues up
+  // a backlog of stale weights
+  const { status, error, queueUpdate } = useParamUpdater({
+    updateParams,
+    debounceMs: 0,
+  });
+
+  const schedulerRef = useRef<PromptScheduler | null>(null);
+  const configRef = useRef({ stepMs, clock });
+  const queueUpdateRef = useRef(queueUpdate);
+  queueUpdateRef.current = queueUpdate;
+
+  const getScheduler = useCallback(() => {
+    if (!schedulerRef.current) {
+      schedulerRef.current = new PromptScheduler({
+        onParams: (params) => {
+          setCurrentParams(params);
+          queueUpdateRef.current(params);
+        },
+        onComplete: () => setIsRunning(false),
+        ...configRef.current,
+      });
+    }
+    return schedulerRef.current;
+  }, []);
+
+  const play = useCallback(
+    (timeline: PromptTimeline) => {
+      const scheduler = getScheduler();
+      scheduler.play(timeline);
+      setIsRunning(scheduler.isRunning());
+    },
+    [getScheduler]
+  );
+
+  const crossfade = useCallback(
+    (from: string, to: string, durationMs: number, easing?: PromptEasing) => {
+      const scheduler = getScheduler();
+      scheduler.crossfade(from, to, durationMs, easing);
+      setIsRunning(scheduler.isRunning());
+    },
+    [getScheduler]
+  );
+
+  const seek = useCallback((elapsedMs: number) => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler) return;
+    scheduler.seek(elapsedMs);
+    setIsRunning(scheduler.isRunning());
+  }, []);
+
+  const stop = useCallback(() => {
+    schedulerRef.current?.stop();
+    setIsRunning(false);
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      schedulerRef.current?.stop();
+    };
+  }, []);
+
+  return {
+    isRunning,
+    currentParams,
+    status,
+    error,
+    play,
+    crossfade,
+    seek,
+    stop,
+  };
+};
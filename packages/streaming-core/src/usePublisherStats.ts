@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  PublisherStatsMonitor,
+  type PublisherStatsSample,
+} from "./publisherStats";
+
+export interface UsePublisherStatsOptions {
+  /** e.g. `useWhipPublisher().getPeerConnection` */
+  getPeerConnection: () => RTCPeerConnection | null;
+  enabled?: boolean;
+  intervalMs?: number;
+  historySize?: number;
+  onSample?: (sample: PublisherStatsSample) => void;
+}
+
+export const usePublisherStats = ({
+  getPeerConnection,
+  enabled = true,
+  intervalMs,
+  historySize,
+  onSample,
+}: UsePublisherStatsOptions) => {
+  const [latest, setLatest] = useState<PublisherStatsSample | null>(null);
+  const [history, setHistory] = useState<PublisherStatsSample[]>([]);
+  const callbacksRef = useRef({ getPeerConnection, onSample });
+  callbacksRef.current = { getPeerConnection, onSample };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const monitor = new PublisherStatsMonitor({
+      getPeerConnection: () => callbacksRef.current.getPeerConnection(),
+      intervalMs,
+      historySize,
+    });
+    const unsubscribe = monitor.subscribe((sample) => {
+      setLatest(sample);
+      setHistory(monitor.getHistory());
+      callbacksRef.current.onSample?.(sample);
+    });
+    monitor.start();
+
+    return () => {
+      unsubscribe();
+      monitor.stop();
+      setLatest(null);
+      setHistory([]);
+    };
+  }, [enabled, intervalMs, historySize]);
+
+  return {
+    latest,
+    history,
+  };
+};
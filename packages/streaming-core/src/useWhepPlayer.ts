@@ -0,0 +1,179 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  WhepClient,
+  type WhepClientOptions,
+  type WhepPlaybackState,
+} from "./whepClient";
+
+export interface UseWhepPlayerOptions
+  extends Omit<WhepClientOptions, "endpoint" | "onStateChange" | "onStream"> {
+  endpoint?: string | null;
+  enabled?: boolean;
+  /** Time without a new frame before playback is reported as stalled */
+  stallTimeoutMs?: number;
+  onStateChange?: (state: WhepPlaybackState) => void;
+  onFirstFrame?: (elapsedMs: number) => void;
+  onStall?: (isStalled: boolean) => void;
+  onError?: (error: string) => void;
+}
+
+const now = () =>
+  typeof performance !== "undefined" ? performance.now() : Date.now();
+
+export const useWhepPlayer = (
+  videoRef: { current: HTMLVideoElement | null },
+  {
+    endpoint,
+    enabled = true,
+    stallTimeoutMs = 2000,
+    onStateChange,
+    onFirstFrame,
+    onStall,
+    onError,
+    ...clientOptions
+  }: UseWhepPlayerOptions = {}
+) => {
+  const [state, setState] = useState<WhepPlaybackState>("idle");
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [firstFrameMs, setFirstFrameMs] = useState<number | null>(null);
+  const [isStalled, setIsStalled] = useState(false);
+
+  const clientRef = useRef<WhepClient | null>(null);
+  const startedAtRef = useRef(0);
+  const lastFrameAtRef = useRef<number | null>(null);
+  const isStalledRef = useRef(false);
+  const optionsRef = useRef(clientOptions);
+  const callbacksRef = useRef({ onStateChange, onFirstFrame, onStall, onError });
+  optionsRef.current = clientOptions;
+  callbacksRef.current = { onStateChange, onFirstFrame, onStall, onError };
+
+  const stop = useCallback(async () => {
+    const client = clientRef.current;
+    clientRef.current = null;
+    setStream(null);
+    if (client) {
+      await client.stop();
+    }
+  }, []);
+
+  const play = useCallback(async () => {
+    if (!endpoint) return;
+
+    await stop();
+    setError(null);
+    setFirstFrameMs(null);
+    setIsStalled(false);
+    isStalledRef.current = false;
+    lastFrameAtRef.current = null;
+    startedAtRef.current = now();
+
+    const client = new WhepClient({
+      ...optionsRef.current,
+      endpoint,
+      onStateChange: (next) => {
+        setState(next);
+        callbacksRef.current.onStateChange?.(next);
+      },
+      onStream: (remote) => {
+        if (clientRef.current === client) setStream(remote);
+      },
+    });
+    clientRef.current = client;
+
+    try {
+      await client.play();
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to start playback";
+      if (clientRef.current === client) {
+        setError(errorMessage);
+      }
+      callbacksRef.current.onError?.(errorMessage);
+    }
+  }, [endpoint, stop]);
+
+  useEffect(() => {
+    if (enabled) {
+      play();
+    } else {
+      stop();
+    }
+  }, [enabled, play, stop]);
+
+  useEffect(() => {
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  // Attach the remote stream and watch for first frame / stalls
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !stream) return;
+
+    video.srcObject = stream;
+    video.play().catch(() => {});
+
+    let cancelled = false;
+    let frameHandle: number | null = null;
+
+    const onFrame = () => {
+      const frameAt = now();
+      if (lastFrameAtRef.current === null) {
+        const elapsed = Math.round(frameAt - startedAtRef.current);
+        setFirstFrameMs(elapsed);
+        callbacksRef.current.onFirstFrame?.(elapsed);
+      }
+      lastFrameAtRef.current = frameAt;
+      if (isStalledRef.current) {
+        isStalledRef.current = false;
+        setIsStalled(false);
+        callbacksRef.current.onStall?.(false);
+      }
+    };
+
+    const supportsFrameCallback =
+      typeof video.requestVideoFrameCallback === "function";
+    if (supportsFrameCallback) {
+      const loop = () => {
+        if (cancelled) return;
+        onFrame();
+        frameHandle = video.requestVideoFrameCallback(loop);
+      };
+      frameHandle = video.requestVideoFrameCallback(loop);
+    } else {
+      video.addEventListener("timeupdate", onFrame);
+    }
+
+    const stallTimer = setInterval(() => {
+      if (lastFrameAtRef.current === null) return;
+      const stalled = now() - lastFrameAtRef.current > stallTimeoutMs;
+      if (stalled !== isStalledRef.current) {
+        isStalledRef.current = stalled;
+        setIsStalled(stalled);
+        callbacksRef.current.onStall?.(stalled);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearInterval(stallTimer);
+      if (supportsFrameCallback && frameHandle !== null) {
+        video.cancelVideoFrameCallback(frameHandle);
+      } else {
+        video.removeEventListener("timeupdate", onFrame);
+      }
+    };
+  }, [videoRef, stream, stallTimeoutMs]);
+
+  return {
+    state,
+    stream,
+    error,
+    firstFrameMs,
+    isStalled,
+    play,
+    stop,
+  };
+};
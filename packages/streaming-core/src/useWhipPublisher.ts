@@ -0,0 +1,144 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  WhipClient,
+  type WhipClientOptions,
+  type WhipPublishState,
+} from "./whipClient";
+import {
+  ReconnectingPublisher,
+  type PublishConnectionState,
+  type ReconnectOptions,
+} from "./reconnectingPublisher";
+
+export interface UseWhipPublisherOptions
+  extends Omit<WhipClientOptions, "endpoint" | "onStateChange"> {
+  stream: MediaStream | null;
+  endpoint?: string | null;
+  /** Publish automatically once both stream and endpoint are available */
+  autoPublish?: boolean;
+  /** Backoff settings for reconnecting dropped sessions, or false to give up on the first failure */
+  reconnect?: ReconnectOptions | false;
+  onStateChange?: (state: WhipPublishState) => void;
+  onConnectionStateChange?: (state: PublishConnectionState) => void;
+  onError?: (error: string) => void;
+}
+
+export const useWhipPublisher = ({
+  stream,
+  endpoint,
+  autoPublish = true,
+  reconnect,
+  onStateChange,
+  onConnectionStateChange,
+  onError,
+  ...clientOptions
+}: UseWhipPublisherOptions) => {
+  const [state, setState] = useState<WhipPublishState>("idle");
+  const [connectionState, setConnectionState] =
+    useState<PublishConnectionState>("idle");
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const publisherRef = useRef<ReconnectingPublisher | null>(null);
+  const optionsRef = useRef({ clientOptions, reconnect });
+  const callbacksRef = useRef({
+    onStateChange,
+    onConnectionStateChange,
+    onError,
+  });
+  optionsRef.current = { clientOptions, reconnect };
+  callbacksRef.current = { onStateChange, onConnectionStateChange, onError };
+
+  const stop = useCallback(async () => {
+    const publisher = publisherRef.current;
+    publisherRef.current = null;
+    if (publisher) {
+      await publisher.stop();
+    }
+  }, []);
+
+  const publish = useCallback(async () => {
+    // Losing either the stream or the endpoint ends the current session
+    await stop();
+    if (!stream || !endpoint) return;
+
+    setError(null);
+    setReconnectAttempt(0);
+
+    const { clientOptions, reconnect } = optionsRef.current;
+    const publisher = new ReconnectingPublisher({
+      ...(reconnect === false ? { maxAttempts: 0 } : reconnect),
+      // Every attempt republishes the same stream, so the source keeps
+      // running and consumers never see a new MediaStream
+      createTransport: (onTransportStateChange) =>
+        new WhipClient({
+          ...clientOptions,
+          endpoint,
+          onStateChange: onTransportStateChange,
+        }),
+      onTransportStateChange: (next) => {
+        setState(next);
+        callbacksRef.current.onStateChange?.(next);
+      },
+      onStateChange: (next) => {
+        setConnectionState(next);
+        if (next === "live") setReconnectAttempt(0);
+        callbacksRef.current.onConnectionStateChange?.(next);
+      },
+      onReconnectAttempt: (attempt) => {
+        if (publisherRef.current === publisher) setReconnectAttempt(attempt);
+      },
+      onError: (err) => {
+        if (publisherRef.current === publisher) {
+          setError(err.message);
+        }
+        callbacksRef.current.onError?.(err.message);
+      },
+    });
+    publisherRef.current = publisher;
+
+    await publisher.start(stream);
+  }, [stream, endpoint, stop]);
+
+  useEffect(() => {
+    if (autoPublish) {
+      publish();
+    }
+  }, [autoPublish, publish]);
+
+  // A sleeping tab or a dead network makes backoff delays grow; retry as
+  // soon as the browser says things are back
+  useEffect(() => {
+    const retryNow = () => {
+      if (document.visibilityState === "visible") {
+        publisherRef.current?.retryNow();
+      }
+    };
+    window.addEventListener("online", retryNow);
+    document.addEventListener("visibilitychange", retryNow);
+    return () => {
+      window.removeEventListener("online", retryNow);
+      document.removeEventListener("visibilitychange", retryNow);
+    };
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      stop();
+    };
+  }, [stop]);
+
+  return {
+    state,
+    connectionState,
+    reconnectAttempt,
+    error,
+    isPublishing:
+      connectionState === "connecting" ||
+      connectionState === "live" ||
+      connectionState === "degraded" ||
+      connectionState === "reconnecting",
+    publish,
+    stop,
+    getPeerConnection: () => publisherRef.current?.getPeerConnection() ?? null,
+  };
+};
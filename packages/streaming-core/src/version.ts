@@ -0,0 +1,5 @@
+/**
+ * Version of the streaming core API, kept in step with package.json. Breaking
+ * changes to any export bump the major version.
+ */
+export const STREAMING_CORE_VERSION = "1.3.0";
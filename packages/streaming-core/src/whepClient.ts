@@ -0,0 +1,190 @@
+export type WhepPlaybackState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "disconnected"
+  | "failed"
+  | "closed";
+
+export interface WhepClientOptions {
+  /** WHEP playback endpoint the SDP offer is POSTed to */
+  endpoint: string;
+  /** Optional bearer token sent with every WHEP request */
+  token?: string;
+  iceServers?: RTCIceServer[];
+  /** Max time to wait for ICE gathering before sending the offer */
+  iceGatheringTimeoutMs?: number;
+  fetch?: typeof fetch;
+  onStateChange?: (state: WhepPlaybackState) => void;
+  onStream?: (stream: MediaStream) => void;
+}
+
+/**
+ * Resolves once ICE gathering completes, or after the timeout with whatever
+ * candidates were gathered so far
+ */
+const waitForIceGathering = (pc: RTCPeerConnection, timeoutMs: number) =>
+  new Promise<void>((resolve) => {
+    if (pc.iceGatheringState === "complete") {
+      resolve();
+      return;
+    }
+
+    const timeout = setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timeout);
+      pc.removeEventListener("icegatheringstatechange", onChange);
+      resolve();
+    }
+    function onChange() {
+      if (pc.iceGatheringState === "complete") done();
+    }
+
+    pc.addEventListener("icegatheringstatechange", onChange);
+  });
+
+class WhepClient {
+  private options: WhepClientOptions;
+  private pc: RTCPeerConnection | null = null;
+  private resourceUrl: string | null = null;
+  private stream: MediaStream | null = null;
+  private state: WhepPlaybackState = "idle";
+
+  constructor(options: WhepClientOptions) {
+    this.options = options;
+  }
+
+  getState(): WhepPlaybackState {
+    return this.state;
+  }
+
+  getStream(): MediaStream | null {
+    return this.stream;
+  }
+
+  getPeerConnection(): RTCPeerConnection | null {
+    return this.pc;
+  }
+
+  /**
+   * Start playback: POST a recvonly offer (with gathered candidates) and
+   * apply the answer. Remote tracks are collected into a single MediaStream.
+   */
+  async play(): Promise<MediaStream> {
+    if (this.pc) {
+      await this.stop();
+    }
+
+    this.setState("connecting");
+
+    const pc = new RTCPeerConnection({
+      iceServers: this.options.iceServers,
+      bundlePolicy: "max-bundle",
+    });
+    this.pc = pc;
+
+    const stream = new MediaStream();
+    this.stream = stream;
+
+    pc.addTransceiver("video", { direction: "recvonly" });
+    pc.addTransceiver("audio", { direction: "recvonly" });
+
+    pc.addEventListener("track", (event) => {
+      if (this.pc !== pc) return;
+      if (!stream.getTracks().includes(event.track)) {
+        stream.addTrack(event.track);
+      }
+      this.options.onStream?.(stream);
+    });
+
+    pc.addEventListener("connectionstatechange", () => {
+      if (this.pc !== pc) return;
+      switch (pc.connectionState) {
+        case "connected":
+          this.setState("connected");
+          break;
+        case "disconnected":
+          this.setState("disconnected");
+          break;
+        case "failed":
+          this.setState("failed");
+          break;
+      }
+    });
+
+    try {
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+      await waitForIceGathering(pc, this.options.iceGatheringTimeoutMs ?? 2000);
+
+      const response = await this.request(this.options.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/sdp" },
+        body: pc.localDescription?.sdp ?? offer.sdp,
+      });
+
+      if (response.status !== 201 && response.status !== 200) {
+        throw new Error(`WHEP endpoint responded with ${response.status}`);
+      }
+
+      const location = response.headers.get("Location");
+      if (location) {
+        this.resourceUrl = new URL(location, this.options.endpoint).toString();
+      }
+
+      const answer = await response.text();
+      if (this.pc !== pc) return stream;
+      await pc.setRemoteDescription({ type: "answer", sdp: answer });
+
+      return stream;
+    } catch (error) {
+      if (this.pc === pc) {
+        this.setState("failed");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop playback: DELETE the WHEP resource and close the connection
+   */
+  async stop(): Promise<void> {
+    const resourceUrl = this.resourceUrl;
+    this.resourceUrl = null;
+
+    if (this.pc) {
+      this.pc.close();
+      this.pc = null;
+    }
+
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => track.stop());
+      this.stream = null;
+    }
+
+    if (resourceUrl) {
+      await this.request(resourceUrl, { method: "DELETE" }).catch(() => {});
+    }
+
+    if (this.state !== "idle") {
+      this.setState("closed");
+    }
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.options.token) {
+      headers.set("Authorization", `Bearer ${this.options.token}`);
+    }
+    const doFetch = this.options.fetch ?? ((input, req) => fetch(input, req));
+    return doFetch(url, { ...init, headers });
+  }
+
+  private setState(state: WhepPlaybackState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
+
+export { WhepClient };
@@ -0,0 +1,337 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+  type Mock,
+} from "vitest";
+import { createMockWhipServer } from "./mockWhipServer";
+import { STREAMING_CONFIG } from "./streamingConfig";
+import {
+  WhipClient,
+  WhipRequestError,
+  type WhipPublishState,
+} from "./whipClient";
+
+const offerSdp = (ufrag: string) =>
+  [
+    "v=0",
+    "o=- 1 2 IN IP4 127.0.0.1",
+    "s=-",
+    "t=0 0",
+    "a=group:BUNDLE 0 1",
+    "m=audio 9 UDP/TLS/RTP/SAVPF 111",
+    "a=mid:0",
+    `a=ice-ufrag:${ufrag}`,
+    "a=ice-pwd:localpassword0123456789",
+    "a=fingerprint:sha-256 AB:CD",
+    "a=setup:actpass",
+    "a=sendonly",
+    "m=video 9 UDP/TLS/RTP/SAVPF 96",
+    "a=mid:1",
+    `a=ice-ufrag:${ufrag}`,
+    "a=ice-pwd:localpassword0123456789",
+    "a=fingerprint:sha-256 AB:CD",
+    "a=setup:actpass",
+    "a=sendonly",
+    "",
+  ].join("\r\n");
+
+interface FakeSender {
+  track: MediaStreamTrack;
+  getParameters: () => RTCRtpSendParameters;
+  setParameters: Mock<(params: RTCRtpSendParameters) => Promise<void>>;
+  generateKeyFrame: Mock<() => Promise<void>>;
+}
+
+/** Just enough of RTCPeerConnection for the WHIP signalling */
+class FakePeerConnection extends EventTarget {
+  static instances: FakePeerConnection[] = [];
+
+  connectionState: RTCPeerConnectionState = "new";
+  iceGatheringState: RTCIceGatheringState = "new";
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  closed = false;
+  transceivers: Array<{
+    track: MediaStreamTrack;
+    init?: RTCRtpTransceiverInit;
+  }> = [];
+  senders: FakeSender[] = [];
+  private offers = 0;
+
+  constructor() {
+    super();
+    FakePeerConnection.instances.push(this);
+  }
+
+  addTransceiver(track: MediaStreamTrack, init?: RTCRtpTransceiverInit) {
+    this.transceivers.push({ track, init });
+    this.senders.push({
+      track,
+      getParameters: () => ({ encodings: [{}] }) as RTCRtpSendParameters,
+      setParameters: vi.fn(async () => {}),
+      generateKeyFrame: vi.fn(async () => {}),
+    });
+  }
+
+  videoSender() {
+    return this.senders.find((sender) => sender.track.kind === "video")!;
+  }
+
+  getSenders() {
+    return this.senders;
+  }
+
+  async createOffer() {
+    return { type: "offer" as const, sdp: offerSdp(`local${++this.offers}`) };
+  }
+
+  async setLocalDescription(description: RTCSessionDescriptionInit) {
+    this.localDescription = description;
+  }
+
+  async setRemoteDescription(description: RTCSessionDescriptionInit) {
+    this.remoteDescription = description;
+  }
+
+  async addIceCandidate() {}
+
+  close() {
+    this.closed = true;
+    this.connectionState = "closed";
+  }
+
+  gather(candidate: string | null, sdpMid = "0") {
+    if (candidate === null) this.iceGatheringState = "complete";
+    this.dispatchEvent(
+      Object.assign(new Event("icecandidate"), {
+        candidate: candidate === null ? null : { candidate, sdpMid },
+      })
+    );
+  }
+
+  connect() {
+    this.connectionState = "connected";
+    this.dispatchEvent(new Event("connectionstatechange"));
+  }
+}
+
+const createStream = () => {
+  const audio = { id: "audio", kind: "audio" } as MediaStreamTrack;
+  const video = { id: "video", kind: "video" } as MediaStreamTrack;
+  return Object.assign(new EventTarget(), {
+    getAudioTracks: () => [audio],
+    getVideoTracks: () => [video],
+    getTrackById: (id: string) => [audio, video].find((t) => t.id === id),
+  }) as unknown as MediaStream;
+};
+
+// Trickle PATCHes are sent without being awaited
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const endpoint = "https://mock.whip.local/whip";
+
+describe("WhipClient", () => {
+  beforeEach(() => {
+    FakePeerConnection.instances = [];
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("POSTs the offer and keeps the Location of the 201", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({
+      endpoint,
+      token: "dev-token",
+      fetch: server.fetch,
+    });
+
+    await client.publish(createStream());
+
+    const [post] = server.getRequests();
+    expect(post.method).toBe("POST");
+    expect(post.url).toBe(endpoint);
+    expect(post.headers.get("Content-Type")).toBe("application/sdp");
+    expect(post.headers.get("Authorization")).toBe("Bearer dev-token");
+    expect(post.body).toContain("a=ice-ufrag:local1");
+
+    // The relative Location is resolved against the endpoint
+    expect(client.getResourceUrl()).toBe(`${endpoint}/sessions/1`);
+    const pc = FakePeerConnection.instances[0];
+    expect(pc.remoteDescription?.type).toBe("answer");
+    expect(pc.remoteDescription?.sdp).toContain("a=recvonly");
+    expect(pc.remoteDescription?.sdp).toContain("a=ice-ufrag:mockufrag");
+  });
+
+  it("trickles candidates to the session with PATCH", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({ endpoint, fetch: server.fetch });
+    await client.publish(createStream());
+    const pc = FakePeerConnection.instances[0];
+
+    pc.gather("candidate:1 1 udp 2122260223 192.168.1.20 54400 typ host");
+    await settle();
+    pc.gather(null);
+    await settle();
+
+    const patches = server.getRequests().filter((r) => r.method === "PATCH");
+    expect(patches).toHaveLength(2);
+    for (const patch of patches) {
+      expect(patch.url).toBe(`${endpoint}/sessions/1`);
+      expect(patch.headers.get("Content-Type")).toBe(
+        "application/trickle-ice-sdpfrag"
+      );
+      expect(patch.headers.get("If-Match")).toBe('"session-1"');
+      expect(patch.body).toContain("a=ice-ufrag:local1");
+    }
+    expect(patches[0].body).toContain(
+      "a=candidate:1 1 udp 2122260223 192.168.1.20 54400 typ host"
+    );
+    expect(patches[0].body).not.toContain("a=end-of-candidates");
+    expect(patches[1].body).toContain("a=end-of-candidates");
+  });
+
+  it("stops trickling when the endpoint does not support it", async () => {
+    const server = createMockWhipServer({ endpoint, trickleIce: false });
+    const client = new WhipClient({ endpoint, fetch: server.fetch });
+    await client.publish(createStream());
+    const pc = FakePeerConnection.instances[0];
+
+    pc.gather("candidate:1 1 udp 2122260223 192.168.1.20 54400 typ host");
+    await settle();
+    pc.gather("candidate:2 1 udp 1686052607 203.0.113.7 54400 typ srflx");
+    await settle();
+
+    const patches = server.getRequests().filter((r) => r.method === "PATCH");
+    expect(patches).toHaveLength(1);
+  });
+
+  it("DELETEs the session and closes the connection on stop", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const states: WhipPublishState[] = [];
+    const client = new WhipClient({
+      endpoint,
+      fetch: server.fetch,
+      onStateChange: (state) => states.push(state),
+    });
+    await client.publish(createStream());
+    const pc = FakePeerConnection.instances[0];
+    pc.connect();
+
+    await client.stop();
+
+    const last = server.getRequests().at(-1);
+    expect(last?.method).toBe("DELETE");
+    expect(last?.url).toBe(`${endpoint}/sessions/1`);
+    expect(server.getSessions()).toEqual([]);
+    expect(pc.closed).toBe(true);
+    expect(client.getResourceUrl()).toBeNull();
+    expect(states).toEqual(["connecting", "connected", "closed"]);
+  });
+
+  it("rejects with the status when the endpoint refuses the offer", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const states: WhipPublishState[] = [];
+    const client = new WhipClient({
+      endpoint: "https://mock.whip.local/unknown",
+      fetch: server.fetch,
+      onStateChange: (state) => states.push(state),
+    });
+
+    const error = await client.publish(createStream()).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WhipRequestError);
+    expect((error as WhipRequestError).status).toBe(404);
+    expect(states).toEqual(["connecting", "failed"]);
+  });
+
+  it("caps the senders at the configured bitrates and frame rate", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({ endpoint, fetch: server.fetch });
+    await client.publish(createStream());
+    const pc = FakePeerConnection.instances[0];
+
+    expect(pc.transceivers.map(({ init }) => init?.sendEncodings)).toEqual([
+      [{ maxBitrate: STREAMING_CONFIG.AUDIO_BITRATE }],
+      [
+        {
+          maxBitrate: STREAMING_CONFIG.VIDEO_BITRATE,
+          maxFramerate: STREAMING_CONFIG.FPS,
+        },
+      ],
+    ]);
+    // Applied again once negotiated, keeping resolution over frame rate
+    expect(pc.videoSender().setParameters).toHaveBeenCalledTimes(1);
+    expect(pc.videoSender().setParameters).toHaveBeenCalledWith({
+      encodings: [
+        {
+          maxBitrate: STREAMING_CONFIG.VIDEO_BITRATE,
+          maxFramerate: STREAMING_CONFIG.FPS,
+        },
+      ],
+      degradationPreference: "maintain-resolution",
+    });
+    expect(pc.senders[0].setParameters).not.toHaveBeenCalled();
+  });
+
+  it("uses the videoBitrate option over the default", async () => {
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({
+      endpoint,
+      fetch: server.fetch,
+      videoBitrate: 800_000,
+    });
+    await client.publish(createStream());
+    const pc = FakePeerConnection.instances[0];
+
+    expect(pc.transceivers[1].init?.sendEncodings?.[0].maxBitrate).toBe(
+      800_000
+    );
+    expect(
+      pc.videoSender().setParameters.mock.calls[0][0].encodings[0].maxBitrate
+    ).toBe(800_000);
+  });
+
+  it("requests a keyframe every keyframe interval until stopped", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({ endpoint, fetch: server.fetch });
+    await client.publish(createStream());
+    const { generateKeyFrame } = FakePeerConnection.instances[0].videoSender();
+    const intervalMs = STREAMING_CONFIG.KEYFRAME_INTERVAL * 1000;
+
+    vi.advanceTimersByTime(intervalMs - 1);
+    expect(generateKeyFrame).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(generateKeyFrame).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(2 * intervalMs);
+    expect(generateKeyFrame).toHaveBeenCalledTimes(3);
+
+    await client.stop();
+    vi.advanceTimersByTime(10 * intervalMs);
+    expect(generateKeyFrame).toHaveBeenCalledTimes(3);
+  });
+
+  it("uses the keyframeInterval option over the default", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    const server = createMockWhipServer({ endpoint });
+    const client = new WhipClient({
+      endpoint,
+      fetch: server.fetch,
+      keyframeInterval: 0.5,
+    });
+    await client.publish(createStream());
+    const { generateKeyFrame } = FakePeerConnection.instances[0].videoSender();
+
+    vi.advanceTimersByTime(2000);
+    expect(generateKeyFrame).toHaveBeenCalledTimes(4);
+    await client.stop();
+  });
+});
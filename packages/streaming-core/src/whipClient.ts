@@ -0,0 +1,424 @@
+import { STREAMING_CONFIG } from "./streamingConfig";
+
+export type WhipPublishState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "disconnected"
+  | "failed"
+  | "closed";
+
+export interface WhipClientOptions {
+  /** WHIP ingest endpoint the SDP offer is POSTed to */
+  endpoint: string;
+  /** Optional bearer token sent with every WHIP request */
+  token?: string;
+  iceServers?: RTCIceServer[];
+  /** Max video bitrate in bps (defaults to STREAMING_CONFIG.VIDEO_BITRATE) */
+  videoBitrate?: number;
+  /** Seconds between forced keyframes (defaults to STREAMING_CONFIG.KEYFRAME_INTERVAL) */
+  keyframeInterval?: number;
+  /** Send ICE candidates to the resource URL as they are gathered */
+  trickleIce?: boolean;
+  /** Fetch implementation, overridable to talk to a mock WHIP server */
+  fetch?: typeof fetch;
+  onStateChange?: (state: WhipPublishState) => void;
+}
+
+/**
+ * Unexpected status from the WHIP endpoint or session resource
+ */
+export class WhipRequestError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "WhipRequestError";
+    this.status = status;
+  }
+}
+
+/**
+ * Builds an SDP fragment (RFC 8840) carrying ICE candidates for a trickle PATCH
+ */
+const buildTrickleFragment = (
+  localSdp: string,
+  candidates: RTCIceCandidate[],
+  endOfCandidates: boolean
+): string => {
+  const ufrag = localSdp.match(/a=ice-ufrag:(.*)\r?\n/)?.[1];
+  const pwd = localSdp.match(/a=ice-pwd:(.*)\r?\n/)?.[1];
+
+  const lines: string[] = [];
+  if (ufrag) lines.push(`a=ice-ufrag:${ufrag}`);
+  if (pwd) lines.push(`a=ice-pwd:${pwd}`);
+
+  const byMid = new Map<string, RTCIceCandidate[]>();
+  for (const candidate of candidates) {
+    const mid = candidate.sdpMid ?? "0";
+    if (!byMid.has(mid)) byMid.set(mid, []);
+    byMid.get(mid)!.push(candidate);
+  }
+  if (byMid.size === 0 && endOfCandidates) {
+    byMid.set("0", []);
+  }
+
+  for (const [mid, midCandidates] of byMid) {
+    lines.push("m=audio 9 UDP/TLS/RTP/SAVPF 0");
+    lines.push(`a=mid:${mid}`);
+    for (const candidate of midCandidates) {
+      lines.push(`a=${candidate.candidate}`);
+    }
+    if (endOfCandidates) lines.push("a=end-of-candidates");
+  }
+
+  return lines.join("\r\n") + "\r\n";
+};
+
+class WhipClient {
+  private options: WhipClientOptions;
+  private pc: RTCPeerConnection | null = null;
+  private resourceUrl: string | null = null;
+  private etag: string | null = null;
+  private pendingCandidates: RTCIceCandidate[] = [];
+  private trickleSupported = true;
+  private keyframeTimer: ReturnType<typeof setInterval> | null = null;
+  private state: WhipPublishState = "idle";
+  private detachStream: (() => void) | null = null;
+
+  constructor(options: WhipClientOptions) {
+    this.options = options;
+  }
+
+  getState(): WhipPublishState {
+    return this.state;
+  }
+
+  getPeerConnection(): RTCPeerConnection | null {
+    return this.pc;
+  }
+
+  getResourceUrl(): string | null {
+    return this.resourceUrl;
+  }
+
+  /**
+   * Publish a stream: POST an SDP offer to the endpoint, apply the answer
+   * and keep the Location header around for trickle ICE and teardown
+   */
+  async publish(stream: MediaStream): Promise<void> {
+    if (this.pc) {
+      await this.stop();
+    }
+
+    this.setState("connecting");
+
+    const pc = new RTCPeerConnection({
+      iceServers: this.options.iceServers,
+      bundlePolicy: "max-bundle",
+    });
+    this.pc = pc;
+
+    pc.addEventListener("connectionstatechange", () => {
+      if (this.pc !== pc) return;
+      switch (pc.connectionState) {
+        case "connected":
+          this.setState("connected");
+          break;
+        case "disconnected":
+          this.setState("disconnected");
+          break;
+        case "failed":
+          this.setState("failed");
+          break;
+      }
+    });
+
+    pc.addEventListener("icecandidate", (event) => {
+      if (this.pc !== pc || this.options.trickleIce === false) return;
+      if (event.candidate) {
+        this.pendingCandidates.push(event.candidate);
+        this.flushCandidates(false);
+      } else {
+        this.flushCandidates(true);
+      }
+    });
+
+    const videoBitrate =
+      this.options.videoBitrate ?? STREAMING_CONFIG.VIDEO_BITRATE;
+
+    stream.getAudioTracks().forEach((track) => {
+      pc.addTransceiver(track, {
+        direction: "sendonly",
+        streams: [stream],
+        sendEncodings: [{ maxBitrate: STREAMING_CONFIG.AUDIO_BITRATE }],
+      });
+    });
+    stream.getVideoTracks().forEach((track) => {
+      pc.addTransceiver(track, {
+        direction: "sendonly",
+        streams: [stream],
+        sendEncodings: [
+          { maxBitrate: videoBitrate, maxFramerate: STREAMING_CONFIG.FPS },
+        ],
+      });
+    });
+
+    // A new output size swaps a fresh capture track into the stream
+    const onAddTrack = (event: MediaStreamTrackEvent) => {
+      if (this.pc === pc) this.followTrack(pc, stream, event.track);
+    };
+    stream.addEventListener("addtrack", onAddTrack);
+    this.detachStream = () =>
+      stream.removeEventListener("addtrack", onAddTrack);
+
+    try {
+      const offer = await pc.createOffer();
+      await pc.setLocalDescription(offer);
+
+      const response = await this.request(this.options.endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/sdp" },
+        body: pc.localDescription?.sdp ?? offer.sdp,
+      });
+
+      if (response.status !== 201 && response.status !== 200) {
+        throw new WhipRequestError(
+          `WHIP endpoint responded with ${response.status}`,
+          response.status
+        );
+      }
+
+      const location = response.headers.get("Location");
+      if (location) {
+        this.resourceUrl = new URL(location, this.options.endpoint).toString();
+      }
+      this.etag = response.headers.get("ETag");
+
+      const answer = await response.text();
+      if (this.pc !== pc) return;
+      await pc.setRemoteDescription({ type: "answer", sdp: answer });
+
+      await this.applyEncodingParameters(pc, videoBitrate);
+      this.startKeyframeTimer(pc);
+      this.flushCandidates(pc.iceGatheringState === "complete");
+    } catch (error) {
+      if (this.pc === pc) {
+        this.setState("failed");
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Tear down the WHIP session: DELETE the resource and close the connection
+   */
+  async stop(): Promise<void> {
+    this.stopKeyframeTimer();
+    this.detachStream?.();
+    this.detachStream = null;
+
+    const resourceUrl = this.resourceUrl;
+    this.resourceUrl = null;
+    this.etag = null;
+    this.pendingCandidates = [];
+    this.trickleSupported = true;
+
+    if (this.pc) {
+      this.pc.close();
+      this.pc = null;
+    }
+
+    if (resourceUrl) {
+      await this.request(resourceUrl, { method: "DELETE" }).catch(() => {});
+    }
+
+    if (this.state !== "idle") {
+      this.setState("closed");
+    }
+  }
+
+  /**
+   * Restart ICE on the current session without a new WHIP POST: PATCH the
+   * resource with fresh credentials and apply the ones the server answers
+   * with. Rejects when the endpoint does not support ICE restarts.
+   */
+  async restartIce(): Promise<void> {
+    const pc = this.pc;
+    const resourceUrl = this.resourceUrl;
+    if (!pc || !resourceUrl) {
+      throw new Error("No WHIP session to restart");
+    }
+
+    this.pendingCandidates = [];
+    const offer = await pc.createOffer({ iceRestart: true });
+    await pc.setLocalDescription(offer);
+
+    const response = await this.request(resourceUrl, {
+      method: "PATCH",
+      headers: {
+        "Content-Type": "application/trickle-ice-sdpfrag",
+        "If-Match": "*",
+      },
+      body: buildTrickleFragment(pc.localDescription?.sdp ?? "", [], false),
+    });
+    if (response.status !== 200) {
+      throw new WhipRequestError(
+        `ICE restart responded with ${response.status}`,
+        response.status
+      );
+    }
+    this.etag = response.headers.get("ETag") ?? this.etag;
+
+    const fragment = await response.text();
+    const ufrag = fragment.match(/a=ice-ufrag:(.*)\r?\n/)?.[1];
+    const pwd = fragment.match(/a=ice-pwd:(.*)\r?\n/)?.[1];
+    const remoteSdp = pc.remoteDescription?.sdp;
+    if (this.pc !== pc) return;
+    if (!ufrag || !pwd || !remoteSdp) {
+      throw new Error("ICE restart answer is missing credentials");
+    }
+
+    // The new answer is the previous one with the server's new credentials;
+    // its candidates arrive in the fragment
+    const answer = remoteSdp
+      .replace(/a=ice-ufrag:.*\r?\n/g, `a=ice-ufrag:${ufrag}\r\n`)
+      .replace(/a=ice-pwd:.*\r?\n/g, `a=ice-pwd:${pwd}\r\n`)
+      .replace(/a=candidate:.*\r?\n/g, "");
+    await pc.setRemoteDescription({ type: "answer", sdp: answer });
+
+    let mid = "0";
+    for (const line of fragment.split(/\r?\n/)) {
+      if (line.startsWith("a=mid:")) mid = line.slice(6);
+      if (line.startsWith("a=candidate:")) {
+        await pc
+          .addIceCandidate({ candidate: line.slice(2), sdpMid: mid })
+          .catch(() => {});
+      }
+    }
+    this.flushCandidates(pc.iceGatheringState === "complete");
+  }
+
+  private async applyEncodingParameters(
+    pc: RTCPeerConnection,
+    videoBitrate: number
+  ) {
+    const sender = pc
+      .getSenders()
+      .find((s) => s.track && s.track.kind === "video");
+    if (!sender) return;
+
+    try {
+      const params = sender.getParameters();
+      if (!params.encodings || params.encodings.length === 0) {
+        params.encodings = [{}];
+      }
+      params.encodings[0].maxBitrate = videoBitrate;
+      params.encodings[0].maxFramerate = STREAMING_CONFIG.FPS;
+      Object.assign(params, { degradationPreference: "maintain-resolution" });
+      await sender.setParameters(params);
+    } catch (error) {
+      console.warn("Failed to apply WHIP sender parameters:", error);
+    }
+  }
+
+  /**
+   * Move the sender whose track left the published stream onto `track`.
+   * Only the track changes, so the session needs no renegotiation.
+   */
+  private followTrack(
+    pc: RTCPeerConnection,
+    stream: MediaStream,
+    track: MediaStreamTrack,
+  ) {
+    const sender = pc
+      .getSenders()
+      .find(
+        (s) =>
+          s.track &&
+          s.track !== track &&
+          s.track.kind === track.kind &&
+          !stream.getTrackById(s.track.id),
+      );
+    if (!sender) return;
+
+    sender.replaceTrack(track).catch((error) => {
+      console.warn("Failed to follow the replaced stream track:", error);
+    });
+  }
+
+  private startKeyframeTimer(pc: RTCPeerConnection) {
+    this.stopKeyframeTimer();
+
+    const interval =
+      this.options.keyframeInterval ?? STREAMING_CONFIG.KEYFRAME_INTERVAL;
+    const sender = pc
+      .getSenders()
+      .find((s) => s.track && s.track.kind === "video") as
+      | (RTCRtpSender & { generateKeyFrame?: () => Promise<void> })
+      | undefined;
+
+    // Only some browsers expose keyframe requests on the sender
+    if (!sender || typeof sender.generateKeyFrame !== "function") return;
+    if (!interval || interval <= 0) return;
+
+    this.keyframeTimer = setInterval(() => {
+      sender.generateKeyFrame?.().catch(() => {});
+    }, interval * 1000);
+  }
+
+  private stopKeyframeTimer() {
+    if (this.keyframeTimer) {
+      clearInterval(this.keyframeTimer);
+      this.keyframeTimer = null;
+    }
+  }
+
+  private flushCandidates(endOfCandidates: boolean) {
+    const pc = this.pc;
+    if (!pc || !this.resourceUrl || !this.trickleSupported) return;
+    if (this.pendingCandidates.length === 0 && !endOfCandidates) return;
+
+    const localSdp = pc.localDescription?.sdp;
+    if (!localSdp) return;
+
+    const candidates = this.pendingCandidates;
+    this.pendingCandidates = [];
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/trickle-ice-sdpfrag",
+    };
+    if (this.etag) headers["If-Match"] = this.etag;
+
+    this.request(this.resourceUrl, {
+      method: "PATCH",
+      headers,
+      body: buildTrickleFragment(localSdp, candidates, endOfCandidates),
+    })
+      .then((response) => {
+        // Endpoints without trickle support answer 405/501; fall back to
+        // the candidates already present in the offer
+        if (response.status === 405 || response.status === 501) {
+          this.trickleSupported = false;
+        }
+      })
+      .catch(() => {});
+  }
+
+  private request(url: string, init: RequestInit): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.options.token) {
+      headers.set("Authorization", `Bearer ${this.options.token}`);
+    }
+    const doFetch = this.options.fetch ?? ((input, req) => fetch(input, req));
+    return doFetch(url, { ...init, headers });
+  }
+
+  private setState(state: WhipPublishState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+}
+
+export { WhipClient };
@@ -1,15 +1,22 @@
 import { useRef, useEffect, useState, useCallback } from "react";
+import {
+  resolveOutputProfile,
+  useBackgroundStreaming,
+  type OutputProfile,
+  type OutputProfileName,
+} from "@daydream-examples/streaming-core";
 import { useAudioInputContext } from "./AudioInput";
 import type { AudioLevels } from "../hooks/useAudioEngine";
 import { useChromeBlobScene } from "../hooks/useChromeBlobScene";
 import { useStreamStabilizer } from "../hooks/useStreamStabilizer";
-import { useBackgroundStreaming } from "../hooks/useBackgroundStreaming";
 import { cn } from "../utils/cn";
 
 export interface AudioInputPreviewCanvasProps {
   className?: string;
   width?: number;
   height?: number;
+  /** Streamed canvas size; the canvas is scaled to fit `width`/`height` (default: `width`/`height`) */
+  outputProfile?: OutputProfileName | OutputProfile;
   enableStreaming?: boolean;
   enableBackground?: boolean;
   chromeEnvPath?: string;
@@ -27,6 +34,7 @@ export function AudioInputPreviewCanvas({
   className,
   width = 512,
   height = 512,
+  outputProfile,
   enableStreaming = true,
   enableBackground = true,
   chromeEnvPath,
@@ -41,6 +49,10 @@ export function AudioInputPreviewCanvas({
   const [isInitialized, setIsInitialized] = useState(false);
   const [chromeBlobFailed, setChromeBlobFailed] = useState(false);
 
+  const profile = outputProfile ? resolveOutputProfile(outputProfile) : null;
+  const outputWidth = profile?.width ?? width;
+  const outputHeight = profile?.height ?? height;
+
   const {
     isListening,
     isDemoPlaying,
@@ -51,8 +63,8 @@ export function AudioInputPreviewCanvas({
   } = useAudioInputContext();
 
   const scene = useChromeBlobScene(canvasRef, {
-    width,
-    height,
+    width: outputWidth,
+    height: outputHeight,
     audioReactivity: audioReactivity * audioReactivityMultiplier,
     onSceneReady: () => {
       setIsInitialized(true);
@@ -83,6 +95,7 @@ export function AudioInputPreviewCanvas({
     enabled: enableBackground && enableStreaming && isInitialized,
     canvas: canvasRef.current,
     stream: streamStabilizer.streamRef.current,
+    enableComplexityManagement: true,
   });
 
   // Fallback visualizer for when Chrome Blob fails
@@ -223,6 +236,13 @@ export function AudioInputPreviewCanvas({
     }
   }, [enableStreaming, isInitialized, streamStabilizer]);
 
+  // A new output size needs a new capture track; the canvas and scene are
+  // already resized by the time this runs
+  const { recaptureStream } = streamStabilizer;
+  useEffect(() => {
+    recaptureStream();
+  }, [outputWidth, outputHeight, recaptureStream]);
+
   // Animation loop
   useEffect(() => {
     if (isInitialized) {
@@ -295,8 +315,8 @@ export function AudioInputPreviewCanvas({
     >
       <canvas
         ref={canvasRef}
-        width={width}
-        height={height}
+        width={outputWidth}
+        height={outputHeight}
         className="block w-full h-full"
         style={{
           maxWidth: "100%",
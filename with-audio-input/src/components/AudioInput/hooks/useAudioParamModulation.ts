@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { AudioLevels } from "./useAudioEngine";
+import {
+  useParamUpdater,
+  type DaydreamStreamParams,
+} from "@daydream-examples/streaming-core";
+import {
+  createAudioParamMapper,
+  type AudioParamMapping,
+} from "../utils/audioParamMapping";
+
+export interface UseAudioParamModulationOptions {
+  /** Keep this stable (module constant or memoized); a new object resets the mapper */
+  mapping: AudioParamMapping;
+  updateParams: (params: DaydreamStreamParams) => Promise<unknown>;
+  enabled?: boolean;
+}
+
+/**
+ * Feeds audio levels through a declarative mapping and sends the resulting
+ * parameter changes to the stream
+ */
+export function useAudioParamModulation({
+  mapping,
+  updateParams,
+  enabled = true,
+}: UseAudioParamModulationOptions) {
+  const [lastParams, setLastParams] = useState<DaydreamStreamParams | null>(
+    null
+  );
+  const mapper = useMemo(() => createAudioParamMapper(mapping), [mapping]);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  // The mapper already rate limits, so updates go out without a debounce
+  const { status, error, queueUpdate } = useParamUpdater({
+    updateParams,
+    debounceMs: 0,
+  });
+
+  useEffect(() => {
+    if (!enabled) {
+      mapper.reset();
+    }
+  }, [enabled, mapper]);
+
+  const handleLevels = useCallback(
+    (levels: AudioLevels) => {
+      if (!enabledRef.current) return;
+      const params = mapper.update(levels, performance.now());
+      if (params) {
+        setLastParams(params);
+        queueUpdate(params);
+      }
+    },
+    [mapper, queueUpdate]
+  );
+
+  return {
+    handleLevels,
+    lastParams,
+    status,
+    error,
+  };
+}
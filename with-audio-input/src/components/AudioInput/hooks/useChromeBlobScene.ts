@@ -1,6 +1,6 @@
 import { useCallback, useRef, useState, useEffect } from "react";
 import type * as THREE from "three";
-import { STREAMING_CONFIG } from "../config/streamingConfig";
+import { STREAMING_CONFIG } from "@daydream-examples/streaming-core";
 import type { AudioLevels } from "./useAudioEngine";
 
 export interface ChromeBlobParameters {
@@ -389,6 +389,17 @@ export function useChromeBlobScene(
     }
   }, [applyDeformations, parameters.rotationSpeed]);
 
+  // Follow a new output size without rebuilding the scene
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    const camera = cameraRef.current;
+    if (!renderer || !camera) return;
+
+    renderer.setSize(width, height);
+    camera.aspect = width / height;
+    camera.updateProjectionMatrix();
+  }, [width, height]);
+
   const cleanup = useCallback(() => {
     if (chromeBlobMeshRef.current) {
       const geometry = chromeBlobMeshRef.current.geometry;
@@ -1,7 +1,10 @@
 import { useCallback, useRef } from "react";
-import { streamStabilizer } from "../utils/streamStabilizer";
-import { createSilentAudioTrack } from "../utils/audioTrackManager";
-import { STREAMING_CONFIG } from "../config/streamingConfig";
+import {
+  STREAMING_CONFIG,
+  createSilentAudioTrack,
+  recaptureCanvasTrack,
+  streamStabilizer,
+} from "@daydream-examples/streaming-core";
 
 export interface UseStreamStabilizerOptions {
   onStreamReady?: (stream: MediaStream) => void;
@@ -70,6 +73,14 @@ export function useStreamStabilizer(
     return streamRef.current;
   }, []);
 
+  // Capture the canvas again after a resize; the stream keeps its identity,
+  // so whoever holds it, e.g. the publisher, follows the new track
+  const recaptureStream = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !streamRef.current) return null;
+    return recaptureCanvasTrack(canvas, streamRef.current, fps);
+  }, [canvasRef, fps]);
+
   const stopStream = useCallback(() => {
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
@@ -81,6 +92,7 @@ export function useStreamStabilizer(
   return {
     createStream,
     getStream,
+    recaptureStream,
     stopStream,
     streamRef,
   };
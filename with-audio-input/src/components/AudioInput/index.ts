@@ -11,16 +11,60 @@ export { AudioInputError } from "./components/AudioInputError";
 export { useAudioEngine } from "./hooks/useAudioEngine";
 export { useChromeBlobScene } from "./hooks/useChromeBlobScene";
 export { useStreamStabilizer } from "./hooks/useStreamStabilizer";
-export { useBackgroundStreaming } from "./hooks/useBackgroundStreaming";
+export { useAudioParamModulation } from "./hooks/useAudioParamModulation";
 
 // Utils
-export { audioTrackManager, createSilentAudioTrack } from "./utils/audioTrackManager";
-export { streamStabilizer, createStableCanvasStream, logStreamValidation } from "./utils/streamStabilizer";
-export { streamComplexityManager } from "./utils/streamComplexityManager";
+export { createAudioParamMapper, replayAudioLevels } from "./utils/audioParamMapping";
 export { cn } from "./utils/cn";
 
-// Config
-export { STREAMING_CONFIG } from "./config/streamingConfig";
+// Streaming core, shared with the other examples
+export {
+  STREAMING_CONFIG,
+  STREAMING_CORE_VERSION,
+  OUTPUT_PROFILES,
+  DEFAULT_OUTPUT_PROFILE,
+  resolveOutputProfile,
+  replaceStreamTrack,
+  recaptureCanvasTrack,
+  useBackgroundStreaming,
+  audioTrackManager,
+  createSilentAudioTrack,
+  streamStabilizer,
+  createStableCanvasStream,
+  logStreamValidation,
+  streamComplexityManager,
+  measureFrameComplexity,
+  StreamComplexityManager,
+  useWhepPlayer,
+  useWhipPublisher,
+  useDaydreamStream,
+  useParamUpdater,
+  usePublisherStats,
+  useAdaptiveBitrate,
+  WhepClient,
+  WhipClient,
+  WhipRequestError,
+  ReconnectingPublisher,
+  reconnectDelay,
+  isRetryablePublishError,
+  createFakePublishTransport,
+  DaydreamClient,
+  DaydreamApiError,
+  DaydreamAuthError,
+  DaydreamNotFoundError,
+  DaydreamValidationError,
+  DaydreamRateLimitError,
+  createFakeDaydreamServer,
+  PublisherStatsMonitor,
+  readPublisherStats,
+  computeEncodingParams,
+  applyEncodingParams,
+  isSameEncoding,
+  getVideoSender,
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+} from "@daydream-examples/streaming-core";
 
 // UI Components (re-export for convenience)
 export { Button } from "./ui/button";
@@ -31,7 +75,7 @@ export { Label } from "./ui/label";
 export type { AudioLevels, UseAudioEngineOptions } from "./hooks/useAudioEngine";
 export type { ChromeBlobParameters, UseChromeBlobSceneOptions } from "./hooks/useChromeBlobScene";
 export type { UseStreamStabilizerOptions } from "./hooks/useStreamStabilizer";
-export type { ComplexityInjectionOptions, ComplexityMetrics } from "./utils/streamComplexityManager";
+export type { ComplexityInjectionOptions, ComplexityMetrics, OutputProfile, OutputProfileName } from "@daydream-examples/streaming-core";
 export type { AudioInputContextValue, AudioInputProps } from "./components/AudioInput";
 export type { AudioInputMicrophoneProps } from "./components/AudioInputMicrophone";
 export type { AudioInputDemoMp3Props } from "./components/AudioInputDemoMp3";
@@ -39,4 +83,53 @@ export type { AudioInputPreviewCanvasProps } from "./components/AudioInputPrevie
 export type { AudioInputLevelsProps } from "./components/AudioInputLevels";
 export type { AudioInputControlsProps } from "./components/AudioInputControls";
 export type { AudioInputErrorProps } from "./components/AudioInputError";
+export type { UseAudioParamModulationOptions } from "./hooks/useAudioParamModulation";
+export type {
+  AudioBand,
+  AudioParamMapping,
+  AudioParamRule,
+  MappingCurve,
+  RecordedLevelFrame,
+} from "./utils/audioParamMapping";
+export type {
+  ParamUpdateStatus,
+  UseParamUpdaterOptions,
+  UsePublisherStatsOptions,
+  UseAdaptiveBitrateOptions,
+  AdaptiveBitrateInput,
+  AdaptiveBitrateOptions,
+  EncodingParams,
+  PublisherStatsSample,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  QualityLimitationReason,
+  UseWhepPlayerOptions,
+  WhepClientOptions,
+  WhepPlaybackState,
+  UseWhipPublisherOptions,
+  WhipClientOptions,
+  WhipPublishState,
+  PublishConnectionState,
+  PublishTransport,
+  PublishTransportFactory,
+  ReconnectClock,
+  ReconnectOptions,
+  ReconnectStrategy,
+  ReconnectingPublisherOptions,
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+  DaydreamStreamStatus,
+  UseDaydreamStreamOptions,
+  DaydreamClientOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+  DaydreamOutputPlayerProps,
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+  PublisherStatsOverlayProps,
+} from "@daydream-examples/streaming-core";
 export type { ButtonProps } from "./ui/button";
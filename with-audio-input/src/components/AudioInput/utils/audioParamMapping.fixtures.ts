@@ -0,0 +1,358 @@
+import type { RecordedLevelFrame } from "./audioParamMapping";
+
+/*
+ * Level sequences in the shape the audio engine's analyser reports them,
+ * with a little noise on every band. One row per analysis frame:
+ * [timeMs, low, mid, high, overall]
+ */
+
+type Row = [number, number, number, number, number];
+
+const frames = (rows: Row[]): RecordedLevelFrame[] =>
+  rows.map(([timeMs, low, mid, high, overall]) => ({
+    timeMs,
+    levels: { low, mid, high, overall },
+  }));
+
+/** Kick drum at 120 bpm over a quiet pad, 20 ms frames */
+export const kickDrum = frames([
+  [0, 0.86, 0.36, 0.11, 0.44],
+  [20, 0.63, 0.35, 0.09, 0.36],
+  [40, 0.48, 0.33, 0.07, 0.29],
+  [60, 0.4, 0.29, 0.08, 0.26],
+  [80, 0.32, 0.33, 0.08, 0.24],
+  [100, 0.24, 0.31, 0.13, 0.23],
+  [120, 0.22, 0.28, 0.13, 0.21],
+  [140, 0.16, 0.31, 0.09, 0.19],
+  [160, 0.15, 0.27, 0.09, 0.17],
+  [180, 0.18, 0.26, 0.1, 0.18],
+  [200, 0.16, 0.27, 0.1, 0.18],
+  [220, 0.11, 0.25, 0.08, 0.15],
+  [240, 0.14, 0.28, 0.09, 0.17],
+  [260, 0.14, 0.28, 0.09, 0.17],
+  [280, 0.15, 0.29, 0.08, 0.17],
+  [300, 0.13, 0.28, 0.12, 0.18],
+  [320, 0.13, 0.27, 0.13, 0.18],
+  [340, 0.1, 0.28, 0.12, 0.17],
+  [360, 0.1, 0.28, 0.07, 0.15],
+  [380, 0.13, 0.3, 0.1, 0.18],
+  [400, 0.14, 0.27, 0.11, 0.17],
+  [420, 0.13, 0.28, 0.1, 0.17],
+  [440, 0.14, 0.31, 0.1, 0.18],
+  [460, 0.13, 0.25, 0.11, 0.16],
+  [480, 0.13, 0.31, 0.12, 0.19],
+  [500, 0.86, 0.37, 0.11, 0.45],
+  [520, 0.63, 0.35, 0.08, 0.35],
+  [540, 0.49, 0.3, 0.12, 0.3],
+  [560, 0.38, 0.3, 0.09, 0.26],
+  [580, 0.34, 0.28, 0.1, 0.24],
+  [600, 0.26, 0.32, 0.12, 0.23],
+  [620, 0.24, 0.28, 0.09, 0.2],
+  [640, 0.18, 0.31, 0.13, 0.21],
+  [660, 0.15, 0.27, 0.08, 0.17],
+  [680, 0.14, 0.28, 0.11, 0.18],
+  [700, 0.14, 0.25, 0.1, 0.16],
+  [720, 0.13, 0.28, 0.13, 0.18],
+  [740, 0.14, 0.28, 0.11, 0.18],
+  [760, 0.14, 0.25, 0.12, 0.17],
+  [780, 0.15, 0.3, 0.12, 0.19],
+  [800, 0.12, 0.27, 0.08, 0.16],
+  [820, 0.13, 0.25, 0.07, 0.15],
+  [840, 0.1, 0.26, 0.09, 0.15],
+  [860, 0.09, 0.25, 0.08, 0.14],
+  [880, 0.1, 0.27, 0.07, 0.15],
+  [900, 0.14, 0.29, 0.08, 0.17],
+  [920, 0.11, 0.27, 0.09, 0.16],
+  [940, 0.1, 0.3, 0.13, 0.18],
+  [960, 0.12, 0.28, 0.08, 0.16],
+  [980, 0.1, 0.27, 0.09, 0.15],
+  [1000, 0.89, 0.36, 0.07, 0.44],
+  [1020, 0.69, 0.35, 0.08, 0.37],
+  [1040, 0.51, 0.3, 0.1, 0.3],
+  [1060, 0.43, 0.34, 0.11, 0.29],
+  [1080, 0.31, 0.3, 0.08, 0.23],
+  [1100, 0.28, 0.3, 0.12, 0.23],
+  [1120, 0.21, 0.27, 0.12, 0.2],
+  [1140, 0.22, 0.31, 0.12, 0.22],
+  [1160, 0.19, 0.3, 0.08, 0.19],
+  [1180, 0.16, 0.27, 0.07, 0.17],
+  [1200, 0.12, 0.27, 0.09, 0.16],
+  [1220, 0.15, 0.31, 0.1, 0.19],
+  [1240, 0.16, 0.31, 0.13, 0.2],
+  [1260, 0.12, 0.26, 0.08, 0.15],
+  [1280, 0.11, 0.26, 0.11, 0.16],
+  [1300, 0.15, 0.3, 0.1, 0.18],
+  [1320, 0.13, 0.3, 0.08, 0.17],
+  [1340, 0.13, 0.3, 0.12, 0.18],
+  [1360, 0.14, 0.28, 0.08, 0.17],
+  [1380, 0.14, 0.27, 0.12, 0.18],
+  [1400, 0.15, 0.27, 0.09, 0.17],
+  [1420, 0.15, 0.29, 0.08, 0.17],
+  [1440, 0.1, 0.26, 0.12, 0.16],
+  [1460, 0.14, 0.26, 0.12, 0.17],
+  [1480, 0.15, 0.29, 0.09, 0.18],
+  [1500, 0.87, 0.36, 0.07, 0.43],
+  [1520, 0.69, 0.36, 0.1, 0.38],
+  [1540, 0.54, 0.33, 0.12, 0.33],
+  [1560, 0.42, 0.3, 0.09, 0.27],
+  [1580, 0.31, 0.29, 0.11, 0.24],
+  [1600, 0.25, 0.3, 0.08, 0.21],
+  [1620, 0.24, 0.28, 0.1, 0.21],
+  [1640, 0.2, 0.31, 0.1, 0.2],
+  [1660, 0.2, 0.29, 0.1, 0.2],
+  [1680, 0.16, 0.25, 0.1, 0.17],
+  [1700, 0.13, 0.25, 0.12, 0.17],
+  [1720, 0.12, 0.28, 0.11, 0.17],
+  [1740, 0.13, 0.27, 0.1, 0.17],
+  [1760, 0.13, 0.3, 0.08, 0.17],
+  [1780, 0.13, 0.26, 0.09, 0.16],
+  [1800, 0.15, 0.28, 0.1, 0.18],
+  [1820, 0.14, 0.3, 0.1, 0.18],
+  [1840, 0.13, 0.28, 0.1, 0.17],
+  [1860, 0.13, 0.28, 0.1, 0.17],
+  [1880, 0.12, 0.31, 0.11, 0.18],
+  [1900, 0.14, 0.31, 0.09, 0.18],
+  [1920, 0.12, 0.31, 0.12, 0.18],
+  [1940, 0.1, 0.26, 0.1, 0.15],
+  [1960, 0.09, 0.26, 0.07, 0.14],
+  [1980, 0.13, 0.3, 0.12, 0.18],
+  [2000, 0.85, 0.39, 0.11, 0.45],
+  [2020, 0.64, 0.37, 0.13, 0.38],
+  [2040, 0.49, 0.36, 0.09, 0.31],
+  [2060, 0.4, 0.35, 0.12, 0.29],
+  [2080, 0.3, 0.31, 0.1, 0.24],
+  [2100, 0.25, 0.28, 0.09, 0.21],
+  [2120, 0.23, 0.26, 0.1, 0.2],
+  [2140, 0.19, 0.26, 0.09, 0.18],
+  [2160, 0.18, 0.29, 0.07, 0.18],
+  [2180, 0.19, 0.3, 0.13, 0.21],
+  [2200, 0.13, 0.27, 0.07, 0.16],
+  [2220, 0.16, 0.27, 0.08, 0.17],
+  [2240, 0.13, 0.3, 0.12, 0.18],
+  [2260, 0.12, 0.26, 0.13, 0.17],
+  [2280, 0.13, 0.29, 0.08, 0.17],
+  [2300, 0.1, 0.29, 0.1, 0.16],
+  [2320, 0.09, 0.31, 0.11, 0.17],
+  [2340, 0.14, 0.26, 0.12, 0.17],
+  [2360, 0.09, 0.3, 0.1, 0.16],
+  [2380, 0.11, 0.28, 0.13, 0.17],
+  [2400, 0.11, 0.26, 0.1, 0.16],
+  [2420, 0.1, 0.26, 0.08, 0.15],
+  [2440, 0.09, 0.26, 0.09, 0.15],
+  [2460, 0.11, 0.3, 0.09, 0.17],
+  [2480, 0.12, 0.26, 0.09, 0.16],
+  [2500, 0.84, 0.37, 0.07, 0.43],
+  [2520, 0.67, 0.35, 0.08, 0.37],
+  [2540, 0.51, 0.36, 0.08, 0.32],
+  [2560, 0.42, 0.32, 0.1, 0.28],
+  [2580, 0.34, 0.3, 0.1, 0.25],
+  [2600, 0.27, 0.33, 0.09, 0.23],
+  [2620, 0.24, 0.3, 0.11, 0.22],
+  [2640, 0.18, 0.28, 0.07, 0.18],
+  [2660, 0.15, 0.26, 0.11, 0.17],
+  [2680, 0.15, 0.26, 0.08, 0.16],
+  [2700, 0.17, 0.3, 0.11, 0.19],
+  [2720, 0.13, 0.26, 0.09, 0.16],
+  [2740, 0.13, 0.26, 0.1, 0.16],
+  [2760, 0.12, 0.31, 0.13, 0.19],
+  [2780, 0.13, 0.26, 0.13, 0.17],
+  [2800, 0.12, 0.27, 0.07, 0.15],
+  [2820, 0.11, 0.28, 0.1, 0.16],
+  [2840, 0.1, 0.28, 0.07, 0.15],
+  [2860, 0.11, 0.26, 0.09, 0.15],
+  [2880, 0.09, 0.25, 0.09, 0.14],
+  [2900, 0.1, 0.29, 0.1, 0.16],
+  [2920, 0.14, 0.29, 0.11, 0.18],
+  [2940, 0.14, 0.27, 0.09, 0.17],
+  [2960, 0.15, 0.26, 0.11, 0.17],
+  [2980, 0.13, 0.25, 0.12, 0.17],
+]);
+
+/** Pad swelling in over 2 s, held for 1 s, released over 1 s; 50 ms frames */
+export const padSwell = frames([
+  [0, 0.04, 0.07, 0.03, 0.06],
+  [50, 0.04, 0.05, 0.02, 0.08],
+  [100, 0.08, 0.11, 0.03, 0.11],
+  [150, 0.08, 0.12, 0.02, 0.09],
+  [200, 0.07, 0.12, 0.02, 0.15],
+  [250, 0.1, 0.16, 0.06, 0.17],
+  [300, 0.08, 0.18, 0.06, 0.19],
+  [350, 0.12, 0.2, 0.07, 0.18],
+  [400, 0.12, 0.23, 0.05, 0.21],
+  [450, 0.12, 0.25, 0.08, 0.26],
+  [500, 0.15, 0.26, 0.08, 0.27],
+  [550, 0.18, 0.3, 0.1, 0.26],
+  [600, 0.17, 0.28, 0.1, 0.29],
+  [650, 0.17, 0.33, 0.08, 0.32],
+  [700, 0.22, 0.36, 0.11, 0.34],
+  [750, 0.22, 0.37, 0.11, 0.35],
+  [800, 0.21, 0.41, 0.14, 0.41],
+  [850, 0.25, 0.38, 0.13, 0.43],
+  [900, 0.25, 0.43, 0.12, 0.45],
+  [950, 0.27, 0.43, 0.13, 0.45],
+  [1000, 0.26, 0.51, 0.15, 0.47],
+  [1050, 0.31, 0.52, 0.14, 0.52],
+  [1100, 0.28, 0.52, 0.14, 0.52],
+  [1150, 0.31, 0.54, 0.15, 0.53],
+  [1200, 0.36, 0.55, 0.15, 0.57],
+  [1250, 0.33, 0.6, 0.19, 0.59],
+  [1300, 0.35, 0.62, 0.17, 0.6],
+  [1350, 0.38, 0.65, 0.18, 0.62],
+  [1400, 0.36, 0.64, 0.17, 0.66],
+  [1450, 0.43, 0.66, 0.19, 0.66],
+  [1500, 0.39, 0.69, 0.2, 0.71],
+  [1550, 0.45, 0.73, 0.22, 0.73],
+  [1600, 0.44, 0.76, 0.23, 0.71],
+  [1650, 0.45, 0.76, 0.24, 0.76],
+  [1700, 0.43, 0.76, 0.25, 0.76],
+  [1750, 0.47, 0.79, 0.23, 0.8],
+  [1800, 0.48, 0.85, 0.25, 0.81],
+  [1850, 0.49, 0.84, 0.24, 0.83],
+  [1900, 0.53, 0.84, 0.26, 0.85],
+  [1950, 0.56, 0.9, 0.26, 0.87],
+  [2000, 0.52, 0.88, 0.26, 0.88],
+  [2050, 0.53, 0.88, 0.27, 0.92],
+  [2100, 0.53, 0.91, 0.27, 0.9],
+  [2150, 0.53, 0.89, 0.25, 0.89],
+  [2200, 0.52, 0.93, 0.27, 0.91],
+  [2250, 0.52, 0.92, 0.26, 0.89],
+  [2300, 0.54, 0.89, 0.29, 0.91],
+  [2350, 0.51, 0.92, 0.25, 0.91],
+  [2400, 0.54, 0.92, 0.27, 0.88],
+  [2450, 0.57, 0.89, 0.28, 0.91],
+  [2500, 0.52, 0.93, 0.25, 0.89],
+  [2550, 0.55, 0.9, 0.29, 0.91],
+  [2600, 0.56, 0.91, 0.27, 0.9],
+  [2650, 0.56, 0.87, 0.26, 0.92],
+  [2700, 0.53, 0.91, 0.26, 0.89],
+  [2750, 0.55, 0.91, 0.25, 0.88],
+  [2800, 0.54, 0.9, 0.27, 0.89],
+  [2850, 0.51, 0.91, 0.26, 0.9],
+  [2900, 0.55, 0.93, 0.29, 0.9],
+  [2950, 0.52, 0.88, 0.29, 0.91],
+  [3000, 0.51, 0.89, 0.27, 0.91],
+  [3050, 0.51, 0.86, 0.27, 0.88],
+  [3100, 0.46, 0.8, 0.24, 0.82],
+  [3150, 0.45, 0.79, 0.24, 0.79],
+  [3200, 0.42, 0.74, 0.24, 0.73],
+  [3250, 0.4, 0.72, 0.2, 0.71],
+  [3300, 0.43, 0.65, 0.2, 0.65],
+  [3350, 0.37, 0.6, 0.2, 0.64],
+  [3400, 0.34, 0.56, 0.16, 0.6],
+  [3450, 0.29, 0.52, 0.14, 0.54],
+  [3500, 0.32, 0.52, 0.16, 0.52],
+  [3550, 0.27, 0.49, 0.13, 0.48],
+  [3600, 0.22, 0.43, 0.14, 0.42],
+  [3650, 0.22, 0.37, 0.1, 0.36],
+  [3700, 0.19, 0.33, 0.12, 0.32],
+  [3750, 0.16, 0.33, 0.08, 0.31],
+  [3800, 0.16, 0.28, 0.06, 0.26],
+  [3850, 0.16, 0.21, 0.06, 0.21],
+  [3900, 0.08, 0.2, 0.05, 0.19],
+  [3950, 0.05, 0.16, 0.02, 0.12],
+  [4000, 0.05, 0.13, 0.04, 0.12],
+]);
+
+/** Closed hi-hats on eighth notes at 120 bpm, 20 ms frames */
+export const hiHats = frames([
+  [0, 0.19, 0.28, 0.84, 0.44],
+  [20, 0.19, 0.26, 0.86, 0.44],
+  [40, 0.19, 0.22, 0.14, 0.18],
+  [60, 0.22, 0.26, 0.17, 0.22],
+  [80, 0.17, 0.23, 0.19, 0.2],
+  [100, 0.23, 0.28, 0.15, 0.22],
+  [120, 0.19, 0.25, 0.14, 0.19],
+  [140, 0.23, 0.23, 0.15, 0.2],
+  [160, 0.21, 0.27, 0.17, 0.22],
+  [180, 0.21, 0.24, 0.17, 0.21],
+  [200, 0.19, 0.27, 0.14, 0.2],
+  [220, 0.18, 0.27, 0.12, 0.19],
+  [240, 0.17, 0.22, 0.13, 0.17],
+  [260, 0.19, 0.28, 0.85, 0.44],
+  [280, 0.23, 0.24, 0.88, 0.45],
+  [300, 0.18, 0.25, 0.12, 0.18],
+  [320, 0.2, 0.23, 0.17, 0.2],
+  [340, 0.21, 0.26, 0.14, 0.2],
+  [360, 0.22, 0.26, 0.17, 0.22],
+  [380, 0.22, 0.24, 0.12, 0.19],
+  [400, 0.19, 0.26, 0.16, 0.2],
+  [420, 0.18, 0.23, 0.13, 0.18],
+  [440, 0.22, 0.25, 0.12, 0.2],
+  [460, 0.19, 0.28, 0.14, 0.2],
+  [480, 0.18, 0.27, 0.15, 0.2],
+  [500, 0.23, 0.23, 0.86, 0.44],
+  [520, 0.22, 0.27, 0.85, 0.45],
+  [540, 0.17, 0.24, 0.18, 0.2],
+  [560, 0.18, 0.28, 0.12, 0.19],
+  [580, 0.23, 0.24, 0.16, 0.21],
+  [600, 0.2, 0.24, 0.18, 0.21],
+  [620, 0.23, 0.23, 0.17, 0.21],
+  [640, 0.21, 0.23, 0.16, 0.2],
+  [660, 0.18, 0.23, 0.14, 0.18],
+  [680, 0.21, 0.26, 0.13, 0.2],
+  [700, 0.17, 0.24, 0.13, 0.18],
+  [720, 0.18, 0.24, 0.16, 0.19],
+  [740, 0.22, 0.25, 0.13, 0.2],
+  [760, 0.18, 0.24, 0.82, 0.41],
+  [780, 0.21, 0.23, 0.85, 0.43],
+  [800, 0.21, 0.24, 0.12, 0.19],
+  [820, 0.19, 0.28, 0.13, 0.2],
+  [840, 0.2, 0.24, 0.13, 0.19],
+  [860, 0.22, 0.28, 0.14, 0.21],
+  [880, 0.18, 0.26, 0.14, 0.19],
+  [900, 0.17, 0.27, 0.13, 0.19],
+  [920, 0.22, 0.24, 0.14, 0.2],
+  [940, 0.2, 0.23, 0.18, 0.2],
+  [960, 0.2, 0.26, 0.11, 0.19],
+  [980, 0.18, 0.26, 0.18, 0.21],
+  [1000, 0.2, 0.23, 0.84, 0.42],
+  [1020, 0.2, 0.28, 0.83, 0.44],
+  [1040, 0.2, 0.27, 0.12, 0.2],
+  [1060, 0.18, 0.23, 0.19, 0.2],
+  [1080, 0.23, 0.25, 0.19, 0.22],
+  [1100, 0.23, 0.24, 0.11, 0.19],
+  [1120, 0.21, 0.27, 0.18, 0.22],
+  [1140, 0.22, 0.23, 0.12, 0.19],
+  [1160, 0.22, 0.27, 0.14, 0.21],
+  [1180, 0.18, 0.24, 0.12, 0.18],
+  [1200, 0.19, 0.23, 0.15, 0.19],
+  [1220, 0.21, 0.27, 0.13, 0.2],
+  [1240, 0.2, 0.27, 0.11, 0.19],
+  [1260, 0.22, 0.23, 0.81, 0.42],
+  [1280, 0.2, 0.26, 0.86, 0.44],
+  [1300, 0.2, 0.25, 0.13, 0.19],
+  [1320, 0.21, 0.25, 0.14, 0.2],
+  [1340, 0.17, 0.26, 0.15, 0.19],
+  [1360, 0.18, 0.27, 0.15, 0.2],
+  [1380, 0.2, 0.23, 0.17, 0.2],
+  [1400, 0.18, 0.23, 0.15, 0.19],
+  [1420, 0.18, 0.25, 0.14, 0.19],
+  [1440, 0.17, 0.26, 0.15, 0.19],
+  [1460, 0.21, 0.27, 0.12, 0.2],
+  [1480, 0.17, 0.25, 0.15, 0.19],
+  [1500, 0.23, 0.23, 0.84, 0.43],
+  [1520, 0.23, 0.26, 0.88, 0.46],
+  [1540, 0.18, 0.28, 0.18, 0.21],
+  [1560, 0.23, 0.27, 0.15, 0.22],
+  [1580, 0.22, 0.28, 0.12, 0.21],
+  [1600, 0.19, 0.27, 0.12, 0.19],
+  [1620, 0.22, 0.24, 0.12, 0.19],
+  [1640, 0.18, 0.25, 0.18, 0.2],
+  [1660, 0.18, 0.24, 0.18, 0.2],
+  [1680, 0.19, 0.22, 0.15, 0.19],
+  [1700, 0.18, 0.28, 0.12, 0.19],
+  [1720, 0.22, 0.23, 0.16, 0.2],
+  [1740, 0.18, 0.25, 0.17, 0.2],
+  [1760, 0.19, 0.27, 0.86, 0.44],
+  [1780, 0.2, 0.27, 0.85, 0.44],
+  [1800, 0.23, 0.26, 0.12, 0.2],
+  [1820, 0.22, 0.24, 0.14, 0.2],
+  [1840, 0.2, 0.24, 0.19, 0.21],
+  [1860, 0.2, 0.23, 0.17, 0.2],
+  [1880, 0.17, 0.27, 0.17, 0.2],
+  [1900, 0.21, 0.28, 0.13, 0.21],
+  [1920, 0.21, 0.24, 0.16, 0.2],
+  [1940, 0.17, 0.23, 0.11, 0.17],
+  [1960, 0.2, 0.25, 0.16, 0.2],
+  [1980, 0.18, 0.23, 0.18, 0.2],
+]);
@@ -0,0 +1,254 @@
+import { describe, expect, it } from "vitest";
+import {
+  createAudioParamMapper,
+  replayAudioLevels,
+  type AudioParamMapping,
+  type PromptSelectRule,
+  type RangeRule,
+} from "./audioParamMapping";
+import { hiHats, kickDrum, padSwell } from "./audioParamMapping.fixtures";
+
+const deltaRange: RangeRule = {
+  type: "range",
+  band: "overall",
+  param: "delta",
+  min: 0.3,
+  max: 0.9,
+};
+
+const moodPrompts: PromptSelectRule = {
+  type: "prompt",
+  band: "mid",
+  sustainMs: 300,
+  prompts: [
+    { minLevel: 0, prompt: "calm lake at dawn" },
+    { minLevel: 0.5, prompt: "storm over the sea" },
+  ],
+};
+
+const deltas = (mapping: AudioParamMapping, frames = padSwell) =>
+  replayAudioLevels(mapping, frames).map(({ params }) => params.delta);
+
+describe("replayAudioLevels", () => {
+  describe("range rules", () => {
+    it("follow the level between min and max", () => {
+      const values = deltas({ rules: [deltaRange] }) as number[];
+
+      expect(values[0]).toBe(0.336);
+      expect(Math.max(...values)).toBe(0.846);
+      for (const value of values) {
+        expect(value).toBeGreaterThanOrEqual(0.3);
+        expect(value).toBeLessThanOrEqual(0.9);
+      }
+      // Rising through the swell, falling through the release
+      const rise = values.slice(0, 9);
+      expect(rise).toEqual([...rise].sort((a, b) => a - b));
+      expect(values.at(-1)).toBe(0.372);
+    });
+
+    it("map levels at or below the threshold to min", () => {
+      const quiet = padSwell.filter(({ timeMs }) => timeMs < 500);
+      const updates = replayAudioLevels(
+        { rules: [{ ...deltaRange, threshold: 0.5 }] },
+        quiet
+      );
+
+      expect(updates).toEqual([{ timeMs: 0, params: { delta: 0.3 } }]);
+    });
+
+    it("apply the curve to the normalized level", () => {
+      const [linear] = deltas({ rules: [deltaRange] });
+      const [exponential] = deltas({
+        rules: [{ ...deltaRange, curve: "exponential" }],
+      });
+      const [logarithmic] = deltas({
+        rules: [{ ...deltaRange, curve: "logarithmic" }],
+      });
+
+      expect(exponential).toBeLessThan(linear as number);
+      expect(logarithmic).toBeGreaterThan(linear as number);
+    });
+
+    it("lag behind the level when smoothed", () => {
+      const raw = replayAudioLevels({ rules: [deltaRange] }, padSwell);
+      const smoothed = replayAudioLevels(
+        { rules: [{ ...deltaRange, smoothing: 0.8 }] },
+        padSwell
+      );
+
+      // Same first sample, then the smoothed value trails during the swell
+      expect(smoothed[0]).toEqual(raw[0]);
+      for (let i = 1; i < 9; i++) {
+        expect(smoothed[i].timeMs).toBe(raw[i].timeMs);
+        expect(smoothed[i].params.delta).toBeLessThan(
+          raw[i].params.delta as number
+        );
+      }
+      // ...and stays higher once the release starts
+      const release = (updates: typeof raw) =>
+        updates.find(({ timeMs }) => timeMs >= 3650)?.params.delta;
+      expect(release(smoothed)).toBe(0.621);
+      expect(release(raw)).toBe(0.492);
+    });
+  });
+
+  describe("pulse rules", () => {
+    it("jump to the peak on every kick and decay back to the base", () => {
+      const updates = replayAudioLevels(
+        {
+          minIntervalMs: 0,
+          rules: [
+            {
+              type: "pulse",
+              band: "low",
+              param: "delta",
+              threshold: 0.6,
+              base: 0.4,
+              peak: 0.8,
+              decayMs: 200,
+            },
+          ],
+        },
+        kickDrum
+      );
+
+      const peaks = updates.filter(({ params }) => params.delta === 0.8);
+      expect(peaks.map(({ timeMs }) => timeMs)).toEqual([
+        0, 500, 1000, 1500, 2000, 2500,
+      ]);
+      expect(
+        updates
+          .filter(({ timeMs }) => timeMs >= 500 && timeMs <= 700)
+          .map(({ params }) => params.delta)
+      ).toEqual([
+        0.8, 0.76, 0.72, 0.68, 0.64, 0.6, 0.56, 0.52, 0.48, 0.44, 0.4,
+      ]);
+      // Nothing is sent while the parameter rests at the base
+      expect(updates.some(({ timeMs }) => timeMs > 200 && timeMs < 500)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("step rules", () => {
+    const seedStep = {
+      type: "step",
+      band: "high",
+      param: "seed",
+      threshold: 0.5,
+      step: 1,
+      initial: 42,
+    } as const;
+
+    it("step once per hi-hat", () => {
+      const updates = replayAudioLevels(
+        { minIntervalMs: 0, rules: [seedStep] },
+        hiHats
+      );
+
+      expect(updates).toEqual(
+        [0, 260, 500, 760, 1000, 1260, 1500, 1760].map((timeMs, i) => ({
+          timeMs,
+          params: { seed: 43 + i },
+        }))
+      );
+    });
+
+    it("skip crossings inside the cooldown", () => {
+      const updates = replayAudioLevels(
+        { minIntervalMs: 0, rules: [{ ...seedStep, cooldownMs: 400 }] },
+        hiHats
+      );
+
+      expect(updates).toEqual([
+        { timeMs: 0, params: { seed: 43 } },
+        { timeMs: 500, params: { seed: 44 } },
+        { timeMs: 1000, params: { seed: 45 } },
+        { timeMs: 1500, params: { seed: 46 } },
+      ]);
+    });
+  });
+
+  describe("prompt rules", () => {
+    it("switch prompts once the level holds in a range", () => {
+      expect(replayAudioLevels({ rules: [moodPrompts] }, padSwell)).toEqual([
+        { timeMs: 0, params: { prompt: "calm lake at dawn" } },
+        { timeMs: 1300, params: { prompt: "storm over the sea" } },
+        { timeMs: 3850, params: { prompt: "calm lake at dawn" } },
+      ]);
+    });
+
+    it("ignore a level that leaves the range before sustainMs", () => {
+      const blip = [
+        { timeMs: 0, levels: { low: 0, mid: 0.1, high: 0, overall: 0.1 } },
+        { timeMs: 100, levels: { low: 0, mid: 0.8, high: 0, overall: 0.8 } },
+        { timeMs: 300, levels: { low: 0, mid: 0.8, high: 0, overall: 0.8 } },
+        { timeMs: 400, levels: { low: 0, mid: 0.1, high: 0, overall: 0.1 } },
+        { timeMs: 1000, levels: { low: 0, mid: 0.1, high: 0, overall: 0.1 } },
+      ];
+
+      expect(replayAudioLevels({ rules: [moodPrompts] }, blip)).toEqual([
+        { timeMs: 0, params: { prompt: "calm lake at dawn" } },
+      ]);
+    });
+  });
+
+  describe("rate limiting", () => {
+    it("sends at most one update per minIntervalMs", () => {
+      for (const minIntervalMs of [100, 250, 1000]) {
+        const times = replayAudioLevels(
+          { minIntervalMs, rules: [{ ...deltaRange, band: "low" }] },
+          kickDrum
+        ).map(({ timeMs }) => timeMs);
+
+        expect(times.length).toBeGreaterThan(1);
+        for (let i = 1; i < times.length; i++) {
+          expect(times[i] - times[i - 1]).toBeGreaterThanOrEqual(minIntervalMs);
+        }
+      }
+    });
+
+    it("skips changes smaller than epsilon", () => {
+      const fine = deltas({ minIntervalMs: 0, rules: [deltaRange] });
+      const coarse = deltas({
+        minIntervalMs: 0,
+        epsilon: 0.05,
+        rules: [deltaRange],
+      }) as number[];
+
+      expect(coarse.length).toBeLessThan(fine.length);
+      for (let i = 1; i < coarse.length; i++) {
+        expect(Math.abs(coarse[i] - coarse[i - 1])).toBeGreaterThanOrEqual(
+          0.05
+        );
+      }
+    });
+
+    it("sends only the parameters that changed", () => {
+      const updates = replayAudioLevels(
+        { minIntervalMs: 0, rules: [deltaRange, moodPrompts] },
+        padSwell
+      );
+
+      expect(updates[0].params).toEqual({
+        delta: 0.336,
+        prompt: "calm lake at dawn",
+      });
+      expect(
+        updates.filter(({ params }) => "prompt" in params).map((u) => u.timeMs)
+      ).toEqual([0, 1300, 3850]);
+    });
+  });
+});
+
+describe("createAudioParamMapper", () => {
+  it("starts over after reset", () => {
+    const mapper = createAudioParamMapper({ rules: [deltaRange] });
+    const [first] = padSwell;
+
+    expect(mapper.update(first.levels, 0)).toEqual({ delta: 0.336 });
+    expect(mapper.update(first.levels, 100)).toBeNull();
+    mapper.reset();
+    expect(mapper.update(first.levels, 100)).toEqual({ delta: 0.336 });
+  });
+});
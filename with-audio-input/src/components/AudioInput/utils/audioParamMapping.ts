@@ -0,0 +1,266 @@
+import type { AudioLevels } from "../hooks/useAudioEngine";
+import type { DaydreamStreamParams } from "@daydream-examples/streaming-core";
+
+export type AudioBand = keyof AudioLevels;
+
+export type MappingCurve =
+  | "linear"
+  | "exponential"
+  | "logarithmic"
+  | ((level: number) => number);
+
+/** Numeric stream parameters an audio rule can drive */
+export type NumericParam = "delta" | "guidance_scale" | "seed";
+
+/**
+ * Maps a band continuously onto a parameter range. Levels at or below the
+ * threshold map to `min`.
+ */
+export interface RangeRule {
+  type: "range";
+  band: AudioBand;
+  param: Exclude<NumericParam, "seed">;
+  min: number;
+  max: number;
+  curve?: MappingCurve;
+  threshold?: number;
+  /** 0 = no smoothing, towards 1 = very slow response */
+  smoothing?: number;
+}
+
+/**
+ * Jumps a parameter to `peak` when the band crosses the threshold, then decays
+ * back to `base` (e.g. bass hits bump denoise strength)
+ */
+export interface PulseRule {
+  type: "pulse";
+  band: AudioBand;
+  param: Exclude<NumericParam, "seed">;
+  threshold: number;
+  base: number;
+  peak: number;
+  decayMs: number;
+}
+
+/**
+ * Adds `step` to a parameter every time the band crosses the threshold
+ * (e.g. the high band shifts the seed)
+ */
+export interface StepRule {
+  type: "step";
+  band: AudioBand;
+  param: NumericParam;
+  threshold: number;
+  step: number;
+  initial: number;
+  /** Minimum time between two steps */
+  cooldownMs?: number;
+}
+
+/**
+ * Picks a prompt by level range once the band has stayed in that range for
+ * `sustainMs` (e.g. sustained volume switches between presets)
+ */
+export interface PromptSelectRule {
+  type: "prompt";
+  band: AudioBand;
+  /** Ordered by ascending `minLevel`; the highest one reached wins */
+  prompts: Array<{ minLevel: number; prompt: string }>;
+  sustainMs: number;
+  smoothing?: number;
+}
+
+export type AudioParamRule = RangeRule | PulseRule | StepRule | PromptSelectRule;
+
+export interface AudioParamMapping {
+  rules: AudioParamRule[];
+  /** Minimum time between emitted updates (default: 250) */
+  minIntervalMs?: number;
+  /** Numeric changes smaller than this are not worth an update (default: 0.01) */
+  epsilon?: number;
+}
+
+export interface RecordedLevelFrame {
+  timeMs: number;
+  levels: AudioLevels;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+const applyCurve = (level: number, curve: MappingCurve = "linear") => {
+  if (typeof curve === "function") return clamp01(curve(level));
+  switch (curve) {
+    case "exponential":
+      return level * level;
+    case "logarithmic":
+      return Math.log1p(level * 9) / Math.log(10);
+    default:
+      return level;
+  }
+};
+
+const smooth = (previous: number | undefined, next: number, factor = 0) =>
+  previous === undefined ? next : previous * factor + next * (1 - factor);
+
+interface RuleState {
+  smoothed?: number;
+  above: boolean;
+  pulseAt?: number;
+  value?: number;
+  lastStepAt?: number;
+  candidate?: string;
+  candidateSince?: number;
+  prompt?: string;
+}
+
+/**
+ * Turns a stream of audio levels into rate-limited parameter updates. Time is
+ * passed in with every sample, so the mapper has no clock of its own and a
+ * recorded sequence always produces the same updates.
+ */
+export const createAudioParamMapper = ({
+  rules,
+  minIntervalMs = 250,
+  epsilon = 0.01,
+}: AudioParamMapping) => {
+  const states: RuleState[] = rules.map(() => ({ above: false }));
+  let sent: DaydreamStreamParams = {};
+  let lastEmitAt = -Infinity;
+
+  const evaluate = (levels: AudioLevels, timeMs: number) => {
+    const params: DaydreamStreamParams = {};
+
+    rules.forEach((rule, index) => {
+      const state = states[index];
+      const level = clamp01(levels[rule.band]);
+      const crossed = level >= ("threshold" in rule ? rule.threshold ?? 0 : 0);
+      const risingEdge = crossed && !state.above;
+      state.above = crossed;
+
+      switch (rule.type) {
+        case "range": {
+          state.smoothed = smooth(state.smoothed, level, rule.smoothing);
+          const threshold = rule.threshold ?? 0;
+          const normalized =
+            state.smoothed <= threshold
+              ? 0
+              : (state.smoothed - threshold) / (1 - threshold || 1);
+          params[rule.param] =
+            rule.min + (rule.max - rule.min) * applyCurve(normalized, rule.curve);
+          break;
+        }
+        case "pulse": {
+          if (risingEdge) state.pulseAt = timeMs;
+          const sincePulse =
+            state.pulseAt === undefined ? Infinity : timeMs - state.pulseAt;
+          const remaining =
+            rule.decayMs > 0 ? clamp01(1 - sincePulse / rule.decayMs) : 0;
+          params[rule.param] = rule.base + (rule.peak - rule.base) * remaining;
+          break;
+        }
+        case "step": {
+          state.value ??= rule.initial;
+          const cooledDown =
+            state.lastStepAt === undefined ||
+            timeMs - state.lastStepAt >= (rule.cooldownMs ?? 0);
+          if (risingEdge && cooledDown) {
+            state.value += rule.step;
+            state.lastStepAt = timeMs;
+          }
+          params[rule.param] = state.value;
+          break;
+        }
+        case "prompt": {
+          state.smoothed = smooth(state.smoothed, level, rule.smoothing);
+          const smoothed = state.smoothed;
+          const target = rule.prompts.reduce<string | undefined>(
+            (selected, entry) =>
+              smoothed >= entry.minLevel ? entry.prompt : selected,
+            rule.prompts[0]?.prompt
+          );
+          if (state.prompt === undefined) {
+            state.prompt = target;
+          } else if (target !== state.prompt) {
+            if (target !== state.candidate) {
+              state.candidate = target;
+              state.candidateSince = timeMs;
+            } else if (timeMs - (state.candidateSince ?? 0) >= rule.sustainMs) {
+              state.prompt = target;
+            }
+          } else {
+            state.candidate = undefined;
+          }
+          if (state.prompt !== undefined) params.prompt = state.prompt;
+          break;
+        }
+      }
+    });
+
+    return params;
+  };
+
+  const changedParams = (params: DaydreamStreamParams) => {
+    const changed: DaydreamStreamParams = {};
+    for (const [key, value] of Object.entries(params)) {
+      const previous = sent[key];
+      const isSame =
+        typeof value === "number" && typeof previous === "number"
+          ? Math.abs(value - previous) < epsilon
+          : value === previous;
+      if (!isSame) changed[key] = value;
+    }
+    return changed;
+  };
+
+  return {
+    /**
+     * Feed one sample. Returns the parameters that changed since the last
+     * update, or null while rate limited or when nothing changed.
+     */
+    update(levels: AudioLevels, timeMs: number): DaydreamStreamParams | null {
+      const params = evaluate(levels, timeMs);
+      if (timeMs - lastEmitAt < minIntervalMs) return null;
+
+      const changed = changedParams(params);
+      if (Object.keys(changed).length === 0) return null;
+
+      // Seeds must stay integers
+      if (typeof changed.seed === "number") {
+        changed.seed = Math.max(0, Math.round(changed.seed));
+      }
+      for (const key of ["delta", "guidance_scale"] as const) {
+        const value = changed[key];
+        if (typeof value === "number") {
+          changed[key] = Math.round(value * 1000) / 1000;
+        }
+      }
+
+      sent = { ...sent, ...changed };
+      lastEmitAt = timeMs;
+      return changed;
+    },
+
+    reset() {
+      states.splice(0, states.length, ...rules.map(() => ({ above: false })));
+      sent = {};
+      lastEmitAt = -Infinity;
+    },
+  };
+};
+
+/**
+ * Test harness: runs a recorded level sequence through a mapping and returns
+ * every update it would have sent
+ */
+export const replayAudioLevels = (
+  mapping: AudioParamMapping,
+  frames: RecordedLevelFrame[]
+): Array<{ timeMs: number; params: DaydreamStreamParams }> => {
+  const mapper = createAudioParamMapper(mapping);
+  const updates: Array<{ timeMs: number; params: DaydreamStreamParams }> = [];
+  for (const { timeMs, levels } of frames) {
+    const params = mapper.update(levels, timeMs);
+    if (params) updates.push({ timeMs, params });
+  }
+  return updates;
+};
@@ -6,10 +6,92 @@ import {
   AudioInputPreviewCanvas,
   AudioInputLevels,
   AudioInputControls,
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+  DaydreamClient,
+  OUTPUT_PROFILES,
+  createFakeDaydreamServer,
+  useDaydreamStream,
+  useWhipPublisher,
+  useAudioParamModulation,
+  useAdaptiveBitrate,
+  type AdaptiveBitrateOptions,
   type AudioLevels,
+  type AudioParamMapping,
+  type OutputProfileName,
+  type PromptPreset,
   Button,
 } from "../components/AudioInput";
 
+// Without an API key the example runs against an in-process fake backend.
+// Its WHIP and WHEP URLs only resolve through its fetch, so the publisher
+// and the player take that fetch too
+const apiKey = import.meta.env.VITE_DAYDREAM_API_KEY;
+const offlineServer = apiKey ? null : createFakeDaydreamServer();
+const daydreamClient = new DaydreamClient({
+  apiKey: apiKey || "offline",
+  ...offlineServer?.clientOptions,
+});
+const pipelineId =
+  import.meta.env.VITE_DAYDREAM_PIPELINE_ID ?? "pip_qpUgXycjWF6YMeSL";
+const initialParams = { prompt: "liquid chrome sculpture, studio lighting" };
+const promptPresets: PromptPreset[] = [
+  { name: "Chrome", prompt: "liquid chrome sculpture, studio lighting" },
+  { name: "Lava", prompt: "molten lava lamp, glowing orange blobs" },
+  { name: "Ocean", prompt: "deep ocean jellyfish, bioluminescent" },
+  { name: "Galaxy", prompt: "swirling galaxy, nebula clouds, stars" },
+  {
+    name: "Glass",
+    prompt: "blown glass, iridescent reflections, macro photo",
+    negative_prompt: "blurry, low quality",
+  },
+];
+
+// The visualizers move constantly but are smooth gradients, so they need
+// less than the default ceiling
+const adaptiveBitrate: AdaptiveBitrateOptions = {
+  minBitrate: 500_000,
+  maxBitrate: 1_500_000,
+};
+
+// Bass hits bump denoise strength, hi-hats shift the seed and sustained
+// loudness moves between calm and intense prompts
+const audioMapping: AudioParamMapping = {
+  rules: [
+    {
+      type: "pulse",
+      band: "low",
+      param: "delta",
+      threshold: 0.7,
+      base: 0.5,
+      peak: 0.85,
+      decayMs: 600,
+    },
+    {
+      type: "step",
+      band: "high",
+      param: "seed",
+      threshold: 0.6,
+      step: 1,
+      initial: 42,
+      cooldownMs: 1000,
+    },
+    {
+      type: "prompt",
+      band: "overall",
+      prompts: [
+        { minLevel: 0, prompt: "liquid chrome sculpture, studio lighting" },
+        { minLevel: 0.35, prompt: "molten lava lamp, glowing orange blobs" },
+        { minLevel: 0.6, prompt: "exploding supernova, intense energy" },
+      ],
+      sustainMs: 2000,
+      smoothing: 0.9,
+    },
+  ],
+  minIntervalMs: 250,
+};
+
 /**
  * Advanced example with multiple visualizers and complex interactions
  */
@@ -20,8 +102,45 @@ export function AdvancedExample() {
   const [audioHistory, setAudioHistory] = useState<AudioLevels[]>([]);
   const [isRecording, setIsRecording] = useState(false);
   const [maxAudioLevel, setMaxAudioLevel] = useState(0);
+  const [outputStream, setOutputStream] = useState<MediaStream | null>(null);
+  const [audioReactivePrompts, setAudioReactivePrompts] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [adaptiveEncoding, setAdaptiveEncoding] = useState(true);
+  const [outputProfile, setOutputProfile] =
+    useState<OutputProfileName>("square-512");
+
+  const daydream = useDaydreamStream({
+    client: daydreamClient,
+    pipelineId,
+    initialParams,
+    onError: (error) => {
+      console.error("Daydream stream error:", error);
+    },
+  });
+  const modulation = useAudioParamModulation({
+    mapping: audioMapping,
+    updateParams: daydream.updateParams,
+    enabled: audioReactivePrompts && daydream.status === "ready",
+  });
+  const handleModulationLevels = modulation.handleLevels;
+  const publisher = useWhipPublisher({
+    stream: outputStream,
+    endpoint: daydream.stream?.whipUrl,
+    fetch: offlineServer?.fetch,
+    onError: (error) => {
+      console.error("WHIP publish error:", error);
+    },
+  });
+  const encoding = useAdaptiveBitrate({
+    stream: outputStream,
+    getPeerConnection: publisher.getPeerConnection,
+    enabled: adaptiveEncoding,
+    options: adaptiveBitrate,
+  });
 
   const handleAudioAnalysis = useCallback((levels: AudioLevels) => {
+    handleModulationLevels(levels);
+
     // Track audio history for waveform
     setAudioHistory((prev) => {
       const newHistory = [...prev, levels];
@@ -30,7 +149,7 @@ export function AdvancedExample() {
 
     // Track max level
     setMaxAudioLevel((prev) => Math.max(prev, levels.overall));
-  }, []);
+  }, [handleModulationLevels]);
 
   const waveformRender = (
     ctx: CanvasRenderingContext2D,
@@ -170,6 +289,7 @@ export function AdvancedExample() {
       <AudioInput
         defaultDemoAudioPath="/demo.mp3"
         onAudioAnalysis={handleAudioAnalysis}
+        onStreamReady={setOutputStream}
       >
         {/* Visualizer Selection */}
         <div className="flex flex-wrap gap-2 justify-center mb-6">
@@ -190,13 +310,14 @@ export function AdvancedExample() {
           ))}
         </div>
 
-        {/* Main Visualizer */}
-        <div className="flex justify-center mb-6">
+        {/* Main Visualizer + Daydream Output */}
+        <div className="flex flex-wrap justify-center gap-6 mb-6">
           <div className="relative">
             <AudioInputPreviewCanvas
               key={selectedVisualizer} // Force re-render when mode changes
               width={500}
               height={400}
+              outputProfile={outputProfile}
               renderMode={
                 selectedVisualizer === "chrome-blob" ? "chrome-blob" : "custom"
               }
@@ -210,9 +331,51 @@ export function AdvancedExample() {
                 selectedVisualizer.slice(1)}{" "}
               Mode
             </div>
+            {showStats && (
+              <PublisherStatsOverlay
+                getPeerConnection={publisher.getPeerConnection}
+              />
+            )}
+          </div>
+          <div className="relative">
+            <DaydreamOutputPlayer
+              endpoint={daydream.stream?.whepUrl}
+              fetch={offlineServer?.fetch}
+              className="border border-slate-300 rounded-lg shadow-2xl overflow-hidden"
+              style={{ width: 500, height: 400 }}
+            />
+            <div className="absolute top-2 right-2 bg-white/90 px-2 py-1 rounded text-xs text-slate-900 shadow-sm">
+              Daydream Output{!apiKey && " (offline)"} • {daydream.status} •
+              publish {publisher.connectionState}
+              {publisher.connectionState === "reconnecting" &&
+                ` (attempt ${publisher.reconnectAttempt})`}
+            </div>
           </div>
         </div>
 
+        {/* Prompt */}
+        <PromptPanel
+          updateParams={daydream.updateParams}
+          initialParams={initialParams}
+          presets={promptPresets}
+          disabled={daydream.status !== "ready"}
+          className="w-full max-w-2xl mx-auto mb-2 p-3 bg-white border border-slate-200 rounded-lg shadow-sm"
+        />
+        <label className="flex items-center justify-center gap-2 mb-6 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={audioReactivePrompts}
+            onChange={(e) => setAudioReactivePrompts(e.target.checked)}
+          />
+          Audio-reactive prompts (bass → strength, highs → seed, loudness →
+          prompt)
+          {audioReactivePrompts && modulation.lastParams && (
+            <span className="text-slate-500">
+              last: {JSON.stringify(modulation.lastParams)}
+            </span>
+          )}
+        </label>
+
         {/* Controls Grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           {/* Audio Sources */}
@@ -287,6 +450,50 @@ export function AdvancedExample() {
                   {selectedVisualizer}
                 </div>
               </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={showStats}
+                  onChange={(e) => setShowStats(e.target.checked)}
+                />
+                Publisher stats overlay
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={adaptiveEncoding}
+                  onChange={(e) => setAdaptiveEncoding(e.target.checked)}
+                />
+                Adaptive bitrate
+              </label>
+
+              <label className="flex items-center gap-2 text-sm text-slate-700">
+                Output
+                <select
+                  value={outputProfile}
+                  onChange={(e) =>
+                    setOutputProfile(e.target.value as OutputProfileName)
+                  }
+                  className="border border-slate-300 rounded px-1 py-0.5"
+                >
+                  {Object.values(OUTPUT_PROFILES).map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {adaptiveEncoding && encoding.params && (
+                <div className="text-sm">
+                  <div className="text-slate-600">Encoding</div>
+                  <div className="text-slate-900 font-mono">
+                    {(encoding.params.maxBitrate / 1_000_000).toFixed(1)} Mbps @{" "}
+                    {encoding.params.maxFramerate} fps
+                  </div>
+                </div>
+              )}
             </div>
           </div>
         </div>
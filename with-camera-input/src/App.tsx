@@ -1,11 +1,173 @@
-import { useState } from "react";
-import { CameraSwitcher } from "./components/CameraInput";
+import { useEffect, useMemo, useState } from "react";
+import {
+  CameraSwitcher,
+  CompositeInput,
+  DaydreamOutputPlayer,
+  MediaFileInput,
+  PromptPanel,
+  PublisherStatsOverlay,
+  StreamOrchestratorProvider,
+  StreamOverlay,
+  VideoFiltersPanel,
+  DaydreamClient,
+  OUTPUT_PROFILES,
+  createBrowserFaceDetector,
+  createFakeDaydreamServer,
+  createSelfieSegmentationProvider,
+  useAdaptiveBitrate,
+  useDaydreamStream,
+  useOutputProfile,
+  useWhipPublisher,
+  type AdaptiveBitrateOptions,
+  type BackgroundOptions,
+  type BuiltInTransition,
+  type CompositorLayout,
+  type FitMode,
+  type OutputProfileName,
+  type PromptPreset,
+  type SegmentationProvider,
+  type VirtualBackground,
+} from "./components/CameraInput";
+
+// Without an API key the example runs against an in-process fake backend.
+// Its WHIP and WHEP URLs only resolve through its fetch, so the publisher
+// and the player take that fetch too
+const apiKey = import.meta.env.VITE_DAYDREAM_API_KEY;
+const offlineServer = apiKey ? null : createFakeDaydreamServer();
+const daydreamClient = new DaydreamClient({
+  apiKey: apiKey || "offline",
+  ...offlineServer?.clientOptions,
+});
+const pipelineId =
+  import.meta.env.VITE_DAYDREAM_PIPELINE_ID ?? "pip_qpUgXycjWF6YMeSL";
+const initialParams = { prompt: "studio ghibli style portrait" };
+const promptPresets: PromptPreset[] = [
+  { name: "Anime", prompt: "studio ghibli style portrait" },
+  { name: "Oil Paint", prompt: "renaissance oil painting portrait" },
+  { name: "Cyberpunk", prompt: "cyberpunk character, neon rim lighting" },
+  { name: "Clay", prompt: "claymation character, soft studio lighting" },
+  {
+    name: "Sketch",
+    prompt: "charcoal sketch portrait, paper texture",
+    negative_prompt: "color, blurry",
+  },
+];
+
+// Needs the Shape Detection API; auto-framing is unavailable without it
+const faceDetector = createBrowserFaceDetector();
+
+type BackgroundChoice = "none" | "blur" | "color";
+const virtualBackgrounds: Record<
+  Exclude<BackgroundChoice, "none">,
+  VirtualBackground
+> = {
+  blur: { kind: "blur", radius: 12 },
+  color: { kind: "color", color: "#00b140" },
+};
+
+const backgroundOptions: BackgroundOptions = {
+  enableComplexityManagement: true,
+  complexityOptions: {
+    targetComplexity: 0.3,
+  },
+};
+
+// A talking head barely moves; screen shares are mostly static text
+const adaptiveBitrateOptions: AdaptiveBitrateOptions = {
+  minBitrate: 400_000,
+  maxBitrate: 2_000_000,
+};
+
+// "switch" publishes one input at a time and "file" a local media file;
+// the others composite both
+type LayoutChoice = "switch" | "file" | "pip" | "side-by-side" | "grid";
+const layouts: Record<
+  Exclude<LayoutChoice, "switch" | "file">,
+  CompositorLayout
+> = {
+  pip: { kind: "pip", corner: "bottom-right", size: 0.3 },
+  "side-by-side": { kind: "side-by-side", gap: 4 },
+  grid: { kind: "grid", gap: 4 },
+};
 
 const AdvancedExample = () => {
   const [isStreaming, setIsStreaming] = useState(false);
   const [currentMode, setCurrentMode] = useState<"camera" | "screenshare">(
     "camera"
   );
+  const [outputStream, setOutputStream] = useState<MediaStream | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [watermark, setWatermark] = useState(false);
+  const [adaptiveBitrate, setAdaptiveBitrate] = useState(true);
+  const [layout, setLayout] = useState<LayoutChoice>("switch");
+  const [transitionType, setTransitionType] =
+    useState<BuiltInTransition>("crossfade");
+  const transition = useMemo(() => ({ type: transitionType }), [transitionType]);
+  const [cameraFit, setCameraFit] = useState<FitMode>("contain");
+  const cameraFraming = useMemo(() => ({ fit: cameraFit }), [cameraFit]);
+  const [autoFrame, setAutoFrame] = useState(false);
+  const [background, setBackground] = useState<BackgroundChoice>("none");
+  const [segmentation, setSegmentation] = useState<SegmentationProvider | null>(
+    null
+  );
+  const [segmentationError, setSegmentationError] = useState<string | null>(
+    null
+  );
+  const [outputProfile, setOutputProfile] =
+    useState<OutputProfileName>("square-512");
+  useOutputProfile(outputProfile);
+
+  // The segmentation model is a few MB, so it loads once a background is
+  // first picked
+  const wantsSegmentation = background !== "none";
+  useEffect(() => {
+    if (!wantsSegmentation || segmentation || segmentationError) return;
+    let cancelled = false;
+    createSelfieSegmentationProvider().then(
+      (provider) => {
+        if (cancelled) provider.dispose?.();
+        else setSegmentation(provider);
+      },
+      (error) => {
+        console.error("Segmentation model failed to load:", error);
+        if (!cancelled) {
+          setBackground("none");
+          setSegmentationError(
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [wantsSegmentation, segmentation, segmentationError]);
+
+  useEffect(() => () => segmentation?.dispose?.(), [segmentation]);
+
+  const daydream = useDaydreamStream({
+    client: daydreamClient,
+    pipelineId,
+    initialParams,
+    onError: (error) => {
+      console.error("Daydream stream error:", error);
+    },
+  });
+  const publisher = useWhipPublisher({
+    stream: outputStream,
+    endpoint: daydream.stream?.whipUrl,
+    fetch: offlineServer?.fetch,
+    onError: (error) => {
+      console.error("WHIP publish error:", error);
+    },
+  });
+  const encoding = useAdaptiveBitrate({
+    stream: outputStream,
+    getPeerConnection: publisher.getPeerConnection,
+    enabled: adaptiveBitrate,
+    options: adaptiveBitrateOptions,
+  });
 
   return (
     <div className="max-w-4xl mx-auto space-y-8">
@@ -24,35 +186,102 @@ const AdvancedExample = () => {
         <div className="bg-gradient-to-r from-blue-50 to-indigo-50 px-6 py-4 border-b border-slate-200">
           <h2 className="text-xl font-semibold text-slate-800">Video Input</h2>
           <p className="text-sm text-slate-600 mt-1">
-            {currentMode === "camera" && "Camera mode"}
-            {currentMode === "screenshare" && "Screen sharing mode"}
+            {layout !== "switch" && layout !== "file" && "Composite mode"}
+            {layout === "file" && "Media file mode"}
+            {layout === "switch" && currentMode === "camera" && "Camera mode"}
+            {layout === "switch" &&
+              currentMode === "screenshare" &&
+              "Screen sharing mode"}
             {isStreaming && " • Streaming"}
           </p>
         </div>
 
-        <div className="p-6">
-          <div className="aspect-video bg-slate-100 rounded-xl overflow-hidden border-2 border-slate-200">
-            <CameraSwitcher
-              autoStartCamera={true}
-              onStreamReady={(stream) => {
-                console.log("Camera stream ready:", stream.id);
-                setIsStreaming(true);
-              }}
-              onModeChange={(mode) => {
-                console.log("Mode changed to:", mode);
-                setCurrentMode(mode);
-                setIsStreaming(true);
-              }}
-              onError={(error) => {
-                console.error("Camera error:", error);
-                setIsStreaming(false);
-              }}
-              backgroundOptions={{
-                enableComplexityManagement: true,
-                complexityOptions: {
-                  targetComplexity: 0.3,
-                },
-              }}
+        <div className="p-6 grid md:grid-cols-2 gap-4">
+          <div className="relative aspect-video bg-slate-100 rounded-xl overflow-hidden border-2 border-slate-200">
+            {layout === "switch" ? (
+              <CameraSwitcher
+                autoStartCamera={true}
+                onStreamReady={(stream) => {
+                  console.log("Camera stream ready:", stream.id);
+                  setOutputStream(stream);
+                  setIsStreaming(true);
+                }}
+                onModeChange={(mode) => {
+                  console.log("Mode changed to:", mode);
+                  setCurrentMode(mode);
+                  setIsStreaming(true);
+                }}
+                onError={(error) => {
+                  console.error("Camera error:", error);
+                  setIsStreaming(false);
+                }}
+                backgroundOptions={backgroundOptions}
+                transition={transition}
+                cameraFraming={cameraFraming}
+                shareAudio
+                showDevicePicker
+                showCameraControls
+                faceDetector={autoFrame ? faceDetector : null}
+                segmentation={background === "none" ? null : segmentation}
+                virtualBackground={
+                  background === "none"
+                    ? undefined
+                    : virtualBackgrounds[background]
+                }
+              />
+            ) : layout === "file" ? (
+              <MediaFileInput
+                onStreamReady={(stream) => {
+                  setOutputStream(stream);
+                  setIsStreaming(true);
+                }}
+                onError={(error) => {
+                  console.error("Media file error:", error);
+                }}
+                backgroundOptions={backgroundOptions}
+                transition={transition}
+              />
+            ) : (
+              <CompositeInput
+                layout={layouts[layout]}
+                autoStartCamera={true}
+                onStreamReady={(stream) => {
+                  setOutputStream(stream);
+                  setIsStreaming(true);
+                }}
+                onError={(error) => {
+                  console.error("Composite input error:", error);
+                }}
+                backgroundOptions={backgroundOptions}
+              />
+            )}
+            {watermark && (
+              <>
+                <StreamOverlay
+                  type="text"
+                  text="Daydream"
+                  anchor="bottom-right"
+                  opacity={0.8}
+                  shadow={{ color: "rgba(0, 0, 0, 0.6)", blur: 6, offsetY: 2 }}
+                />
+                <StreamOverlay
+                  type="timestamp"
+                  anchor="top-right"
+                  font="24px monospace"
+                  background="rgba(0, 0, 0, 0.5)"
+                />
+              </>
+            )}
+            {showStats && (
+              <PublisherStatsOverlay
+                getPeerConnection={publisher.getPeerConnection}
+              />
+            )}
+          </div>
+          <div className="aspect-video bg-slate-900 rounded-xl overflow-hidden border-2 border-slate-200">
+            <DaydreamOutputPlayer
+              endpoint={daydream.stream?.whepUrl}
+              fetch={offlineServer?.fetch}
             />
           </div>
         </div>
@@ -68,14 +297,187 @@ const AdvancedExample = () => {
               <span className="text-sm font-medium text-slate-700">
                 {isStreaming ? "Live" : "Stopped"}
               </span>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={showStats}
+                  onChange={(e) => setShowStats(e.target.checked)}
+                />
+                Stats
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={showFilters}
+                  onChange={(e) => setShowFilters(e.target.checked)}
+                />
+                Filters
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={watermark}
+                  onChange={(e) => setWatermark(e.target.checked)}
+                />
+                Watermark
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={adaptiveBitrate}
+                  onChange={(e) => setAdaptiveBitrate(e.target.checked)}
+                />
+                Adaptive bitrate
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                Layout
+                <select
+                  value={layout}
+                  onChange={(e) => setLayout(e.target.value as LayoutChoice)}
+                  className="border border-slate-300 rounded px-1 py-0.5"
+                >
+                  <option value="switch">Switch</option>
+                  <option value="file">Media file</option>
+                  <option value="pip">Picture-in-picture</option>
+                  <option value="side-by-side">Side by side</option>
+                  <option value="grid">Grid</option>
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                Output
+                <select
+                  value={outputProfile}
+                  onChange={(e) =>
+                    setOutputProfile(e.target.value as OutputProfileName)
+                  }
+                  className="border border-slate-300 rounded px-1 py-0.5"
+                >
+                  {Object.values(OUTPUT_PROFILES).map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {(layout === "switch" || layout === "file") && (
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Transition
+                  <select
+                    value={transitionType}
+                    onChange={(e) =>
+                      setTransitionType(e.target.value as BuiltInTransition)
+                    }
+                    className="border border-slate-300 rounded px-1 py-0.5"
+                  >
+                    <option value="crossfade">Crossfade</option>
+                    <option value="cut">Cut</option>
+                    <option value="wipe">Wipe</option>
+                    <option value="slide">Slide</option>
+                    <option value="zoom">Zoom</option>
+                    <option value="dip-to-black">Dip to black</option>
+                    <option value="luma-key">Luma key</option>
+                  </select>
+                </label>
+              )}
+              {layout === "switch" && (
+                <label className="flex items-center gap-2 text-sm text-slate-600">
+                  Camera fit
+                  <select
+                    value={cameraFit}
+                    onChange={(e) => setCameraFit(e.target.value as FitMode)}
+                    className="border border-slate-300 rounded px-1 py-0.5"
+                  >
+                    <option value="contain">Contain</option>
+                    <option value="cover">Cover</option>
+                    <option value="stretch">Stretch</option>
+                  </select>
+                </label>
+              )}
+              {layout === "switch" && (
+                <label
+                  className="flex items-center gap-2 text-sm text-slate-600"
+                  title={
+                    faceDetector
+                      ? undefined
+                      : "Needs the Shape Detection API (chrome://flags/#enable-experimental-web-platform-features)"
+                  }
+                >
+                  <input
+                    type="checkbox"
+                    checked={autoFrame}
+                    disabled={!faceDetector}
+                    onChange={(e) => setAutoFrame(e.target.checked)}
+                  />
+                  Auto-frame face
+                </label>
+              )}
+              {layout === "switch" && (
+                <label
+                  className="flex items-center gap-2 text-sm text-slate-600"
+                  title={
+                    segmentationError
+                      ? `The segmentation model failed to load: ${segmentationError}`
+                      : undefined
+                  }
+                >
+                  Background
+                  <select
+                    value={background}
+                    disabled={!!segmentationError}
+                    onChange={(e) =>
+                      setBackground(e.target.value as BackgroundChoice)
+                    }
+                    className="border border-slate-300 rounded px-1 py-0.5"
+                  >
+                    <option value="none">Camera</option>
+                    <option value="blur">Blur</option>
+                    <option value="color">Green screen</option>
+                  </select>
+                  {wantsSegmentation && !segmentation && "Loading model…"}
+                </label>
+              )}
             </div>
 
             <div className="text-sm text-slate-600">
-              {currentMode === "camera" && "📷 Camera Mode"}
-              {currentMode === "screenshare" && "🖥️ Screen Share Mode"}
+              <span className="mr-3">
+                Daydream{!apiKey && " (offline)"}: {daydream.status} •
+                Publish: {publisher.connectionState}
+                {publisher.connectionState === "reconnecting" &&
+                  ` (attempt ${publisher.reconnectAttempt})`}
+                {adaptiveBitrate &&
+                  encoding.params &&
+                  ` • ${(encoding.params.maxBitrate / 1_000_000).toFixed(1)} Mbps @ ${encoding.params.maxFramerate} fps`}
+              </span>
+              {layout !== "switch" && layout !== "file" && "🧩 Composite Mode"}
+              {layout === "file" && "🎞️ Media File Mode"}
+              {layout === "switch" &&
+                currentMode === "camera" &&
+                "📷 Camera Mode"}
+              {layout === "switch" &&
+                currentMode === "screenshare" &&
+                "🖥️ Screen Share Mode"}
             </div>
           </div>
         </div>
+
+        {showFilters && (
+          <div className="px-6 pb-6">
+            <VideoFiltersPanel
+              initialFilters={[{ type: "color" }]}
+              className="p-4"
+            />
+          </div>
+        )}
+
+        <div className="px-6 pb-6">
+          <PromptPanel
+            updateParams={daydream.updateParams}
+            initialParams={initialParams}
+            presets={promptPresets}
+            disabled={daydream.status !== "ready"}
+            className="p-4 bg-slate-50 rounded-xl"
+          />
+        </div>
       </div>
 
       <div className="grid md:grid-cols-2 gap-6">
@@ -132,7 +534,9 @@ export default function App() {
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-slate-100">
       <div className="container mx-auto px-6 py-8">
         <div className="flex justify-center">
-          <AdvancedExample />
+          <StreamOrchestratorProvider>
+            <AdvancedExample />
+          </StreamOrchestratorProvider>
         </div>
       </div>
 
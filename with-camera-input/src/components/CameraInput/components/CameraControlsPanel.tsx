@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { useCameraCapabilities } from "../hooks/useCameraCapabilities";
+import type { CameraControl } from "../types";
+import { cn } from "../utils/cn";
+
+interface CameraControlsPanelProps {
+  /** The camera stream, e.g. `useCamera().stream` */
+  stream: MediaStream | null;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const LABELS: Record<CameraControl["name"], string> = {
+  zoom: "Zoom",
+  exposureCompensation: "Exposure",
+  exposureTime: "Shutter",
+  colorTemperature: "White balance",
+  focusDistance: "Focus",
+  brightness: "Brightness",
+  contrast: "Contrast",
+  saturation: "Saturation",
+  sharpness: "Sharpness",
+  exposureMode: "Exposure mode",
+  whiteBalanceMode: "White balance mode",
+  focusMode: "Focus mode",
+  torch: "Torch",
+};
+
+/**
+ * CameraControlsPanel - Sliders and toggles for whatever the active camera
+ * supports, with presets saved per device
+ */
+export const CameraControlsPanel: React.FC<CameraControlsPanelProps> = ({
+  stream,
+  className,
+  style,
+}) => {
+  const {
+    controls,
+    isSupported,
+    error,
+    setControl,
+    presets,
+    savePreset,
+    applyPreset,
+    deletePreset,
+  } = useCameraCapabilities({ stream });
+  const [presetName, setPresetName] = useState("");
+  const [selectedPreset, setSelectedPreset] = useState("");
+
+  const inputStyles =
+    "bg-black/40 border border-gray-500/50 rounded px-1 py-0.5 text-white";
+  const buttonStyles =
+    "px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div
+      className={cn(
+        "bg-black/70 text-white text-xs px-3 py-2 rounded-lg backdrop-blur-sm space-y-2",
+        className
+      )}
+      style={style}
+    >
+      {controls.length === 0 && (
+        <div className="text-gray-400">
+          {isSupported
+            ? "This camera has no adjustable settings"
+            : "This browser can't adjust camera settings"}
+        </div>
+      )}
+
+      {controls.map((control) => (
+        <label key={control.name} className="flex items-center gap-2">
+          <span className="w-28 shrink-0 text-gray-300">
+            {LABELS[control.name]}
+          </span>
+          {control.kind === "range" && (
+            <input
+              type="range"
+              min={control.min}
+              max={control.max}
+              step={control.step}
+              value={control.value}
+              onChange={(e) => setControl(control.name, Number(e.target.value))}
+              className="flex-1"
+            />
+          )}
+          {control.kind === "mode" && (
+            <select
+              value={control.value}
+              onChange={(e) => setControl(control.name, e.target.value)}
+              className={inputStyles}
+            >
+              {control.options.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          )}
+          {control.kind === "toggle" && (
+            <input
+              type="checkbox"
+              checked={control.value}
+              onChange={(e) => setControl(control.name, e.target.checked)}
+            />
+          )}
+        </label>
+      ))}
+
+      {controls.length > 0 && (
+        <div className="pt-2 border-t border-white/10 space-y-1">
+          {presets.length > 0 && (
+            <div className="flex items-center gap-1">
+              <select
+                value={selectedPreset}
+                onChange={(e) => setSelectedPreset(e.target.value)}
+                className={cn(inputStyles, "flex-1")}
+              >
+                <option value="">Preset…</option>
+                {presets.map((preset) => (
+                  <option key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => applyPreset(selectedPreset)}
+                disabled={!selectedPreset}
+                className={buttonStyles}
+              >
+                Apply
+              </button>
+              <button
+                onClick={() => {
+                  deletePreset(selectedPreset);
+                  setSelectedPreset("");
+                }}
+                disabled={!selectedPreset}
+                className={buttonStyles}
+              >
+                Delete
+              </button>
+            </div>
+          )}
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const name = presetName.trim();
+              if (!name) return;
+              savePreset(name);
+              setSelectedPreset(name);
+              setPresetName("");
+            }}
+          >
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              placeholder="Save current look as…"
+              className={cn(inputStyles, "flex-1")}
+            />
+            <button
+              type="submit"
+              disabled={!presetName.trim()}
+              className={buttonStyles}
+            >
+              Save
+            </button>
+          </form>
+        </div>
+      )}
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from "react";
+import type { MediaDeviceOption } from "../types";
+import { cn } from "../utils/cn";
+
+interface CameraDevicePickerProps {
+  /** e.g. `useMediaDevices().devices` */
+  devices: MediaDeviceOption[];
+  selectedDeviceId: string | null;
+  onSelect: (deviceId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * CameraDevicePicker - Dropdown of the available cameras. Hidden while there
+ * is nothing to choose between.
+ */
+export const CameraDevicePicker: React.FC<CameraDevicePickerProps> = ({
+  devices,
+  selectedDeviceId,
+  onSelect,
+  disabled = false,
+  className,
+}) => {
+  if (devices.length < 2) return null;
+
+  return (
+    <select
+      aria-label="Camera"
+      value={selectedDeviceId ?? devices[0].deviceId}
+      onChange={(e) => onSelect(e.target.value)}
+      disabled={disabled}
+      className={cn(
+        "max-w-48 truncate px-3 py-2 rounded-lg text-sm font-medium",
+        "bg-black/60 hover:bg-black/80 text-white",
+        "backdrop-blur-sm border border-gray-500/50",
+        "disabled:opacity-50 disabled:cursor-not-allowed",
+        className
+      )}
+    >
+      {devices.map((device) => (
+        <option key={device.deviceId} value={device.deviceId}>
+          {device.label}
+        </option>
+      ))}
+    </select>
+  );
+};
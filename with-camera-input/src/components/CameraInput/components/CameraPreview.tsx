@@ -4,6 +4,8 @@ import { cn } from '../utils/cn';
 interface CameraPreviewProps {
   stream: MediaStream | null;
   isScreenShare?: boolean;
+  /** Flip horizontally, as a mirror would (default: for cameras, not screen shares) */
+  mirror?: boolean;
   className?: string;
   onVideoReady?: (video: HTMLVideoElement) => void;
   style?: React.CSSProperties;
@@ -12,6 +14,7 @@ interface CameraPreviewProps {
 export const CameraPreview: React.FC<CameraPreviewProps> = ({
   stream,
   isScreenShare = false,
+  mirror = !isScreenShare,
   className,
   onVideoReady,
   style,
@@ -45,7 +48,7 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
         muted
         className={cn(
           "w-full h-full object-cover",
-          !isScreenShare && "-scale-x-100", // Mirror camera but not screen share
+          mirror && "-scale-x-100", // Preview only; the published stream is never mirrored
         )}
       />
       
@@ -1,29 +1,74 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useCamera } from "../hooks/useCamera";
 import { useScreenShare } from "../hooks/useScreenShare";
+import { useScreenShareAudio } from "../hooks/useScreenShareAudio";
 import { useStreamManager } from "../hooks/useStreamManager";
+import { useAutoFraming } from "../hooks/useAutoFraming";
+import { useVirtualBackground } from "../hooks/useVirtualBackground";
+import { useMediaDevices } from "../hooks/useMediaDevices";
+import { useVideoSlots } from "../hooks/useVideoSlots";
 import { CameraPreview } from "./CameraPreview";
+import { CameraDevicePicker } from "./CameraDevicePicker";
+import { CameraControlsPanel } from "./CameraControlsPanel";
 import type {
   CameraConstraints,
   ScreenShareConstraints,
   BackgroundOptions,
+  AutoFramingOptions,
+  FaceDetector,
+  SegmentationProvider,
+  SourceFraming,
+  TransitionSpec,
+  VirtualBackground,
 } from "../types";
 import { cn } from "../utils/cn";
+import {
+  loadPreferredFacingMode,
+  pickDevice,
+  savePreferredFacingMode,
+} from "../utils/mediaDevices";
+
+// Long enough for the slowest built-in transition to fade the old camera out
+const CAMERA_RELEASE_DELAY_MS = 1000;
 
 interface CameraSwitcherProps {
   cameraConstraints?: CameraConstraints;
   screenShareConstraints?: ScreenShareConstraints;
   backgroundOptions?: BackgroundOptions;
+  /** How the output changes over between camera and screen share (default: 200 ms crossfade) */
+  transition?: TransitionSpec;
+  /** Fit, crop and pan/zoom of the camera in the output (default: letterboxed) */
+  cameraFraming?: SourceFraming;
+  /** Fit, crop and pan/zoom of the screen share in the output (default: letterboxed) */
+  screenShareFraming?: SourceFraming;
+  /** Capture the tab's or system's audio with a screen share and publish it in place of the silent track */
+  shareAudio?: boolean;
+  /** Keeps the face framed while the camera is live; overrides `cameraFraming` */
+  faceDetector?: FaceDetector | null;
+  autoFraming?: AutoFramingOptions;
+  /** Separates the person from the background so it can be replaced */
+  segmentation?: SegmentationProvider | null;
+  /** What replaces the camera's background (default: a blur of it) */
+  virtualBackground?: VirtualBackground;
   onStreamReady?: (stream: MediaStream) => void;
   onError?: (error: string) => void;
   onModeChange?: (mode: "camera" | "screenshare") => void;
   className?: string;
   buttonClassName?: string;
   showSwitchButton?: boolean;
+  /** Show a camera picker next to the switch button when there are several */
+  showDevicePicker?: boolean;
+  /** Show a front/back flip button on devices that report which way cameras face */
+  showFlipButton?: boolean;
+  /** Show a collapsible panel of the camera's zoom, exposure and other settings */
+  showCameraControls?: boolean;
   autoStartCamera?: boolean;
   style?: React.CSSProperties;
 }
 
+const sourceKey = (framing: SourceFraming | undefined, segmented: boolean) =>
+  JSON.stringify({ framing: framing ?? {}, segmented });
+
 /**
  * CameraSwitcher - A component that allows seamless switching between camera and screen share
  * Similar to the original implementation but as a standalone, composable component
@@ -32,69 +77,195 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
   cameraConstraints,
   screenShareConstraints,
   backgroundOptions,
+  transition,
+  cameraFraming,
+  screenShareFraming,
+  shareAudio = false,
+  faceDetector = null,
+  autoFraming,
+  segmentation = null,
+  virtualBackground,
   onStreamReady,
   onError,
   onModeChange,
   className,
   buttonClassName,
   showSwitchButton = true,
+  showDevicePicker = false,
+  showFlipButton = true,
+  showCameraControls = false,
   autoStartCamera = true,
   style,
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // A camera switch plays the new camera in the other slot, so the old one
+  // can be crossfaded out
+  const { videoRef, setPrimaryVideo, setSecondaryVideo, swap } = useVideoSlots();
+  const switchingCameraRef = useRef(false);
+  const [lostDeviceId, setLostDeviceId] = useState<string | null>(null);
+  const [preferredFacingMode] = useState(loadPreferredFacingMode);
   const [currentMode, setCurrentMode] = useState<"camera" | "screenshare">(
     "camera"
   );
   const [isTransitioning, setIsTransitioning] = useState(false);
+  const framingRef = useRef({
+    camera: cameraFraming,
+    screenshare: screenShareFraming,
+  });
+  framingRef.current = {
+    camera: cameraFraming,
+    screenshare: screenShareFraming,
+  };
+  // What the orchestrator was last given, to re-register the live source on change
+  const registeredRef = useRef<{
+    mode: "camera" | "screenshare";
+    key: string;
+  } | null>(null);
+
+  const { replacer } = useVirtualBackground({
+    videoRef,
+    provider: segmentation,
+    enabled: currentMode === "camera",
+    background: virtualBackground,
+  });
+  const replacerRef = useRef(replacer);
+  replacerRef.current = replacer;
 
   const {
     registerSource,
-    orchestratedStream,
     setIsLoading: setSwitchingMode,
   } = useStreamManager({
     backgroundOptions,
     onStreamReady,
   });
 
+  const registerVideo = useCallback(
+    (mode: "camera" | "screenshare", switchTransition = transition) => {
+      if (!videoRef.current) return;
+      const framing = framingRef.current[mode];
+      // The camera goes through the segmentation stage while there is one
+      const stage = mode === "camera" ? replacerRef.current : null;
+      registerSource(
+        stage
+          ? { ...stage.getSource(), ...framing }
+          : {
+              kind: "video",
+              element: videoRef.current,
+              contentHint: mode === "camera" ? "motion" : "detail",
+              ...framing,
+            },
+        switchTransition
+      );
+      registeredRef.current = { mode, key: sourceKey(framing, stage !== null) };
+    },
+    [registerSource, transition, videoRef]
+  );
+
+  const mediaDevices = useMediaDevices();
+  const { refresh: refreshDevices } = mediaDevices;
+
   const camera = useCamera({
-    constraints: cameraConstraints,
+    constraints: {
+      ...cameraConstraints,
+      deviceId:
+        cameraConstraints?.deviceId ?? mediaDevices.selectedDeviceId ?? undefined,
+      facingMode:
+        cameraConstraints?.facingMode ?? preferredFacingMode ?? undefined,
+    },
     autoStart: autoStartCamera,
     onStreamReady: useCallback(
       (stream: MediaStream) => {
+        if (switchingCameraRef.current) {
+          switchingCameraRef.current = false;
+          const next = swap();
+          if (next) replacerRef.current?.setInput(next);
+        }
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
-          registerSource({
-            kind: "video",
-            element: videoRef.current,
-            contentHint: "motion",
-          });
+          registerVideo("camera");
         }
         // Always clear transitioning state when camera stream is ready
         setIsTransitioning(false);
         setSwitchingMode(false);
+        // Device labels are only readable once the camera is allowed
+        refreshDevices();
       },
-      [registerSource, setSwitchingMode]
+      [registerVideo, setSwitchingMode, refreshDevices, swap, videoRef]
     ),
     onError,
+    onDeviceLost: useCallback((deviceId: string | undefined) => {
+      setLostDeviceId(deviceId ?? "");
+    }, []),
   });
 
+  const selectCamera = useCallback(
+    (deviceId: string) => {
+      mediaDevices.selectDevice(deviceId);
+      if (currentMode !== "camera" || !camera.isActive) return;
+      if (deviceId === camera.deviceId) return;
+      switchingCameraRef.current = true;
+      camera
+        .switchDevice(deviceId, { releaseDelayMs: CAMERA_RELEASE_DELAY_MS })
+        .finally(() => {
+          switchingCameraRef.current = false;
+        });
+    },
+    [mediaDevices, currentMode, camera]
+  );
+
+  const flipCamera = useCallback(async () => {
+    if (currentMode !== "camera" || !camera.isActive || isTransitioning) return;
+    const next = camera.facingMode === "environment" ? "user" : "environment";
+
+    switchingCameraRef.current = true;
+    const stream = await camera
+      .switchFacingMode(next, { releaseDelayMs: CAMERA_RELEASE_DELAY_MS })
+      .finally(() => {
+        switchingCameraRef.current = false;
+      });
+    if (!stream) return;
+
+    savePreferredFacingMode(next);
+    // Keep the picker and the remembered device in line with the side
+    const deviceId = stream.getVideoTracks()[0]?.getSettings().deviceId;
+    if (deviceId) mediaDevices.selectDevice(deviceId);
+  }, [currentMode, camera, isTransitioning, mediaDevices]);
+
+  // An unplugged camera falls back to another one, if there is one
+  useEffect(() => {
+    if (lostDeviceId === null) return;
+    setLostDeviceId(null);
+    if (currentMode !== "camera") return;
+
+    refreshDevices().then((devices) => {
+      const fallback = pickDevice(
+        devices,
+        mediaDevices.selectedDeviceId,
+        lostDeviceId
+      );
+      if (fallback) camera.switchDevice(fallback);
+    });
+  }, [
+    lostDeviceId,
+    currentMode,
+    refreshDevices,
+    mediaDevices.selectedDeviceId,
+    camera,
+  ]);
+
   const screenShare = useScreenShare({
     constraints: screenShareConstraints,
+    audio: shareAudio,
     onStreamReady: useCallback(
       (stream: MediaStream) => {
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
-          registerSource({
-            kind: "video",
-            element: videoRef.current,
-            contentHint: "detail",
-          });
+          registerVideo("screenshare");
         }
         // Always clear transitioning state when screen share stream is ready
         setIsTransitioning(false);
         setSwitchingMode(false);
       },
-      [registerSource, setSwitchingMode]
+      [registerVideo, setSwitchingMode, videoRef]
     ),
     onError,
     onStreamEnded: useCallback(() => {
@@ -109,6 +280,24 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
     }, [camera, setSwitchingMode, onModeChange]),
   });
 
+  const screenAudio = useScreenShareAudio({
+    stream: screenShare.stream,
+    enabled: shareAudio,
+  });
+
+  // Framing props and the segmentation stage can change while a source is live
+  useEffect(() => {
+    const registered = registeredRef.current;
+    if (!registered || registered.mode !== currentMode) return;
+    const key = sourceKey(
+      framingRef.current[currentMode],
+      currentMode === "camera" && replacer !== null
+    );
+    if (key !== registered.key) {
+      registerVideo(currentMode, { type: "cut" });
+    }
+  });
+
   const switchToCamera = useCallback(async () => {
     if (currentMode === "camera" || isTransitioning) return;
 
@@ -175,6 +364,13 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
     onModeChange,
   ]);
 
+  useAutoFraming({
+    videoRef,
+    detector: faceDetector,
+    enabled: currentMode === "camera" && camera.isActive,
+    options: autoFraming,
+  });
+
   const currentStream =
     currentMode === "camera" ? camera.stream : screenShare.stream;
   const isLoading =
@@ -182,12 +378,22 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
   const currentError =
     currentMode === "camera" ? camera.error : screenShare.error;
   const isActive = camera.isActive || screenShare.isActive;
+  // Phones report a side; desktop webcams don't, so they can't be flipped
+  const canFlip =
+    camera.facingMode !== undefined && mediaDevices.devices.length > 1;
 
   return (
     <div className={cn("relative w-full h-full", className)} style={style}>
-      {/* Hidden video element for stream orchestration */}
+      {/* Hidden video elements for stream orchestration */}
       <video
-        ref={videoRef}
+        ref={setPrimaryVideo}
+        autoPlay
+        playsInline
+        muted
+        style={{ display: "none" }}
+      />
+      <video
+        ref={setSecondaryVideo}
         autoPlay
         playsInline
         muted
@@ -198,6 +404,7 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
       <CameraPreview
         stream={currentStream}
         isScreenShare={currentMode === "screenshare"}
+        mirror={currentMode === "camera" && camera.facingMode !== "environment"}
         className="w-full h-full"
       />
 
@@ -219,6 +426,16 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
         </div>
       )}
 
+      {/* Camera settings */}
+      {showCameraControls && currentMode === "camera" && camera.isActive && (
+        <details className="absolute top-2 left-2 z-10 w-72">
+          <summary className="cursor-pointer select-none w-fit px-2 py-1 rounded bg-black/60 text-white text-xs backdrop-blur-sm">
+            Camera settings
+          </summary>
+          <CameraControlsPanel stream={camera.stream} className="mt-1" />
+        </details>
+      )}
+
       {/* Error states */}
       {currentError && !isLoading && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 text-white p-4">
@@ -241,7 +458,45 @@ export const CameraSwitcher: React.FC<CameraSwitcherProps> = ({
 
       {/* Switch button */}
       {showSwitchButton && isActive && !isLoading && !currentError && (
-        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10">
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 flex gap-2">
+          {showDevicePicker && currentMode === "camera" && (
+            <CameraDevicePicker
+              devices={mediaDevices.devices}
+              selectedDeviceId={camera.deviceId ?? mediaDevices.selectedDeviceId}
+              onSelect={selectCamera}
+              disabled={isTransitioning}
+            />
+          )}
+          {showFlipButton && currentMode === "camera" && canFlip && (
+            <button
+              onClick={flipCamera}
+              disabled={isTransitioning}
+              aria-label="Flip camera"
+              className={cn(
+                "px-4 py-2 rounded-lg font-medium transition-colors",
+                "bg-black/60 hover:bg-black/80 text-white",
+                "backdrop-blur-sm border border-gray-500/50",
+                "disabled:opacity-50 disabled:cursor-not-allowed",
+                buttonClassName
+              )}
+            >
+              Flip
+            </button>
+          )}
+          {currentMode === "screenshare" && screenAudio.isRouted && (
+            <button
+              onClick={screenAudio.toggleMute}
+              aria-pressed={screenAudio.muted}
+              className={cn(
+                "px-4 py-2 rounded-lg font-medium transition-colors",
+                "bg-black/60 hover:bg-black/80 text-white",
+                "backdrop-blur-sm border border-gray-500/50",
+                buttonClassName
+              )}
+            >
+              {screenAudio.muted ? "Unmute Audio" : "Mute Audio"}
+            </button>
+          )}
           {currentMode === "camera" ? (
             <button
               onClick={switchToScreenShare}
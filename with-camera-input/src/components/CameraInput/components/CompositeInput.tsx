@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useRef } from "react";
+import { useCamera } from "../hooks/useCamera";
+import { useScreenShare } from "../hooks/useScreenShare";
+import { useStreamManager } from "../hooks/useStreamManager";
+import { CameraPreview } from "./CameraPreview";
+import type {
+  CameraConstraints,
+  ScreenShareConstraints,
+  BackgroundOptions,
+  CompositorLayout,
+  LayerOptions,
+} from "../types";
+import { cn } from "../utils/cn";
+
+const CAMERA_LAYER_ID = "camera";
+const SCREEN_LAYER_ID = "screen";
+
+interface CompositeInputProps {
+  /** Arrangement of the screen share and camera (default: camera inset over the screen) */
+  layout?: CompositorLayout;
+  /** Options for the camera layer, which comes second in the layout */
+  cameraLayer?: LayerOptions;
+  /** Options for the screen share layer, which comes first in the layout */
+  screenLayer?: LayerOptions;
+  cameraConstraints?: CameraConstraints;
+  screenShareConstraints?: ScreenShareConstraints;
+  backgroundOptions?: BackgroundOptions;
+  onStreamReady?: (stream: MediaStream) => void;
+  onError?: (error: string) => void;
+  className?: string;
+  buttonClassName?: string;
+  showControls?: boolean;
+  autoStartCamera?: boolean;
+  style?: React.CSSProperties;
+}
+
+const defaultLayout: CompositorLayout = { kind: "pip" };
+
+/**
+ * CompositeInput - Publishes the camera and a screen share together, arranged
+ * by the orchestrator's compositor
+ */
+export const CompositeInput: React.FC<CompositeInputProps> = ({
+  layout = defaultLayout,
+  cameraLayer,
+  screenLayer,
+  cameraConstraints,
+  screenShareConstraints,
+  backgroundOptions,
+  onStreamReady,
+  onError,
+  className,
+  buttonClassName,
+  showControls = true,
+  autoStartCamera = true,
+  style,
+}) => {
+  const cameraVideoRef = useRef<HTMLVideoElement>(null);
+  const screenVideoRef = useRef<HTMLVideoElement>(null);
+  const layerOptionsRef = useRef({ cameraLayer, screenLayer });
+  layerOptionsRef.current = { cameraLayer, screenLayer };
+
+  const {
+    registerLayer,
+    removeLayer,
+    setLayout,
+    getOrchestrator,
+    orchestratedStream,
+  } = useStreamManager({
+    backgroundOptions,
+    onStreamReady,
+  });
+
+  const camera = useCamera({
+    constraints: cameraConstraints,
+    autoStart: autoStartCamera,
+    onStreamReady: useCallback(
+      (stream: MediaStream) => {
+        if (!cameraVideoRef.current) return;
+        cameraVideoRef.current.srcObject = stream;
+        registerLayer(
+          CAMERA_LAYER_ID,
+          {
+            kind: "video",
+            element: cameraVideoRef.current,
+            contentHint: "motion",
+          },
+          { order: 1, ...layerOptionsRef.current.cameraLayer },
+        );
+      },
+      [registerLayer],
+    ),
+    onError,
+  });
+
+  const screenShare = useScreenShare({
+    constraints: screenShareConstraints,
+    onStreamReady: useCallback(
+      (stream: MediaStream) => {
+        if (!screenVideoRef.current) return;
+        screenVideoRef.current.srcObject = stream;
+        registerLayer(
+          SCREEN_LAYER_ID,
+          {
+            kind: "video",
+            element: screenVideoRef.current,
+            contentHint: "detail",
+          },
+          { order: 0, ...layerOptionsRef.current.screenLayer },
+        );
+      },
+      [registerLayer],
+    ),
+    onError,
+    onStreamEnded: useCallback(() => {
+      removeLayer(SCREEN_LAYER_ID);
+    }, [removeLayer]),
+  });
+
+  useEffect(() => {
+    setLayout(layout);
+  }, [layout, setLayout]);
+
+  useEffect(() => {
+    if (cameraLayer) getOrchestrator().updateLayer(CAMERA_LAYER_ID, cameraLayer);
+  }, [cameraLayer, getOrchestrator]);
+
+  useEffect(() => {
+    if (screenLayer) getOrchestrator().updateLayer(SCREEN_LAYER_ID, screenLayer);
+  }, [screenLayer, getOrchestrator]);
+
+  const toggleCamera = useCallback(async () => {
+    if (camera.isActive) {
+      camera.stopCamera();
+      removeLayer(CAMERA_LAYER_ID);
+    } else {
+      await camera.startCamera();
+    }
+  }, [camera, removeLayer]);
+
+  const toggleScreenShare = useCallback(async () => {
+    if (screenShare.isActive) {
+      screenShare.stopScreenShare();
+      removeLayer(SCREEN_LAYER_ID);
+    } else {
+      await screenShare.startScreenShare();
+    }
+  }, [screenShare, removeLayer]);
+
+  const isActive = camera.isActive || screenShare.isActive;
+  const isLoading = camera.isLoading || screenShare.isLoading;
+  const error = camera.error || screenShare.error;
+
+  const buttonStyles = cn(
+    "px-4 py-2 rounded-lg font-medium transition-colors",
+    "bg-black/60 hover:bg-black/80 text-white",
+    "backdrop-blur-sm border border-gray-500/50",
+    "disabled:opacity-50 disabled:cursor-not-allowed",
+    buttonClassName,
+  );
+
+  return (
+    <div className={cn("relative w-full h-full", className)} style={style}>
+      {/* Hidden video elements feeding the compositor */}
+      <video
+        ref={cameraVideoRef}
+        autoPlay
+        playsInline
+        muted
+        style={{ display: "none" }}
+      />
+      <video
+        ref={screenVideoRef}
+        autoPlay
+        playsInline
+        muted
+        style={{ display: "none" }}
+      />
+
+      {/* The composited output, as it is published */}
+      <CameraPreview
+        stream={isActive ? orchestratedStream : null}
+        isScreenShare
+        className="w-full h-full"
+      />
+
+      {isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50 backdrop-blur-sm">
+          <div className="flex items-center gap-2 text-white">
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            <span className="font-medium">
+              Starting {screenShare.isLoading ? "screen share" : "camera"}...
+            </span>
+          </div>
+        </div>
+      )}
+
+      {error && !isLoading && (
+        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 z-20">
+          <div className="bg-red-600/90 text-white text-sm px-3 py-2 rounded-lg">
+            {error}
+          </div>
+        </div>
+      )}
+
+      {showControls && !isLoading && (
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10">
+          <div className="flex gap-2">
+            <button onClick={toggleCamera} className={buttonStyles}>
+              {camera.isActive ? "Stop Camera" : "Start Camera"}
+            </button>
+            <button onClick={toggleScreenShare} className={buttonStyles}>
+              {screenShare.isActive ? "Stop Sharing" : "Share Screen"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { useMediaFile } from "../hooks/useMediaFile";
+import { useStreamManager } from "../hooks/useStreamManager";
+import { useStreamOrchestrator } from "../hooks/useStreamOrchestrator";
+import type {
+  BackgroundOptions,
+  MediaFileOptions,
+  SourceFraming,
+  TransitionSpec,
+} from "../types";
+import { cn } from "../utils/cn";
+import type { MediaFileSource } from "../utils/mediaFileSource";
+import { MAIN_LAYER_ID } from "../utils/streamOrchestrator";
+
+interface MediaFileInputProps extends MediaFileOptions {
+  backgroundOptions?: BackgroundOptions;
+  /** How the output changes over between files (default: 200 ms crossfade) */
+  transition?: TransitionSpec;
+  /** Fit, crop and pan/zoom of the media in the output (default: letterboxed) */
+  framing?: SourceFraming;
+  onStreamReady?: (stream: MediaStream) => void;
+  onError?: (error: string) => void;
+  /** Called with the name of each opened file, and null once closed */
+  onFileChange?: (name: string | null) => void;
+  showControls?: boolean;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, "0")}`;
+};
+
+/**
+ * MediaFileInput - Publishes a dropped or picked video, image or image
+ * sequence, crossfading between files. Videos and sequences loop, with
+ * play, pause and seek controls.
+ */
+export const MediaFileInput: React.FC<MediaFileInputProps> = ({
+  loop = true,
+  fps = 12,
+  backgroundOptions,
+  transition,
+  framing,
+  onStreamReady,
+  onError,
+  onFileChange,
+  showControls = true,
+  className,
+  style,
+}) => {
+  const previewRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const orchestrator = useStreamOrchestrator();
+
+  const { registerSource, removeLayer } = useStreamManager({
+    backgroundOptions,
+    onStreamReady,
+  });
+
+  const media = useMediaFile({
+    loop,
+    fps,
+    onError,
+    onSourceReady: useCallback(
+      (source: MediaFileSource) => {
+        registerSource(source.getSource(), transition);
+        onFileChange?.(source.name);
+      },
+      [registerSource, transition, onFileChange]
+    ),
+  });
+
+  // Set on the layer, so a framing change applies to the live file too
+  useEffect(() => {
+    if (!media.source) return;
+    orchestrator.updateLayer(MAIN_LAYER_ID, {
+      fit: framing?.fit,
+      crop: framing?.crop,
+      focus: framing?.focus,
+    });
+  }, [orchestrator, framing, media.source]);
+
+  // The media element itself is the preview
+  useEffect(() => {
+    const preview = previewRef.current;
+    const element = media.source?.getElement();
+    if (!preview || !element) return;
+
+    element.className = "w-full h-full object-contain";
+    preview.replaceChildren(element);
+    return () => {
+      if (element.parentNode === preview) preview.removeChild(element);
+    };
+  }, [media.source]);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) media.openFiles(e.dataTransfer.files);
+  };
+
+  const handleClose = () => {
+    removeLayer(MAIN_LAYER_ID);
+    media.close();
+    onFileChange?.(null);
+  };
+
+  const canPlay = media.source !== null && media.source.kind !== "image";
+  const buttonStyles = cn(
+    "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors",
+    "bg-black/60 hover:bg-black/80 text-white",
+    "backdrop-blur-sm border border-gray-500/50",
+    "disabled:opacity-50 disabled:cursor-not-allowed"
+  );
+
+  return (
+    <div
+      className={cn("relative w-full h-full bg-gray-900", className)}
+      style={style}
+      onDragOver={(e) => {
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div ref={previewRef} className="w-full h-full" />
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="video/*,image/*"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          if (e.target.files?.length) media.openFiles(e.target.files);
+          e.target.value = "";
+        }}
+      />
+
+      {/* Empty state */}
+      {!media.source && !media.isLoading && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-white p-4 text-center">
+          <div className="text-sm text-gray-300">
+            Drop a video, an image, or several images to play as a sequence
+          </div>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+          >
+            Choose Files
+          </button>
+          {media.error && (
+            <div className="text-sm text-red-400">{media.error}</div>
+          )}
+        </div>
+      )}
+
+      {/* Loading state */}
+      {media.isLoading && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <div className="flex items-center gap-2 text-white">
+            <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+            <span>Opening file...</span>
+          </div>
+        </div>
+      )}
+
+      {/* Drop target */}
+      {isDragging && (
+        <div className="absolute inset-2 rounded-xl border-2 border-dashed border-blue-400 bg-blue-500/10 pointer-events-none" />
+      )}
+
+      {/* Controls */}
+      {showControls && media.source && (
+        <div className="absolute bottom-4 left-4 right-4 z-10 flex items-center gap-2">
+          {canPlay && (
+            <button onClick={media.togglePlay} className={buttonStyles}>
+              {media.isPlaying ? "Pause" : "Play"}
+            </button>
+          )}
+          {canPlay && media.duration > 0 && (
+            <>
+              <input
+                type="range"
+                aria-label="Seek"
+                min={0}
+                max={media.duration}
+                step={0.01}
+                value={media.currentTime}
+                onChange={(e) => media.seek(Number(e.target.value))}
+                className="flex-1"
+              />
+              <span className="text-xs text-white tabular-nums">
+                {formatTime(media.currentTime)} / {formatTime(media.duration)}
+              </span>
+            </>
+          )}
+          {!canPlay && (
+            <span className="flex-1 truncate text-xs text-white">
+              {media.source.name}
+            </span>
+          )}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={buttonStyles}
+          >
+            Replace
+          </button>
+          <button onClick={handleClose} className={buttonStyles}>
+            Close
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,9 +2,18 @@ import React, { useCallback, useEffect, useRef, useState } from "react";
 import { useCamera } from '../hooks/useCamera';
 import { useScreenShare } from '../hooks/useScreenShare';
 import { useStreamManager } from '../hooks/useStreamManager';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import { useVideoSlots } from '../hooks/useVideoSlots';
 import { CameraPreview } from './CameraPreview';
 import type { CameraConstraints, ScreenShareConstraints, BackgroundOptions } from '../types';
 import { cn } from '../utils/cn';
+import {
+  loadPreferredFacingMode,
+  savePreferredFacingMode,
+} from '../utils/mediaDevices';
+
+// Long enough for the crossfade to fade the old camera out
+const CAMERA_RELEASE_DELAY_MS = 1000;
 
 interface MultiInputPreviewProps {
   cameraConstraints?: CameraConstraints;
@@ -14,6 +23,8 @@ interface MultiInputPreviewProps {
   onError?: (error: string) => void;
   className?: string;
   showControls?: boolean;
+  /** Show a front/back flip button on devices that report which way cameras face */
+  showFlipButton?: boolean;
   autoStartCamera?: boolean;
   style?: React.CSSProperties;
 }
@@ -26,15 +37,22 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
   onError,
   className,
   showControls = true,
+  showFlipButton = true,
   autoStartCamera = true,
   style,
 }) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
+  // A flip plays the new camera in the other slot, so the old one can be
+  // crossfaded out
+  const { videoRef, setPrimaryVideo, setSecondaryVideo, swap } = useVideoSlots();
+  const flippingRef = useRef(false);
   const [currentMode, setCurrentMode] = useState<"camera" | "screenshare" | "none">("none");
+  const [preferredFacingMode] = useState(loadPreferredFacingMode);
+  const { devices: cameras, refresh: refreshCameras } = useMediaDevices({
+    remember: false,
+  });
 
   const { 
     registerSource, 
-    orchestratedStream,
     isLoading: switchingMode,
     setIsLoading: setSwitchingMode
   } = useStreamManager({
@@ -43,9 +61,18 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
   });
 
   const camera = useCamera({
-    constraints: cameraConstraints,
+    constraints: {
+      ...cameraConstraints,
+      facingMode: cameraConstraints?.facingMode ?? preferredFacingMode ?? undefined,
+    },
     autoStart: autoStartCamera,
     onStreamReady: useCallback((stream: MediaStream) => {
+      if (flippingRef.current) {
+        flippingRef.current = false;
+        swap();
+      }
+      // Device labels and count are only readable once the camera is allowed
+      refreshCameras();
       if (videoRef.current && currentMode === "camera") {
         videoRef.current.srcObject = stream;
         registerSource({
@@ -55,10 +82,23 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
         });
         setSwitchingMode(false);
       }
-    }, [registerSource, currentMode, setSwitchingMode]),
+    }, [registerSource, currentMode, setSwitchingMode, swap, refreshCameras, videoRef]),
     onError,
   });
 
+  const flipCamera = useCallback(async () => {
+    if (currentMode !== "camera" || !camera.isActive) return;
+    const next = camera.facingMode === "environment" ? "user" : "environment";
+
+    flippingRef.current = true;
+    const stream = await camera
+      .switchFacingMode(next, { releaseDelayMs: CAMERA_RELEASE_DELAY_MS })
+      .finally(() => {
+        flippingRef.current = false;
+      });
+    if (stream) savePreferredFacingMode(next);
+  }, [currentMode, camera]);
+
   const screenShare = useScreenShare({
     constraints: screenShareConstraints,
     onStreamReady: useCallback((stream: MediaStream) => {
@@ -71,7 +111,7 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
         });
         setSwitchingMode(false);
       }
-    }, [registerSource, currentMode, setSwitchingMode]),
+    }, [registerSource, currentMode, setSwitchingMode, videoRef]),
     onError,
     onStreamEnded: useCallback(() => {
       // When screen share ends, switch back to camera
@@ -118,12 +158,21 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
   const isLoading = camera.isLoading || screenShare.isLoading || switchingMode;
   const hasError = camera.error || screenShare.error;
   const isActive = camera.isActive || screenShare.isActive;
+  // Phones report a side; desktop webcams don't, so they can't be flipped
+  const canFlip = camera.facingMode !== undefined && cameras.length > 1;
 
   return (
     <div className={cn("relative w-full h-full", className)} style={style}>
-      {/* Hidden video element for stream orchestration */}
+      {/* Hidden video elements for stream orchestration */}
+      <video
+        ref={setPrimaryVideo}
+        autoPlay
+        playsInline
+        muted
+        style={{ display: 'none' }}
+      />
       <video
-        ref={videoRef}
+        ref={setSecondaryVideo}
         autoPlay
         playsInline
         muted
@@ -134,6 +183,7 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
       <CameraPreview
         stream={currentStream}
         isScreenShare={currentMode === "screenshare"}
+        mirror={currentMode === "camera" && camera.facingMode !== "environment"}
         className="w-full h-full"
       />
 
@@ -231,6 +281,20 @@ export const MultiInputPreview: React.FC<MultiInputPreviewProps> = ({
             >
               Camera
             </button>
+            {showFlipButton && currentMode === "camera" && canFlip && (
+              <button
+                onClick={flipCamera}
+                disabled={isLoading}
+                aria-label="Flip camera"
+                className={cn(
+                  "px-4 py-2 rounded-lg font-medium transition-colors",
+                  "bg-gray-600 hover:bg-blue-600 text-white",
+                  "disabled:opacity-50 disabled:cursor-not-allowed",
+                )}
+              >
+                Flip
+              </button>
+            )}
             <button
               onClick={switchToScreenShare}
               disabled={isLoading || currentMode === "screenshare"}
@@ -0,0 +1,175 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import type { CropRect, LayoutRect, ScreenRegionOptions } from "../types";
+import { cn } from "../utils/cn";
+import {
+  isInRegion,
+  moveRegion,
+  selectionToRegion,
+  toFramePoint,
+  videoContentRect,
+} from "../utils/screenRegion";
+
+interface ScreenRegionSelectorProps {
+  /** The preview video beneath, shown with `object-fit: contain` */
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** e.g. `useScreenRegion().region` */
+  region: CropRect | null;
+  onChange: (region: CropRect | null) => void;
+  options?: ScreenRegionOptions;
+  className?: string;
+}
+
+type Drag =
+  | { kind: "draw"; start: { x: number; y: number } }
+  | { kind: "move"; last: { x: number; y: number } };
+
+/**
+ * ScreenRegionSelector - Overlay for drawing the region of a screen share
+ * preview to publish. In "follow" mode the region can be dragged around
+ * afterwards; in "fixed" mode it stays put until cleared.
+ */
+export const ScreenRegionSelector: React.FC<ScreenRegionSelectorProps> = ({
+  videoRef,
+  region,
+  onChange,
+  options = {},
+  className,
+}) => {
+  const { mode = "fixed", aspectRatio, minSize } = options;
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [content, setContent] = useState<LayoutRect | null>(null);
+  const [draft, setDraft] = useState<CropRect | null>(null);
+
+  const measure = useCallback((): LayoutRect | null => {
+    const overlay = overlayRef.current;
+    const video = videoRef.current;
+    if (!overlay || !video || !video.videoWidth) return null;
+    const next = videoContentRect(
+      overlay.clientWidth,
+      overlay.clientHeight,
+      video.videoWidth,
+      video.videoHeight,
+    );
+    setContent(next);
+    return next;
+  }, [videoRef]);
+
+  // The frame moves within the overlay when either is resized
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    const video = videoRef.current;
+    if (!overlay || !video) return;
+
+    measure();
+    const observer = new ResizeObserver(() => measure());
+    observer.observe(overlay);
+    video.addEventListener("resize", measure);
+    video.addEventListener("loadedmetadata", measure);
+    return () => {
+      observer.disconnect();
+      video.removeEventListener("resize", measure);
+      video.removeEventListener("loadedmetadata", measure);
+    };
+  }, [measure, videoRef]);
+
+  const framePoint = (e: React.PointerEvent, rect: LayoutRect) => {
+    const bounds = overlayRef.current!.getBoundingClientRect();
+    return toFramePoint(
+      { x: e.clientX - bounds.left, y: e.clientY - bounds.top },
+      rect,
+    );
+  };
+
+  const limits = (rect: LayoutRect) => ({
+    frameAspect: rect.width / rect.height,
+    aspectRatio,
+    minSize,
+  });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = measure();
+    if (!rect || e.button !== 0) return;
+    if (region && mode === "fixed") return;
+
+    const point = framePoint(e, rect);
+    dragRef.current =
+      region && isInRegion(point, region)
+        ? { kind: "move", last: point }
+        : { kind: "draw", start: point };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !content) return;
+
+    const point = framePoint(e, content);
+    if (drag.kind === "draw") {
+      setDraft(selectionToRegion(drag.start, point, limits(content)));
+    } else if (region) {
+      // Moves go out straight away so the output can follow them
+      onChange(moveRegion(region, point.x - drag.last.x, point.y - drag.last.y));
+      dragRef.current = { kind: "move", last: point };
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDraft(null);
+    if (drag?.kind !== "draw" || !content) return;
+
+    const next = selectionToRegion(drag.start, framePoint(e, content), limits(content));
+    if (next) onChange(next);
+  };
+
+  const shown = draft ?? region;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={cn(
+        "absolute inset-0 overflow-hidden touch-none select-none",
+        region && mode === "fixed" ? "cursor-default" : "cursor-crosshair",
+        className
+      )}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {shown && content && (
+        <div
+          className={cn(
+            "absolute border-2 border-blue-400 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]",
+            !draft && mode === "follow" && "cursor-move"
+          )}
+          style={{
+            left: content.x + shown.x * content.width,
+            top: content.y + shown.y * content.height,
+            width: shown.width * content.width,
+            height: shown.height * content.height,
+          }}
+        />
+      )}
+
+      {region && (
+        <button
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onChange(null)}
+          className="absolute top-2 right-2 px-2 py-1 rounded bg-black/60 hover:bg-black/80 text-white text-xs"
+        >
+          Whole screen
+        </button>
+      )}
+
+      {!region && !draft && (
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 px-2 py-1 rounded bg-black/60 text-white text-xs pointer-events-none">
+          Drag to pick the region to share
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,18 @@
-import React, { useCallback, useEffect, useRef } from "react";
+import React, { useCallback, useRef } from "react";
+import type { RefObject } from "react";
 import { useScreenShare } from '../hooks/useScreenShare';
+import { useScreenRegion } from '../hooks/useScreenRegion';
+import { useScreenShareAudio } from '../hooks/useScreenShareAudio';
 import { useStreamManager } from '../hooks/useStreamManager';
-import type { ScreenShareConstraints, BackgroundOptions } from '../types';
+import type {
+  ScreenShareConstraints,
+  BackgroundOptions,
+  CaptureTargetMode,
+  CropRect,
+  ScreenRegionOptions,
+} from '../types';
 import { cn } from '../utils/cn';
+import { ScreenRegionSelector } from './ScreenRegionSelector';
 
 interface ScreenShareInputProps {
   constraints?: ScreenShareConstraints;
@@ -13,6 +23,16 @@ interface ScreenShareInputProps {
   className?: string;
   showControls?: boolean;
   style?: React.CSSProperties;
+  /** Capture the tab's or system's audio and publish it in place of the silent track (default: false) */
+  shareAudio?: boolean;
+  /** Show the shared screen and let a region of it be drawn to publish (default: false) */
+  selectRegion?: boolean;
+  regionOptions?: ScreenRegionOptions;
+  onRegionChange?: (region: CropRect | null) => void;
+  /** Element of this page to narrow a capture of this tab to, where the browser can */
+  captureTarget?: RefObject<Element | null>;
+  /** Default: "region" */
+  captureTargetMode?: CaptureTargetMode;
 }
 
 export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
@@ -24,10 +44,16 @@ export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
   className,
   showControls = true,
   style,
+  shareAudio = false,
+  selectRegion = false,
+  regionOptions,
+  onRegionChange,
+  captureTarget,
+  captureTargetMode,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   
-  const { registerSource, orchestratedStream } = useStreamManager({
+  const { registerSource } = useStreamManager({
     backgroundOptions,
     onStreamReady,
   });
@@ -47,6 +73,21 @@ export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
     }, [registerSource]),
     onError,
     onStreamEnded,
+    preferCurrentTab: captureTarget !== undefined,
+    audio: shareAudio,
+  });
+
+  const screenAudio = useScreenShareAudio({
+    stream: screenShare.stream,
+    enabled: shareAudio,
+  });
+
+  const screenRegion = useScreenRegion({
+    stream: screenShare.stream,
+    options: regionOptions,
+    captureTarget,
+    captureTargetMode,
+    onRegionChange,
   });
 
   const handleStartScreenShare = useCallback(async () => {
@@ -59,15 +100,25 @@ export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
 
   return (
     <div className={cn("relative w-full h-full", className)} style={style}>
-      {/* Hidden video element for stream orchestration */}
+      {/* Video element for stream orchestration, shown when picking a region */}
       <video
         ref={videoRef}
         autoPlay
         playsInline
         muted
-        style={{ display: 'none' }}
+        className="w-full h-full object-contain bg-black"
+        style={selectRegion && screenShare.isActive ? undefined : { display: 'none' }}
       />
 
+      {selectRegion && screenShare.isActive && (
+        <ScreenRegionSelector
+          videoRef={videoRef}
+          region={screenRegion.region}
+          onChange={screenRegion.setRegion}
+          options={regionOptions}
+        />
+      )}
+
       {/* Permission state handling */}
       {screenShare.permissionState === "denied" && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900 text-white p-4">
@@ -112,7 +163,7 @@ export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
 
       {/* Controls */}
       {showControls && screenShare.permissionState !== "denied" && (
-        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10">
+        <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-10 flex gap-2">
           {!screenShare.isActive ? (
             <button
               onClick={handleStartScreenShare}
@@ -126,15 +177,29 @@ export const ScreenShareInput: React.FC<ScreenShareInputProps> = ({
               {screenShare.isLoading ? "Starting..." : "Share Screen"}
             </button>
           ) : (
-            <button
-              onClick={handleStopScreenShare}
-              className={cn(
-                "px-4 py-2 rounded-lg font-medium transition-colors",
-                "bg-red-600 hover:bg-red-700 text-white",
+            <>
+              {screenAudio.isRouted && (
+                <button
+                  onClick={screenAudio.toggleMute}
+                  aria-pressed={screenAudio.muted}
+                  className={cn(
+                    "px-4 py-2 rounded-lg font-medium transition-colors",
+                    "bg-gray-700 hover:bg-gray-800 text-white",
+                  )}
+                >
+                  {screenAudio.muted ? "Unmute Audio" : "Mute Audio"}
+                </button>
               )}
-            >
-              Stop Sharing
-            </button>
+              <button
+                onClick={handleStopScreenShare}
+                className={cn(
+                  "px-4 py-2 rounded-lg font-medium transition-colors",
+                  "bg-red-600 hover:bg-red-700 text-white",
+                )}
+              >
+                Stop Sharing
+              </button>
+            </>
           )}
         </div>
       )}
@@ -0,0 +1,34 @@
+import React, { useEffect, useState } from "react";
+import type { StreamOrchestratorOptions } from "../types";
+import { StreamOrchestratorContext } from "../utils/orchestratorContext";
+import { StreamOrchestrator } from "../utils/streamOrchestrator";
+
+interface StreamOrchestratorProviderProps {
+  /** Read once, when the provider mounts */
+  options?: StreamOrchestratorOptions;
+  children?: React.ReactNode;
+}
+
+/**
+ * StreamOrchestratorProvider - Gives the inputs, hooks and overlays inside
+ * it their own orchestrator, with its own output canvas and stream, so
+ * several can run on one page. The orchestrator is torn down on unmount.
+ */
+export const StreamOrchestratorProvider: React.FC<
+  StreamOrchestratorProviderProps
+> = ({ options, children }) => {
+  const [orchestrator] = useState(() => new StreamOrchestrator(options));
+
+  // Destroying only resets it: a remount, e.g. under StrictMode, starts it afresh
+  useEffect(() => {
+    return () => {
+      orchestrator.destroy();
+    };
+  }, [orchestrator]);
+
+  return (
+    <StreamOrchestratorContext.Provider value={orchestrator}>
+      {children}
+    </StreamOrchestratorContext.Provider>
+  );
+};
@@ -0,0 +1,29 @@
+import React, { useEffect, useId } from "react";
+import { useStreamOrchestrator } from "../hooks/useStreamOrchestrator";
+import type { Overlay } from "../types";
+import type { OverlayInit } from "../utils/overlays";
+
+type StreamOverlayProps = OverlayInit;
+
+/**
+ * StreamOverlay - Draws an overlay on the published stream for as long as
+ * it is mounted, following its props. Renders nothing on the page.
+ */
+export const StreamOverlay: React.FC<StreamOverlayProps> = (props) => {
+  const orchestrator = useStreamOrchestrator();
+  const generatedId = useId();
+  const id = props.id ?? `stream-overlay-${generatedId}`;
+
+  // Every render, so new props show on the next frame; the schedule keeps running
+  useEffect(() => {
+    orchestrator.setOverlay({ ...props, id } as Overlay);
+  });
+
+  useEffect(() => {
+    return () => {
+      orchestrator.removeOverlay(id);
+    };
+  }, [orchestrator, id]);
+
+  return null;
+};
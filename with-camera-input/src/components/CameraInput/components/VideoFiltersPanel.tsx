@@ -0,0 +1,225 @@
+import React, { useRef, useState } from "react";
+import { useVideoFilters } from "../hooks/useVideoFilters";
+import type { VideoFilter, VideoFilterType } from "../types";
+import { cn } from "../utils/cn";
+import {
+  parseCubeLut,
+  resolveFilter,
+  type VideoFilterInit,
+} from "../utils/videoFilters";
+
+interface VideoFiltersPanelProps {
+  /** Starting chain */
+  initialFilters?: VideoFilterInit[];
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+interface Param {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+const FILTERS: Record<VideoFilterType, { label: string; params: Param[] }> = {
+  color: {
+    label: "Color",
+    params: [
+      { key: "brightness", label: "Brightness", min: -1, max: 1, step: 0.01 },
+      { key: "contrast", label: "Contrast", min: 0, max: 3, step: 0.01 },
+      { key: "saturation", label: "Saturation", min: 0, max: 3, step: 0.01 },
+    ],
+  },
+  lut: {
+    label: "LUT",
+    params: [{ key: "intensity", label: "Intensity", min: 0, max: 1, step: 0.01 }],
+  },
+  edges: {
+    label: "Edges",
+    params: [
+      { key: "lowThreshold", label: "Low", min: 0, max: 1, step: 0.01 },
+      { key: "highThreshold", label: "High", min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  posterize: {
+    label: "Posterize",
+    params: [{ key: "levels", label: "Levels", min: 2, max: 16, step: 1 }],
+  },
+  "depth-blur": {
+    label: "Depth blur",
+    params: [
+      { key: "radius", label: "Radius", min: 0, max: 40, step: 1 },
+      { key: "focus", label: "Focus", min: 0, max: 1, step: 0.01 },
+      { key: "range", label: "Range", min: 0, max: 1, step: 0.01 },
+    ],
+  },
+  invert: {
+    label: "Invert",
+    params: [{ key: "amount", label: "Amount", min: 0, max: 1, step: 0.01 }],
+  },
+};
+
+/**
+ * VideoFiltersPanel - Builds the filter chain applied to the published
+ * frames: add, reorder, toggle and tune filters, and load `.cube` LUTs
+ */
+export const VideoFiltersPanel: React.FC<VideoFiltersPanelProps> = ({
+  initialFilters,
+  className,
+  style,
+}) => {
+  const {
+    filters,
+    addFilter,
+    updateFilter,
+    removeFilter,
+    moveFilter,
+    toggleFilter,
+    clear,
+  } = useVideoFilters({ initialFilters });
+  const lutInputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (type: VideoFilterType) => {
+    if (type === "lut") {
+      lutInputRef.current?.click();
+      return;
+    }
+    addFilter({ type } as VideoFilterInit);
+  };
+
+  const handleLutFile = async (file: File) => {
+    try {
+      const lut = parseCubeLut(await file.text());
+      addFilter({ type: "lut", lut: { ...lut, title: lut.title ?? file.name } });
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to load the LUT");
+    }
+  };
+
+  const inputStyles =
+    "bg-black/40 border border-gray-500/50 rounded px-1 py-0.5 text-white";
+  const buttonStyles =
+    "px-2 py-0.5 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed";
+
+  const paramValue = (filter: VideoFilter, key: string) =>
+    (resolveFilter(filter) as unknown as Record<string, number>)[key];
+
+  return (
+    <div
+      className={cn(
+        "bg-black/70 text-white text-xs px-3 py-2 rounded-lg backdrop-blur-sm space-y-2",
+        className
+      )}
+      style={style}
+    >
+      {filters.length === 0 && (
+        <div className="text-gray-400">No filters; frames publish as they are</div>
+      )}
+
+      {filters.map((filter, index) => (
+        <div
+          key={filter.id}
+          className={cn(
+            "space-y-1 pb-2 border-b border-white/10",
+            filter.enabled === false && "opacity-50"
+          )}
+        >
+          <div className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              aria-label="Enabled"
+              checked={filter.enabled !== false}
+              onChange={() => toggleFilter(filter.id)}
+            />
+            <span className="flex-1 truncate">
+              {FILTERS[filter.type].label}
+              {filter.type === "lut" && filter.lut.title && (
+                <span className="text-gray-400"> · {filter.lut.title}</span>
+              )}
+            </span>
+            <button
+              onClick={() => moveFilter(filter.id, index - 1)}
+              disabled={index === 0}
+              aria-label="Move up"
+              className={buttonStyles}
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => moveFilter(filter.id, index + 1)}
+              disabled={index === filters.length - 1}
+              aria-label="Move down"
+              className={buttonStyles}
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => removeFilter(filter.id)}
+              aria-label="Remove"
+              className={buttonStyles}
+            >
+              ✕
+            </button>
+          </div>
+
+          {FILTERS[filter.type].params.map((param) => (
+            <label key={param.key} className="flex items-center gap-2">
+              <span className="w-20 shrink-0 text-gray-300">{param.label}</span>
+              <input
+                type="range"
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                value={paramValue(filter, param.key)}
+                onChange={(e) =>
+                  updateFilter(filter.id, { [param.key]: Number(e.target.value) })
+                }
+                className="flex-1"
+              />
+            </label>
+          ))}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-1">
+        <select
+          value=""
+          onChange={(e) => handleAdd(e.target.value as VideoFilterType)}
+          className={cn(inputStyles, "flex-1")}
+        >
+          <option value="">Add filter…</option>
+          {(Object.keys(FILTERS) as VideoFilterType[]).map((type) => (
+            <option key={type} value={type}>
+              {type === "lut" ? "LUT (.cube)…" : FILTERS[type].label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={clear}
+          disabled={filters.length === 0}
+          className={buttonStyles}
+        >
+          Clear
+        </button>
+      </div>
+
+      <input
+        ref={lutInputRef}
+        type="file"
+        accept=".cube"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleLutFile(file);
+          e.target.value = "";
+        }}
+      />
+
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
@@ -1,5 +1,20 @@
 export { CameraInput } from './CameraInput';
 export { ScreenShareInput } from './ScreenShareInput';
+export { ScreenRegionSelector } from './ScreenRegionSelector';
+export { MediaFileInput } from './MediaFileInput';
 export { CameraPreview } from './CameraPreview';
 export { MultiInputPreview } from './MultiInputPreview';
 export { CameraSwitcher } from './CameraSwitcher';
+export { CameraDevicePicker } from './CameraDevicePicker';
+export { CameraControlsPanel } from './CameraControlsPanel';
+export { VideoFiltersPanel } from './VideoFiltersPanel';
+export { StreamOverlay } from './StreamOverlay';
+export { StreamOrchestratorProvider } from './StreamOrchestratorProvider';
+export { CompositeInput } from './CompositeInput';
+
+// Shared with the other examples through the streaming core package
+export {
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+} from '@daydream-examples/streaming-core';
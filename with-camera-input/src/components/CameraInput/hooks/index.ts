@@ -1,4 +1,24 @@
 export { useCamera } from './useCamera';
 export { useScreenShare } from './useScreenShare';
+export { useScreenRegion } from './useScreenRegion';
+export { useScreenShareAudio } from './useScreenShareAudio';
 export { useStreamManager } from './useStreamManager';
+export { useStreamOrchestrator } from './useStreamOrchestrator';
 export { useInputFPS } from './useInputFPS';
+export { useAutoFraming } from './useAutoFraming';
+export { useVirtualBackground } from './useVirtualBackground';
+export { useMediaDevices } from './useMediaDevices';
+export { useMediaFile } from './useMediaFile';
+export { useCameraCapabilities } from './useCameraCapabilities';
+export { useVideoFilters } from './useVideoFilters';
+export { useOutputProfile } from './useOutputProfile';
+
+// Shared with the other examples through the streaming core package
+export {
+  useWhipPublisher,
+  useWhepPlayer,
+  useDaydreamStream,
+  useParamUpdater,
+  usePublisherStats,
+  useAdaptiveBitrate,
+} from '@daydream-examples/streaming-core';
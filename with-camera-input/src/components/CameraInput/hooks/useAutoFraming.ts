@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import type {
+  AutoFramingOptions,
+  FaceDetector,
+  SourceFocus,
+} from '../types';
+import { AutoFramer } from '../utils/autoFraming';
+import { MAIN_LAYER_ID } from '../utils/streamOrchestrator';
+import { useStreamOrchestrator } from './useStreamOrchestrator';
+
+export interface UseAutoFramingOptions {
+  /** Video element the camera plays in, e.g. the one given to the orchestrator */
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** e.g. `createBrowserFaceDetector()`; without one nothing is framed */
+  detector: FaceDetector | null;
+  enabled?: boolean;
+  /** Orchestrator layer showing the camera (default: MAIN_LAYER_ID) */
+  layerId?: string;
+  /** Time between detections (default: 100) */
+  intervalMs?: number;
+  options?: AutoFramingOptions;
+  onFocusChange?: (focus: SourceFocus) => void;
+}
+
+/**
+ * Keeps the subject's face framed by panning and zooming a camera layer.
+ * Faces are detected on the layer's video element every `intervalMs`, and
+ * the smoothed result is set as the layer's "cover" focus. Disabling it
+ * hands the framing back to the source.
+ */
+export const useAutoFraming = ({
+  videoRef,
+  detector,
+  enabled = true,
+  layerId = MAIN_LAYER_ID,
+  intervalMs = 100,
+  options,
+  onFocusChange,
+}: UseAutoFramingOptions) => {
+  const orchestrator = useStreamOrchestrator();
+  const [isTracking, setIsTracking] = useState(false);
+  const framerRef = useRef(new AutoFramer(options));
+  const optionsRef = useRef({ options, onFocusChange });
+  optionsRef.current = { options, onFocusChange };
+
+  useEffect(() => {
+    if (!enabled || !detector) return;
+
+    const framer = framerRef.current;
+    framer.reset();
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let lastFocus = "";
+    let warned = false;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= 2 && video.videoHeight > 0) {
+        try {
+          const faces = await detector.detect(video);
+          if (cancelled) return;
+
+          framer.setOptions(optionsRef.current.options);
+          const output = orchestrator.getOutputProfile();
+          const focus = framer.update(
+            faces,
+            video.videoWidth / video.videoHeight,
+            output.width / output.height,
+          );
+          setIsTracking(faces.length > 0);
+          // Reapplied every tick in case the layer was replaced meanwhile
+          orchestrator.updateLayer(layerId, { fit: "cover", focus });
+
+          const key = `${focus.x},${focus.y},${focus.zoom}`;
+          if (key !== lastFocus) {
+            lastFocus = key;
+            optionsRef.current.onFocusChange?.(focus);
+          }
+        } catch (error) {
+          if (!warned) {
+            warned = true;
+            console.warn("Face detection failed:", error);
+          }
+        }
+      }
+      if (!cancelled) timer = setTimeout(tick, intervalMs);
+    };
+    tick();
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      orchestrator.updateLayer(layerId, {
+        fit: undefined,
+        focus: undefined,
+      });
+      setIsTracking(false);
+    };
+  }, [orchestrator, enabled, detector, layerId, intervalMs, videoRef]);
+
+  return {
+    isTracking,
+    getFocus: () => framerRef.current.getFocus(),
+  };
+};
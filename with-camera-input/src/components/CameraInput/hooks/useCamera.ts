@@ -1,12 +1,19 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { CameraConstraints, MediaInputState, PermissionState } from '../types';
-import { STREAMING_CONFIG } from '../utils/streamingConfig';
+import { STREAMING_CONFIG } from "@daydream-examples/streaming-core";
 
 interface UseCameraOptions {
   constraints?: CameraConstraints;
   autoStart?: boolean;
   onStreamReady?: (stream: MediaStream) => void;
   onError?: (error: string) => void;
+  /** The camera went away while live, e.g. unplugged; the stream has ended */
+  onDeviceLost?: (deviceId: string | undefined) => void;
+}
+
+interface SwitchCameraOptions {
+  /** How long the previous camera keeps running, e.g. to fade out (default: 0) */
+  releaseDelayMs?: number;
 }
 
 export const useCamera = ({
@@ -14,6 +21,7 @@ export const useCamera = ({
   autoStart = false,
   onStreamReady,
   onError,
+  onDeviceLost,
 }: UseCameraOptions = {}) => {
   const [state, setState] = useState<MediaInputState>({
     isActive: false,
@@ -24,6 +32,8 @@ export const useCamera = ({
 
   const [permissionState, setPermissionState] = useState<PermissionState["camera"]>("prompt");
   const streamRef = useRef<MediaStream | null>(null);
+  const onDeviceLostRef = useRef(onDeviceLost);
+  onDeviceLostRef.current = onDeviceLost;
 
   const mergedConstraints = {
     ...STREAMING_CONFIG.DEFAULT_CAMERA_CONSTRAINTS,
@@ -43,6 +53,65 @@ export const useCamera = ({
     }));
   }, []);
 
+  const activateStream = useCallback((stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0];
+    const settings = track?.getSettings();
+    const deviceId = settings?.deviceId;
+    // Desktop webcams usually don't report a side
+    const facingMode =
+      settings?.facingMode === "user" || settings?.facingMode === "environment"
+        ? settings.facingMode
+        : undefined;
+
+    streamRef.current = stream;
+    setPermissionState("granted");
+
+    setState({
+      isActive: true,
+      isLoading: false,
+      stream,
+      error: null,
+      deviceId,
+      facingMode,
+    });
+
+    // Tracks stopped here don't fire "ended"; this is the device going away
+    track?.addEventListener("ended", () => {
+      if (streamRef.current !== stream) return;
+      streamRef.current = null;
+      setState((prev: MediaInputState) => ({
+        ...prev,
+        isActive: false,
+        stream: null,
+        error: "Camera disconnected",
+      }));
+      onDeviceLostRef.current?.(deviceId);
+    });
+
+    if (onStreamReady) {
+      onStreamReady(stream);
+    }
+  }, [onStreamReady]);
+
+  const handleStartError = useCallback((error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : "Failed to access camera";
+
+    if (error instanceof Error && error.name === "NotAllowedError") {
+      setPermissionState("denied");
+    }
+
+    setState((prev: MediaInputState) => ({
+      ...prev,
+      isActive: false,
+      isLoading: false,
+      error: errorMessage,
+    }));
+
+    if (onError) {
+      onError(errorMessage);
+    }
+  }, [onError]);
+
   const startCamera = useCallback(async () => {
     setState((prev: MediaInputState) => ({ ...prev, isLoading: true, error: null }));
 
@@ -54,39 +123,82 @@ export const useCamera = ({
         video: mergedConstraints,
       });
 
-      streamRef.current = stream;
-      setPermissionState("granted");
-      
-      setState({
-        isActive: true,
-        isLoading: false,
-        stream,
-        error: null,
-      });
+      activateStream(stream);
+    } catch (error) {
+      handleStartError(error);
+    }
+  }, [mergedConstraints, stopCamera, activateStream, handleStartError]);
+
+  /**
+   * Replace the running camera with one matching `video`. The new camera is
+   * opened before the old one is released, so the two can be crossfaded; the
+   * old one stops `releaseDelayMs` later. If the new camera can't be opened,
+   * the old one keeps running. Starts the camera if it isn't running.
+   */
+  const replaceCamera = useCallback(async (
+    video: MediaTrackConstraints,
+    { releaseDelayMs = 0 }: SwitchCameraOptions = {},
+  ): Promise<MediaStream | null> => {
+    const previous = streamRef.current;
+    setState((prev: MediaInputState) => ({ ...prev, isLoading: true, error: null }));
 
-      if (onStreamReady) {
-        onStreamReady(stream);
+    let stream: MediaStream;
+    try {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video });
+      } catch (error) {
+        // Some cameras, e.g. a phone's front and back, can't run side by side
+        if (!previous || !(error instanceof Error) || error.name !== "NotReadableError") {
+          throw error;
+        }
+        streamRef.current = null;
+        previous.getTracks().forEach(track => track.stop());
+        stream = await navigator.mediaDevices.getUserMedia({ video });
       }
-
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Failed to access camera";
-      
-      if (error instanceof Error && error.name === "NotAllowedError") {
-        setPermissionState("denied");
+      if (previous && streamRef.current === previous) {
+        const errorMessage = error instanceof Error ? error.message : "Failed to switch camera";
+        setState((prev: MediaInputState) => ({ ...prev, isLoading: false }));
+        if (onError) {
+          onError(errorMessage);
+        }
+      } else {
+        handleStartError(error);
       }
+      return null;
+    }
 
-      setState((prev: MediaInputState) => ({
-        ...prev,
-        isActive: false,
-        isLoading: false,
-        error: errorMessage,
-      }));
+    activateStream(stream);
 
-      if (onError) {
-        onError(errorMessage);
+    if (previous && previous.active) {
+      const release = () => previous.getTracks().forEach(track => track.stop());
+      if (releaseDelayMs > 0) {
+        setTimeout(release, releaseDelayMs);
+      } else {
+        release();
       }
     }
-  }, [mergedConstraints, stopCamera, onStreamReady, onError]);
+    return stream;
+  }, [activateStream, handleStartError, onError]);
+
+  const switchDevice = useCallback((
+    deviceId: string,
+    options?: SwitchCameraOptions,
+  ) => replaceCamera({ ...mergedConstraints, deviceId: { exact: deviceId } }, options),
+  [mergedConstraints, replaceCamera]);
+
+  /**
+   * Flip between the front ("user") and back ("environment") cameras
+   */
+  const switchFacingMode = useCallback((
+    facingMode: "user" | "environment",
+    options?: SwitchCameraOptions,
+  ) => replaceCamera({
+    ...mergedConstraints,
+    deviceId: undefined,
+    facingMode: { exact: facingMode },
+  }, options),
+  [mergedConstraints, replaceCamera]);
 
   const requestPermission = useCallback(async (): Promise<boolean> => {
     try {
@@ -131,6 +243,8 @@ export const useCamera = ({
     permissionState,
     startCamera,
     stopCamera,
+    switchDevice,
+    switchFacingMode,
     requestPermission,
   };
 };
@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react";
+import type {
+  CameraControl,
+  CameraPreset,
+  CameraSettings,
+} from '../types';
+import {
+  controlsToSettings,
+  loadCameraPresets,
+  readCameraControls,
+  saveCameraPresets,
+  toCameraConstraints,
+} from '../utils/cameraControls';
+
+export interface UseCameraCapabilitiesOptions {
+  /** The camera stream, e.g. `useCamera().stream` */
+  stream: MediaStream | null;
+}
+
+/**
+ * The adjustable settings of a camera stream's video track, such as zoom,
+ * exposure, white balance and torch, and presets of them saved per device.
+ * Only what the track reports in `getCapabilities()` is listed; changes go
+ * through `applyConstraints`, and the controls are re-read afterwards since
+ * cameras may round or refuse values.
+ */
+export const useCameraCapabilities = ({
+  stream,
+}: UseCameraCapabilitiesOptions) => {
+  const [controls, setControls] = useState<CameraControl[]>([]);
+  const [presets, setPresets] = useState<CameraPreset[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const track = stream?.getVideoTracks()[0] ?? null;
+  const deviceId = track?.getSettings().deviceId ?? null;
+  const isSupported = typeof track?.getCapabilities === "function";
+
+  const readControls = useCallback(() => {
+    if (!track || typeof track.getCapabilities !== "function") {
+      setControls([]);
+      return;
+    }
+    setControls(
+      readCameraControls(
+        track.getCapabilities() as Record<string, unknown>,
+        track.getSettings() as Record<string, unknown>,
+      ),
+    );
+  }, [track]);
+
+  useEffect(() => {
+    readControls();
+    setError(null);
+  }, [readControls]);
+
+  useEffect(() => {
+    setPresets(deviceId ? loadCameraPresets(deviceId) : []);
+  }, [deviceId]);
+
+  const applySettings = useCallback(
+    async (settings: CameraSettings): Promise<boolean> => {
+      if (!track) return false;
+      try {
+        await track.applyConstraints(toCameraConstraints(settings));
+        setError(null);
+        return true;
+      } catch (error) {
+        setError(
+          error instanceof Error ? error.message : "Failed to apply settings",
+        );
+        return false;
+      } finally {
+        readControls();
+      }
+    },
+    [track, readControls],
+  );
+
+  /**
+   * Change one setting; the control moves right away so sliders stay smooth
+   */
+  const setControl = useCallback(
+    <K extends keyof CameraSettings>(name: K, value: CameraSettings[K]) => {
+      setControls((prev) =>
+        prev.map((control) =>
+          control.name === name ? ({ ...control, value } as CameraControl) : control,
+        ),
+      );
+      return applySettings({ [name]: value });
+    },
+    [applySettings],
+  );
+
+  const savePreset = useCallback(
+    (name: string) => {
+      if (!deviceId) return;
+      const next = [
+        ...presets.filter((preset) => preset.name !== name),
+        { name, settings: controlsToSettings(controls) },
+      ];
+      saveCameraPresets(deviceId, next);
+      setPresets(next);
+    },
+    [deviceId, presets, controls],
+  );
+
+  const deletePreset = useCallback(
+    (name: string) => {
+      if (!deviceId) return;
+      const next = presets.filter((preset) => preset.name !== name);
+      saveCameraPresets(deviceId, next);
+      setPresets(next);
+    },
+    [deviceId, presets],
+  );
+
+  const applyPreset = useCallback(
+    async (name: string): Promise<boolean> => {
+      const preset = presets.find((p) => p.name === name);
+      return preset ? applySettings(preset.settings) : false;
+    },
+    [presets, applySettings],
+  );
+
+  return {
+    controls,
+    isSupported,
+    error,
+    applySettings,
+    setControl,
+    presets,
+    savePreset,
+    applyPreset,
+    deletePreset,
+  };
+};
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MediaDeviceOption } from '../types';
+import {
+  loadPreferredDevice,
+  pickDevice,
+  savePreferredDevice,
+  toDeviceOptions,
+} from '../utils/mediaDevices';
+
+export interface UseMediaDevicesOptions {
+  /** Default: "videoinput" */
+  kind?: MediaDeviceKind;
+  /** Keep the chosen device in localStorage across visits (default: true) */
+  remember?: boolean;
+}
+
+/**
+ * Lists the input devices of one kind and tracks the chosen one. The list
+ * follows `devicechange`, and when the chosen device is unplugged another
+ * one is selected in its place. Labels only appear once a permission has
+ * been granted, so call `refresh` after the first `getUserMedia`.
+ */
+export const useMediaDevices = ({
+  kind = "videoinput",
+  remember = true,
+}: UseMediaDevicesOptions = {}) => {
+  const [devices, setDevices] = useState<MediaDeviceOption[]>([]);
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(
+    () => (remember ? loadPreferredDevice(kind) : null),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async (): Promise<MediaDeviceOption[]> => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      setError("Device enumeration is not supported in this browser");
+      return [];
+    }
+
+    try {
+      const list = toDeviceOptions(
+        await navigator.mediaDevices.enumerateDevices(),
+        kind,
+      );
+      setDevices(list);
+      setError(null);
+      // Without permission the list is empty, which says nothing about the choice
+      setSelectedDeviceId((current) =>
+        list.length > 0 && !list.some((d) => d.deviceId === current)
+          ? pickDevice(list, current)
+          : current,
+      );
+      return list;
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to list devices",
+      );
+      return [];
+    }
+  }, [kind]);
+
+  const selectDevice = useCallback(
+    (deviceId: string | null) => {
+      setSelectedDeviceId(deviceId);
+      if (remember) savePreferredDevice(kind, deviceId);
+    },
+    [kind, remember],
+  );
+
+  useEffect(() => {
+    refresh();
+
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.addEventListener) return;
+    mediaDevices.addEventListener("devicechange", refresh);
+    return () => {
+      mediaDevices.removeEventListener("devicechange", refresh);
+    };
+  }, [refresh]);
+
+  return {
+    devices,
+    selectedDeviceId,
+    selectDevice,
+    refresh,
+    error,
+  };
+};
@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  MediaFileKind,
+  MediaFileOptions,
+  MediaPlaybackState,
+} from '../types';
+import { MediaFileSource } from '../utils/mediaFileSource';
+
+const STOPPED: MediaPlaybackState = { isPlaying: false, currentTime: 0, duration: 0 };
+
+export interface UseMediaFileOptions extends MediaFileOptions {
+  /** Called with each newly opened file, e.g. to register its source */
+  onSourceReady?: (source: MediaFileSource) => void;
+  onError?: (error: string) => void;
+  /** Start playing as soon as a file opens (default: true) */
+  autoPlay?: boolean;
+  /** How long a replaced file keeps its frames, so a transition can fade it out (default: 1000) */
+  releaseDelayMs?: number;
+}
+
+/**
+ * The open media file: a video, a still image or an image sequence, with
+ * its playback state polled for controls. Opening another file replaces
+ * it; the old one is released after `releaseDelayMs`.
+ */
+export const useMediaFile = ({
+  loop = true,
+  fps = 12,
+  onSourceReady,
+  onError,
+  autoPlay = true,
+  releaseDelayMs = 1000,
+}: UseMediaFileOptions = {}) => {
+  const [source, setSource] = useState<MediaFileSource | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [playback, setPlayback] = useState<MediaPlaybackState>(STOPPED);
+  const sourceRef = useRef<MediaFileSource | null>(null);
+  const releaseTimersRef = useRef(new Map<MediaFileSource, ReturnType<typeof setTimeout>>());
+  // Only the latest open wins when several overlap
+  const openIdRef = useRef(0);
+
+  const release = useCallback(
+    (old: MediaFileSource | null) => {
+      if (!old) return;
+      const timers = releaseTimersRef.current;
+      timers.set(
+        old,
+        setTimeout(() => {
+          timers.delete(old);
+          old.destroy();
+        }, releaseDelayMs),
+      );
+    },
+    [releaseDelayMs],
+  );
+
+  const open = useCallback(
+    async (load: () => Promise<MediaFileSource>): Promise<MediaFileSource | null> => {
+      const openId = ++openIdRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const next = await load();
+        if (openId !== openIdRef.current) {
+          next.destroy();
+          return null;
+        }
+
+        release(sourceRef.current);
+        sourceRef.current = next;
+        setSource(next);
+        setIsLoading(false);
+        onSourceReady?.(next);
+
+        if (autoPlay) {
+          // Autoplay is muted, so browsers allow it; a refusal just leaves it paused
+          await next.play().catch(() => {});
+        }
+        setPlayback(next.getPlaybackState());
+        return next;
+      } catch (error) {
+        if (openId !== openIdRef.current) return null;
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to open the file";
+        setError(errorMessage);
+        setIsLoading(false);
+        onError?.(errorMessage);
+        return null;
+      }
+    },
+    [autoPlay, onSourceReady, onError, release],
+  );
+
+  const openFiles = useCallback(
+    (files: ArrayLike<File>) =>
+      open(() => MediaFileSource.fromFiles(files, { loop, fps })),
+    [open, loop, fps],
+  );
+
+  const openUrls = useCallback(
+    (kind: MediaFileKind, urls: string[]) =>
+      open(() => MediaFileSource.fromUrls(kind, urls, { loop, fps })),
+    [open, loop, fps],
+  );
+
+  const play = useCallback(async () => {
+    const current = sourceRef.current;
+    if (!current) return;
+    try {
+      await current.play();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to play");
+    }
+    setPlayback(current.getPlaybackState());
+  }, []);
+
+  const pause = useCallback(() => {
+    const current = sourceRef.current;
+    if (!current) return;
+    current.pause();
+    setPlayback(current.getPlaybackState());
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    if (sourceRef.current?.getPlaybackState().isPlaying) {
+      pause();
+    } else {
+      play();
+    }
+  }, [play, pause]);
+
+  const seek = useCallback((seconds: number) => {
+    const current = sourceRef.current;
+    if (!current) return;
+    current.seek(seconds);
+    setPlayback(current.getPlaybackState());
+  }, []);
+
+  /**
+   * Close the file; unregister its source first so the output can fade out
+   */
+  const close = useCallback(() => {
+    openIdRef.current++;
+    release(sourceRef.current);
+    sourceRef.current = null;
+    setSource(null);
+    setIsLoading(false);
+    setPlayback(STOPPED);
+  }, [release]);
+
+  useEffect(() => {
+    if (!source) return;
+    const timer = setInterval(() => setPlayback(source.getPlaybackState()), 250);
+    return () => clearInterval(timer);
+  }, [source]);
+
+  useEffect(() => {
+    const timers = releaseTimersRef.current;
+    const openIds = openIdRef;
+    return () => {
+      // Opens still in flight are dropped when they land
+      openIds.current++;
+      timers.forEach((timer, old) => {
+        clearTimeout(timer);
+        old.destroy();
+      });
+      timers.clear();
+      sourceRef.current?.destroy();
+      sourceRef.current = null;
+    };
+  }, []);
+
+  return {
+    source,
+    isLoading,
+    error,
+    ...playback,
+    openFiles,
+    openUrls,
+    play,
+    pause,
+    togglePlay,
+    seek,
+    close,
+  };
+};
@@ -0,0 +1,20 @@
+import { useEffect, useMemo } from "react";
+import { resolveOutputProfile } from "@daydream-examples/streaming-core";
+import type { OutputProfile, OutputProfileName } from '../types';
+import { useStreamOrchestrator } from './useStreamOrchestrator';
+
+/**
+ * Publishes the orchestrator's output at `profile`. A change resizes the
+ * live stream in place, without restarting the publish.
+ */
+export const useOutputProfile = (
+  profile: OutputProfileName | OutputProfile,
+): OutputProfile => {
+  const orchestrator = useStreamOrchestrator();
+
+  useEffect(() => {
+    orchestrator.setOutputProfile(profile);
+  }, [orchestrator, profile]);
+
+  return useMemo(() => resolveOutputProfile(profile), [profile]);
+};
@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import type { RefObject } from "react";
+import type {
+  CaptureTargetMode,
+  CropRect,
+  ScreenRegionOptions,
+} from '../types';
+import { applyCaptureTarget, clearCaptureTarget } from '../utils/captureTarget';
+import { easeRegion } from '../utils/screenRegion';
+import { MAIN_LAYER_ID } from '../utils/streamOrchestrator';
+import { useStreamOrchestrator } from './useStreamOrchestrator';
+
+const FULL_FRAME: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export interface UseScreenRegionOptions {
+  /** The screen share stream, e.g. `useScreenShare().stream` */
+  stream: MediaStream | null;
+  /** Orchestrator layer showing the screen share (default: MAIN_LAYER_ID) */
+  layerId?: string;
+  options?: ScreenRegionOptions;
+  /** Element of this page to narrow a capture of this tab to, where the browser can */
+  captureTarget?: RefObject<Element | null>;
+  /** Default: "region" */
+  captureTargetMode?: CaptureTargetMode;
+  onRegionChange?: (region: CropRect | null) => void;
+}
+
+/**
+ * The part of a screen share that gets published. A region set here becomes
+ * the layer's crop, so only that part is scaled into the output; in
+ * "follow" mode the crop eases after the region as it moves. Given a
+ * `captureTarget`, captures of this tab are also narrowed to that element
+ * by the browser, before any region is applied.
+ */
+export const useScreenRegion = ({
+  stream,
+  layerId = MAIN_LAYER_ID,
+  options = {},
+  captureTarget,
+  captureTargetMode = "region",
+  onRegionChange,
+}: UseScreenRegionOptions) => {
+  const { mode = "fixed", smoothing = 0.2 } = options;
+  const orchestrator = useStreamOrchestrator();
+  const [region, setRegion] = useState<CropRect | null>(null);
+  const [activeCaptureTarget, setActiveCaptureTarget] =
+    useState<CaptureTargetMode | null>(null);
+  const appliedRef = useRef<CropRect | null>(null);
+  const onRegionChangeRef = useRef(onRegionChange);
+  onRegionChangeRef.current = onRegionChange;
+
+  // A new share is likely a different surface, so a region drawn on the old one means nothing
+  useEffect(() => {
+    setRegion(null);
+  }, [stream]);
+
+  useEffect(() => {
+    onRegionChangeRef.current?.(region);
+  }, [region]);
+
+  useEffect(() => {
+    if (mode === "fixed") {
+      appliedRef.current = region;
+      orchestrator.updateLayer(layerId, { crop: region ?? undefined });
+      return;
+    }
+
+    const target = region ?? FULL_FRAME;
+    let frame: number | null = null;
+    const step = () => {
+      const next = easeRegion(appliedRef.current ?? FULL_FRAME, target, smoothing);
+      const arrived =
+        next.x === target.x &&
+        next.y === target.y &&
+        next.width === target.width &&
+        next.height === target.height;
+
+      appliedRef.current = arrived && !region ? null : next;
+      orchestrator.updateLayer(layerId, {
+        crop: appliedRef.current ?? undefined,
+      });
+      frame = arrived ? null : requestAnimationFrame(step);
+    };
+    step();
+
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [orchestrator, region, mode, smoothing, layerId, stream]);
+
+  useEffect(() => {
+    return () => {
+      appliedRef.current = null;
+      orchestrator.updateLayer(layerId, { crop: undefined });
+    };
+  }, [orchestrator, layerId]);
+
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    const element = captureTarget?.current;
+    if (!track || !element) return;
+
+    let cancelled = false;
+    let applied: CaptureTargetMode | null = null;
+    applyCaptureTarget(track, element, captureTargetMode).then((mode) => {
+      if (cancelled) {
+        if (mode) clearCaptureTarget(track, mode);
+        return;
+      }
+      applied = mode;
+      setActiveCaptureTarget(mode);
+    });
+
+    return () => {
+      cancelled = true;
+      if (applied) clearCaptureTarget(track, applied);
+      setActiveCaptureTarget(null);
+    };
+  }, [stream, captureTarget, captureTargetMode]);
+
+  return {
+    region,
+    setRegion,
+    clearRegion: () => setRegion(null),
+    /** The browser-side narrowing in effect, or null when only the canvas crop applies */
+    activeCaptureTarget,
+  };
+};
@@ -1,19 +1,32 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import type { ScreenShareConstraints, MediaInputState, PermissionState } from '../types';
-import { STREAMING_CONFIG } from '../utils/streamingConfig';
+import { STREAMING_CONFIG } from "@daydream-examples/streaming-core";
 
 interface UseScreenShareOptions {
   constraints?: ScreenShareConstraints;
   onStreamReady?: (stream: MediaStream) => void;
   onError?: (error: string) => void;
   onStreamEnded?: () => void;
+  /** Offer this tab first in Chrome's picker, e.g. to narrow it to an element (default: false) */
+  preferCurrentTab?: boolean;
+  /** Ask for the tab's or system's audio too; the user can still decline it in the picker (default: false) */
+  audio?: boolean;
 }
 
+// Tab audio is usually music or video, which voice processing mangles
+const SCREEN_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: false,
+  noiseSuppression: false,
+  autoGainControl: false,
+};
+
 export const useScreenShare = ({
   constraints,
   onStreamReady,
   onError,
   onStreamEnded,
+  preferCurrentTab = false,
+  audio = false,
 }: UseScreenShareOptions = {}) => {
   const [state, setState] = useState<MediaInputState>({
     isActive: false,
@@ -50,9 +63,12 @@ export const useScreenShare = ({
       // Stop existing stream first
       stopScreenShare();
 
+      // preferCurrentTab and systemAudio are Chrome-only and not in the DOM typings yet
       const stream = await navigator.mediaDevices.getDisplayMedia({
         video: mergedConstraints,
-      });
+        ...(preferCurrentTab && { preferCurrentTab: true }),
+        ...(audio && { audio: SCREEN_AUDIO_CONSTRAINTS, systemAudio: "include" }),
+      } as DisplayMediaStreamOptions);
 
       // Listen for the user ending the screen share
       const videoTrack = stream.getVideoTracks()[0];
@@ -97,7 +113,7 @@ export const useScreenShare = ({
         onError(errorMessage);
       }
     }
-  }, [mergedConstraints, stopScreenShare, onStreamReady, onError, onStreamEnded]);
+  }, [mergedConstraints, preferCurrentTab, audio, stopScreenShare, onStreamReady, onError, onStreamEnded]);
 
   const requestPermission = useCallback(async (): Promise<boolean> => {
     try {
@@ -121,6 +137,8 @@ export const useScreenShare = ({
 
   return {
     ...state,
+    /** Whether the share came with audio; browsers offer it for tabs, and some for the whole system */
+    hasAudio: (state.stream?.getAudioTracks().length ?? 0) > 0,
     permissionState,
     startScreenShare,
     stopScreenShare,
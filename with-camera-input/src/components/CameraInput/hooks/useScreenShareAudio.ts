@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useState } from "react";
+import { useStreamOrchestrator } from './useStreamOrchestrator';
+
+export interface UseScreenShareAudioOptions {
+  /** The screen share stream, e.g. `useScreenShare({ audio: true }).stream` */
+  stream: MediaStream | null;
+  /** Default: true */
+  enabled?: boolean;
+}
+
+/**
+ * Publishes a screen share's audio in place of the orchestrator's silent
+ * track. Muting publishes the silent track again without dropping the
+ * share's audio, and the silent track also returns once the share stops or
+ * its audio ends.
+ */
+export const useScreenShareAudio = ({
+  stream,
+  enabled = true,
+}: UseScreenShareAudioOptions) => {
+  const orchestrator = useStreamOrchestrator();
+  const [isRouted, setIsRouted] = useState(false);
+  const [muted, setMuted] = useState(false);
+  const track = stream?.getAudioTracks()[0] ?? null;
+
+  useEffect(() => {
+    if (!enabled || !track) return;
+
+    setIsRouted(orchestrator.setAudioInput(track));
+    const handleEnded = () => setIsRouted(false);
+    track.addEventListener("ended", handleEnded);
+
+    return () => {
+      track.removeEventListener("ended", handleEnded);
+      // Another share may have taken over meanwhile
+      if (orchestrator.getAudioInput() === track) {
+        orchestrator.setAudioInput(null);
+      }
+      setIsRouted(false);
+    };
+  }, [orchestrator, track, enabled]);
+
+  // Reapplied on routing since the orchestrator may have been rebuilt
+  useEffect(() => {
+    if (!isRouted) return;
+    orchestrator.setAudioMuted(muted);
+    return () => {
+      orchestrator.setAudioMuted(false);
+    };
+  }, [orchestrator, muted, isRouted]);
+
+  const toggleMute = useCallback(() => setMuted((prev) => !prev), []);
+
+  return {
+    hasAudio: track !== null,
+    isRouted,
+    muted,
+    setMuted,
+    toggleMute,
+  };
+};
@@ -0,0 +1,140 @@
+// @vitest-environment jsdom
+import React, { StrictMode, act } from "react";
+import { createRoot, type Root } from "react-dom/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { StreamOrchestratorProvider } from '../components/StreamOrchestratorProvider';
+import {
+  streamOrchestrator,
+  type StreamOrchestrator,
+} from '../utils/streamOrchestrator';
+import { useStreamManager } from './useStreamManager';
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean | undefined;
+}
+
+/** Registers a layer and reports the orchestrator it went to */
+const Input: React.FC<{
+  layerId: string;
+  onOrchestrator: (orchestrator: StreamOrchestrator) => void;
+}> = ({ layerId, onOrchestrator }) => {
+  const { registerLayer, getOrchestrator } = useStreamManager();
+
+  React.useEffect(() => {
+    registerLayer(layerId, {
+      kind: "canvas",
+      element: document.createElement("canvas"),
+    });
+    onOrchestrator(getOrchestrator());
+  }, [layerId, registerLayer, getOrchestrator, onOrchestrator]);
+
+  return null;
+};
+
+describe("useStreamManager", () => {
+  let root: Root;
+  let orchestrators: Map<string, StreamOrchestrator>;
+
+  const render = (element: React.ReactNode) =>
+    act(() => root.render(element));
+
+  const input = (layerId: string) => (
+    <Input
+      layerId={layerId}
+      onOrchestrator={(orchestrator) => orchestrators.set(layerId, orchestrator)}
+    />
+  );
+
+  beforeEach(() => {
+    globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+    // jsdom has no 2D canvas; the orchestrators hold their layers without one
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+    orchestrators = new Map();
+    root = createRoot(document.createElement("div"));
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+    streamOrchestrator.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it("gives inputs in side-by-side providers their own orchestrators", async () => {
+    await render(
+      <>
+        <StreamOrchestratorProvider>{input("left")}</StreamOrchestratorProvider>
+        <StreamOrchestratorProvider>{input("right")}</StreamOrchestratorProvider>
+      </>,
+    );
+
+    const left = orchestrators.get("left")!;
+    const right = orchestrators.get("right")!;
+    expect(left).not.toBe(right);
+    expect(left).not.toBe(streamOrchestrator);
+    expect(right).not.toBe(streamOrchestrator);
+    expect(left.getLayerIds()).toEqual(["left"]);
+    expect(right.getLayerIds()).toEqual(["right"]);
+    expect(streamOrchestrator.getLayerIds()).toEqual([]);
+  });
+
+  it("tears down only the unmounted provider's orchestrator", async () => {
+    const Page: React.FC<{ showRight: boolean }> = ({ showRight }) => (
+      <>
+        <StreamOrchestratorProvider>{input("left")}</StreamOrchestratorProvider>
+        {showRight && (
+          <StreamOrchestratorProvider>{input("right")}</StreamOrchestratorProvider>
+        )}
+      </>
+    );
+    await render(<Page showRight />);
+    const left = orchestrators.get("left")!;
+    const right = orchestrators.get("right")!;
+    const leftDestroy = vi.spyOn(left, "destroy");
+    const rightDestroy = vi.spyOn(right, "destroy");
+    const sharedDestroy = vi.spyOn(streamOrchestrator, "destroy");
+
+    await render(<Page showRight={false} />);
+
+    expect(rightDestroy).toHaveBeenCalledTimes(1);
+    expect(right.getLayerIds()).toEqual([]);
+    expect(leftDestroy).not.toHaveBeenCalled();
+    expect(left.getLayerIds()).toEqual(["left"]);
+    expect(sharedDestroy).not.toHaveBeenCalled();
+  });
+
+  it("keeps side-by-side providers apart under StrictMode", async () => {
+    await render(
+      <StrictMode>
+        <StreamOrchestratorProvider>{input("left")}</StreamOrchestratorProvider>
+        <StreamOrchestratorProvider>{input("right")}</StreamOrchestratorProvider>
+      </StrictMode>,
+    );
+
+    // The double mount resets each orchestrator once, and the inputs'
+    // second effects register their layers again
+    const left = orchestrators.get("left")!;
+    const right = orchestrators.get("right")!;
+    expect(left).not.toBe(right);
+    expect(left.getLayerIds()).toEqual(["left"]);
+    expect(right.getLayerIds()).toEqual(["right"]);
+  });
+
+  it("never destroys the shared orchestrator outside a provider", async () => {
+    const sharedDestroy = vi.spyOn(streamOrchestrator, "destroy");
+    const Page: React.FC<{ showRight: boolean }> = ({ showRight }) => (
+      <StrictMode>
+        {input("left")}
+        {showRight && input("right")}
+      </StrictMode>
+    );
+
+    await render(<Page showRight />);
+    expect(orchestrators.get("left")).toBe(streamOrchestrator);
+    expect(orchestrators.get("right")).toBe(streamOrchestrator);
+
+    await render(<Page showRight={false} />);
+
+    expect(sharedDestroy).not.toHaveBeenCalled();
+    expect(streamOrchestrator.getLayerIds()).toEqual(["left", "right"]);
+  });
+});
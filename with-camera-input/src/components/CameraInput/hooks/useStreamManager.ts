@@ -1,6 +1,12 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import type { StreamSource, BackgroundOptions } from '../types';
-import { streamOrchestrator } from '../utils/streamOrchestrator';
+import { useCallback, useEffect, useState } from "react";
+import type {
+  StreamSource,
+  BackgroundOptions,
+  CompositorLayout,
+  LayerOptions,
+  TransitionSpec,
+} from '../types';
+import { useStreamOrchestrator } from './useStreamOrchestrator';
 
 type InputMode = "camera" | "screenshare" | "none";
 
@@ -15,16 +21,46 @@ export const useStreamManager = ({
 }: UseStreamManagerOptions = {}) => {
   const [inputMode, setInputMode] = useState<InputMode>("none");
   const [isLoading, setIsLoading] = useState(false);
-  const currentStreamRef = useRef<MediaStream | null>(null);
+  // Never destroyed here: a provider tears down its own, and the shared
+  // one outside a provider lives as long as the page
+  const orchestrator = useStreamOrchestrator();
 
-  const registerSource = useCallback((source: StreamSource) => {
-    streamOrchestrator.setSource(source);
-    const orchestratedStream = streamOrchestrator.getStream();
+  const registerSource = useCallback((
+    source: StreamSource,
+    transition?: TransitionSpec,
+  ) => {
+    orchestrator.setSource(source, transition);
+    const orchestratedStream = orchestrator.getStream();
     
     if (orchestratedStream && onStreamReady) {
       onStreamReady(orchestratedStream);
     }
-  }, [onStreamReady]);
+  }, [orchestrator, onStreamReady]);
+
+  const registerLayer = useCallback(
+    (
+      id: string,
+      source: StreamSource,
+      options?: LayerOptions,
+      transition?: TransitionSpec,
+    ) => {
+      orchestrator.setLayer(id, source, options, transition);
+      const orchestratedStream = orchestrator.getStream();
+
+      if (orchestratedStream && onStreamReady) {
+        onStreamReady(orchestratedStream);
+      }
+    },
+    [orchestrator, onStreamReady],
+  );
+
+  const removeLayer = useCallback((id: string) => {
+    orchestrator.removeLayer(id);
+  }, [orchestrator]);
+
+  const setLayout = useCallback((layout: CompositorLayout) => {
+    orchestrator.setLayout(layout);
+  }, [orchestrator]);
 
   const switchToCamera = useCallback(() => {
     setInputMode("camera");
@@ -39,41 +75,37 @@ export const useStreamManager = ({
   const stopStreaming = useCallback(() => {
     setInputMode("none");
     setIsLoading(false);
-    streamOrchestrator.stop();
-  }, []);
+    orchestrator.stop();
+  }, [orchestrator]);
 
   const getOrchestrator = useCallback(() => {
-    return streamOrchestrator;
-  }, []);
+    return orchestrator;
+  }, [orchestrator]);
 
   const getOutputCanvas = useCallback(() => {
-    return streamOrchestrator.getStream();
-  }, []);
+    return orchestrator.getStream();
+  }, [orchestrator]);
 
   // Set background options on orchestrator
   useEffect(() => {
     if (backgroundOptions) {
-      streamOrchestrator.setBackgroundOptions(backgroundOptions);
+      orchestrator.setBackgroundOptions(backgroundOptions);
     }
-  }, [backgroundOptions]);
-
-  // Cleanup on unmount
-  useEffect(() => {
-    return () => {
-      streamOrchestrator.destroy();
-    };
-  }, []);
+  }, [orchestrator, backgroundOptions]);
 
   return {
     inputMode,
     isLoading,
     setIsLoading,
     registerSource,
+    registerLayer,
+    removeLayer,
+    setLayout,
     switchToCamera,
     switchToScreenShare,
     stopStreaming,
     getOrchestrator,
     getOutputCanvas,
-    orchestratedStream: streamOrchestrator.getStream(),
+    orchestratedStream: orchestrator.getStream(),
   };
 };
@@ -0,0 +1,10 @@
+import { useContext } from "react";
+import { StreamOrchestratorContext } from '../utils/orchestratorContext';
+import { streamOrchestrator, type StreamOrchestrator } from '../utils/streamOrchestrator';
+
+/**
+ * The orchestrator of the nearest `StreamOrchestratorProvider`, or the
+ * shared `streamOrchestrator` outside one
+ */
+export const useStreamOrchestrator = (): StreamOrchestrator =>
+  useContext(StreamOrchestratorContext) ?? streamOrchestrator;
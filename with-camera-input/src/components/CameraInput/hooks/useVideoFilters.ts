@@ -0,0 +1,88 @@
+import { useCallback, useEffect, useState } from "react";
+import type { VideoFilter } from '../types';
+import {
+  createVideoFilter,
+  moveVideoFilter,
+  updateVideoFilter,
+  type VideoFilterInit,
+  type VideoFilterParams,
+} from '../utils/videoFilters';
+import { useStreamOrchestrator } from './useStreamOrchestrator';
+
+export interface UseVideoFiltersOptions {
+  /** Starting chain */
+  initialFilters?: VideoFilterInit[];
+  /** Default: true */
+  enabled?: boolean;
+}
+
+/**
+ * The orchestrator's filter chain as React state. Every change is applied
+ * to the published frames right away; the chain is cleared on unmount or
+ * when disabled.
+ */
+export const useVideoFilters = ({
+  initialFilters = [],
+  enabled = true,
+}: UseVideoFiltersOptions = {}) => {
+  const orchestrator = useStreamOrchestrator();
+  const [filters, setFilters] = useState<VideoFilter[]>(() =>
+    initialFilters.map(createVideoFilter),
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    orchestrator.setFilters(filters);
+    return () => {
+      orchestrator.setFilters([]);
+    };
+  }, [orchestrator, filters, enabled]);
+
+  /**
+   * Append a filter to the end of the chain and return it
+   */
+  const addFilter = useCallback((init: VideoFilterInit) => {
+    const filter = createVideoFilter(init);
+    setFilters((prev) => [...prev, filter]);
+    return filter;
+  }, []);
+
+  const updateFilter = useCallback((id: string, params: VideoFilterParams) => {
+    setFilters((prev) =>
+      prev.map((filter) =>
+        filter.id === id ? updateVideoFilter(filter, params) : filter,
+      ),
+    );
+  }, []);
+
+  const removeFilter = useCallback((id: string) => {
+    setFilters((prev) => prev.filter((filter) => filter.id !== id));
+  }, []);
+
+  const moveFilter = useCallback((id: string, toIndex: number) => {
+    setFilters((prev) => moveVideoFilter(prev, id, toIndex));
+  }, []);
+
+  const toggleFilter = useCallback((id: string) => {
+    setFilters((prev) =>
+      prev.map((filter) =>
+        filter.id === id
+          ? { ...filter, enabled: filter.enabled === false }
+          : filter,
+      ),
+    );
+  }, []);
+
+  const clear = useCallback(() => setFilters([]), []);
+
+  return {
+    filters,
+    setFilters,
+    addFilter,
+    updateFilter,
+    removeFilter,
+    moveFilter,
+    toggleFilter,
+    clear,
+  };
+};
@@ -0,0 +1,33 @@
+import { useCallback, useRef } from "react";
+
+/**
+ * Two hidden video elements taking turns to play one live source. Swapping
+ * before a new stream plays it in the other element, so the orchestrator can
+ * crossfade from the stream still playing in the first.
+ */
+export const useVideoSlots = () => {
+  // The element the live source plays in
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const elementsRef = useRef<(HTMLVideoElement | null)[]>([null, null]);
+
+  const setPrimaryVideo = useCallback((element: HTMLVideoElement | null) => {
+    elementsRef.current[0] = element;
+    if (!videoRef.current) videoRef.current = element;
+  }, []);
+
+  const setSecondaryVideo = useCallback((element: HTMLVideoElement | null) => {
+    elementsRef.current[1] = element;
+  }, []);
+
+  /**
+   * Make the other element the live one and return it
+   */
+  const swap = useCallback(() => {
+    const [first, second] = elementsRef.current;
+    const next = videoRef.current === first ? second : first;
+    if (next) videoRef.current = next;
+    return videoRef.current;
+  }, []);
+
+  return { videoRef, setPrimaryVideo, setSecondaryVideo, swap };
+};
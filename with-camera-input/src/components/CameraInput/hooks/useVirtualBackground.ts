@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import type { RefObject } from "react";
+import type {
+  SegmentationProvider,
+  VirtualBackground,
+} from '../types';
+import { BackgroundReplacer } from '../utils/backgroundReplacer';
+
+export interface UseVirtualBackgroundOptions {
+  /** Video element the camera plays in */
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** Segmentation model; without one the camera passes through untouched */
+  provider: SegmentationProvider | null;
+  enabled?: boolean;
+  /** Default: a 12 px blur of the camera itself */
+  background?: VirtualBackground;
+  threshold?: number;
+  softness?: number;
+}
+
+/**
+ * Runs a segmentation stage on the camera's video element. While it runs,
+ * `replacer.getSource()` is what should be registered with the orchestrator
+ * in place of the camera; `replacer` is null when the stage is off.
+ */
+export const useVirtualBackground = ({
+  videoRef,
+  provider,
+  enabled = true,
+  background,
+  threshold,
+  softness,
+}: UseVirtualBackgroundOptions) => {
+  const [replacer, setReplacer] = useState<BackgroundReplacer | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!enabled || !provider || !video) return;
+
+    const next = new BackgroundReplacer(video, provider);
+    next.start();
+    setReplacer(next);
+    return () => {
+      next.destroy();
+      setReplacer(null);
+    };
+  }, [enabled, provider, videoRef]);
+
+  useEffect(() => {
+    replacer?.setOptions({ background, threshold, softness });
+  }, [replacer, background, threshold, softness]);
+
+  return { replacer };
+};
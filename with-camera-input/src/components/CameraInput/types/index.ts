@@ -1,7 +1,83 @@
+import type {
+  ComplexityInjectionOptions,
+  OutputProfile,
+  OutputProfileName,
+} from "@daydream-examples/streaming-core";
+
+// Shared with the other examples through the streaming core package
+export type {
+  AdaptiveBitrateInput,
+  AdaptiveBitrateOptions,
+  ComplexityInjectionOptions,
+  ComplexityMetrics,
+  CreateDaydreamStreamOptions,
+  DaydreamClientOptions,
+  DaydreamOutputPlayerProps,
+  DaydreamRetryOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  DaydreamStreamResponse,
+  DaydreamStreamStatus,
+  EncodingParams,
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+  OutputProfile,
+  OutputProfileName,
+  ParamUpdateStatus,
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+  PublishConnectionState,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  PublisherStatsOverlayProps,
+  PublisherStatsSample,
+  PublishTransport,
+  PublishTransportFactory,
+  QualityLimitationReason,
+  ReconnectClock,
+  ReconnectingPublisherOptions,
+  ReconnectOptions,
+  ReconnectStrategy,
+  StreamStabilizationResult,
+  StreamValidationOptions,
+  WhepClientOptions,
+  WhepPlaybackState,
+  WhipClientOptions,
+  WhipPublishState,
+} from "@daydream-examples/streaming-core";
+
 // Core streaming types
-export type SourceKind = "canvas" | "video";
+export type SourceKind = "canvas" | "video" | "image";
+
+/**
+ * How a source fills its slot: "contain" letterboxes the whole frame,
+ * "cover" fills the slot and crops the overflow, "stretch" fills the slot
+ * and distorts
+ */
+export type FitMode = "contain" | "cover" | "stretch";
+
+export interface SourceFocus {
+  /** Point to centre on, as fractions of the source width and height */
+  x: number;
+  y: number;
+  /** Magnification around the point, 1 or more (default: 1) */
+  zoom?: number;
+}
+
+export interface SourceFraming {
+  /** Default: "contain" */
+  fit?: FitMode;
+  /** Region of the source to use before fitting (default: the whole frame) */
+  crop?: CropRect;
+  /** Pan and zoom within the cropped region */
+  focus?: SourceFocus;
+}
 
-export type StreamSource =
+export type StreamSource = (
   | {
       kind: "canvas";
       element: HTMLCanvasElement;
@@ -11,44 +87,332 @@ export type StreamSource =
       kind: "video";
       element: HTMLVideoElement;
       contentHint?: "detail" | "motion" | "";
+    }
+  | {
+      kind: "image";
+      element: HTMLImageElement | ImageBitmap;
+      contentHint?: "detail" | "motion" | "";
+    }
+) &
+  SourceFraming;
+
+// Compositor types
+export type PipCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right";
+
+/**
+ * How the orchestrator arranges its layers in the output frame. Layers fill
+ * the slots in order; layers beyond the layout's slots are hidden.
+ */
+export type CompositorLayout =
+  | { kind: "single" }
+  | {
+      kind: "pip";
+      /** Corner of the inset (default: "bottom-right") */
+      corner?: PipCorner;
+      /** Inset size as a fraction of the frame (default: 0.3) */
+      size?: number;
+      /** Inset distance from the frame edges in px (default: 16) */
+      margin?: number;
+    }
+  | {
+      kind: "side-by-side";
+      /** "horizontal" puts the slots left and right (default), "vertical" top and bottom */
+      direction?: "horizontal" | "vertical";
+      /** Space between the slots in px (default: 0) */
+      gap?: number;
+    }
+  | {
+      kind: "grid";
+      /** Space between the cells of the 2x2 grid in px (default: 0) */
+      gap?: number;
     };
 
-export interface StreamValidationOptions {
-  minStableFrames?: number;
-  timeoutMs?: number;
-  validateAudio?: boolean;
+export interface LayoutRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
-export interface StreamStabilizationResult {
-  isStable: boolean;
-  frameCount: number;
-  timeElapsed: number;
-  error?: string;
+/** Region of the source to draw, as fractions of its width and height */
+export type CropRect = LayoutRect;
+
+/** Framing set here overrides the framing of the layer's source */
+export interface LayerOptions extends SourceFraming {
+  /** Slot order; lower values take the earlier slots, e.g. the main area in PiP (default: insertion order) */
+  order?: number;
+  /** Draw order; higher values paint on top (default: the layer's slot index) */
+  zIndex?: number;
+  /** 0-1 (default: 1) */
+  opacity?: number;
 }
 
-export interface ComplexityInjectionOptions {
-  /** Target complexity level (0-1) */
-  targetComplexity?: number;
-  /** Type of complexity to inject */
-  complexityType?: "noise" | "movement" | "dithering" | "adaptive";
-  /** Enable complexity analysis */
-  enableAnalysis?: boolean;
-  /** Minimum complexity threshold before injection */
-  minComplexityThreshold?: number;
-  /** Maximum complexity injection intensity */
-  maxIntensity?: number;
-  /** Analysis sample interval in ms */
-  analysisInterval?: number;
+// Transition types
+export type EasingName = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+export type EasingFunction = (t: number) => number;
+export type TransitionDirection = "left" | "right" | "up" | "down";
+export type BuiltInTransition =
+  | "crossfade"
+  | "cut"
+  | "wipe"
+  | "slide"
+  | "zoom"
+  | "dip-to-black"
+  | "luma-key";
+
+export interface TransitionSpec {
+  /** A built-in transition or one added with `registerTransition` */
+  type: BuiltInTransition | (string & {});
+  /** Defaults to the transition's own duration */
+  durationMs?: number;
+  /** Defaults to the transition's own easing */
+  easing?: EasingName | EasingFunction;
+  /** Direction the edge or the content moves in, for wipe and slide (default: "left") */
+  direction?: TransitionDirection;
 }
 
-export interface ComplexityMetrics {
-  spatialComplexity: number;
-  temporalComplexity: number;
-  overallComplexity: number;
-  frameVariance: number;
-  isLowComplexity: boolean;
+/**
+ * One drawing operation of a transition frame. Geometry is in fractions of
+ * the layer's slot: `clip` is a region of the slot, offsets move the source
+ * by whole slot widths/heights and `scale` zooms around the slot centre.
+ */
+export type TransitionStep =
+  | {
+      kind: "source";
+      source: "from" | "to";
+      alpha: number;
+      clip?: LayoutRect;
+      offsetX?: number;
+      offsetY?: number;
+      scale?: number;
+    }
+  | { kind: "fill"; color: string; alpha: number }
+  | {
+      kind: "luma-key";
+      source: "from" | "to";
+      /** Pixels darker than this luma (0-1) are keyed out */
+      threshold: number;
+      /** Luma range over which keyed pixels fade in */
+      softness: number;
+    };
+
+export interface TransitionDefinition {
+  durationMs: number;
+  easing: EasingName | EasingFunction;
+  /** Steps for eased progress `t` (0-1), drawn in order over a black slot */
+  render(t: number, spec: TransitionSpec): TransitionStep[];
+}
+
+export interface TransitionClock {
+  now(): number;
+}
+
+/** Why a transition run ended */
+export type TransitionEndReason = "completed" | "cancelled";
+
+export interface TransitionFrame {
+  /** Linear progress, 0-1 */
+  progress: number;
+  /** Eased progress, 0-1 */
+  t: number;
+  steps: TransitionStep[];
+  done: boolean;
 }
 
+export interface StreamOrchestratorOptions {
+  /** Time source for transitions and layout animation, overridable for frame-by-frame runs */
+  clock?: TransitionClock;
+  /** Transition used when `setSource`/`setLayer` get none (default: 200 ms crossfade) */
+  defaultTransition?: TransitionSpec;
+  /** Called when a layer's source swap finishes, or is cut short by another swap or the layer's removal */
+  onTransitionEnd?: (layerId: string, reason: TransitionEndReason) => void;
+  /** Runs the filter chain (default: WebGL, or software where WebGL is unavailable) */
+  createFilterRenderer?: () => FilterRenderer;
+  /** Output canvas size (default: "square-512"); switch it later with `setOutputProfile` */
+  outputProfile?: OutputProfileName | OutputProfile;
+}
+
+// Video filter types
+/** A 3D colour lookup table: `size`³ RGB entries, 0-1, red varying fastest, then green, then blue */
+export interface ColorLut {
+  size: number;
+  data: Float32Array;
+  title?: string;
+}
+
+interface VideoFilterBase {
+  /** Identifies the filter in the chain, e.g. to update or move it */
+  id: string;
+  /** Default: true */
+  enabled?: boolean;
+}
+
+export type VideoFilter = VideoFilterBase &
+  (
+    | {
+        type: "color";
+        /** Added to each channel, -1 to 1 (default: 0) */
+        brightness?: number;
+        /** Scale around mid-grey, 0 or more (default: 1) */
+        contrast?: number;
+        /** 0 is greyscale, above 1 boosts colour (default: 1) */
+        saturation?: number;
+      }
+    | {
+        type: "lut";
+        lut: ColorLut;
+        /** Mix with the ungraded frame, 0-1 (default: 1) */
+        intensity?: number;
+      }
+    | {
+        /** Canny-style edges, white on black */
+        type: "edges";
+        /** Gradient strength, 0-1, that continues an edge (default: 0.1) */
+        lowThreshold?: number;
+        /** Gradient strength, 0-1, that starts an edge (default: 0.25) */
+        highThreshold?: number;
+      }
+    | {
+        type: "posterize";
+        /** Levels per channel, 2 or more (default: 4) */
+        levels?: number;
+      }
+    | {
+        /** Blur that grows away from a sharp horizontal band, like a shallow depth of field */
+        type: "depth-blur";
+        /** Largest blur radius in px (default: 12) */
+        radius?: number;
+        /** Centre of the sharp band, from the top, 0-1 (default: 0.5) */
+        focus?: number;
+        /** Height of the sharp band, 0-1 (default: 0.3) */
+        range?: number;
+      }
+    | {
+        type: "invert";
+        /** 0-1 (default: 1) */
+        amount?: number;
+      }
+  );
+
+export type VideoFilterType = VideoFilter["type"];
+
+/** RGBA pixels, row by row, as in ImageData */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Runs a filter chain over a composited frame and returns the result,
+ * which the orchestrator draws in place of the frame
+ */
+export interface FilterRenderer {
+  render(input: HTMLCanvasElement, filters: VideoFilter[]): CanvasImageSource;
+  dispose(): void;
+}
+
+// Overlay types
+export type OverlayAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "left"
+  | "center"
+  | "right"
+  | "bottom-left"
+  | "bottom"
+  | "bottom-right";
+
+/**
+ * When an overlay shows, in ms since it was added: from `delayMs`, for
+ * `durationMs`, and within that for `visibleMs` out of every `everyMs`
+ */
+export interface OverlaySchedule {
+  /** Default: 0 */
+  delayMs?: number;
+  /** Default: until removed */
+  durationMs?: number;
+  repeat?: { everyMs: number; visibleMs: number };
+}
+
+export interface OverlayShadow {
+  color: string;
+  /** Default: 0 */
+  blur?: number;
+  /** Default: 0 */
+  offsetX?: number;
+  /** Default: 0 */
+  offsetY?: number;
+}
+
+export interface OverlayTextStyle {
+  /** CSS font (default: "bold 32px sans-serif") */
+  font?: string;
+  /** Default: "#ffffff" */
+  color?: string;
+  shadow?: OverlayShadow;
+  /** Outline around the glyphs */
+  stroke?: { color: string; width: number };
+  /** Box behind the text */
+  background?: string;
+  /** Space between the text and its box, in px (default: 8 with a background, else 0) */
+  padding?: number;
+  /** Line height as a multiple of the font size (default: 1.2) */
+  lineHeight?: number;
+}
+
+interface OverlayBase {
+  /** Identifies the overlay, e.g. to update or remove it */
+  id: string;
+  /** Corner, edge or centre of the frame the overlay sits at (default: "top-left") */
+  anchor?: OverlayAnchor;
+  /** Inset of every anchor from the frame edge, as a fraction of the frame (default: 0.05) */
+  safeArea?: number;
+  /** Shift from the anchored position, in px */
+  offset?: { x: number; y: number };
+  /** 0-1 (default: 1) */
+  opacity?: number;
+  /** Default: true */
+  visible?: boolean;
+  schedule?: OverlaySchedule;
+  /** Draw order among overlays, lowest first; ties draw in the order added (default: 0) */
+  zIndex?: number;
+}
+
+export type Overlay = OverlayBase &
+  (
+    | ({ type: "text"; text: string } & OverlayTextStyle)
+    | ({
+        /** The time, redrawn every frame */
+        type: "timestamp";
+        /** Default: the local time of day */
+        format?: (date: Date) => string;
+      } & OverlayTextStyle)
+    | {
+        type: "image";
+        image: HTMLImageElement | ImageBitmap | HTMLCanvasElement;
+        /** Width in px (default: the image's, or from `height` by aspect) */
+        width?: number;
+        /** Height in px (default: the image's, or from `width` by aspect) */
+        height?: number;
+      }
+    | {
+        type: "shape";
+        shape: "rect" | "ellipse";
+        width: number;
+        height: number;
+        fill?: string;
+        stroke?: string;
+        /** Default: 2 */
+        lineWidth?: number;
+        /** Corner radius of a rect (default: 0) */
+        radius?: number;
+      }
+  );
+
+export type OverlayType = Overlay["type"];
+
 export interface BackgroundOptions {
   fps?: number;
   enableComplexityManagement?: boolean;
@@ -63,6 +427,8 @@ export interface CameraConstraints {
   frameRate?: { ideal?: number; min?: number; max?: number };
   facingMode?: "user" | "environment";
   deviceId?: string;
+  /** Ask for zoom control too; Chrome prompts for pan/tilt/zoom access */
+  zoom?: boolean;
 }
 
 export interface ScreenShareConstraints {
@@ -73,12 +439,104 @@ export interface ScreenShareConstraints {
   displaySurface?: "application" | "browser" | "monitor" | "window";
 }
 
+// Screen region types
+/**
+ * "fixed" locks a drawn region until it is cleared; "follow" lets it be
+ * dragged around, with the output easing after it
+ */
+export type ScreenRegionMode = "fixed" | "follow";
+
+export interface ScreenRegionOptions {
+  /** Default: "fixed" */
+  mode?: ScreenRegionMode;
+  /** Width / height to keep the region at, e.g. 1 for the square output (default: free) */
+  aspectRatio?: number;
+  /** Smallest region side, as a fraction of the frame; smaller drags are ignored (default: 0.05) */
+  minSize?: number;
+  /** Share of the remaining distance the output moves per frame in "follow" mode, 0-1 (default: 0.2) */
+  smoothing?: number;
+}
+
+/**
+ * How the browser narrows a capture of this tab to an element:
+ * "region" crops to the element's box (Region Capture, `cropTo`), "element"
+ * captures only the element and its children (Element Capture, `restrictTo`)
+ */
+export type CaptureTargetMode = "region" | "element";
+
+// Media file types
+/**
+ * What a set of files plays as: a looped video, a still image, or a
+ * sequence of images shown one after another at a frame rate
+ */
+export type MediaFileKind = "video" | "image" | "image-sequence";
+
+export interface MediaFileOptions {
+  /** Start over at the end (default: true) */
+  loop?: boolean;
+  /** Frame rate of an image sequence (default: 12) */
+  fps?: number;
+}
+
+export interface MediaPlaybackState {
+  isPlaying: boolean;
+  /** Seconds */
+  currentTime: number;
+  /** Seconds; 0 for a still image */
+  duration: number;
+}
+
+// Camera capability controls
+export type CameraRangeControl =
+  | "zoom"
+  | "focusDistance"
+  | "exposureCompensation"
+  | "exposureTime"
+  | "colorTemperature"
+  | "brightness"
+  | "contrast"
+  | "saturation"
+  | "sharpness";
+export type CameraModeControl = "focusMode" | "exposureMode" | "whiteBalanceMode";
+
+/** One setting the active camera track supports, with its current value */
+export type CameraControl =
+  | {
+      kind: "range";
+      name: CameraRangeControl;
+      min: number;
+      max: number;
+      step: number;
+      value: number;
+    }
+  | { kind: "toggle"; name: "torch"; value: boolean }
+  | { kind: "mode"; name: CameraModeControl; options: string[]; value: string };
+
+export type CameraSettings = Partial<Record<CameraRangeControl, number>> &
+  Partial<Record<CameraModeControl, string>> & { torch?: boolean };
+
+/** A saved look for one camera */
+export interface CameraPreset {
+  name: string;
+  settings: CameraSettings;
+}
+
+/** An input device as shown in a picker */
+export interface MediaDeviceOption {
+  deviceId: string;
+  /** The browser's label, or e.g. "Camera 2" before permission is granted */
+  label: string;
+  groupId: string;
+}
+
 export interface MediaInputState {
   isActive: boolean;
   isLoading: boolean;
   stream: MediaStream | null;
   error: string | null;
   deviceId?: string;
+  /** Which side the camera faces, where the device reports it */
+  facingMode?: "user" | "environment";
 }
 
 export interface PermissionState {
@@ -86,6 +544,93 @@ export interface PermissionState {
   screenShare: "prompt" | "granted" | "denied";
 }
 
+// Auto-framing types
+/** A detected face, as fractions of the frame's width and height */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Detector confidence, 0-1, where the detector reports one */
+  score?: number;
+}
+
+/**
+ * Finds faces in a video frame. Anything from the browser's Shape Detection
+ * API to a WASM model or a scripted stub can sit behind this.
+ */
+export interface FaceDetector {
+  detect(frame: HTMLVideoElement): Promise<FaceBox[]>;
+  dispose?(): void;
+}
+
+export interface AutoFramingOptions {
+  /** Share of the output height the face should fill (default: 0.35) */
+  targetFaceSize?: number;
+  /** Height of the face centre in the output, from the top (default: 0.4) */
+  faceLine?: number;
+  /** Largest zoom into the source (default: 2.5) */
+  maxZoom?: number;
+  /** Share of the remaining distance the framing moves per update, 0-1 (default: 0.15) */
+  smoothing?: number;
+  /** Face movement, as a fraction of the frame, that is ignored (default: 0.05) */
+  deadzone?: number;
+  /** Updates without a face before the framing eases back out (default: 15) */
+  holdFrames?: number;
+}
+
+export interface FakeFaceDetector extends FaceDetector {
+  /** Faces returned from the next `detect` call on */
+  setFaces(faces: FaceBox[]): void;
+  /** Number of `detect` calls so far */
+  getCallCount(): number;
+}
+
+// Background replacement types
+/** Foreground confidence per pixel, 0-1, row by row at the mask's own resolution */
+export interface SegmentationMask {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Separates the person from the background in a video frame. A segmentation
+ * model such as MediaPipe's selfie segmenter, or a fixed mask, sits behind
+ * this.
+ */
+export interface SegmentationProvider {
+  segment(frame: HTMLVideoElement): Promise<SegmentationMask>;
+  dispose?(): void;
+}
+
+/** What replaces the background behind the person */
+export type VirtualBackground =
+  | { kind: "color"; color: string }
+  | {
+      kind: "blur";
+      /** Blur radius in px (default: 12) */
+      radius?: number;
+    }
+  | { kind: "image"; image: HTMLImageElement | ImageBitmap }
+  | { kind: "source"; source: StreamSource };
+
+export interface BackgroundReplacerOptions {
+  /** Default: a 12 px blur of the camera itself */
+  background?: VirtualBackground;
+  /** Confidence above which a pixel counts as foreground (default: 0.5) */
+  threshold?: number;
+  /** Width of the confidence band feathered across the edge (default: 0.2) */
+  softness?: number;
+}
+
+export interface SelfieSegmentationOptions {
+  /** The .tflite model (default: MediaPipe's hosted selfie segmenter) */
+  modelAssetPath?: string;
+  /** Default: "GPU" */
+  delegate?: "CPU" | "GPU";
+}
+
 // Input FPS tracking
 export interface UseInputFPSOptions {
   stream: MediaStream | null;
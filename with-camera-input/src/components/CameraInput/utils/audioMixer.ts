@@ -0,0 +1,140 @@
+import { createSilentAudioTrack } from "@daydream-examples/streaming-core";
+
+interface MixerInput {
+  track: MediaStreamTrack;
+  node: MediaStreamAudioSourceNode;
+  gain: GainNode;
+  onEnded: () => void;
+}
+
+/**
+ * The audio of the published stream: one track that carries the silent
+ * keep-alive track until an input, such as a screen share's audio, is
+ * routed in. Inputs come and go behind the same output track, so senders
+ * already publishing it are unaffected. Without Web Audio the output is
+ * the silent track itself and inputs are refused.
+ */
+export class AudioMixer {
+  private context: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private silentTrack: MediaStreamTrack;
+  private silentNode: MediaStreamAudioSourceNode | null = null;
+  private silentConnected = false;
+  private outputTrack: MediaStreamTrack;
+  private input: MixerInput | null = null;
+  private muted = false;
+
+  constructor() {
+    this.silentTrack = createSilentAudioTrack();
+    this.outputTrack = this.silentTrack;
+
+    try {
+      const context = new AudioContext({ sampleRate: 48000 });
+      const destination = context.createMediaStreamDestination();
+      this.silentNode = context.createMediaStreamSource(
+        new MediaStream([this.silentTrack]),
+      );
+      this.context = context;
+      this.destination = destination;
+      this.outputTrack = destination.stream.getAudioTracks()[0];
+      if (this.outputTrack.contentHint !== undefined) {
+        this.outputTrack.contentHint = "music";
+      }
+      this.route();
+    } catch (error) {
+      console.warn("Audio mixing unavailable, publishing the silent track:", error);
+    }
+  }
+
+  getTrack(): MediaStreamTrack {
+    return this.outputTrack;
+  }
+
+  getInput(): MediaStreamTrack | null {
+    return this.input?.track ?? null;
+  }
+
+  /**
+   * Route `track` into the output in place of the silent track, replacing
+   * any earlier input. The silent track returns when the input ends or is
+   * set to null. Returns false when audio can't be mixed here.
+   */
+  setInput(track: MediaStreamTrack | null): boolean {
+    if (track === this.getInput()) return true;
+    this.releaseInput();
+
+    if (!track) {
+      this.route();
+      return true;
+    }
+    if (!this.context || !this.destination) return false;
+
+    const node = this.context.createMediaStreamSource(new MediaStream([track]));
+    const gain = this.context.createGain();
+    node.connect(gain);
+    gain.connect(this.destination);
+
+    const onEnded = () => {
+      if (this.input?.track !== track) return;
+      this.releaseInput();
+      this.route();
+    };
+    track.addEventListener("ended", onEnded);
+    this.input = { track, node, gain, onEnded };
+
+    // Contexts made before a user gesture start suspended
+    this.context.resume().catch(() => {});
+    this.route();
+    return true;
+  }
+
+  /**
+   * Keep the input routed but publish the silent track meanwhile
+   */
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.route();
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  destroy() {
+    this.releaseInput();
+    this.silentNode?.disconnect();
+    this.silentNode = null;
+    if (this.context && this.context.state !== "closed") {
+      this.context.close().catch(() => {});
+    }
+    this.context = null;
+    this.destination = null;
+    this.outputTrack.stop();
+    this.silentTrack.stop();
+  }
+
+  private releaseInput() {
+    const input = this.input;
+    if (!input) return;
+    this.input = null;
+    input.track.removeEventListener("ended", input.onEnded);
+    input.node.disconnect();
+    input.gain.disconnect();
+  }
+
+  // The silent track plays whenever no input is audible
+  private route() {
+    if (!this.silentNode || !this.destination) return;
+
+    const audible = this.input !== null && !this.muted;
+    if (this.input) this.input.gain.gain.value = audible ? 1 : 0;
+
+    if (!audible && !this.silentConnected) {
+      this.silentNode.connect(this.destination);
+      this.silentConnected = true;
+    } else if (audible && this.silentConnected) {
+      this.silentNode.disconnect();
+      this.silentConnected = false;
+    }
+  }
+}
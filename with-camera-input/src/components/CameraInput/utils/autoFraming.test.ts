@@ -0,0 +1,82 @@
+import { OUTPUT_PROFILES } from "@daydream-examples/streaming-core";
+import { describe, expect, it } from "vitest";
+import type { FaceBox } from '../types';
+import { AutoFramer, computeAutoFocus } from './autoFraming';
+import { computeFraming } from './compositorLayout';
+
+// A phone held upright: narrower than every output profile but the portrait one
+const SOURCE = { width: 720, height: 1280 };
+const SOURCE_ASPECT = SOURCE.width / SOURCE.height;
+
+const face: FaceBox = { x: 0.425, y: 0.41, width: 0.15, height: 0.08 };
+
+/** Where the face lands in the output, as fractions of the output size */
+const faceInOutput = (width: number, height: number, options = {}) => {
+  const focus = computeAutoFocus(face, SOURCE_ASPECT, width / height, options);
+  const { source: window } = computeFraming(
+    SOURCE.width,
+    SOURCE.height,
+    { x: 0, y: 0, width, height },
+    { fit: "cover", focus },
+  );
+  const centreX = (face.x + face.width / 2) * SOURCE.width;
+  const centreY = (face.y + face.height / 2) * SOURCE.height;
+  return {
+    zoom: focus.zoom,
+    size: (face.height * SOURCE.height) / window.height,
+    x: (centreX - window.x) / window.width,
+    y: (centreY - window.y) / window.height,
+  };
+};
+
+describe("computeAutoFocus", () => {
+  it.each(Object.values(OUTPUT_PROFILES))(
+    "frames the face at the target size and line in $name",
+    ({ width, height }) => {
+      const framed = faceInOutput(width, height, { maxZoom: 5 });
+
+      expect(framed.size).toBeCloseTo(0.35, 6);
+      expect(framed.y).toBeCloseTo(0.4, 6);
+      expect(framed.x).toBeCloseTo(0.5, 6);
+    },
+  );
+
+  it("zooms in further where the output crops less of the source", () => {
+    const zoom = (name: keyof typeof OUTPUT_PROFILES) => {
+      const { width, height } = OUTPUT_PROFILES[name];
+      return faceInOutput(width, height, { maxZoom: 5 }).zoom;
+    };
+
+    expect(zoom("square-512")).toBe(zoom("square-768"));
+    expect(zoom("landscape-720p")).toBeLessThan(zoom("square-512"));
+    expect(zoom("portrait-720p")).toBeGreaterThan(zoom("square-512"));
+  });
+
+  it("stops at maxZoom and never zooms out past the full frame", () => {
+    const { width, height } = OUTPUT_PROFILES["portrait-720p"];
+    expect(faceInOutput(width, height).zoom).toBe(2.5);
+    expect(faceInOutput(width, height).size).toBeLessThan(0.35);
+
+    const close = { x: 0.1, y: 0.1, width: 0.8, height: 0.8 };
+    expect(computeAutoFocus(close, SOURCE_ASPECT, 16 / 9).zoom).toBe(1);
+  });
+});
+
+describe("AutoFramer", () => {
+  it("eases towards the face, then back out once it is lost", () => {
+    const framer = new AutoFramer({ smoothing: 0.5, holdFrames: 2 });
+    const target = computeAutoFocus(face, SOURCE_ASPECT, 1);
+
+    const first = framer.update([face], SOURCE_ASPECT, 1);
+    expect(first.zoom).toBeCloseTo(1 + (target.zoom - 1) / 2, 6);
+    for (let i = 0; i < 20; i++) framer.update([face], SOURCE_ASPECT, 1);
+    expect(framer.getFocus()).toEqual(target);
+
+    // Held for holdFrames, then released
+    framer.update([], SOURCE_ASPECT, 1);
+    framer.update([], SOURCE_ASPECT, 1);
+    expect(framer.getFocus()).toEqual(target);
+    for (let i = 0; i < 20; i++) framer.update([], SOURCE_ASPECT, 1);
+    expect(framer.getFocus()).toEqual({ x: 0.5, y: 0.5, zoom: 1 });
+  });
+});
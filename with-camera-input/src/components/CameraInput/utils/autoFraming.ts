@@ -0,0 +1,121 @@
+import type { AutoFramingOptions, FaceBox, SourceFocus } from '../types';
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const centredFocus = (): Required<SourceFocus> => ({ x: 0.5, y: 0.5, zoom: 1 });
+
+/**
+ * The face to frame: the largest, which is usually the one nearest the camera
+ */
+export const pickSubject = (faces: FaceBox[]): FaceBox | null =>
+  faces.reduce<FaceBox | null>(
+    (best, face) =>
+      !best || face.width * face.height > best.width * best.height
+        ? face
+        : best,
+    null,
+  );
+
+/**
+ * The focus that shows `face` at `targetFaceSize` of the output height with
+ * its centre on `faceLine`, for a source of aspect ratio `sourceAspect`
+ * (width / height) covering an output of `outputAspect`. Pure, so framing
+ * decisions can be checked against canned face boxes.
+ */
+export const computeAutoFocus = (
+  face: FaceBox,
+  sourceAspect: number,
+  outputAspect: number,
+  options: AutoFramingOptions = {},
+): Required<SourceFocus> => {
+  const { targetFaceSize = 0.35, faceLine = 0.4, maxZoom = 2.5 } = options;
+
+  // Share of the source height the cover window shows at zoom 1
+  const visibleHeight = Math.min(1, sourceAspect / outputAspect);
+  const zoom = clamp(
+    (targetFaceSize * visibleHeight) / Math.max(face.height, 0.01),
+    1,
+    Math.max(1, maxZoom),
+  );
+  const windowHeight = visibleHeight / zoom;
+
+  return {
+    x: face.x + face.width / 2,
+    y: face.y + face.height / 2 + (0.5 - faceLine) * windowHeight,
+    zoom,
+  };
+};
+
+/**
+ * Turns a stream of face detections into steady framing. The target only
+ * moves once the face leaves the deadzone around it, the framing eases
+ * towards the target by `smoothing` per update, and after `holdFrames`
+ * updates without a face it eases back out to the full frame.
+ */
+export class AutoFramer {
+  private options: AutoFramingOptions;
+  private focus = centredFocus();
+  private target = centredFocus();
+  private missedFrames = 0;
+
+  constructor(options: AutoFramingOptions = {}) {
+    this.options = options;
+  }
+
+  setOptions(options: AutoFramingOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Feed one detection result; returns the framing to draw with
+   */
+  update(
+    faces: FaceBox[],
+    sourceAspect: number,
+    outputAspect: number,
+  ): Required<SourceFocus> {
+    const { smoothing = 0.15, deadzone = 0.05, holdFrames = 15 } =
+      this.options;
+    const face = pickSubject(faces);
+
+    if (face) {
+      this.missedFrames = 0;
+      const next = computeAutoFocus(
+        face,
+        sourceAspect,
+        outputAspect,
+        this.options,
+      );
+      if (
+        Math.abs(next.x - this.target.x) > deadzone ||
+        Math.abs(next.y - this.target.y) > deadzone ||
+        Math.abs(next.zoom - this.target.zoom) / this.target.zoom > deadzone
+      ) {
+        this.target = next;
+      }
+    } else if (++this.missedFrames > holdFrames) {
+      this.target = centredFocus();
+    }
+
+    const rate = clamp(smoothing, 0, 1);
+    const ease = (from: number, to: number) =>
+      Math.abs(to - from) < 0.001 ? to : from + (to - from) * rate;
+    this.focus = {
+      x: ease(this.focus.x, this.target.x),
+      y: ease(this.focus.y, this.target.y),
+      zoom: ease(this.focus.zoom, this.target.zoom),
+    };
+    return { ...this.focus };
+  }
+
+  getFocus(): Required<SourceFocus> {
+    return { ...this.focus };
+  }
+
+  reset() {
+    this.focus = centredFocus();
+    this.target = centredFocus();
+    this.missedFrames = 0;
+  }
+}
@@ -0,0 +1,211 @@
+import { createCanvas, ImageData, type Canvas } from "@napi-rs/canvas";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SegmentationMask, VirtualBackground } from '../types';
+import { BackgroundReplacer } from './backgroundReplacer';
+import {
+  createEllipseMask,
+  createFakeSegmentationProvider,
+} from './fakeSegmentationProvider';
+
+type Rgb = [number, number, number];
+
+const SIZE = 64;
+const mask = createEllipseMask(SIZE, SIZE);
+
+const BLUE: Rgb = [20, 40, 220];
+const GREEN: Rgb = [30, 200, 60];
+const ORANGE: Rgb = [240, 140, 20];
+const PURPLE: Rgb = [120, 30, 160];
+
+/** A canvas painted by `paint(x, y)`, one pixel at a time */
+const paintCanvas = (
+  width: number,
+  height: number,
+  paint: (x: number, y: number) => Rgb,
+): Canvas => {
+  const canvas = createCanvas(width, height);
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set([...paint(x, y), 255], (y * width + x) * 4);
+    }
+  }
+  canvas.getContext("2d").putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas;
+};
+
+/** One-pixel black and white checks, so any blur shows up as grey */
+const checkerboard = (x: number, y: number): Rgb =>
+  (x + y) % 2 === 0 ? [255, 255, 255] : [0, 0, 0];
+
+/** A checkerboard camera that is always ready */
+const camera = () =>
+  Object.assign(paintCanvas(SIZE, SIZE, checkerboard), {
+    readyState: 4,
+  }) as unknown as HTMLVideoElement;
+
+const pixel = (canvas: HTMLCanvasElement, x: number, y: number): Rgb => {
+  const [r, g, b] = canvas.getContext("2d")!.getImageData(x, y, 1, 1).data;
+  return [r, g, b];
+};
+
+const isForeground = ({ width, data }: SegmentationMask, x: number, y: number) =>
+  data[y * width + x] === 1;
+
+/** Every pixel of the output, split by the ellipse mask */
+const composited = (canvas: HTMLCanvasElement) => {
+  const foreground: Array<{ x: number; y: number; rgb: Rgb }> = [];
+  const background: Array<{ x: number; y: number; rgb: Rgb }> = [];
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const entry = { x, y, rgb: pixel(canvas, x, y) };
+      (isForeground(mask, x, y) ? foreground : background).push(entry);
+    }
+  }
+  return { foreground, background };
+};
+
+describe("BackgroundReplacer", () => {
+  let frames: FrameRequestCallback[];
+
+  /** Render one frame, then let the provider's mask land */
+  const step = async () => {
+    const pending = frames;
+    frames = [];
+    pending.forEach((callback) => callback(0));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  };
+
+  const render = async (
+    background: VirtualBackground,
+  ): Promise<HTMLCanvasElement> => {
+    const replacer = new BackgroundReplacer(
+      camera(),
+      createFakeSegmentationProvider(mask),
+      { background },
+    );
+    replacer.start();
+    // The first frame asks for a mask; the second composites with it
+    await step();
+    await step();
+    replacer.destroy();
+    return replacer.canvas;
+  };
+
+  beforeEach(() => {
+    frames = [];
+    vi.stubGlobal("document", { createElement: () => createCanvas(1, 1) });
+    vi.stubGlobal("ImageData", ImageData);
+    vi.stubGlobal("HTMLVideoElement", class {});
+    vi.stubGlobal("HTMLImageElement", class {});
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) =>
+      frames.push(callback),
+    );
+    vi.stubGlobal("cancelAnimationFrame", () => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the camera as it is until the first mask arrives", async () => {
+    const replacer = new BackgroundReplacer(
+      camera(),
+      createFakeSegmentationProvider(mask),
+      { background: { kind: "color", color: "rgb(20, 40, 220)" } },
+    );
+    replacer.start();
+    frames.splice(0).forEach((callback) => callback(0));
+    replacer.destroy();
+
+    const { foreground, background } = composited(replacer.canvas);
+    for (const { x, y, rgb } of [...foreground, ...background]) {
+      expect(rgb).toEqual(checkerboard(x, y));
+    }
+  });
+
+  it("keeps the person and fills the rest with a colour", async () => {
+    const canvas = await render({ kind: "color", color: "rgb(20, 40, 220)" });
+    const { foreground, background } = composited(canvas);
+
+    for (const { x, y, rgb } of foreground) {
+      expect(rgb).toEqual(checkerboard(x, y));
+    }
+    for (const { rgb } of background) {
+      expect(rgb).toEqual(BLUE);
+    }
+  });
+
+  it("blurs the camera behind the person", async () => {
+    const canvas = await render({ kind: "blur", radius: 4 });
+    const { foreground, background } = composited(canvas);
+
+    for (const { x, y, rgb } of foreground) {
+      expect(rgb).toEqual(checkerboard(x, y));
+    }
+    // Away from the frame's edges the checks blur into an even grey
+    for (const { x, y, rgb } of background) {
+      if (Math.min(x, y, SIZE - 1 - x, SIZE - 1 - y) < 8) continue;
+      for (const channel of rgb) {
+        expect(channel).toBeGreaterThan(112);
+        expect(channel).toBeLessThan(144);
+      }
+    }
+  });
+
+  it("covers the frame with an image", async () => {
+    // 2:1, so covering the square frame keeps the middle half: the right
+    // half of the blue and the left half of the green
+    const image = paintCanvas(32, 16, (x) => (x < 16 ? BLUE : GREEN));
+    const canvas = await render({
+      kind: "image",
+      image: image as unknown as ImageBitmap,
+    });
+    const { foreground, background } = composited(canvas);
+
+    for (const { x, y, rgb } of foreground) {
+      expect(rgb).toEqual(checkerboard(x, y));
+    }
+    for (const { x, rgb } of background) {
+      // Smoothing blends the two colours where they meet
+      if (Math.abs(x - 31.5) < 3) continue;
+      expect(rgb).toEqual(x < SIZE / 2 ? BLUE : GREEN);
+    }
+  });
+
+  it("draws another source behind the person, with its crop", async () => {
+    const quadrants = paintCanvas(SIZE, SIZE, (x, y) =>
+      y < SIZE / 2 ? (x < SIZE / 2 ? BLUE : GREEN) : x < SIZE / 2 ? ORANGE : PURPLE,
+    );
+    const canvas = await render({
+      kind: "source",
+      source: {
+        kind: "canvas",
+        element: quadrants as unknown as HTMLCanvasElement,
+        crop: { x: 0, y: 0.5, width: 0.5, height: 0.5 },
+      },
+    });
+    const { foreground, background } = composited(canvas);
+
+    for (const { x, y, rgb } of foreground) {
+      expect(rgb).toEqual(checkerboard(x, y));
+    }
+    for (const { x, y, rgb } of background) {
+      // Scaling up samples a pixel past the crop along the frame's edges
+      if (Math.min(x, y, SIZE - 1 - x, SIZE - 1 - y) < 1) continue;
+      expect(rgb).toEqual(ORANGE);
+    }
+  });
+
+  it("fills the background with black while the image has no size", async () => {
+    const canvas = await render({
+      kind: "image",
+      image: { width: 0, height: 0 } as ImageBitmap,
+    });
+    const { background } = composited(canvas);
+
+    for (const { rgb } of background) {
+      expect(rgb).toEqual([0, 0, 0]);
+    }
+  });
+});
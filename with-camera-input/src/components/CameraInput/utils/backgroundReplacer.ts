@@ -0,0 +1,253 @@
+import type {
+  BackgroundReplacerOptions,
+  SegmentationMask,
+  SegmentationProvider,
+  StreamSource,
+  VirtualBackground,
+} from '../types';
+import { computeFraming } from './compositorLayout';
+
+const defaultBackground: VirtualBackground = { kind: "blur" };
+
+/**
+ * RGBA pixels for a mask: white, with the foreground confidence mapped to
+ * alpha through a feathered edge `softness` wide around `threshold`. Pure,
+ * so masks can be checked without a canvas.
+ */
+export const maskToAlpha = (
+  mask: SegmentationMask,
+  threshold = 0.5,
+  softness = 0.2,
+): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(mask.width * mask.height * 4);
+  const low = threshold - softness / 2;
+  const edge = Math.max(softness, 1e-3);
+  for (let i = 0; i < mask.width * mask.height; i++) {
+    const t = Math.max(0, Math.min(1, (mask.data[i] - low) / edge));
+    pixels[i * 4] = 255;
+    pixels[i * 4 + 1] = 255;
+    pixels[i * 4 + 2] = 255;
+    // Smoothstep, so the edge has no visible band
+    pixels[i * 4 + 3] = Math.round(t * t * (3 - 2 * t) * 255);
+  }
+  return pixels;
+};
+
+const sourceSize = (
+  element: HTMLVideoElement | HTMLCanvasElement | HTMLImageElement | ImageBitmap,
+) => {
+  if (element instanceof HTMLVideoElement) {
+    return { width: element.videoWidth, height: element.videoHeight };
+  }
+  if (element instanceof HTMLImageElement) {
+    return { width: element.naturalWidth, height: element.naturalHeight };
+  }
+  return { width: element.width, height: element.height };
+};
+
+/**
+ * Segmentation stage between the camera and the orchestrator. Every frame,
+ * the camera is cut out along the provider's latest mask and drawn over the
+ * chosen background on `canvas`, which is registered in place of the camera.
+ * The provider runs at its own pace; frames in between reuse the last mask.
+ */
+export class BackgroundReplacer {
+  readonly canvas: HTMLCanvasElement;
+  private input: HTMLVideoElement;
+  private readonly provider: SegmentationProvider;
+  private options: BackgroundReplacerOptions;
+  private foregroundCanvas: HTMLCanvasElement;
+  private maskCanvas: HTMLCanvasElement;
+  private hasMask = false;
+  private segmenting = false;
+  private animationId: number | null = null;
+  private destroyed = false;
+
+  constructor(
+    input: HTMLVideoElement,
+    provider: SegmentationProvider,
+    options: BackgroundReplacerOptions = {},
+  ) {
+    this.input = input;
+    this.provider = provider;
+    this.options = options;
+    this.canvas = document.createElement("canvas");
+    // Not ready for the orchestrator until the first frame sizes it
+    this.canvas.width = 0;
+    this.canvas.height = 0;
+    this.foregroundCanvas = document.createElement("canvas");
+    this.maskCanvas = document.createElement("canvas");
+  }
+
+  /**
+   * Read the camera from another element, e.g. after a device switch
+   */
+  setInput(input: HTMLVideoElement) {
+    this.input = input;
+  }
+
+  setOptions(options: BackgroundReplacerOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * The stage's output as an orchestrator source
+   */
+  getSource(): StreamSource {
+    return { kind: "canvas", element: this.canvas, contentHint: "motion" };
+  }
+
+  start() {
+    if (this.animationId !== null || this.destroyed) return;
+
+    const draw = () => {
+      this.renderFrame();
+      this.animationId = requestAnimationFrame(draw);
+    };
+    this.animationId = requestAnimationFrame(draw);
+  }
+
+  stop() {
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Stop for good. The canvas keeps its last frame, so a transition away
+   * from it still has something to fade from.
+   */
+  destroy() {
+    this.stop();
+    this.destroyed = true;
+  }
+
+  private renderFrame() {
+    const video = this.input;
+    const { width, height } = sourceSize(video);
+    if (video.readyState < 2 || width === 0 || height === 0) return;
+
+    for (const canvas of [this.canvas, this.foregroundCanvas]) {
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+    }
+    const ctx = this.canvas.getContext("2d");
+    const fgCtx = this.foregroundCanvas.getContext("2d");
+    if (!ctx || !fgCtx) return;
+
+    this.requestMask();
+
+    // Until the first mask arrives, show the camera as it is
+    if (!this.hasMask) {
+      ctx.drawImage(video, 0, 0, width, height);
+      return;
+    }
+
+    this.drawBackground(ctx, width, height);
+
+    fgCtx.globalCompositeOperation = "copy";
+    fgCtx.drawImage(video, 0, 0, width, height);
+    fgCtx.globalCompositeOperation = "destination-in";
+    fgCtx.imageSmoothingEnabled = true;
+    fgCtx.drawImage(this.maskCanvas, 0, 0, width, height);
+    fgCtx.globalCompositeOperation = "source-over";
+
+    ctx.drawImage(this.foregroundCanvas, 0, 0);
+  }
+
+  private requestMask() {
+    if (this.segmenting) return;
+    this.segmenting = true;
+
+    this.provider
+      .segment(this.input)
+      .then((mask) => {
+        if (this.destroyed) return;
+        this.updateMask(mask);
+      })
+      .catch((error) => {
+        console.warn("Segmentation failed:", error);
+      })
+      .finally(() => {
+        this.segmenting = false;
+      });
+  }
+
+  private updateMask(mask: SegmentationMask) {
+    const canvas = this.maskCanvas;
+    if (canvas.width !== mask.width) canvas.width = mask.width;
+    if (canvas.height !== mask.height) canvas.height = mask.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx || mask.width === 0 || mask.height === 0) return;
+
+    const { threshold, softness } = this.options;
+    ctx.putImageData(
+      new ImageData(
+        maskToAlpha(mask, threshold, softness),
+        mask.width,
+        mask.height,
+      ),
+      0,
+      0,
+    );
+    this.hasMask = true;
+  }
+
+  private drawBackground(
+    ctx: CanvasRenderingContext2D,
+    width: number,
+    height: number,
+  ) {
+    const background = this.options.background ?? defaultBackground;
+    const frame = { x: 0, y: 0, width, height };
+
+    switch (background.kind) {
+      case "color":
+        ctx.fillStyle = background.color;
+        ctx.fillRect(0, 0, width, height);
+        return;
+
+      case "blur":
+        // Without canvas filters (Safari) this falls back to the sharp frame
+        ctx.filter = `blur(${background.radius ?? 12}px)`;
+        ctx.drawImage(this.input, 0, 0, width, height);
+        ctx.filter = "none";
+        return;
+
+      case "image":
+      case "source": {
+        const element =
+          background.kind === "image"
+            ? background.image
+            : background.source.element;
+        const size = sourceSize(element);
+        if (size.width === 0 || size.height === 0) {
+          ctx.fillStyle = "black";
+          ctx.fillRect(0, 0, width, height);
+          return;
+        }
+        // Always covers, so the person never stands in front of a gap
+        const framing =
+          background.kind === "source" ? background.source : undefined;
+        const { source, dest } = computeFraming(size.width, size.height, frame, {
+          fit: "cover",
+          crop: framing?.crop,
+          focus: framing?.focus,
+        });
+        ctx.drawImage(
+          element,
+          source.x,
+          source.y,
+          source.width,
+          source.height,
+          dest.x,
+          dest.y,
+          dest.width,
+          dest.height,
+        );
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,143 @@
+import type {
+  CameraControl,
+  CameraModeControl,
+  CameraPreset,
+  CameraRangeControl,
+  CameraSettings,
+} from '../types';
+
+// getCapabilities() and getSettings() report more than the DOM typings know
+type TrackValues = Record<string, unknown>;
+type CameraConstraintSet = MediaTrackConstraintSet & CameraSettings;
+
+const PRESET_PREFIX = "daydream-examples:camera-presets:";
+
+const RANGE_CONTROLS: CameraRangeControl[] = [
+  "zoom",
+  "exposureCompensation",
+  "exposureTime",
+  "colorTemperature",
+  "focusDistance",
+  "brightness",
+  "contrast",
+  "saturation",
+  "sharpness",
+];
+
+const MODE_CONTROLS: CameraModeControl[] = [
+  "exposureMode",
+  "whiteBalanceMode",
+  "focusMode",
+];
+
+// Manual values are ignored unless their mode is "manual"
+const MANUAL_MODES: Array<[CameraRangeControl, CameraModeControl]> = [
+  ["exposureTime", "exposureMode"],
+  ["colorTemperature", "whiteBalanceMode"],
+  ["focusDistance", "focusMode"],
+];
+
+const isRange = (
+  value: unknown,
+): value is { min: number; max: number; step?: number } =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { min?: unknown }).min === "number" &&
+  typeof (value as { max?: unknown }).max === "number";
+
+/**
+ * The controls a camera track supports, from its `getCapabilities()` and
+ * `getSettings()`. Ranges that can't move and modes with one option are left
+ * out. Pure, so capability reports from real devices can be replayed.
+ */
+export const readCameraControls = (
+  capabilities: TrackValues,
+  settings: TrackValues,
+): CameraControl[] => {
+  const controls: CameraControl[] = [];
+
+  for (const name of RANGE_CONTROLS) {
+    const range = capabilities[name];
+    if (!isRange(range) || range.max <= range.min) continue;
+    const value = settings[name];
+    controls.push({
+      kind: "range",
+      name,
+      min: range.min,
+      max: range.max,
+      step: range.step && range.step > 0 ? range.step : (range.max - range.min) / 100,
+      value: typeof value === "number" ? value : range.min,
+    });
+  }
+
+  for (const name of MODE_CONTROLS) {
+    const options = capabilities[name];
+    if (!Array.isArray(options) || options.length < 2) continue;
+    const value = settings[name];
+    controls.push({
+      kind: "mode",
+      name,
+      options: options.map(String),
+      value: typeof value === "string" ? value : String(options[0]),
+    });
+  }
+
+  // Chrome reports `torch: true`; the spec says a list of booleans
+  const torch = capabilities.torch;
+  if (torch === true || (Array.isArray(torch) && torch.includes(true))) {
+    controls.push({ kind: "toggle", name: "torch", value: settings.torch === true });
+  }
+
+  return controls;
+};
+
+/**
+ * The current values of `controls`, e.g. to save as a preset
+ */
+export const controlsToSettings = (controls: CameraControl[]): CameraSettings => {
+  const settings: CameraSettings = {};
+  for (const control of controls) {
+    if (control.kind === "range") settings[control.name] = control.value;
+    else if (control.kind === "mode") settings[control.name] = control.value;
+    else settings.torch = control.value;
+  }
+  return settings;
+};
+
+/**
+ * Constraints for `applyConstraints` that apply `settings`. A manual value
+ * switches its mode to "manual" unless the settings pick the mode too.
+ */
+export const toCameraConstraints = (
+  settings: CameraSettings,
+): MediaTrackConstraints => {
+  const advanced: CameraConstraintSet = { ...settings };
+  for (const [value, mode] of MANUAL_MODES) {
+    if (advanced[value] !== undefined && advanced[mode] === undefined) {
+      advanced[mode] = "manual";
+    }
+  }
+  return { advanced: [advanced] };
+};
+
+export const loadCameraPresets = (deviceId: string): CameraPreset[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PRESET_PREFIX + deviceId) ?? "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    // Storage can be disabled, or hold something that isn't ours
+    return [];
+  }
+};
+
+export const saveCameraPresets = (deviceId: string, presets: CameraPreset[]) => {
+  try {
+    if (presets.length > 0) {
+      localStorage.setItem(PRESET_PREFIX + deviceId, JSON.stringify(presets));
+    } else {
+      localStorage.removeItem(PRESET_PREFIX + deviceId);
+    }
+  } catch {
+    // Storage can be disabled, e.g. in private windows
+  }
+};
@@ -0,0 +1,80 @@
+import type { CaptureTargetMode } from '../types';
+
+// Region Capture and Element Capture are not in the DOM typings yet
+interface TargetFactory {
+  fromElement(element: Element): Promise<unknown>;
+}
+
+interface TargetableTrack extends MediaStreamTrack {
+  cropTo?(target: unknown): Promise<void>;
+  restrictTo?(target: unknown): Promise<void>;
+}
+
+const API: Record<
+  CaptureTargetMode,
+  { factory: "CropTarget" | "RestrictionTarget"; method: "cropTo" | "restrictTo" }
+> = {
+  region: { factory: "CropTarget", method: "cropTo" },
+  element: { factory: "RestrictionTarget", method: "restrictTo" },
+};
+
+const getFactory = (mode: CaptureTargetMode): TargetFactory | null => {
+  const factory = (globalThis as Record<string, unknown>)[API[mode].factory] as
+    | TargetFactory
+    | undefined;
+  return typeof factory?.fromElement === "function" ? factory : null;
+};
+
+/**
+ * Which of Region Capture and Element Capture the browser offers. Both are
+ * Chrome-only so far.
+ */
+export const getCaptureTargetSupport = (): Record<CaptureTargetMode, boolean> => ({
+  region: getFactory("region") !== null,
+  element: getFactory("element") !== null,
+});
+
+/**
+ * Narrow a capture of this tab to `element`, trying `preferred` first and
+ * then the other mode. Returns the mode that took, or null when neither
+ * did: the API is missing, or the track is not a capture of this tab. The
+ * track is left as it was in that case, so a canvas crop can stand in.
+ */
+export const applyCaptureTarget = async (
+  track: MediaStreamTrack,
+  element: Element,
+  preferred: CaptureTargetMode = "region",
+): Promise<CaptureTargetMode | null> => {
+  const modes: CaptureTargetMode[] =
+    preferred === "region" ? ["region", "element"] : ["element", "region"];
+
+  for (const mode of modes) {
+    const factory = getFactory(mode);
+    const apply = (track as TargetableTrack)[API[mode].method];
+    if (!factory || typeof apply !== "function") continue;
+
+    try {
+      await apply.call(track, await factory.fromElement(element));
+      return mode;
+    } catch (error) {
+      console.warn(`Capture target "${mode}" failed:`, error);
+    }
+  }
+  return null;
+};
+
+/**
+ * Undo `applyCaptureTarget`, going back to the whole tab
+ */
+export const clearCaptureTarget = async (
+  track: MediaStreamTrack,
+  mode: CaptureTargetMode,
+) => {
+  const clear = (track as TargetableTrack)[API[mode].method];
+  if (typeof clear !== "function" || track.readyState === "ended") return;
+  try {
+    await clear.call(track, null);
+  } catch {
+    // The track may have ended meanwhile
+  }
+};
@@ -0,0 +1,364 @@
+import { describe, expect, it } from "vitest";
+import type {
+  CompositorLayout,
+  CropRect,
+  LayerOptions,
+  LayoutRect,
+  SourceFraming,
+} from '../types';
+import {
+  compareDrawOrder,
+  compareSlotOrder,
+  computeFraming,
+  computeLayoutSlots,
+  containRect,
+  layerAlpha,
+  layoutCapacity,
+  lerpRect,
+  resolveCrop,
+} from './compositorLayout';
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+
+const rect = (x: number, y: number, width: number, height: number): LayoutRect => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+const layer = (
+  id: string,
+  index: number,
+  slot: number,
+  options: LayerOptions = {},
+) => ({ id, index, slot, options });
+
+type TestLayer = ReturnType<typeof layer>;
+
+/** A landscape camera, framed into a square slot */
+const SOURCE = { width: 1920, height: 1080 };
+const SQUARE = rect(0, 0, 720, 720);
+
+const expectRect = (actual: LayoutRect, expected: LayoutRect) => {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+  expect(actual.width).toBeCloseTo(expected.width, 6);
+  expect(actual.height).toBeCloseTo(expected.height, 6);
+};
+
+const ids = (layers: TestLayer[]) => layers.map(({ id }) => id);
+
+describe("computeLayoutSlots", () => {
+  it.each<[string, CompositorLayout, LayoutRect[]]>([
+    ["single", { kind: "single" }, [rect(0, 0, WIDTH, HEIGHT)]],
+    [
+      "pip, bottom-right by default",
+      { kind: "pip" },
+      [rect(0, 0, WIDTH, HEIGHT), rect(880, 488, 384, 216)],
+    ],
+    [
+      "pip, top-left",
+      { kind: "pip", corner: "top-left" },
+      [rect(0, 0, WIDTH, HEIGHT), rect(16, 16, 384, 216)],
+    ],
+    [
+      "pip, top-right",
+      { kind: "pip", corner: "top-right" },
+      [rect(0, 0, WIDTH, HEIGHT), rect(880, 16, 384, 216)],
+    ],
+    [
+      "pip, bottom-left",
+      { kind: "pip", corner: "bottom-left" },
+      [rect(0, 0, WIDTH, HEIGHT), rect(16, 488, 384, 216)],
+    ],
+    [
+      "pip, a quarter size without a margin",
+      { kind: "pip", corner: "top-left", size: 0.25, margin: 0 },
+      [rect(0, 0, WIDTH, HEIGHT), rect(0, 0, 320, 180)],
+    ],
+    [
+      "pip, too small a size raised to 5%",
+      { kind: "pip", size: 0.01 },
+      [rect(0, 0, WIDTH, HEIGHT), rect(1200, 668, 64, 36)],
+    ],
+    [
+      "side-by-side, horizontal by default",
+      { kind: "side-by-side" },
+      [rect(0, 0, 640, HEIGHT), rect(640, 0, 640, HEIGHT)],
+    ],
+    [
+      "side-by-side, horizontal with a gap",
+      { kind: "side-by-side", gap: 10 },
+      [rect(0, 0, 635, HEIGHT), rect(645, 0, 635, HEIGHT)],
+    ],
+    [
+      "side-by-side, vertical with a gap",
+      { kind: "side-by-side", direction: "vertical", gap: 8 },
+      [rect(0, 0, WIDTH, 356), rect(0, 364, WIDTH, 356)],
+    ],
+    [
+      "grid",
+      { kind: "grid" },
+      [
+        rect(0, 0, 640, 360),
+        rect(640, 0, 640, 360),
+        rect(0, 360, 640, 360),
+        rect(640, 360, 640, 360),
+      ],
+    ],
+    [
+      "grid with a gap",
+      { kind: "grid", gap: 20 },
+      [
+        rect(0, 0, 630, 350),
+        rect(650, 0, 630, 350),
+        rect(0, 370, 630, 350),
+        rect(650, 370, 630, 350),
+      ],
+    ],
+  ])("lays out %s", (_, layout, slots) => {
+    expect(computeLayoutSlots(layout, WIDTH, HEIGHT)).toEqual(slots);
+  });
+
+  it.each<CompositorLayout>([
+    { kind: "single" },
+    { kind: "pip" },
+    { kind: "side-by-side" },
+    { kind: "grid" },
+  ])("has as many slots as the $kind layout's capacity", (layout) => {
+    expect(computeLayoutSlots(layout, WIDTH, HEIGHT)).toHaveLength(
+      layoutCapacity(layout),
+    );
+  });
+});
+
+describe("compareSlotOrder", () => {
+  it.each<[string, TestLayer[], string[]]>([
+    [
+      "in insertion order by default",
+      [layer("camera", 0, -1), layer("screen", 1, -1)],
+      ["camera", "screen"],
+    ],
+    [
+      "by `order` before insertion",
+      [layer("camera", 0, -1, { order: 2 }), layer("screen", 1, -1, { order: 1 })],
+      ["screen", "camera"],
+    ],
+    [
+      "ahead of unordered layers with a negative `order`",
+      [
+        layer("camera", 0, -1),
+        layer("screen", 1, -1),
+        layer("logo", 2, -1, { order: -1 }),
+      ],
+      ["logo", "camera", "screen"],
+    ],
+    [
+      "in insertion order when `order` ties",
+      [layer("camera", 0, -1, { order: 1 }), layer("screen", 1, -1)],
+      ["camera", "screen"],
+    ],
+  ])("takes slots %s", (_, layers, expected) => {
+    expect(ids([...layers].reverse().sort(compareSlotOrder))).toEqual(expected);
+  });
+});
+
+describe("compareDrawOrder", () => {
+  it.each<[string, TestLayer[], string[]]>([
+    [
+      "the inset over the main area by default",
+      [layer("camera", 0, 0), layer("screen", 1, 1)],
+      ["camera", "screen"],
+    ],
+    [
+      "by slot rather than insertion",
+      [layer("camera", 0, 1), layer("screen", 1, 0)],
+      ["screen", "camera"],
+    ],
+    [
+      "a raised `zIndex` on top",
+      [layer("camera", 0, 0, { zIndex: 5 }), layer("screen", 1, 1)],
+      ["screen", "camera"],
+    ],
+    [
+      "a negative `zIndex` underneath",
+      [layer("camera", 0, 0), layer("screen", 1, 1, { zIndex: -1 })],
+      ["screen", "camera"],
+    ],
+    [
+      "in insertion order when `zIndex` ties",
+      [layer("camera", 0, 1, { zIndex: 2 }), layer("screen", 1, 0, { zIndex: 2 })],
+      ["camera", "screen"],
+    ],
+    [
+      "layers without a slot first",
+      [layer("camera", 0, 0), layer("leaving", 1, -1)],
+      ["leaving", "camera"],
+    ],
+  ])("paints %s", (_, layers, expected) => {
+    expect(ids([...layers].reverse().sort(compareDrawOrder))).toEqual(expected);
+  });
+});
+
+describe("layerAlpha", () => {
+  it.each<[number, LayerOptions, number]>([
+    [1, {}, 1],
+    [1, { opacity: 0.5 }, 0.5],
+    [0.5, { opacity: 0.5 }, 0.25],
+    [0, { opacity: 1 }, 0],
+    [1, { opacity: 2 }, 1],
+    [1, { opacity: -1 }, 0],
+  ])("fades %d with %o to %d", (placementAlpha, options, expected) => {
+    expect(layerAlpha(placementAlpha, options)).toBe(expected);
+  });
+});
+
+describe("lerpRect", () => {
+  it.each([
+    [0, rect(0, 0, 1280, 720)],
+    [0.5, rect(440, 244, 832, 468)],
+    [1, rect(880, 488, 384, 216)],
+  ])("moves a layer into the inset at t=%d", (t, expected) => {
+    expect(
+      lerpRect(rect(0, 0, 1280, 720), rect(880, 488, 384, 216), t),
+    ).toEqual(expected);
+  });
+});
+
+describe("resolveCrop", () => {
+  it.each<[string, CropRect | undefined, LayoutRect]>([
+    ["the whole frame without a crop", undefined, rect(0, 0, 1920, 1080)],
+    [
+      "the centre quarter",
+      rect(0.25, 0.25, 0.5, 0.5),
+      rect(480, 270, 960, 540),
+    ],
+    [
+      "the right half",
+      rect(0.5, 0, 0.5, 1),
+      rect(960, 0, 960, 1080),
+    ],
+    [
+      "a crop past the edges clamped to the frame",
+      rect(-0.5, 0.5, 2, 1),
+      rect(0, 540, 1920, 540),
+    ],
+  ])("selects %s", (_, crop, expected) => {
+    expect(resolveCrop(SOURCE.width, SOURCE.height, crop)).toEqual(expected);
+  });
+});
+
+describe("containRect", () => {
+  it.each<[string, number, number, LayoutRect, LayoutRect]>([
+    ["landscape into a square", 1920, 1080, SQUARE, rect(0, 157, 720, 405)],
+    [
+      "portrait into landscape",
+      1080,
+      1920,
+      rect(0, 0, 1280, 720),
+      rect(437, 0, 405, 720),
+    ],
+    [
+      "the same aspect into an offset slot",
+      1920,
+      1080,
+      rect(100, 50, 640, 360),
+      rect(100, 50, 640, 360),
+    ],
+  ])("letterboxes %s", (_, width, height, slot, expected) => {
+    expect(containRect(width, height, slot)).toEqual(expected);
+  });
+});
+
+describe("computeFraming", () => {
+  it.each<[string, SourceFraming, LayoutRect, LayoutRect]>([
+    [
+      "contains by default",
+      {},
+      rect(0, 0, 1920, 1080),
+      rect(0, 157, 720, 405),
+    ],
+    [
+      "covers from the centre",
+      { fit: "cover" },
+      rect(420, 0, 1080, 1080),
+      SQUARE,
+    ],
+    [
+      "stretches the whole frame",
+      { fit: "stretch" },
+      rect(0, 0, 1920, 1080),
+      SQUARE,
+    ],
+    [
+      "contains a crop",
+      { crop: rect(0.5, 0, 0.5, 1) },
+      rect(960, 0, 960, 1080),
+      rect(40, 0, 640, 720),
+    ],
+    [
+      "covers from inside a crop",
+      { fit: "cover", crop: rect(0.5, 0, 0.5, 1) },
+      rect(960, 60, 960, 960),
+      SQUARE,
+    ],
+    [
+      "stretches a crop",
+      { fit: "stretch", crop: rect(0.5, 0, 0.5, 1) },
+      rect(960, 0, 960, 1080),
+      SQUARE,
+    ],
+    [
+      "covers around a focus point, kept inside the frame",
+      { fit: "cover", focus: { x: 0, y: 0.5 } },
+      rect(0, 0, 1080, 1080),
+      SQUARE,
+    ],
+    [
+      "zooms into the focus point before fitting",
+      { focus: { x: 0.5, y: 0.5, zoom: 2 } },
+      rect(480, 270, 960, 540),
+      rect(0, 157, 720, 405),
+    ],
+    [
+      "keeps a zoomed window inside the frame",
+      { fit: "stretch", focus: { x: 1, y: 1, zoom: 2 } },
+      rect(960, 540, 960, 540),
+      SQUARE,
+    ],
+    [
+      "never zooms out past the frame",
+      { focus: { x: 0.5, y: 0.5, zoom: 0.5 } },
+      rect(0, 0, 1920, 1080),
+      rect(0, 157, 720, 405),
+    ],
+  ])("%s", (_, framing, source, dest) => {
+    const framed = computeFraming(SOURCE.width, SOURCE.height, SQUARE, framing);
+
+    expectRect(framed.source, source);
+    expectRect(framed.dest, dest);
+  });
+
+  it.each<SourceFraming["fit"]>(["contain", "cover", "stretch"])(
+    "reads only from the crop with %s",
+    (fit) => {
+      const crop = rect(0.1, 0.2, 0.3, 0.4);
+      const region = resolveCrop(SOURCE.width, SOURCE.height, crop);
+      const { source } = computeFraming(SOURCE.width, SOURCE.height, SQUARE, {
+        fit,
+        crop,
+      });
+
+      expect(source.x).toBeGreaterThanOrEqual(region.x - 1e-6);
+      expect(source.y).toBeGreaterThanOrEqual(region.y - 1e-6);
+      expect(source.x + source.width).toBeLessThanOrEqual(
+        region.x + region.width + 1e-6,
+      );
+      expect(source.y + source.height).toBeLessThanOrEqual(
+        region.y + region.height + 1e-6,
+      );
+    },
+  );
+});
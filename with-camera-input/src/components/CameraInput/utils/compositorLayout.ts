@@ -0,0 +1,228 @@
+import type {
+  CompositorLayout,
+  CropRect,
+  LayerOptions,
+  LayoutRect,
+  SourceFraming,
+} from '../types';
+
+/** What the orchestrator orders its layers by */
+interface OrderedLayer {
+  /** Insertion order */
+  index: number;
+  /** Slot the layer holds in the current layout */
+  slot: number;
+  options: LayerOptions;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Number of layers a layout shows
+ */
+export const layoutCapacity = (layout: CompositorLayout): number => {
+  switch (layout.kind) {
+    case "single":
+      return 1;
+    case "pip":
+    case "side-by-side":
+      return 2;
+    case "grid":
+      return 4;
+  }
+};
+
+/**
+ * The slots of a layout in a `width` x `height` frame, in the order layers
+ * fill them. Pure, so layouts can be checked without a canvas.
+ */
+export const computeLayoutSlots = (
+  layout: CompositorLayout,
+  width: number,
+  height: number,
+): LayoutRect[] => {
+  const full = { x: 0, y: 0, width, height };
+
+  switch (layout.kind) {
+    case "single":
+      return [full];
+
+    case "pip": {
+      const { corner = "bottom-right", size = 0.3, margin = 16 } = layout;
+      const insetWidth = Math.round(width * clamp(size, 0.05, 1));
+      const insetHeight = Math.round(height * clamp(size, 0.05, 1));
+      const left = corner === "top-left" || corner === "bottom-left";
+      const top = corner === "top-left" || corner === "top-right";
+      return [
+        full,
+        {
+          x: left ? margin : width - insetWidth - margin,
+          y: top ? margin : height - insetHeight - margin,
+          width: insetWidth,
+          height: insetHeight,
+        },
+      ];
+    }
+
+    case "side-by-side": {
+      const { direction = "horizontal", gap = 0 } = layout;
+      if (direction === "vertical") {
+        const slotHeight = Math.floor((height - gap) / 2);
+        return [
+          { x: 0, y: 0, width, height: slotHeight },
+          { x: 0, y: height - slotHeight, width, height: slotHeight },
+        ];
+      }
+      const slotWidth = Math.floor((width - gap) / 2);
+      return [
+        { x: 0, y: 0, width: slotWidth, height },
+        { x: width - slotWidth, y: 0, width: slotWidth, height },
+      ];
+    }
+
+    case "grid": {
+      const { gap = 0 } = layout;
+      const cellWidth = Math.floor((width - gap) / 2);
+      const cellHeight = Math.floor((height - gap) / 2);
+      const right = width - cellWidth;
+      const bottom = height - cellHeight;
+      return [
+        { x: 0, y: 0, width: cellWidth, height: cellHeight },
+        { x: right, y: 0, width: cellWidth, height: cellHeight },
+        { x: 0, y: bottom, width: cellWidth, height: cellHeight },
+        { x: right, y: bottom, width: cellWidth, height: cellHeight },
+      ];
+    }
+  }
+};
+
+/**
+ * Sort comparator for the order layers take slots in: `order`, then
+ * insertion
+ */
+export const compareSlotOrder = (a: OrderedLayer, b: OrderedLayer): number =>
+  (a.options.order ?? a.index) - (b.options.order ?? b.index) ||
+  a.index - b.index;
+
+/**
+ * Sort comparator for the order layers are painted in, bottom first:
+ * `zIndex`, else the slot, then insertion
+ */
+export const compareDrawOrder = (a: OrderedLayer, b: OrderedLayer): number =>
+  (a.options.zIndex ?? a.slot) - (b.options.zIndex ?? b.slot) ||
+  a.index - b.index;
+
+/**
+ * How opaque a layer is drawn while its slot fades by `placementAlpha`
+ */
+export const layerAlpha = (
+  placementAlpha: number,
+  { opacity = 1 }: LayerOptions,
+): number => placementAlpha * clamp(opacity, 0, 1);
+
+export const lerpRect = (
+  from: LayoutRect,
+  to: LayoutRect,
+  t: number,
+): LayoutRect => ({
+  x: from.x + (to.x - from.x) * t,
+  y: from.y + (to.y - from.y) * t,
+  width: from.width + (to.width - from.width) * t,
+  height: from.height + (to.height - from.height) * t,
+});
+
+/**
+ * The source region a crop selects, in source pixels. Out-of-range crops are
+ * clamped to the frame.
+ */
+export const resolveCrop = (
+  sourceWidth: number,
+  sourceHeight: number,
+  crop?: CropRect,
+): LayoutRect => {
+  if (!crop) return { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+
+  const x = clamp(crop.x, 0, 1);
+  const y = clamp(crop.y, 0, 1);
+  const width = clamp(crop.width, 0, 1 - x);
+  const height = clamp(crop.height, 0, 1 - y);
+  return {
+    x: x * sourceWidth,
+    y: y * sourceHeight,
+    width: width * sourceWidth,
+    height: height * sourceHeight,
+  };
+};
+
+/**
+ * Letterbox a `width` x `height` image into a slot, centred
+ */
+export const containRect = (
+  width: number,
+  height: number,
+  slot: LayoutRect,
+): LayoutRect => {
+  const scale = Math.min(slot.width / width, slot.height / height);
+  const w = Math.floor(width * scale);
+  const h = Math.floor(height * scale);
+  return {
+    x: Math.floor(slot.x + (slot.width - w) / 2),
+    y: Math.floor(slot.y + (slot.height - h) / 2),
+    width: w,
+    height: h,
+  };
+};
+
+/**
+ * Where a `sourceWidth` x `sourceHeight` frame is read from and drawn to in
+ * a slot: the crop is applied first, then the focus window, then the fit.
+ * With "cover", the overflow is cropped around the focus point.
+ */
+export const computeFraming = (
+  sourceWidth: number,
+  sourceHeight: number,
+  slot: LayoutRect,
+  { fit = "contain", crop, focus }: SourceFraming = {},
+): { source: LayoutRect; dest: LayoutRect } => {
+  let region = resolveCrop(sourceWidth, sourceHeight, crop);
+  const centerX = focus
+    ? focus.x * sourceWidth
+    : region.x + region.width / 2;
+  const centerY = focus
+    ? focus.y * sourceHeight
+    : region.y + region.height / 2;
+
+  // A window centred on `centerX`, `centerY`, kept inside the region
+  const windowAround = (width: number, height: number): LayoutRect => ({
+    x: clamp(centerX - width / 2, region.x, region.x + region.width - width),
+    y: clamp(centerY - height / 2, region.y, region.y + region.height - height),
+    width,
+    height,
+  });
+
+  const zoom = Math.max(1, focus?.zoom ?? 1);
+  if (zoom > 1) {
+    region = windowAround(region.width / zoom, region.height / zoom);
+  }
+
+  switch (fit) {
+    case "stretch":
+      return { source: region, dest: slot };
+    case "cover": {
+      const scale = Math.max(
+        slot.width / region.width,
+        slot.height / region.height,
+      );
+      return {
+        source: windowAround(slot.width / scale, slot.height / scale),
+        dest: slot,
+      };
+    }
+    case "contain":
+      return {
+        source: region,
+        dest: containRect(region.width, region.height, slot),
+      };
+  }
+};
@@ -0,0 +1,43 @@
+import type { FaceDetector } from '../types';
+
+// The Shape Detection API is not in the DOM typings yet
+interface NativeFaceDetector {
+  detect(
+    image: HTMLVideoElement,
+  ): Promise<Array<{ boundingBox: DOMRectReadOnly }>>;
+}
+
+type NativeFaceDetectorConstructor = new (options?: {
+  fastMode?: boolean;
+  maxDetectedFaces?: number;
+}) => NativeFaceDetector;
+
+/**
+ * Face detection through the browser's Shape Detection API. Chrome ships it
+ * behind the experimental web platform features flag; elsewhere this returns
+ * null and a model of your own can stand in through the `FaceDetector`
+ * interface.
+ */
+export const createBrowserFaceDetector = (
+  maxDetectedFaces = 4,
+): FaceDetector | null => {
+  const Native = (globalThis as { FaceDetector?: NativeFaceDetectorConstructor })
+    .FaceDetector;
+  if (typeof Native !== "function") return null;
+
+  const native = new Native({ fastMode: true, maxDetectedFaces });
+  return {
+    async detect(frame) {
+      const { videoWidth: width, videoHeight: height } = frame;
+      if (!width || !height) return [];
+
+      const faces = await native.detect(frame);
+      return faces.map(({ boundingBox }) => ({
+        x: boundingBox.x / width,
+        y: boundingBox.y / height,
+        width: boundingBox.width / width,
+        height: boundingBox.height / height,
+      }));
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import type { FaceBox, FakeFaceDetector } from '../types';
+
+/**
+ * Scripted stand-in for a face detector, so auto-framing can be driven
+ * without a model or a camera. Every `detect` call returns the faces last
+ * given to `setFaces`.
+ */
+export const createFakeFaceDetector = (
+  initialFaces: FaceBox[] = [],
+): FakeFaceDetector => {
+  let faces = initialFaces;
+  let calls = 0;
+
+  return {
+    async detect() {
+      calls++;
+      return faces.map((face) => ({ ...face }));
+    },
+    setFaces(next) {
+      faces = next;
+    },
+    getCallCount() {
+      return calls;
+    },
+  };
+};
@@ -0,0 +1,44 @@
+import type { SegmentationMask, SegmentationProvider } from '../types';
+
+/**
+ * A centred elliptical foreground, roughly where a seated person is. Pure, so
+ * it doubles as a fixed mask for checking the compositing.
+ */
+export const createEllipseMask = (
+  width: number,
+  height: number,
+  size = 0.7,
+): SegmentationMask => {
+  const data = new Float32Array(width * height);
+  const rx = (width * size) / 2;
+  const ry = (height * size) / 2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const dx = (x + 0.5 - width / 2) / rx;
+      // Anchored to the bottom edge, like shoulders in frame
+      const dy = (y + 0.5 - (height - ry)) / ry;
+      data[y * width + x] = dx * dx + dy * dy <= 1 ? 1 : 0;
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Deterministic stand-in for a segmentation model: every frame gets the same
+ * mask (default: a 64x64 ellipse from `createEllipseMask`)
+ */
+export const createFakeSegmentationProvider = (
+  mask: SegmentationMask = createEllipseMask(64, 64),
+): SegmentationProvider & { getCallCount(): number } => {
+  let calls = 0;
+
+  return {
+    async segment() {
+      calls++;
+      return mask;
+    },
+    getCallCount() {
+      return calls;
+    },
+  };
+};
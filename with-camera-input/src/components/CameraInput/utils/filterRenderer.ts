@@ -0,0 +1,47 @@
+import type { FilterRenderer, VideoFilter } from '../types';
+import { applyVideoFilters } from './videoFilters';
+import { WebGLFilterRenderer } from './webglFilterRenderer';
+
+/**
+ * Filter chain on the CPU through `applyVideoFilters`. Slow at full output
+ * size, but needs only a 2D canvas, so it works in headless test browsers
+ * and anywhere WebGL is off.
+ */
+export class SoftwareFilterRenderer implements FilterRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null = null;
+
+  constructor() {
+    this.canvas = document.createElement("canvas");
+  }
+
+  render(input: HTMLCanvasElement, filters: VideoFilter[]): CanvasImageSource {
+    const { width, height } = input;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.ctx = null;
+    }
+    this.ctx ??= this.canvas.getContext("2d", { willReadFrequently: true });
+    if (!this.ctx) throw new Error("2D canvas unavailable");
+
+    this.ctx.drawImage(input, 0, 0);
+    const image = this.ctx.getImageData(0, 0, width, height);
+    applyVideoFilters(image, filters);
+    this.ctx.putImageData(image, 0, 0);
+    return this.canvas;
+  }
+
+  dispose() {
+    this.canvas.width = 0;
+    this.canvas.height = 0;
+    this.ctx = null;
+  }
+}
+
+/**
+ * The orchestrator's default renderer: WebGL where the browser has it,
+ * software otherwise
+ */
+export const createFilterRenderer = (): FilterRenderer =>
+  WebGLFilterRenderer.create() ?? new SoftwareFilterRenderer();
@@ -1,6 +1,128 @@
-export { audioTrackManager, createSilentAudioTrack } from './audioTrackManager';
-export { streamStabilizer, createStableCanvasStream, logStreamValidation } from './streamStabilizer';
-export { streamComplexityManager } from './streamComplexityManager';
-export { streamOrchestrator, StreamOrchestrator } from './streamOrchestrator';
-export { STREAMING_CONFIG } from './streamingConfig';
+export {
+  STREAMING_CONFIG,
+  STREAMING_CORE_VERSION,
+  OUTPUT_PROFILES,
+  DEFAULT_OUTPUT_PROFILE,
+  resolveOutputProfile,
+  replaceStreamTrack,
+  recaptureCanvasTrack,
+  audioTrackManager,
+  createSilentAudioTrack,
+  streamStabilizer,
+  createStableCanvasStream,
+  logStreamValidation,
+  streamComplexityManager,
+  StreamComplexityManager,
+  measureFrameComplexity,
+  WhipClient,
+  WhipRequestError,
+  ReconnectingPublisher,
+  reconnectDelay,
+  isRetryablePublishError,
+  createFakePublishTransport,
+  WhepClient,
+  DaydreamClient,
+  DaydreamApiError,
+  DaydreamAuthError,
+  DaydreamNotFoundError,
+  DaydreamValidationError,
+  DaydreamRateLimitError,
+  DAYDREAM_API_URL,
+  DAYDREAM_WHEP_URL,
+  createFakeDaydreamServer,
+  PublisherStatsMonitor,
+  readPublisherStats,
+  computeEncodingParams,
+  applyEncodingParams,
+  isSameEncoding,
+  getVideoSender,
+} from "@daydream-examples/streaming-core";
+export {
+  streamOrchestrator,
+  StreamOrchestrator,
+  MAIN_LAYER_ID,
+} from './streamOrchestrator';
+export { StreamOrchestratorContext } from './orchestratorContext';
+export { AudioMixer } from './audioMixer';
+export { MediaFileSource, classifyMediaFiles } from './mediaFileSource';
+export {
+  applyVideoFilters,
+  createVideoFilter,
+  updateVideoFilter,
+  moveVideoFilter,
+  resolveFilter,
+  parseCubeLut,
+  createIdentityLut,
+  sampleLut,
+} from './videoFilters';
+export { SoftwareFilterRenderer, createFilterRenderer } from './filterRenderer';
+export { WebGLFilterRenderer } from './webglFilterRenderer';
+export {
+  createOverlay,
+  drawOverlay,
+  overlayRect,
+  anchorPosition,
+  isScheduledVisible,
+  fontSize,
+} from './overlays';
+export {
+  computeLayoutSlots,
+  layoutCapacity,
+  compareSlotOrder,
+  compareDrawOrder,
+  layerAlpha,
+  lerpRect,
+  resolveCrop,
+  containRect,
+  computeFraming,
+} from './compositorLayout';
+export { AutoFramer, computeAutoFocus, pickSubject } from './autoFraming';
+export { createBrowserFaceDetector } from './faceDetector';
+export { createFakeFaceDetector } from './fakeFaceDetector';
+export { BackgroundReplacer, maskToAlpha } from './backgroundReplacer';
+export {
+  createSelfieSegmentationProvider,
+  SELFIE_SEGMENTER_MODEL_URL,
+} from './selfieSegmentation';
+export {
+  createFakeSegmentationProvider,
+  createEllipseMask,
+} from './fakeSegmentationProvider';
+export {
+  toDeviceOptions,
+  pickDevice,
+  loadPreferredDevice,
+  savePreferredDevice,
+  loadPreferredFacingMode,
+  savePreferredFacingMode,
+} from './mediaDevices';
+export {
+  videoContentRect,
+  toFramePoint,
+  selectionToRegion,
+  moveRegion,
+  isInRegion,
+  easeRegion,
+} from './screenRegion';
+export {
+  getCaptureTargetSupport,
+  applyCaptureTarget,
+  clearCaptureTarget,
+} from './captureTarget';
+export {
+  readCameraControls,
+  controlsToSettings,
+  toCameraConstraints,
+  loadCameraPresets,
+  saveCameraPresets,
+} from './cameraControls';
+export {
+  TransitionRun,
+  registerTransition,
+  getTransition,
+  getTransitionNames,
+  renderTransition,
+  easings,
+  systemTransitionClock,
+} from './transitions';
 export { cn } from './cn';
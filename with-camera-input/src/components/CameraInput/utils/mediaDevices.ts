@@ -0,0 +1,82 @@
+import type { MediaDeviceOption } from '../types';
+
+const STORAGE_PREFIX = "daydream-examples:device:";
+const FACING_MODE_KEY = "daydream-examples:facing-mode";
+
+const KIND_NAMES: Record<MediaDeviceKind, string> = {
+  videoinput: "Camera",
+  audioinput: "Microphone",
+  audiooutput: "Speaker",
+};
+
+/**
+ * Devices of one kind, labelled. Browsers hide labels until a permission is
+ * granted, so unlabelled devices are numbered instead.
+ */
+export const toDeviceOptions = (
+  devices: Pick<MediaDeviceInfo, "deviceId" | "kind" | "label" | "groupId">[],
+  kind: MediaDeviceKind,
+): MediaDeviceOption[] =>
+  devices
+    .filter((device) => device.kind === kind && device.deviceId !== "")
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `${KIND_NAMES[kind]} ${index + 1}`,
+      groupId: device.groupId,
+    }));
+
+/**
+ * The device to use: `preferredId` while it is plugged in, otherwise the
+ * first one that isn't `excludeId`, e.g. a device that just went away
+ */
+export const pickDevice = (
+  devices: MediaDeviceOption[],
+  preferredId?: string | null,
+  excludeId?: string | null,
+): string | null => {
+  const candidates = devices.filter((device) => device.deviceId !== excludeId);
+  if (preferredId && candidates.some((d) => d.deviceId === preferredId)) {
+    return preferredId;
+  }
+  return candidates[0]?.deviceId ?? null;
+};
+
+const readStorage = (key: string): string | null => {
+  try {
+    return localStorage.getItem(key);
+  } catch {
+    // Storage can be disabled, e.g. in private windows
+    return null;
+  }
+};
+
+const writeStorage = (key: string, value: string | null) => {
+  try {
+    if (value) {
+      localStorage.setItem(key, value);
+    } else {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    // Storage can be disabled, e.g. in private windows
+  }
+};
+
+export const loadPreferredDevice = (kind: MediaDeviceKind): string | null =>
+  readStorage(STORAGE_PREFIX + kind);
+
+export const savePreferredDevice = (
+  kind: MediaDeviceKind,
+  deviceId: string | null,
+) => writeStorage(STORAGE_PREFIX + kind, deviceId);
+
+export const loadPreferredFacingMode = (): "user" | "environment" | null => {
+  const facingMode = readStorage(FACING_MODE_KEY);
+  return facingMode === "user" || facingMode === "environment"
+    ? facingMode
+    : null;
+};
+
+export const savePreferredFacingMode = (
+  facingMode: "user" | "environment" | null,
+) => writeStorage(FACING_MODE_KEY, facingMode);
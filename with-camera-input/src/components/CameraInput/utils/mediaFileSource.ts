@@ -0,0 +1,307 @@
+import type {
+  MediaFileKind,
+  MediaFileOptions,
+  MediaPlaybackState,
+  StreamSource,
+} from '../types';
+
+interface FileLike {
+  name: string;
+  type: string;
+}
+
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|webm|ogv|mov|mkv)$/i;
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|avif|bmp|svg)$/i;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const mediaType = (file: FileLike): "video" | "image" | null => {
+  if (file.type.startsWith("video/") || VIDEO_EXTENSIONS.test(file.name)) return "video";
+  if (file.type.startsWith("image/") || IMAGE_EXTENSIONS.test(file.name)) return "image";
+  return null;
+};
+
+/**
+ * What a set of files plays as: the first video if there is one, otherwise
+ * a still image, or an image sequence in natural name order (frame2 before
+ * frame10). Files that are neither are ignored; returns null when nothing
+ * is left. Pure, so drops can be checked without decoding anything.
+ */
+export const classifyMediaFiles = <T extends FileLike>(
+  files: ArrayLike<T>,
+): { kind: MediaFileKind; files: T[] } | null => {
+  const list = Array.from(files);
+  const video = list.find((file) => mediaType(file) === "video");
+  if (video) return { kind: "video", files: [video] };
+
+  const images = list
+    .filter((file) => mediaType(file) === "image")
+    .sort((a, b) =>
+      a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: "base" }),
+    );
+  if (images.length === 0) return null;
+  return images.length === 1
+    ? { kind: "image", files: images }
+    : { kind: "image-sequence", files: images };
+};
+
+const loadVideo = (url: string, loop: boolean) =>
+  new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.loop = loop;
+    video.preload = "auto";
+    video.addEventListener("loadeddata", () => resolve(video), { once: true });
+    video.addEventListener(
+      "error",
+      () => reject(new Error(video.error?.message || "The video can't be played")),
+      { once: true },
+    );
+    video.src = url;
+  });
+
+const loadImage = async (url: string) => {
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    throw new Error("The image can't be decoded");
+  }
+  return image;
+};
+
+/**
+ * A local video file, still image or image sequence as an orchestrator
+ * source, with play, pause and seek. Videos play as they are; sequences
+ * are drawn frame by frame at `fps` onto a canvas the size of their first
+ * frame. Object URLs made for files are revoked on `destroy`.
+ */
+export class MediaFileSource {
+  readonly kind: MediaFileKind;
+  readonly name: string;
+  private readonly video: HTMLVideoElement | null;
+  private readonly frames: HTMLImageElement[];
+  private readonly canvas: HTMLCanvasElement | null;
+  private readonly ownedUrls: string[];
+  private readonly loop: boolean;
+  private readonly fps: number;
+  // Sequence clock: where playback started from and when
+  private playing = false;
+  private startTime = 0;
+  private startMs = 0;
+  private shownFrame = -1;
+  private animationId: number | null = null;
+  private destroyed = false;
+
+  private constructor(
+    kind: MediaFileKind,
+    name: string,
+    media: { video?: HTMLVideoElement; frames?: HTMLImageElement[] },
+    ownedUrls: string[],
+    { loop = true, fps = 12 }: MediaFileOptions,
+  ) {
+    this.kind = kind;
+    this.name = name;
+    this.video = media.video ?? null;
+    this.frames = media.frames ?? [];
+    this.ownedUrls = ownedUrls;
+    this.loop = loop;
+    this.fps = fps > 0 ? fps : 12;
+
+    if (kind === "image-sequence") {
+      const first = this.frames[0];
+      this.canvas = document.createElement("canvas");
+      this.canvas.width = first.naturalWidth;
+      this.canvas.height = first.naturalHeight;
+      this.drawFrame(0);
+    } else {
+      this.canvas = null;
+    }
+  }
+
+  /**
+   * Open dropped or picked files, as sorted out by `classifyMediaFiles`.
+   * Rejects when none of them can be shown.
+   */
+  static async fromFiles(
+    files: ArrayLike<File>,
+    options: MediaFileOptions = {},
+  ): Promise<MediaFileSource> {
+    const media = classifyMediaFiles(files);
+    if (!media) throw new Error("Drop a video or one or more images");
+
+    const urls = media.files.map((file) => URL.createObjectURL(file));
+    const name =
+      media.kind === "image-sequence"
+        ? `${media.files[0].name} (+${media.files.length - 1})`
+        : media.files[0].name;
+    try {
+      return await MediaFileSource.open(media.kind, name, urls, urls, options);
+    } catch (error) {
+      urls.forEach((url) => URL.revokeObjectURL(url));
+      throw error;
+    }
+  }
+
+  /**
+   * Open media by URL, e.g. fixtures served next to a regression test
+   */
+  static fromUrls(
+    kind: MediaFileKind,
+    urls: string[],
+    options: MediaFileOptions = {},
+  ): Promise<MediaFileSource> {
+    if (urls.length === 0) return Promise.reject(new Error("No URLs to open"));
+    return MediaFileSource.open(kind, urls[0].split("/").pop() ?? urls[0], urls, [], options);
+  }
+
+  private static async open(
+    kind: MediaFileKind,
+    name: string,
+    urls: string[],
+    ownedUrls: string[],
+    options: MediaFileOptions,
+  ): Promise<MediaFileSource> {
+    if (kind === "video") {
+      const video = await loadVideo(urls[0], options.loop ?? true);
+      return new MediaFileSource(kind, name, { video }, ownedUrls, options);
+    }
+    const frames = await Promise.all(
+      (kind === "image" ? urls.slice(0, 1) : urls).map(loadImage),
+    );
+    return new MediaFileSource(kind, name, { frames }, ownedUrls, options);
+  }
+
+  getSource(): StreamSource {
+    if (this.video) {
+      return { kind: "video", element: this.video, contentHint: "motion" };
+    }
+    if (this.canvas) {
+      return { kind: "canvas", element: this.canvas, contentHint: "motion" };
+    }
+    return { kind: "image", element: this.frames[0], contentHint: "detail" };
+  }
+
+  /**
+   * The element showing the media, e.g. for a preview
+   */
+  getElement(): HTMLVideoElement | HTMLCanvasElement | HTMLImageElement {
+    return this.video ?? this.canvas ?? this.frames[0];
+  }
+
+  async play(): Promise<void> {
+    if (this.destroyed) return;
+    if (this.video) {
+      await this.video.play();
+      return;
+    }
+    if (!this.canvas || this.playing) return;
+
+    // Playing from the end starts over, as a video does
+    const time = this.getCurrentTime();
+    this.startTime = !this.loop && time >= this.getDuration() ? 0 : time;
+    this.startMs = performance.now();
+    this.playing = true;
+
+    const tick = () => {
+      this.update();
+      this.animationId = this.playing ? requestAnimationFrame(tick) : null;
+    };
+    this.animationId = requestAnimationFrame(tick);
+  }
+
+  pause() {
+    if (this.video) {
+      this.video.pause();
+      return;
+    }
+    if (!this.playing) return;
+    this.startTime = this.getCurrentTime();
+    this.playing = false;
+    if (this.animationId !== null) {
+      cancelAnimationFrame(this.animationId);
+      this.animationId = null;
+    }
+  }
+
+  /**
+   * Jump to `seconds`, keeping the current play state
+   */
+  seek(seconds: number) {
+    const time = clamp(seconds, 0, this.getDuration());
+    if (this.video) {
+      this.video.currentTime = time;
+      return;
+    }
+    this.startTime = time;
+    this.startMs = performance.now();
+    this.update();
+  }
+
+  getCurrentTime(): number {
+    if (this.video) return this.video.currentTime;
+    if (!this.canvas) return 0;
+
+    const duration = this.getDuration();
+    const time = this.playing
+      ? this.startTime + (performance.now() - this.startMs) / 1000
+      : this.startTime;
+    return this.loop ? time % duration : Math.min(time, duration);
+  }
+
+  getDuration(): number {
+    if (this.video) {
+      return Number.isFinite(this.video.duration) ? this.video.duration : 0;
+    }
+    return this.canvas ? this.frames.length / this.fps : 0;
+  }
+
+  getPlaybackState(): MediaPlaybackState {
+    return {
+      isPlaying: this.video
+        ? !this.video.paused && !this.video.ended
+        : this.playing,
+      currentTime: this.getCurrentTime(),
+      duration: this.getDuration(),
+    };
+  }
+
+  /**
+   * Stop for good and release the files. The source shows nothing
+   * afterwards, so transition away from it first.
+   */
+  destroy() {
+    if (this.destroyed) return;
+    this.pause();
+    this.destroyed = true;
+    if (this.video) {
+      this.video.removeAttribute("src");
+      this.video.load();
+    }
+    this.ownedUrls.forEach((url) => URL.revokeObjectURL(url));
+  }
+
+  private update() {
+    const time = this.getCurrentTime();
+    if (!this.loop && this.playing && time >= this.getDuration()) {
+      this.pause();
+    }
+    this.drawFrame(
+      Math.min(Math.floor(time * this.fps), this.frames.length - 1),
+    );
+  }
+
+  private drawFrame(index: number) {
+    if (!this.canvas || index === this.shownFrame) return;
+    const ctx = this.canvas.getContext("2d");
+    const frame = this.frames[index];
+    if (!ctx || !frame) return;
+
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.drawImage(frame, 0, 0, this.canvas.width, this.canvas.height);
+    this.shownFrame = index;
+  }
+}
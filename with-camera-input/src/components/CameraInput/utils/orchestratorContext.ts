@@ -0,0 +1,8 @@
+import { createContext } from "react";
+import type { StreamOrchestrator } from './streamOrchestrator';
+
+/**
+ * The orchestrator of the nearest `StreamOrchestratorProvider`, or null
+ * outside one
+ */
+export const StreamOrchestratorContext = createContext<StreamOrchestrator | null>(null);
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type {
+  LayoutRect,
+  Overlay,
+  OverlayAnchor,
+  OverlaySchedule,
+} from '../types';
+import {
+  anchorPosition,
+  createOverlay,
+  fontSize,
+  isScheduledVisible,
+  overlayRect,
+} from './overlays';
+
+type Point = { x: number; y: number };
+
+const FRAME = { width: 1280, height: 720 };
+const BOX = { width: 200, height: 100 };
+
+/** Measures every character as 10px wide */
+const ctx = {
+  font: "",
+  measureText: (text: string) => ({ width: text.length * 10 }),
+} as unknown as CanvasRenderingContext2D;
+
+/** A stand-in image of the given size; canvases are read by `width`/`height` */
+const image = (width: number, height: number) =>
+  ({ width, height }) as HTMLCanvasElement;
+
+describe("anchorPosition", () => {
+  // The default safe area insets every anchor by 5%: 64px across, 36px down
+  it.each<[OverlayAnchor, Point]>([
+    ["top-left", { x: 64, y: 36 }],
+    ["top", { x: 540, y: 36 }],
+    ["top-right", { x: 1016, y: 36 }],
+    ["left", { x: 64, y: 310 }],
+    ["center", { x: 540, y: 310 }],
+    ["right", { x: 1016, y: 310 }],
+    ["bottom-left", { x: 64, y: 584 }],
+    ["bottom", { x: 540, y: 584 }],
+    ["bottom-right", { x: 1016, y: 584 }],
+  ])("places a box at %s", (anchor, expected) => {
+    expect(anchorPosition(anchor, BOX, FRAME)).toEqual(expected);
+  });
+
+  it.each<[string, OverlayAnchor, number, Point, Point]>([
+    ["flush with no safe area", "bottom-right", 0, { x: 0, y: 0 }, { x: 1080, y: 620 }],
+    ["further in with a wider safe area", "top-left", 0.1, { x: 0, y: 0 }, { x: 128, y: 72 }],
+    ["shifted by the offset", "top-left", 0.05, { x: 10, y: -5 }, { x: 74, y: 31 }],
+    ["offset from the centre", "center", 0.05, { x: -40, y: 20 }, { x: 500, y: 330 }],
+  ])("places a box %s", (_, anchor, safeArea, offset, expected) => {
+    expect(anchorPosition(anchor, BOX, FRAME, safeArea, offset)).toEqual(
+      expected,
+    );
+  });
+});
+
+describe("overlayRect", () => {
+  beforeEach(() => {
+    vi.stubGlobal("HTMLImageElement", class {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const shape = { id: "box", type: "shape", shape: "rect", width: 200, height: 100 } as const;
+
+  it.each<[string, Overlay, LayoutRect | null]>([
+    ["a shape at the top-left by default", shape, { x: 64, y: 36, width: 200, height: 100 }],
+    [
+      "a shape at its anchor",
+      { ...shape, anchor: "bottom-right" },
+      { x: 1016, y: 584, width: 200, height: 100 },
+    ],
+    [
+      "an image at its own size",
+      { id: "logo", type: "image", image: image(160, 80), anchor: "top-right" },
+      { x: 1056, y: 36, width: 160, height: 80 },
+    ],
+    [
+      "an image scaled to a width",
+      { id: "logo", type: "image", image: image(400, 200), width: 100 },
+      { x: 64, y: 36, width: 100, height: 50 },
+    ],
+    [
+      "an image scaled to a height",
+      { id: "logo", type: "image", image: image(400, 200), height: 60 },
+      { x: 64, y: 36, width: 120, height: 60 },
+    ],
+    [
+      "nothing for an image without a size",
+      { id: "logo", type: "image", image: image(0, 0) },
+      null,
+    ],
+    [
+      "a line of text",
+      { id: "title", type: "text", text: "Hello", font: "bold 20px sans-serif" },
+      { x: 64, y: 36, width: 50, height: 24 },
+    ],
+    [
+      "text padded inside its background",
+      {
+        id: "title",
+        type: "text",
+        text: "Hello",
+        font: "bold 20px sans-serif",
+        background: "#000000",
+      },
+      { x: 64, y: 36, width: 66, height: 40 },
+    ],
+    [
+      "text over several lines, as wide as the longest",
+      {
+        id: "title",
+        type: "text",
+        text: "ab\ncdef",
+        font: "bold 20px sans-serif",
+        anchor: "bottom",
+      },
+      { x: 620, y: 636, width: 40, height: 48 },
+    ],
+  ])("fits %s", (_, overlay, expected) => {
+    expect(overlayRect(ctx, overlay, FRAME)).toEqual(expected);
+  });
+
+  it("sizes a timestamp by its formatted text", () => {
+    const date = new Date(2026, 0, 2, 3, 4, 5);
+    const overlay: Overlay = {
+      id: "clock",
+      type: "timestamp",
+      format: (d) => `${d.getHours()}:${d.getMinutes()}`,
+      font: "10px monospace",
+    };
+
+    expect(overlayRect(ctx, overlay, FRAME, date)).toEqual({
+      x: 64,
+      y: 36,
+      width: 30,
+      height: 12,
+    });
+  });
+});
+
+describe("isScheduledVisible", () => {
+  const every = (everyMs: number, visibleMs: number) => ({ everyMs, visibleMs });
+
+  it.each<[string, OverlaySchedule | undefined, number, boolean]>([
+    ["without a schedule", undefined, 0, true],
+    ["before the delay", { delayMs: 1000 }, 999, false],
+    ["once the delay is over", { delayMs: 1000 }, 1000, true],
+    ["within the duration", { durationMs: 2000 }, 1999, true],
+    ["after the duration", { durationMs: 2000 }, 2000, false],
+    ["before a delayed duration", { delayMs: 500, durationMs: 1000 }, 400, false],
+    ["at the start of a delayed duration", { delayMs: 500, durationMs: 1000 }, 500, true],
+    ["near the end of a delayed duration", { delayMs: 500, durationMs: 1000 }, 1499, true],
+    ["after a delayed duration", { delayMs: 500, durationMs: 1000 }, 1500, false],
+    ["at the start of a repeat", { repeat: every(1000, 250) }, 0, true],
+    ["near the end of a repeat's visible part", { repeat: every(1000, 250) }, 249, true],
+    ["in a repeat's hidden part", { repeat: every(1000, 250) }, 250, false],
+    ["at the end of a repeat", { repeat: every(1000, 250) }, 999, false],
+    ["in the next repeat", { repeat: every(1000, 250) }, 1249, true],
+    ["in the first delayed repeat", { delayMs: 1000, repeat: every(1000, 500) }, 1400, true],
+    ["in a delayed repeat's hidden part", { delayMs: 1000, repeat: every(1000, 500) }, 1600, false],
+    ["in the second delayed repeat", { delayMs: 1000, repeat: every(1000, 500) }, 2100, true],
+    ["in a repeat within the duration", { durationMs: 2500, repeat: every(1000, 500) }, 2100, true],
+    ["in a repeat after the duration", { durationMs: 2500, repeat: every(1000, 500) }, 2600, false],
+    ["with a repeat that never cycles", { repeat: every(0, 0) }, 5000, true],
+  ])("tells whether an overlay shows %s", (_, schedule, elapsedMs, expected) => {
+    expect(isScheduledVisible(schedule, elapsedMs)).toBe(expected);
+  });
+});
+
+describe("fontSize", () => {
+  it.each([
+    ["bold 32px sans-serif", 32],
+    ["12.5px Inter", 12.5],
+    ["italic 48px/1.2 serif", 48],
+    ["large serif", 32],
+  ])("reads %s as %dpx", (font, expected) => {
+    expect(fontSize(font)).toBe(expected);
+  });
+});
+
+describe("createOverlay", () => {
+  it("gives each overlay a fresh id unless one is set", () => {
+    const a = createOverlay({ type: "text", text: "a" });
+    const b = createOverlay({ type: "text", text: "b" });
+    const named = createOverlay({ id: "title", type: "text", text: "c" });
+
+    expect(a.id).not.toBe(b.id);
+    expect(named.id).toBe("title");
+  });
+});
@@ -0,0 +1,275 @@
+import type {
+  LayoutRect,
+  Overlay,
+  OverlayAnchor,
+  OverlaySchedule,
+  OverlayTextStyle,
+} from '../types';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+export type OverlayInit = DistributiveOmit<Overlay, "id"> & { id?: string };
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+const DEFAULT_FONT = "bold 32px sans-serif";
+
+let nextOverlayId = 0;
+
+/**
+ * An overlay, with a fresh id unless one is given
+ */
+export const createOverlay = (init: OverlayInit): Overlay =>
+  ({ ...init, id: init.id ?? `overlay-${++nextOverlayId}` }) as Overlay;
+
+/**
+ * Top-left corner of a `size` box at `anchor` in `frame`, inset by
+ * `safeArea` (a fraction of the frame) and shifted by `offset`
+ */
+export const anchorPosition = (
+  anchor: OverlayAnchor,
+  size: Size,
+  frame: Size,
+  safeArea = 0.05,
+  offset = { x: 0, y: 0 },
+): { x: number; y: number } => {
+  const insetX = frame.width * safeArea;
+  const insetY = frame.height * safeArea;
+  const column = anchor.endsWith("left") ? 0 : anchor.endsWith("right") ? 2 : 1;
+  const row = anchor.startsWith("top") ? 0 : anchor.startsWith("bottom") ? 2 : 1;
+
+  const place = (cell: number, inset: number, extent: number, box: number) =>
+    cell === 0
+      ? inset
+      : cell === 2
+        ? extent - inset - box
+        : (extent - box) / 2;
+
+  return {
+    x: place(column, insetX, frame.width, size.width) + offset.x,
+    y: place(row, insetY, frame.height, size.height) + offset.y,
+  };
+};
+
+/**
+ * Whether `schedule` shows its overlay `elapsedMs` after it was added
+ */
+export const isScheduledVisible = (
+  schedule: OverlaySchedule | undefined,
+  elapsedMs: number,
+): boolean => {
+  if (!schedule) return true;
+  const since = elapsedMs - (schedule.delayMs ?? 0);
+  if (since < 0) return false;
+  if (schedule.durationMs !== undefined && since >= schedule.durationMs) {
+    return false;
+  }
+  const repeat = schedule.repeat;
+  if (!repeat || repeat.everyMs <= 0) return true;
+  return since % repeat.everyMs < repeat.visibleMs;
+};
+
+/**
+ * Pixel size of a CSS font, e.g. 32 for "bold 32px sans-serif"
+ */
+export const fontSize = (font: string): number => {
+  const match = /(\d+(?:\.\d+)?)px/.exec(font);
+  return match ? Number(match[1]) : 32;
+};
+
+type TextOverlay = Extract<Overlay, { type: "text" | "timestamp" }>;
+
+const overlayText = (overlay: TextOverlay, date: Date): string => {
+  if (overlay.type === "text") return overlay.text;
+  return overlay.format ? overlay.format(date) : date.toLocaleTimeString();
+};
+
+const imageSize = (image: HTMLImageElement | ImageBitmap | HTMLCanvasElement) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+const measureText = (
+  ctx: CanvasRenderingContext2D,
+  lines: string[],
+  style: OverlayTextStyle,
+) => {
+  const size = fontSize(style.font ?? DEFAULT_FONT);
+  const lineHeight = size * (style.lineHeight ?? 1.2);
+  const padding = style.padding ?? (style.background ? 8 : 0);
+  ctx.font = style.font ?? DEFAULT_FONT;
+  const textWidth = Math.max(0, ...lines.map((line) => ctx.measureText(line).width));
+  return {
+    lineHeight,
+    padding,
+    width: textWidth + padding * 2,
+    height: lines.length * lineHeight + padding * 2,
+  };
+};
+
+/**
+ * Where `overlay` lands in `frame`, or null when it has nothing to show
+ * (e.g. an image that has not loaded)
+ */
+export const overlayRect = (
+  ctx: CanvasRenderingContext2D,
+  overlay: Overlay,
+  frame: Size,
+  date = new Date(),
+): LayoutRect | null => {
+  let size: Size;
+  if (overlay.type === "text" || overlay.type === "timestamp") {
+    const { width, height } = measureText(
+      ctx,
+      overlayText(overlay, date).split("\n"),
+      overlay,
+    );
+    size = { width, height };
+  } else if (overlay.type === "image") {
+    const natural = imageSize(overlay.image);
+    if (!natural.width || !natural.height) return null;
+    const aspect = natural.width / natural.height;
+    size = {
+      width: overlay.width ?? (overlay.height ? overlay.height * aspect : natural.width),
+      height: overlay.height ?? (overlay.width ? overlay.width / aspect : natural.height),
+    };
+  } else {
+    size = { width: overlay.width, height: overlay.height };
+  }
+
+  const position = anchorPosition(
+    overlay.anchor ?? "top-left",
+    size,
+    frame,
+    overlay.safeArea,
+    overlay.offset,
+  );
+  return { ...position, ...size };
+};
+
+const drawText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  style: OverlayTextStyle,
+  rect: LayoutRect,
+  anchor: OverlayAnchor,
+) => {
+  const lines = text.split("\n");
+  const { lineHeight, padding } = measureText(ctx, lines, style);
+
+  if (style.background) {
+    ctx.fillStyle = style.background;
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+  }
+
+  // Lines line up on the side the overlay is anchored to
+  const align: CanvasTextAlign = anchor.endsWith("left")
+    ? "left"
+    : anchor.endsWith("right")
+      ? "right"
+      : "center";
+  const x =
+    align === "left"
+      ? rect.x + padding
+      : align === "right"
+        ? rect.x + rect.width - padding
+        : rect.x + rect.width / 2;
+  ctx.textAlign = align;
+  ctx.textBaseline = "middle";
+
+  if (style.shadow) {
+    ctx.shadowColor = style.shadow.color;
+    ctx.shadowBlur = style.shadow.blur ?? 0;
+    ctx.shadowOffsetX = style.shadow.offsetX ?? 0;
+    ctx.shadowOffsetY = style.shadow.offsetY ?? 0;
+  }
+
+  lines.forEach((line, i) => {
+    const y = rect.y + padding + lineHeight * (i + 0.5);
+    if (style.stroke) {
+      ctx.strokeStyle = style.stroke.color;
+      ctx.lineWidth = style.stroke.width;
+      ctx.lineJoin = "round";
+      ctx.strokeText(line, x, y);
+      // One shadow per glyph, under the outline
+      ctx.shadowColor = "transparent";
+    }
+    ctx.fillStyle = style.color ?? "#ffffff";
+    ctx.fillText(line, x, y);
+    if (style.shadow) ctx.shadowColor = style.shadow.color;
+  });
+};
+
+/**
+ * Draw `overlay` into a `frame`-sized context, if it is visible
+ * `elapsedMs` after it was added. Context state is restored afterwards.
+ */
+export const drawOverlay = (
+  ctx: CanvasRenderingContext2D,
+  overlay: Overlay,
+  frame: Size,
+  elapsedMs: number,
+  date = new Date(),
+) => {
+  if (overlay.visible === false || !isScheduledVisible(overlay.schedule, elapsedMs)) {
+    return;
+  }
+
+  ctx.save();
+  try {
+    const rect = overlayRect(ctx, overlay, frame, date);
+    if (!rect) return;
+    ctx.globalAlpha = Math.max(0, Math.min(1, overlay.opacity ?? 1));
+
+    switch (overlay.type) {
+      case "text":
+      case "timestamp":
+        drawText(
+          ctx,
+          overlayText(overlay, date),
+          overlay,
+          rect,
+          overlay.anchor ?? "top-left",
+        );
+        break;
+      case "image":
+        ctx.drawImage(overlay.image, rect.x, rect.y, rect.width, rect.height);
+        break;
+      case "shape": {
+        ctx.beginPath();
+        if (overlay.shape === "ellipse") {
+          ctx.ellipse(
+            rect.x + rect.width / 2,
+            rect.y + rect.height / 2,
+            rect.width / 2,
+            rect.height / 2,
+            0,
+            0,
+            Math.PI * 2,
+          );
+        } else if (overlay.radius && typeof ctx.roundRect === "function") {
+          ctx.roundRect(rect.x, rect.y, rect.width, rect.height, overlay.radius);
+        } else {
+          ctx.rect(rect.x, rect.y, rect.width, rect.height);
+        }
+        if (overlay.fill) {
+          ctx.fillStyle = overlay.fill;
+          ctx.fill();
+        }
+        if (overlay.stroke) {
+          ctx.strokeStyle = overlay.stroke;
+          ctx.lineWidth = overlay.lineWidth ?? 2;
+          ctx.stroke();
+        }
+        break;
+      }
+    }
+  } finally {
+    ctx.restore();
+  }
+};
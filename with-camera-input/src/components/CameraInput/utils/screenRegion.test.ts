@@ -0,0 +1,226 @@
+import { describe, expect, it } from "vitest";
+import type { CropRect, LayoutRect } from '../types';
+import { computeFraming } from './compositorLayout';
+import {
+  easeRegion,
+  isInRegion,
+  moveRegion,
+  selectionToRegion,
+  toFramePoint,
+  videoContentRect,
+} from './screenRegion';
+
+type Point = { x: number; y: number };
+
+const rect = (x: number, y: number, width: number, height: number): LayoutRect => ({
+  x,
+  y,
+  width,
+  height,
+});
+
+const expectRect = (actual: LayoutRect | null, expected: LayoutRect) => {
+  expect(actual).not.toBeNull();
+  expect(actual!.x).toBeCloseTo(expected.x, 6);
+  expect(actual!.y).toBeCloseTo(expected.y, 6);
+  expect(actual!.width).toBeCloseTo(expected.width, 6);
+  expect(actual!.height).toBeCloseTo(expected.height, 6);
+};
+
+/** A 1080p screen share in an 800 x 600 preview, letterboxed top and bottom */
+const VIDEO = { width: 1920, height: 1080 };
+const BOX = { width: 800, height: 600 };
+const CONTENT = rect(0, 75, 800, 450);
+const WIDESCREEN = { frameAspect: 16 / 9 };
+
+describe("videoContentRect", () => {
+  it.each<[string, number, number, LayoutRect]>([
+    ["a landscape frame between bars", 1920, 1080, CONTENT],
+    ["a portrait frame between side bars", 1080, 1920, rect(231, 0, 337, 600)],
+    ["the whole box before the first frame", 0, 0, rect(0, 0, 800, 600)],
+  ])("finds %s", (_, videoWidth, videoHeight, expected) => {
+    expect(
+      videoContentRect(BOX.width, BOX.height, videoWidth, videoHeight),
+    ).toEqual(expected);
+  });
+});
+
+describe("toFramePoint", () => {
+  it.each<[string, Point, Point]>([
+    ["the frame's top-left corner", { x: 0, y: 75 }, { x: 0, y: 0 }],
+    ["the frame's centre", { x: 400, y: 300 }, { x: 0.5, y: 0.5 }],
+    ["the frame's bottom-right corner", { x: 800, y: 525 }, { x: 1, y: 1 }],
+    ["a point a quarter in", { x: 200, y: 187.5 }, { x: 0.25, y: 0.25 }],
+    ["a point on the top bar, clamped", { x: -20, y: 10 }, { x: 0, y: 0 }],
+    ["a point on the bottom bar, clamped", { x: 900, y: 590 }, { x: 1, y: 1 }],
+  ])("maps %s", (_, point, expected) => {
+    expect(toFramePoint(point, CONTENT)).toEqual(expected);
+  });
+
+  it("maps every point to the origin of an empty frame", () => {
+    expect(toFramePoint({ x: 10, y: 10 }, rect(0, 0, 0, 0))).toEqual({
+      x: 0,
+      y: 0,
+    });
+  });
+});
+
+describe("selectionToRegion", () => {
+  it.each<
+    [string, Point, Point, Parameters<typeof selectionToRegion>[2], CropRect]
+  >([
+    [
+      "a drag down and right",
+      { x: 0.1, y: 0.2 },
+      { x: 0.5, y: 0.6 },
+      WIDESCREEN,
+      rect(0.1, 0.2, 0.4, 0.4),
+    ],
+    [
+      "a drag up and left",
+      { x: 0.5, y: 0.6 },
+      { x: 0.1, y: 0.2 },
+      WIDESCREEN,
+      rect(0.1, 0.2, 0.4, 0.4),
+    ],
+    [
+      "a thin drag with a lower minimum",
+      { x: 0.1, y: 0.1 },
+      { x: 0.12, y: 0.5 },
+      { ...WIDESCREEN, minSize: 0.01 },
+      rect(0.1, 0.1, 0.02, 0.4),
+    ],
+    [
+      "a 16:9 region grown to the drag's larger side",
+      { x: 0.1, y: 0.1 },
+      { x: 0.5, y: 0.2 },
+      { ...WIDESCREEN, aspectRatio: 16 / 9 },
+      rect(0.1, 0.1, 0.4, 0.4),
+    ],
+    [
+      "a square region of a widescreen frame",
+      { x: 0.2, y: 0.2 },
+      { x: 0.4, y: 0.3 },
+      { ...WIDESCREEN, aspectRatio: 1 },
+      rect(0.2, 0.2, 0.2, 0.2 / (9 / 16)),
+    ],
+    [
+      "a fixed-aspect region shrunk back inside the frame",
+      { x: 0.8, y: 0.5 },
+      { x: 1, y: 0.9 },
+      { ...WIDESCREEN, aspectRatio: 16 / 9 },
+      rect(0.8, 0.5, 0.2, 0.2),
+    ],
+  ])("selects %s", (_, start, end, limits, expected) => {
+    expectRect(selectionToRegion(start, end, limits), expected);
+  });
+
+  it.each<[string, Point, Point]>([
+    ["a click", { x: 0.3, y: 0.3 }, { x: 0.3, y: 0.3 }],
+    ["a drag narrower than 5%", { x: 0.1, y: 0.1 }, { x: 0.12, y: 0.5 }],
+    ["a drag shorter than 5%", { x: 0.1, y: 0.1 }, { x: 0.5, y: 0.14 }],
+  ])("ignores %s", (_, start, end) => {
+    expect(selectionToRegion(start, end, WIDESCREEN)).toBeNull();
+  });
+});
+
+describe("moveRegion", () => {
+  const region = rect(0.2, 0.2, 0.5, 0.5);
+
+  it.each<[string, number, number, CropRect]>([
+    ["within the frame", 0.1, 0.1, rect(0.3, 0.3, 0.5, 0.5)],
+    ["up to the right edge", 0.5, 0, rect(0.5, 0.2, 0.5, 0.5)],
+    ["up to the top-left corner", -1, -1, rect(0, 0, 0.5, 0.5)],
+  ])("moves %s", (_, dx, dy, expected) => {
+    expectRect(moveRegion(region, dx, dy), expected);
+  });
+});
+
+describe("isInRegion", () => {
+  const region = rect(0.2, 0.2, 0.5, 0.5);
+
+  it.each<[string, Point, boolean]>([
+    ["the centre", { x: 0.45, y: 0.45 }, true],
+    ["a corner", { x: 0.2, y: 0.7 }, true],
+    ["a point left of it", { x: 0.1, y: 0.45 }, false],
+    ["a point below it", { x: 0.45, y: 0.8 }, false],
+  ])("tells whether %s is inside", (_, point, expected) => {
+    expect(isInRegion(point, region)).toBe(expected);
+  });
+});
+
+describe("easeRegion", () => {
+  const full = rect(0, 0, 1, 1);
+  const target = rect(0.25, 0.25, 0.5, 0.5);
+
+  it.each<[number, CropRect]>([
+    [0, full],
+    [0.5, rect(0.125, 0.125, 0.75, 0.75)],
+    [1, target],
+  ])("steps a fraction of %d of the way", (smoothing, expected) => {
+    expectRect(easeRegion(full, target, smoothing), expected);
+  });
+
+  it("snaps to the target once within a thousandth", () => {
+    expect(easeRegion(rect(0.2505, 0.25, 0.5, 0.5), target, 0.5)).toEqual(
+      target,
+    );
+  });
+
+  it("arrives exactly in a bounded number of steps", () => {
+    const steps: CropRect[] = [full];
+    while (steps.length < 30 && steps.at(-1)!.x !== target.x) {
+      steps.push(easeRegion(steps.at(-1)!, target, 0.3));
+    }
+
+    expect(steps.length).toBeLessThan(30);
+    expect(steps.at(-1)).toEqual(target);
+  });
+});
+
+describe("region to crop", () => {
+  // A drag over the preview, in preview pixels, becomes the crop the
+  // published layer reads from, in screen pixels
+  it.each<[string, Point, Point, LayoutRect]>([
+    [
+      "the centre quarter",
+      { x: 200, y: 187.5 },
+      { x: 600, y: 412.5 },
+      rect(480, 270, 960, 540),
+    ],
+    [
+      "the top-left quarter, from the bar above the frame",
+      { x: 0, y: 0 },
+      { x: 400, y: 300 },
+      rect(0, 0, 960, 540),
+    ],
+    [
+      "the bottom-right quarter, dragged backwards",
+      { x: 800, y: 600 },
+      { x: 400, y: 300 },
+      rect(960, 540, 960, 540),
+    ],
+  ])("crops %s", (_, from, to, expected) => {
+    const content = videoContentRect(
+      BOX.width,
+      BOX.height,
+      VIDEO.width,
+      VIDEO.height,
+    );
+    const crop = selectionToRegion(
+      toFramePoint(from, content),
+      toFramePoint(to, content),
+      { frameAspect: content.width / content.height },
+    );
+
+    const { source, dest } = computeFraming(
+      VIDEO.width,
+      VIDEO.height,
+      rect(0, 0, 1280, 720),
+      { crop: crop ?? undefined },
+    );
+
+    expectRect(source, expected);
+    expect(dest).toEqual(rect(0, 0, 1280, 720));
+  });
+});
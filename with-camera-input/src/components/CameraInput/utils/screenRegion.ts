@@ -0,0 +1,123 @@
+import type { CropRect, LayoutRect } from '../types';
+import { containRect, lerpRect } from './compositorLayout';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+interface RegionLimits {
+  /** Width / height of the frame in px */
+  frameAspect: number;
+  aspectRatio?: number;
+  minSize?: number;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+/**
+ * Where a `videoWidth` x `videoHeight` frame shows inside a
+ * `boxWidth` x `boxHeight` element with `object-fit: contain`
+ */
+export const videoContentRect = (
+  boxWidth: number,
+  boxHeight: number,
+  videoWidth: number,
+  videoHeight: number,
+): LayoutRect =>
+  videoWidth > 0 && videoHeight > 0
+    ? containRect(videoWidth, videoHeight, {
+        x: 0,
+        y: 0,
+        width: boxWidth,
+        height: boxHeight,
+      })
+    : { x: 0, y: 0, width: boxWidth, height: boxHeight };
+
+/**
+ * A point in element pixels as fractions of the frame shown in `content`,
+ * clamped to the frame
+ */
+export const toFramePoint = (point: Point, content: LayoutRect): Point => ({
+  x: content.width > 0 ? clamp((point.x - content.x) / content.width, 0, 1) : 0,
+  y: content.height > 0 ? clamp((point.y - content.y) / content.height, 0, 1) : 0,
+});
+
+/**
+ * The region dragged out from `start` to `end`, both as fractions of the
+ * frame. With an `aspectRatio` the region grows to the larger side of the
+ * drag and shrinks back if that runs off the frame, staying anchored at
+ * `start`. Returns null for drags smaller than `minSize`. Pure, so pointer
+ * traces can be replayed.
+ */
+export const selectionToRegion = (
+  start: Point,
+  end: Point,
+  { frameAspect, aspectRatio, minSize = 0.05 }: RegionLimits,
+): CropRect | null => {
+  const dirX = end.x < start.x ? -1 : 1;
+  const dirY = end.y < start.y ? -1 : 1;
+  let width = Math.abs(end.x - start.x);
+  let height = Math.abs(end.y - start.y);
+
+  if (aspectRatio && aspectRatio > 0 && frameAspect > 0) {
+    // Frame fractions per unit of the other side that keep the pixel aspect
+    const widthPerHeight = aspectRatio / frameAspect;
+    height = Math.max(height, width / widthPerHeight);
+    width = height * widthPerHeight;
+
+    const roomX = dirX > 0 ? 1 - start.x : start.x;
+    const roomY = dirY > 0 ? 1 - start.y : start.y;
+    const scale = Math.min(1, roomX / width || 0, roomY / height || 0);
+    width *= scale;
+    height *= scale;
+  }
+
+  if (width < minSize || height < minSize) return null;
+
+  return {
+    x: clamp(dirX > 0 ? start.x : start.x - width, 0, 1 - width),
+    y: clamp(dirY > 0 ? start.y : start.y - height, 0, 1 - height),
+    width,
+    height,
+  };
+};
+
+/**
+ * `region` moved by `dx`, `dy` (fractions of the frame), kept inside the frame
+ */
+export const moveRegion = (
+  region: CropRect,
+  dx: number,
+  dy: number,
+): CropRect => ({
+  ...region,
+  x: clamp(region.x + dx, 0, 1 - region.width),
+  y: clamp(region.y + dy, 0, 1 - region.height),
+});
+
+export const isInRegion = (point: Point, region: CropRect): boolean =>
+  point.x >= region.x &&
+  point.x <= region.x + region.width &&
+  point.y >= region.y &&
+  point.y <= region.y + region.height;
+
+/**
+ * One step of `current` easing towards `target`, snapping once the
+ * remaining distance is under a thousandth of the frame
+ */
+export const easeRegion = (
+  current: CropRect,
+  target: CropRect,
+  smoothing: number,
+): CropRect => {
+  const next = lerpRect(current, target, clamp(smoothing, 0, 1));
+  const remaining = Math.max(
+    Math.abs(target.x - next.x),
+    Math.abs(target.y - next.y),
+    Math.abs(target.width - next.width),
+    Math.abs(target.height - next.height),
+  );
+  return remaining < 0.001 ? { ...target } : next;
+};
@@ -0,0 +1,61 @@
+import wasmLoaderPath from "@mediapipe/tasks-vision/vision_wasm_internal.js?url";
+import wasmBinaryPath from "@mediapipe/tasks-vision/vision_wasm_internal.wasm?url";
+import type {
+  SegmentationProvider,
+  SelfieSegmentationOptions,
+} from '../types';
+
+export const SELFIE_SEGMENTER_MODEL_URL =
+  "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite";
+
+/**
+ * Person segmentation with MediaPipe's selfie segmenter. Resolves once the
+ * model is loaded, and rejects where it cannot be fetched or run. The wasm
+ * runtime is bundled with the app, so it always matches the package.
+ */
+export const createSelfieSegmentationProvider = async ({
+  modelAssetPath = SELFIE_SEGMENTER_MODEL_URL,
+  delegate = "GPU",
+}: SelfieSegmentationOptions = {}): Promise<SegmentationProvider> => {
+  // Split out of the main bundle until a background is used
+  const { ImageSegmenter } = await import("@mediapipe/tasks-vision");
+  const segmenter = await ImageSegmenter.createFromOptions(
+    { wasmLoaderPath, wasmBinaryPath },
+    {
+      baseOptions: { modelAssetPath, delegate },
+      runningMode: "VIDEO",
+      outputConfidenceMasks: true,
+      outputCategoryMask: false,
+    },
+  );
+  // Video mode needs strictly increasing timestamps
+  let lastTimestamp = -1;
+
+  return {
+    async segment(frame) {
+      if (!frame.videoWidth || !frame.videoHeight) {
+        return { width: 0, height: 0, data: new Float32Array(0) };
+      }
+
+      lastTimestamp = Math.max(performance.now(), lastTimestamp + 1);
+      const result = segmenter.segmentForVideo(frame, lastTimestamp);
+      try {
+        // The person is the last category, whether or not the model also
+        // reports the background
+        const mask = result.confidenceMasks?.at(-1);
+        if (!mask) throw new Error("The segmenter returned no mask");
+        return {
+          width: mask.width,
+          height: mask.height,
+          // Copied, since closing the result frees the mask's memory
+          data: new Float32Array(mask.getAsFloat32Array()),
+        };
+      } finally {
+        result.close();
+      }
+    },
+    dispose() {
+      segmenter.close();
+    },
+  };
+};
@@ -1,30 +1,157 @@
-import type { StreamSource, BackgroundOptions } from '../types';
-import { createSilentAudioTrack } from './audioTrackManager';
-import { streamComplexityManager } from './streamComplexityManager';
-import { STREAMING_CONFIG } from './streamingConfig';
-import { streamStabilizer } from './streamStabilizer';
+import {
+  STREAMING_CONFIG,
+  StreamComplexityManager,
+  recaptureCanvasTrack,
+  resolveOutputProfile,
+  streamStabilizer,
+} from "@daydream-examples/streaming-core";
+import type {
+  OutputProfile,
+  OutputProfileName,
+  StreamSource,
+  BackgroundOptions,
+  CompositorLayout,
+  FilterRenderer,
+  LayerOptions,
+  LayoutRect,
+  Overlay,
+  StreamOrchestratorOptions,
+  TransitionClock,
+  TransitionEndReason,
+  TransitionSpec,
+  TransitionStep,
+  VideoFilter,
+} from '../types';
+import { AudioMixer } from './audioMixer';
+import {
+  compareDrawOrder,
+  compareSlotOrder,
+  computeLayoutSlots,
+  computeFraming,
+  layerAlpha,
+  layoutCapacity,
+  lerpRect,
+} from './compositorLayout';
+import { createFilterRenderer } from './filterRenderer';
+import { drawOverlay } from './overlays';
+import {
+  TransitionRun,
+  getTransition,
+  systemTransitionClock,
+} from './transitions';
+
+/** Layer that `setSource` replaces */
+export const MAIN_LAYER_ID = "main";
+
+interface LayerPlacement {
+  rect: LayoutRect;
+  alpha: number;
+}
+
+interface Layer {
+  id: string;
+  index: number;
+  source: StreamSource;
+  pendingSource: StreamSource | null;
+  pendingTransition: TransitionSpec;
+  transition: TransitionRun | null;
+  options: LayerOptions;
+  removing: boolean;
+  slot: number;
+  from: LayerPlacement | null;
+  to: LayerPlacement | null;
+}
+
+interface OverlayEntry {
+  overlay: Overlay;
+  index: number;
+  // Clock time the overlay was added, which its schedule counts from
+  addedMs: number;
+}
 
+/**
+ * Size of a source's frames, 0 x 0 until it has one
+ */
+const sourceSize = (source: StreamSource): { width: number; height: number } => {
+  if (source.kind === "video") {
+    return {
+      width: source.element.videoWidth || 0,
+      height: source.element.videoHeight || 0,
+    };
+  }
+  if (source.kind === "image" && source.element instanceof HTMLImageElement) {
+    const image = source.element;
+    return image.complete
+      ? { width: image.naturalWidth, height: image.naturalHeight }
+      : { width: 0, height: 0 };
+  }
+  return { width: source.element.width || 0, height: source.element.height || 0 };
+};
+
+/**
+ * Composites sources into one output canvas and publishes it as a stream.
+ * Instances are independent: each has its own canvas, draw loop,
+ * background timer and complexity monitor.
+ */
 class StreamOrchestrator {
   private outputCanvas: HTMLCanvasElement | null = null;
   private outputCtx: CanvasRenderingContext2D | null = null;
   private outputStream: MediaStream | null = null;
   private animationId: number | null = null;
-  private currentSource: StreamSource | null = null;
-  private pendingSource: StreamSource | null = null;
-  private crossfadeStartMs: number | null = null;
-  private crossfadeDurationMs = 200;
+  private layers = new Map<string, Layer>();
+  private nextLayerIndex = 0;
+  private layout: CompositorLayout = { kind: "single" };
+  private layoutKey = "";
+  private layoutDirty = true;
+  private layoutStartMs: number | null = null;
+  // Layers move between slots with the default crossfade's timing
+  private layoutDurationMs = 200;
+  private clock: TransitionClock;
+  private defaultTransition: TransitionSpec;
+  private onTransitionEnd?: (
+    layerId: string,
+    reason: TransitionEndReason,
+  ) => void;
+  private scratchCanvas: HTMLCanvasElement | null = null;
   private initialized = false;
   private backgroundTimer: ReturnType<typeof setInterval> | null = null;
   private backgroundOptions: BackgroundOptions | null = null;
   private visibilityHandler: (() => void) | null = null;
+  // Monitors one canvas at a time, so each orchestrator has its own
+  private complexityManager = new StreamComplexityManager();
+  // Videos that were playing when the page was hidden; paused ones stay paused
+  private resumeOnShow = new Set<HTMLVideoElement>();
+  private audioMixer: AudioMixer | null = null;
+  private filters: VideoFilter[] = [];
+  private createFilterRenderer: () => FilterRenderer;
+  // Created with the first filter, so unfiltered output never touches WebGL
+  private filterRenderer: FilterRenderer | null = null;
+  private filterFailed = false;
+  private overlays = new Map<string, OverlayEntry>();
+  private nextOverlayIndex = 0;
+  private outputProfile: OutputProfile;
+
+  constructor({
+    clock = systemTransitionClock,
+    defaultTransition = { type: "crossfade" },
+    createFilterRenderer: filterRendererFactory = createFilterRenderer,
+    outputProfile,
+    onTransitionEnd,
+  }: StreamOrchestratorOptions = {}) {
+    this.clock = clock;
+    this.defaultTransition = defaultTransition;
+    this.onTransitionEnd = onTransitionEnd;
+    this.createFilterRenderer = filterRendererFactory;
+    this.outputProfile = resolveOutputProfile(outputProfile);
+  }
 
   private ensureInitialized() {
     if (this.initialized) return;
     if (typeof window === "undefined") return;
 
     const canvas = document.createElement("canvas");
-    canvas.width = STREAMING_CONFIG.WIDTH;
-    canvas.height = STREAMING_CONFIG.HEIGHT;
+    canvas.width = this.outputProfile.width;
+    canvas.height = this.outputProfile.height;
     canvas.style.display = "none";
 
     const ctx = canvas.getContext("2d");
@@ -35,25 +162,11 @@ class StreamOrchestrator {
 
     const stream = canvas.captureStream(STREAMING_CONFIG.FPS);
 
-    const audioTrack = createSilentAudioTrack();
-    stream.addTrack(audioTrack);
+    this.audioMixer = new AudioMixer();
+    stream.addTrack(this.audioMixer.getTrack());
 
-    // Normalize video track constraints/contentHint
     const videoTrack = stream.getVideoTracks()[0];
-    if (videoTrack) {
-      try {
-        if ((videoTrack as any).contentHint !== undefined) {
-          (videoTrack as any).contentHint = "";
-        }
-        videoTrack
-          .applyConstraints({
-            width: { ideal: STREAMING_CONFIG.WIDTH },
-            height: { ideal: STREAMING_CONFIG.HEIGHT },
-            frameRate: { ideal: STREAMING_CONFIG.FPS },
-          })
-          .catch(() => {});
-      } catch (_) {}
-    }
+    if (videoTrack) this.normalizeVideoTrack(videoTrack);
 
     this.outputStream = stream;
     this.initialized = true;
@@ -77,18 +190,89 @@ class StreamOrchestrator {
     return this.outputStream;
   }
 
-  setSource(source: StreamSource) {
+  /**
+   * Publish at another size. The output canvas is resized and captured
+   * again, and the new track takes the old one's place in the same output
+   * stream, so previews and publishers carry on without restarting.
+   */
+  setOutputProfile(profile: OutputProfileName | OutputProfile) {
+    const resolved = resolveOutputProfile(profile);
+    this.outputProfile = resolved;
+
+    const canvas = this.outputCanvas;
+    const stream = this.outputStream;
+    // Before initialization the canvas is simply created at this size
+    if (!canvas || !stream) return;
+    if (canvas.width === resolved.width && canvas.height === resolved.height) {
+      return;
+    }
+
+    canvas.width = resolved.width;
+    canvas.height = resolved.height;
+    const track = recaptureCanvasTrack(canvas, stream, STREAMING_CONFIG.FPS);
+    if (track) this.normalizeVideoTrack(track);
+    this.layoutDirty = true;
+  }
+
+  getOutputProfile(): OutputProfile {
+    return this.outputProfile;
+  }
+
+  /**
+   * Replace the main layer's source, transitioning from the previous one
+   * (default: the orchestrator's default transition)
+   */
+  setSource(source: StreamSource, transition?: TransitionSpec) {
+    this.setLayer(MAIN_LAYER_ID, source, undefined, transition);
+  }
+
+  /**
+   * Add a layer, or transition an existing layer to a new source once the
+   * new source has frames. A layer joins the layout once its source has
+   * frames.
+   */
+  setLayer(
+    id: string,
+    source: StreamSource,
+    options?: LayerOptions,
+    transition: TransitionSpec = this.defaultTransition,
+  ) {
+    if (!getTransition(transition.type)) {
+      throw new Error(`Unknown transition "${transition.type}"`);
+    }
     this.ensureInitialized();
-    this.pendingSource = source;
-    this.crossfadeStartMs = null;
+
+    const layer = this.layers.get(id);
+    if (layer && !layer.removing) {
+      if (this.isSourceReady(layer.source)) {
+        layer.pendingSource = source;
+      } else {
+        layer.source = source;
+        layer.pendingSource = null;
+      }
+      layer.pendingTransition = transition;
+      layer.transition?.cancel();
+      layer.transition = null;
+      if (options) layer.options = { ...layer.options, ...options };
+    } else {
+      this.layers.set(id, {
+        id,
+        index: this.nextLayerIndex++,
+        source,
+        pendingSource: null,
+        pendingTransition: transition,
+        transition: null,
+        options: { ...options },
+        removing: false,
+        slot: -1,
+        from: null,
+        to: null,
+      });
+    }
 
     const track = this.outputStream?.getVideoTracks()[0];
     if (track && source.contentHint !== undefined) {
-      try {
-        if ((track as any).contentHint !== undefined) {
-          (track as any).contentHint = source.contentHint ?? "";
-        }
-      } catch (_) {}
+      track.contentHint = source.contentHint;
     }
 
     if (!this.animationId) {
@@ -96,6 +280,124 @@ class StreamOrchestrator {
     }
   }
 
+  /**
+   * Change a layer's order, z-order, opacity or crop
+   */
+  updateLayer(id: string, options: LayerOptions) {
+    const layer = this.layers.get(id);
+    if (!layer) return;
+    layer.options = { ...layer.options, ...options };
+  }
+
+  /**
+   * Publish an audio track, e.g. a screen share's, in place of the silent
+   * track. The silent track comes back when the input ends or is set to
+   * null. Returns false when the output can't mix audio.
+   */
+  setAudioInput(track: MediaStreamTrack | null): boolean {
+    this.ensureInitialized();
+    return this.audioMixer?.setInput(track) ?? false;
+  }
+
+  getAudioInput(): MediaStreamTrack | null {
+    return this.audioMixer?.getInput() ?? null;
+  }
+
+  /**
+   * Publish the silent track while keeping the audio input routed
+   */
+  setAudioMuted(muted: boolean) {
+    this.audioMixer?.setMuted(muted);
+  }
+
+  /**
+   * Run the composited frame through `filters`, in order, before it is
+   * published. An empty chain publishes the frame as it is.
+   */
+  setFilters(filters: VideoFilter[]) {
+    this.filters = filters;
+    this.filterFailed = false;
+  }
+
+  getFilters(): VideoFilter[] {
+    return this.filters;
+  }
+
+  /**
+   * Add an overlay, drawn over the sources and filters, or replace the
+   * overlay with the same id. A replaced overlay keeps its place in the
+   * draw order and its schedule keeps counting from when it was added.
+   */
+  setOverlay(overlay: Overlay) {
+    const existing = this.overlays.get(overlay.id);
+    this.overlays.set(overlay.id, {
+      overlay,
+      index: existing?.index ?? this.nextOverlayIndex++,
+      addedMs: existing?.addedMs ?? this.clock.now(),
+    });
+  }
+
+  /**
+   * Change some of an overlay's settings, e.g. its text or visibility
+   */
+  updateOverlay(id: string, changes: Partial<Overlay>) {
+    const entry = this.overlays.get(id);
+    if (!entry) return;
+    entry.overlay = {
+      ...entry.overlay,
+      ...changes,
+      id,
+      type: entry.overlay.type,
+    } as Overlay;
+  }
+
+  removeOverlay(id: string) {
+    this.overlays.delete(id);
+  }
+
+  getOverlayIds(): string[] {
+    return Array.from(this.overlays.keys());
+  }
+
+  /**
+   * Fade a layer out and let the others take its slot
+   */
+  removeLayer(id: string) {
+    const layer = this.layers.get(id);
+    if (!layer) return;
+    layer.removing = true;
+    // A swap on a layer that is fading out is not worth finishing
+    layer.transition?.cancel();
+    layer.transition = null;
+    layer.pendingSource = null;
+  }
+
+  getLayerIds(): string[] {
+    return Array.from(this.layers.values())
+      .filter((layer) => !layer.removing)
+      .map((layer) => layer.id);
+  }
+
+  /**
+   * Rearrange the layers, animating from the current arrangement over the
+   * crossfade duration
+   */
+  setLayout(layout: CompositorLayout) {
+    this.layout = layout;
+    this.layoutDirty = true;
+  }
+
+  getLayout(): CompositorLayout {
+    return this.layout;
+  }
+
+  setDefaultTransition(transition: TransitionSpec) {
+    if (!getTransition(transition.type)) {
+      throw new Error(`Unknown transition "${transition.type}"`);
+    }
+    this.defaultTransition = transition;
+  }
+
   setBackgroundOptions(options: BackgroundOptions | null) {
     this.backgroundOptions = options;
     this.updateBackgroundStreaming();
@@ -115,39 +417,25 @@ class StreamOrchestrator {
       ctx.fillStyle = "#000000";
       ctx.fillRect(0, 0, w, h);
 
-      const now =
-        typeof performance !== "undefined" ? performance.now() : Date.now();
-      if (this.pendingSource && this.isSourceReady(this.pendingSource)) {
-        if (this.crossfadeStartMs === null) this.crossfadeStartMs = now;
+      const now = this.clock.now();
+      this.updateLayout(now, w, h);
+
+      const layoutT = this.layoutProgress(now);
+      const layers = Array.from(this.layers.values()).sort(compareDrawOrder);
+      for (const layer of layers) {
+        this.drawLayer(layer, layoutT);
       }
 
-      const fading =
-        this.pendingSource &&
-        this.crossfadeStartMs !== null &&
-        this.currentSource;
-      if (fading) {
-        const t = Math.min(
-          1,
-          (now - (this.crossfadeStartMs as number)) / this.crossfadeDurationMs,
-        );
-        this.blitSource(this.currentSource as StreamSource, 1 - t);
-        this.blitSource(this.pendingSource as StreamSource, t);
-        if (t >= 1) {
-          this.currentSource = this.pendingSource;
-          this.pendingSource = null;
-          this.crossfadeStartMs = null;
-        }
-      } else if (this.pendingSource && !this.currentSource) {
-        if (this.isSourceReady(this.pendingSource)) {
-          this.blitSource(this.pendingSource, 1);
-          this.currentSource = this.pendingSource;
-          this.pendingSource = null;
-          this.crossfadeStartMs = null;
+      // Faded-out layers are gone once the layout settles
+      if (layoutT >= 1) {
+        for (const layer of layers) {
+          if (layer.removing) this.layers.delete(layer.id);
         }
-      } else if (this.currentSource) {
-        this.blitSource(this.currentSource, 1);
       }
 
+      this.applyFilters(ctx, w, h);
+      this.drawOverlays(ctx, w, h, now);
+
       ctx.fillStyle = "rgba(255, 0, 0, 0.01)";
       ctx.fillRect(w - 1, h - 1, 1, 1);
 
@@ -193,17 +481,44 @@ class StreamOrchestrator {
       this.outputStream = null;
     }
 
+    this.audioMixer?.destroy();
+    this.audioMixer = null;
+
+    this.complexityManager.reset();
+
+    this.filterRenderer?.dispose();
+    this.filterRenderer = null;
+    this.filterFailed = false;
+
     if (this.outputCanvas) {
       this.outputCanvas.remove();
       this.outputCanvas = null;
     }
 
     this.outputCtx = null;
-    this.currentSource = null;
-    this.pendingSource = null;
+    this.scratchCanvas = null;
+    this.layers.forEach((layer) => layer.transition?.cancel());
+    this.layers.clear();
+    this.overlays.clear();
+    this.resumeOnShow.clear();
+    this.layoutKey = "";
+    this.layoutDirty = true;
+    this.layoutStartMs = null;
     this.initialized = false;
   }
 
+  // Normalize video track constraints/contentHint
+  private normalizeVideoTrack(videoTrack: MediaStreamTrack) {
+    videoTrack.contentHint = "";
+    videoTrack
+      .applyConstraints({
+        width: { ideal: this.outputProfile.width },
+        height: { ideal: this.outputProfile.height },
+        frameRate: { ideal: STREAMING_CONFIG.FPS },
+      })
+      .catch(() => {});
+  }
+
   private startBackgroundStreaming() {
     if (!this.outputCanvas || !this.backgroundOptions || this.backgroundTimer)
       return;
@@ -211,11 +526,10 @@ class StreamOrchestrator {
     const fps = this.backgroundOptions.fps ?? STREAMING_CONFIG.FPS;
 
     if (this.backgroundOptions.enableComplexityManagement) {
+      const mainSource = this.getPlacedLayers()[0]?.source;
       const canvasForAnalysis =
-        this.currentSource?.kind === "canvas"
-          ? (this.currentSource.element as HTMLCanvasElement)
-          : this.outputCanvas;
-      streamComplexityManager.startMonitoring(
+        mainSource?.kind === "canvas" ? mainSource.element : this.outputCanvas;
+      this.complexityManager.startMonitoring(
         canvasForAnalysis,
         this.backgroundOptions.complexityOptions || {},
       );
@@ -246,7 +560,7 @@ class StreamOrchestrator {
       this.backgroundTimer = null;
     }
     if (this.backgroundOptions?.enableComplexityManagement) {
-      streamComplexityManager.stopMonitoring();
+      this.complexityManager.stopMonitoring();
     }
   }
 
@@ -264,18 +578,28 @@ class StreamOrchestrator {
     this.visibilityHandler = () => {
       if (!this.backgroundOptions) return;
       if (document.hidden) {
+        this.resumeOnShow.clear();
+        for (const layer of this.layers.values()) {
+          if (layer.source.kind === "video" && !layer.source.element.paused) {
+            this.resumeOnShow.add(layer.source.element);
+          }
+        }
         this.startBackgroundStreaming();
       } else {
         this.stopBackgroundStreaming();
         try {
           this.start();
 
-          if (this.currentSource?.kind === "video") {
-            const v = this.currentSource.element as HTMLVideoElement;
-            if (v.paused) {
-              v.play().catch(() => {});
+          for (const layer of this.layers.values()) {
+            if (
+              layer.source.kind === "video" &&
+              layer.source.element.paused &&
+              this.resumeOnShow.has(layer.source.element)
+            ) {
+              layer.source.element.play().catch(() => {});
             }
           }
+          this.resumeOnShow.clear();
 
           const track = this.outputStream?.getVideoTracks()[0] as any;
           if (track && typeof track.requestFrame === "function") {
@@ -303,49 +627,299 @@ class StreamOrchestrator {
     }
   }
 
+  private applyFilters(ctx: CanvasRenderingContext2D, w: number, h: number) {
+    const filters = this.filters.filter((filter) => filter.enabled !== false);
+    if (filters.length === 0 || this.filterFailed || !this.outputCanvas) return;
+
+    try {
+      this.filterRenderer ??= this.createFilterRenderer();
+      const filtered = this.filterRenderer.render(this.outputCanvas, filters);
+      ctx.drawImage(filtered, 0, 0, w, h);
+    } catch (error) {
+      // Publish unfiltered rather than retrying every frame, until the chain changes
+      console.warn("Video filters failed, publishing unfiltered frames:", error);
+      this.filterFailed = true;
+    }
+  }
+
+  private drawOverlays(
+    ctx: CanvasRenderingContext2D,
+    w: number,
+    h: number,
+    now: number,
+  ) {
+    if (this.overlays.size === 0) return;
+    const date = new Date();
+    const entries = Array.from(this.overlays.values()).sort(
+      (a, b) =>
+        (a.overlay.zIndex ?? 0) - (b.overlay.zIndex ?? 0) || a.index - b.index,
+    );
+    for (const { overlay, addedMs } of entries) {
+      drawOverlay(ctx, overlay, { width: w, height: h }, now - addedMs, date);
+    }
+  }
+
   private isSourceReady(source: StreamSource): boolean {
-    const el = source.element as HTMLCanvasElement | HTMLVideoElement;
     if (source.kind === "video") {
-      const v = el as HTMLVideoElement;
-      return (
-        typeof v.readyState === "number" &&
-        v.readyState >= 2 &&
-        (v.videoWidth || 0) > 0 &&
-        (v.videoHeight || 0) > 0
-      );
+      const v = source.element;
+      if (typeof v.readyState !== "number" || v.readyState < 2) return false;
+    }
+    const { width, height } = sourceSize(source);
+    return width > 0 && height > 0;
+  }
+
+  /**
+   * Ready, visible layers in slot order
+   */
+  private getPlacedLayers(): Layer[] {
+    return Array.from(this.layers.values())
+      .filter((layer) => !layer.removing && this.isSourceReady(layer.source))
+      .sort(compareSlotOrder);
+  }
+
+  private layoutProgress(now: number): number {
+    if (this.layoutStartMs === null) return 1;
+    return Math.min(1, (now - this.layoutStartMs) / this.layoutDurationMs);
+  }
+
+  private placementAt(layer: Layer, t: number): LayerPlacement | null {
+    if (!layer.to) return null;
+    if (!layer.from) return layer.to;
+    return {
+      rect: lerpRect(layer.from.rect, layer.to.rect, t),
+      alpha: layer.from.alpha + (layer.to.alpha - layer.from.alpha) * t,
+    };
+  }
+
+  /**
+   * Re-slot the layers when the layout or the set of ready layers changes.
+   * Each layer animates from wherever it is now, so a change that lands
+   * mid-animation doesn't jump.
+   */
+  private updateLayout(now: number, width: number, height: number) {
+    const placed = this.getPlacedLayers();
+    const key = placed.map((layer) => layer.id).join("\n");
+    if (key === this.layoutKey && !this.layoutDirty) return;
+
+    const t = this.layoutProgress(now);
+    const slots = computeLayoutSlots(this.layout, width, height);
+    const capacity = layoutCapacity(this.layout);
+    const full = { x: 0, y: 0, width, height };
+
+    for (const layer of this.layers.values()) {
+      const current = this.placementAt(layer, t);
+      const slot = placed.indexOf(layer);
+      if (slot !== -1 && slot < capacity) {
+        layer.slot = slot;
+        layer.to = { rect: slots[slot], alpha: 1 };
+        layer.from = current ?? { rect: slots[slot], alpha: 0 };
+      } else {
+        layer.to = { rect: current?.rect ?? full, alpha: 0 };
+        layer.from = current;
+      }
     }
-    const c = el as HTMLCanvasElement;
-    return (c.width || 0) > 0 && (c.height || 0) > 0;
+
+    this.layoutKey = key;
+    this.layoutDirty = false;
+    this.layoutStartMs = now;
   }
 
-  private blitSource(source: StreamSource, alpha: number) {
-    if (!this.outputCtx || !this.outputCanvas) return;
+  private drawLayer(layer: Layer, layoutT: number) {
+    // A source swap runs whether or not the layer is on screen
+    const source = layer.source;
+    const pendingSource = layer.pendingSource;
+    let steps: TransitionStep[] | null = null;
+    if (pendingSource && this.isSourceReady(pendingSource)) {
+      if (!layer.transition) {
+        layer.transition = new TransitionRun(
+          layer.pendingTransition,
+          this.clock,
+          (reason) => this.onTransitionEnd?.(layer.id, reason),
+        );
+      }
+      const frame = layer.transition.frame();
+      steps = frame.steps;
+      if (frame.done) {
+        layer.source = pendingSource;
+        layer.pendingSource = null;
+        layer.transition = null;
+      }
+    }
+
+    if (!this.outputCtx) return;
+    const placement = this.placementAt(layer, layoutT);
+    if (!placement) return;
+    const alpha = layerAlpha(placement.alpha, layer.options);
+    if (alpha <= 0) return;
+
+    // Inset slots cover whatever is underneath, letterbox bars included
     const ctx = this.outputCtx;
-    const w = this.outputCanvas.width;
-    const h = this.outputCanvas.height;
+    const { rect } = placement;
+    const prevAlpha = ctx.globalAlpha;
+    ctx.globalAlpha = Math.min(1, alpha);
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    ctx.globalAlpha = prevAlpha;
+
+    if (!pendingSource || !steps) {
+      this.blitSource(ctx, source, rect, layer.options, alpha);
+      return;
+    }
+
+    for (const step of steps) {
+      const stepSource =
+        step.kind !== "fill" && step.source === "to" ? pendingSource : source;
+      if (step.kind === "fill") {
+        ctx.globalAlpha = Math.max(0, Math.min(1, alpha * step.alpha));
+        ctx.fillStyle = step.color;
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.globalAlpha = prevAlpha;
+      } else if (step.kind === "luma-key") {
+        this.blitLumaKeyed(stepSource, rect, layer.options, alpha, step);
+      } else {
+        this.blitSource(
+          ctx,
+          stepSource,
+          rect,
+          layer.options,
+          alpha * step.alpha,
+          step,
+        );
+      }
+    }
+  }
 
-    const el = source.element as HTMLCanvasElement | HTMLVideoElement;
-    const sw = (el as any).videoWidth ?? (el as HTMLCanvasElement).width;
-    const sh = (el as any).videoHeight ?? (el as HTMLCanvasElement).height;
+  private blitSource(
+    ctx: CanvasRenderingContext2D,
+    source: StreamSource,
+    slot: LayoutRect,
+    options: LayerOptions,
+    alpha: number,
+    transform?: Extract<TransitionStep, { kind: "source" }>,
+  ) {
+    if (alpha <= 0) return;
+
+    const el = source.element;
+    const { width: sw, height: sh } = sourceSize(source);
     if (!sw || !sh) return;
 
-    const scale = Math.min(w / sw, h / sh);
-    const dw = Math.floor(sw * scale);
-    const dh = Math.floor(sh * scale);
-    const dx = Math.floor((w - dw) / 2);
-    const dy = Math.floor((h - dh) / 2);
+    // Framing on the layer wins over framing on the source
+    const framing = computeFraming(sw, sh, slot, {
+      fit: options.fit ?? source.fit,
+      crop: options.crop ?? source.crop,
+      focus: options.focus ?? source.focus,
+    });
+    const crop = framing.source;
+    if (!crop.width || !crop.height) return;
+    let dest = framing.dest;
+
+    const clip = transform?.clip
+      ? {
+          x: slot.x + transform.clip.x * slot.width,
+          y: slot.y + transform.clip.y * slot.height,
+          width: transform.clip.width * slot.width,
+          height: transform.clip.height * slot.height,
+        }
+      : slot;
+    if (clip.width <= 0 || clip.height <= 0) return;
+
+    if (transform) {
+      const scale = transform.scale ?? 1;
+      const cx = slot.x + slot.width / 2;
+      const cy = slot.y + slot.height / 2;
+      dest = {
+        x:
+          cx +
+          (dest.x - cx) * scale +
+          (transform.offsetX ?? 0) * slot.width,
+        y:
+          cy +
+          (dest.y - cy) * scale +
+          (transform.offsetY ?? 0) * slot.height,
+        width: dest.width * scale,
+        height: dest.height * scale,
+      };
+    }
 
-    const prevAlpha = ctx.globalAlpha;
+    ctx.save();
     try {
+      // Transitions may move or grow the source past its slot
+      ctx.beginPath();
+      ctx.rect(clip.x, clip.y, clip.width, clip.height);
+      ctx.clip();
       ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
-      ctx.drawImage(el as any, dx, dy, dw, dh);
-    } catch (_) {
+      ctx.drawImage(
+        el,
+        crop.x,
+        crop.y,
+        crop.width,
+        crop.height,
+        dest.x,
+        dest.y,
+        dest.width,
+        dest.height,
+      );
+    } catch {
+      // The source can lose its frames between the ready check and the draw
     } finally {
-      ctx.globalAlpha = prevAlpha;
+      ctx.restore();
+    }
+  }
+
+  /**
+   * Draw a source with its dark pixels keyed out, through a scratch canvas
+   * the size of the slot
+   */
+  private blitLumaKeyed(
+    source: StreamSource,
+    slot: LayoutRect,
+    options: LayerOptions,
+    alpha: number,
+    { threshold, softness }: Extract<TransitionStep, { kind: "luma-key" }>,
+  ) {
+    const ctx = this.outputCtx;
+    const width = Math.round(slot.width);
+    const height = Math.round(slot.height);
+    if (!ctx || width <= 0 || height <= 0) return;
+
+    if (!this.scratchCanvas) {
+      this.scratchCanvas = document.createElement("canvas");
     }
+    const scratch = this.scratchCanvas;
+    if (scratch.width !== width) scratch.width = width;
+    if (scratch.height !== height) scratch.height = height;
+    const scratchCtx = scratch.getContext("2d", { willReadFrequently: true });
+    if (!scratchCtx) return;
+
+    scratchCtx.clearRect(0, 0, width, height);
+    this.blitSource(scratchCtx, source, { x: 0, y: 0, width, height }, options, 1);
+
+    try {
+      const image = scratchCtx.getImageData(0, 0, width, height);
+      const data = image.data;
+      const edge = Math.max(softness, 1e-3);
+      for (let i = 0; i < data.length; i += 4) {
+        const luma =
+          (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) /
+          255;
+        const keep = Math.max(0, Math.min(1, (luma - threshold) / edge + 1));
+        data[i + 3] = data[i + 3] * keep;
+      }
+      scratchCtx.putImageData(image, 0, 0);
+    } catch {
+      // Tainted sources can't be read back; show them unkeyed
+    }
+
+    const prevAlpha = ctx.globalAlpha;
+    ctx.globalAlpha = Math.max(0, Math.min(1, alpha));
+    ctx.drawImage(scratch, slot.x, slot.y, width, height);
+    ctx.globalAlpha = prevAlpha;
   }
 }
 
+/**
+ * Shared orchestrator, used outside a `StreamOrchestratorProvider`
+ */
 export const streamOrchestrator = new StreamOrchestrator();
 
 export { StreamOrchestrator };
@@ -0,0 +1,313 @@
+import { describe, expect, it, vi } from "vitest";
+import type {
+  EasingName,
+  LayoutRect,
+  TransitionClock,
+  TransitionFrame,
+  TransitionSpec,
+  TransitionStep,
+} from '../types';
+import {
+  TransitionRun,
+  easings,
+  getTransition,
+  getTransitionNames,
+  registerTransition,
+  renderTransition,
+} from './transitions';
+
+const createClock = () => {
+  let now = 1000;
+  const clock: TransitionClock & { advance(ms: number): void } = {
+    now: () => now,
+    advance: (ms) => {
+      now += ms;
+    },
+  };
+  return clock;
+};
+
+const FRAME_MS = 20;
+const builtInNames = getTransitionNames();
+const easingNames = Object.keys(easings) as EasingName[];
+
+/** Every frame of a run, stepping the clock until the run is done */
+const playRun = (spec: TransitionSpec) => {
+  const clock = createClock();
+  const onEnd = vi.fn();
+  const run = new TransitionRun(spec, clock, onEnd);
+  const frames: TransitionFrame[] = [];
+  const endCallsByFrame: number[] = [];
+  for (let i = 0; i < 1000; i++) {
+    const frame = run.frame();
+    frames.push(frame);
+    endCallsByFrame.push(onEnd.mock.calls.length);
+    if (frame.done) break;
+    clock.advance(FRAME_MS);
+  }
+  return { run, frames, onEnd, endCallsByFrame };
+};
+
+const isFullSlot = (rect: LayoutRect) =>
+  rect.x === 0 && rect.y === 0 && rect.width === 1 && rect.height === 1;
+
+/** The new source over the whole slot at full opacity */
+const coversSlot = (step: TransitionStep) =>
+  step.kind === "source" &&
+  step.source === "to" &&
+  step.alpha === 1 &&
+  (!step.clip || isFullSlot(step.clip)) &&
+  !step.offsetX &&
+  !step.offsetY &&
+  (step.scale ?? 1) === 1;
+
+const isInvisible = (step: TransitionStep) => {
+  switch (step.kind) {
+    case "source":
+      return (
+        step.alpha === 0 ||
+        Math.abs(step.offsetX ?? 0) >= 1 ||
+        Math.abs(step.offsetY ?? 0) >= 1
+      );
+    case "fill":
+      return step.alpha === 0;
+    case "luma-key":
+      // Every pixel is darker than the threshold
+      return step.threshold >= 1;
+  }
+};
+
+const alphas = (frame: TransitionFrame) =>
+  frame.steps.map((step) => ("alpha" in step ? step.alpha : 1));
+
+describe("easings", () => {
+  it.each(easingNames)("%s runs from 0 to 1 without going back", (name) => {
+    const easing = easings[name];
+    expect(easing(0)).toBe(0);
+    expect(easing(1)).toBe(1);
+    for (let i = 1; i <= 10; i++) {
+      expect(easing(i / 10)).toBeGreaterThanOrEqual(easing((i - 1) / 10));
+    }
+  });
+
+  it("shapes the midpoint", () => {
+    expect(easings.linear(0.5)).toBe(0.5);
+    expect(easings["ease-in"](0.5)).toBe(0.25);
+    expect(easings["ease-out"](0.5)).toBe(0.75);
+    expect(easings["ease-in-out"](0.5)).toBe(0.5);
+    expect(easings["ease-in-out"](0.25)).toBe(0.125);
+  });
+});
+
+describe("TransitionRun", () => {
+  describe.each(builtInNames)("%s", (type) => {
+    const { durationMs } = getTransition(type)!;
+
+    it.each(easingNames)("steps through with %s easing", (easing) => {
+      const { frames, onEnd, endCallsByFrame } = playRun({ type, easing });
+
+      const expectedFrames = durationMs === 0 ? 1 : durationMs / FRAME_MS + 1;
+      expect(frames).toHaveLength(expectedFrames);
+      frames.forEach((frame, i) => {
+        const progress = durationMs === 0 ? 1 : (i * FRAME_MS) / durationMs;
+        expect(frame.progress).toBeCloseTo(progress, 10);
+        expect(frame.t).toBeCloseTo(easings[easing](frame.progress), 10);
+        expect(frame.done).toBe(i === frames.length - 1);
+        for (const alpha of alphas(frame)) {
+          expect(alpha).toBeGreaterThanOrEqual(0);
+          expect(alpha).toBeLessThanOrEqual(1 + 1e-9);
+        }
+      });
+
+      // Completion is reported once, on the frame that reaches the end
+      expect(endCallsByFrame.at(-1)).toBe(1);
+      expect(endCallsByFrame.slice(0, -1).every((calls) => calls === 0)).toBe(
+        true
+      );
+      expect(onEnd).toHaveBeenCalledWith("completed");
+    });
+
+    it("ends fully on the new source", () => {
+      const { steps } = playRun({ type }).frames.at(-1)!;
+
+      // The new source covers the slot...
+      const cover = steps.map(coversSlot).lastIndexOf(true);
+      expect(cover).not.toBe(-1);
+      // ...and nothing drawn over it is still visible
+      for (const step of steps.slice(cover + 1)) {
+        expect(isInvisible(step)).toBe(true);
+      }
+    });
+  });
+
+  it("uses the spec's duration over the transition's own", () => {
+    const { frames } = playRun({ type: "crossfade", durationMs: 100 });
+    expect(frames.map((frame) => frame.progress)).toEqual([
+      0, 0.2, 0.4, 0.6, 0.8, 1,
+    ]);
+  });
+
+  it("holds the last frame once done", () => {
+    const clock = createClock();
+    const onEnd = vi.fn();
+    const run = new TransitionRun({ type: "crossfade" }, clock, onEnd);
+
+    clock.advance(500);
+    const first = run.frame();
+    clock.advance(500);
+
+    expect(run.frame()).toEqual(first);
+    expect(first.progress).toBe(1);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(run.getEndReason()).toBe("completed");
+  });
+
+  it("reports a cancel and freezes where it stopped", () => {
+    const clock = createClock();
+    const onEnd = vi.fn();
+    const run = new TransitionRun({ type: "crossfade" }, clock, onEnd);
+
+    clock.advance(50);
+    run.cancel();
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd).toHaveBeenCalledWith("cancelled");
+    expect(run.getEndReason()).toBe("cancelled");
+
+    clock.advance(500);
+    const frame = run.frame();
+    expect(frame.progress).toBe(0.25);
+    expect(frame.done).toBe(true);
+    expect(alphas(frame)).toEqual([0.75, 0.25]);
+
+    run.cancel();
+    expect(onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not report a cancel after completing", () => {
+    const clock = createClock();
+    const onEnd = vi.fn();
+    const run = new TransitionRun({ type: "wipe" }, clock, onEnd);
+
+    clock.advance(400);
+    run.cancel();
+
+    expect(onEnd.mock.calls).toEqual([["completed"]]);
+  });
+
+  it("rejects unknown transitions", () => {
+    expect(() => new TransitionRun({ type: "spin" })).toThrow(
+      'Unknown transition "spin"'
+    );
+  });
+});
+
+describe("renderTransition", () => {
+  const linear = (spec: TransitionSpec): TransitionSpec => ({
+    ...spec,
+    easing: "linear",
+  });
+
+  it("crossfades between the sources", () => {
+    expect(renderTransition({ type: "crossfade" }, 0.25).steps).toEqual([
+      { kind: "source", source: "from", alpha: 0.75 },
+      { kind: "source", source: "to", alpha: 0.25 },
+    ]);
+  });
+
+  it("cuts straight to the new source", () => {
+    expect(renderTransition({ type: "cut" }, 0)).toEqual({
+      t: 0,
+      steps: [{ kind: "source", source: "to", alpha: 1 }],
+    });
+  });
+
+  it("wipes the new source in from the opposite edge", () => {
+    const clip = (direction: TransitionSpec["direction"]) =>
+      renderTransition(linear({ type: "wipe", direction }), 0.25).steps[1];
+
+    expect(clip("left")).toMatchObject({
+      clip: { x: 0.75, y: 0, width: 0.25, height: 1 },
+    });
+    expect(clip("right")).toMatchObject({
+      clip: { x: 0, y: 0, width: 0.25, height: 1 },
+    });
+    expect(clip("up")).toMatchObject({
+      clip: { x: 0, y: 0.75, width: 1, height: 0.25 },
+    });
+    expect(clip("down")).toMatchObject({
+      clip: { x: 0, y: 0, width: 1, height: 0.25 },
+    });
+  });
+
+  it("slides the old source out as the new one follows", () => {
+    expect(
+      renderTransition(linear({ type: "slide", direction: "left" }), 0.25)
+        .steps
+    ).toEqual([
+      { kind: "source", source: "from", alpha: 1, offsetX: -0.25 },
+      { kind: "source", source: "to", alpha: 1, offsetX: 0.75 },
+    ]);
+    expect(
+      renderTransition(linear({ type: "slide", direction: "down" }), 0.25)
+        .steps
+    ).toEqual([
+      { kind: "source", source: "from", alpha: 1, offsetY: 0.25 },
+      { kind: "source", source: "to", alpha: 1, offsetY: -0.75 },
+    ]);
+  });
+
+  it("zooms through the crossfade", () => {
+    expect(renderTransition(linear({ type: "zoom" }), 0.5).steps).toEqual([
+      { kind: "source", source: "from", alpha: 0.5, scale: 1.2 },
+      { kind: "source", source: "to", alpha: 0.5, scale: 0.8 },
+    ]);
+  });
+
+  it("dips to black halfway", () => {
+    const dip = (progress: number) =>
+      renderTransition(linear({ type: "dip-to-black" }), progress).steps;
+
+    expect(dip(0.25)).toEqual([{ kind: "source", source: "from", alpha: 0.5 }]);
+    expect(dip(0.5)).toEqual([{ kind: "source", source: "to", alpha: 0 }]);
+    expect(dip(0.75)).toEqual([{ kind: "source", source: "to", alpha: 0.5 }]);
+  });
+
+  it("raises the luma key threshold with progress", () => {
+    expect(renderTransition({ type: "luma-key" }, 0.5).steps[1]).toEqual({
+      kind: "luma-key",
+      source: "from",
+      threshold: 0.55,
+      softness: 0.1,
+    });
+  });
+
+  it("applies the spec's easing and clamps progress", () => {
+    expect(renderTransition({ type: "wipe" }, 0.25).t).toBe(0.125);
+    expect(renderTransition(linear({ type: "wipe" }), 0.25).t).toBe(0.25);
+    expect(renderTransition({ type: "crossfade", easing: (t) => t / 2 }, 1).t)
+      .toBe(0.5);
+    expect(renderTransition({ type: "crossfade" }, -1).t).toBe(0);
+    expect(renderTransition({ type: "crossfade" }, 2).t).toBe(1);
+  });
+});
+
+describe("registerTransition", () => {
+  it("makes a custom transition available by name", () => {
+    registerTransition("flash", {
+      durationMs: 100,
+      easing: "linear",
+      render: (t) => [
+        { kind: "fill", color: "#ffffff", alpha: 1 - Math.abs(2 * t - 1) },
+        { kind: "source", source: t < 0.5 ? "from" : "to", alpha: 1 },
+      ],
+    });
+
+    expect(getTransitionNames()).toContain("flash");
+    const { frames } = playRun({ type: "flash" });
+    const flash = frames.map((frame) => alphas(frame)[0]);
+    [0, 0.4, 0.8, 0.8, 0.4, 0].forEach((alpha, i) =>
+      expect(flash[i]).toBeCloseTo(alpha, 10)
+    );
+  });
+});
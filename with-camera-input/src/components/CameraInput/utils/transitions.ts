@@ -0,0 +1,217 @@
+import type {
+  EasingFunction,
+  EasingName,
+  TransitionClock,
+  TransitionDefinition,
+  TransitionDirection,
+  TransitionEndReason,
+  TransitionFrame,
+  TransitionSpec,
+  TransitionStep,
+} from '../types';
+
+export const easings: Record<EasingName, EasingFunction> = {
+  linear: (t) => t,
+  "ease-in": (t) => t * t,
+  "ease-out": (t) => t * (2 - t),
+  "ease-in-out": (t) => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+export const systemTransitionClock: TransitionClock = {
+  now: () =>
+    typeof performance !== "undefined" ? performance.now() : Date.now(),
+};
+
+const resolveEasing = (easing: EasingName | EasingFunction): EasingFunction =>
+  typeof easing === "function" ? easing : (easings[easing] ?? easings.linear);
+
+/** Full-slot clip from the edge opposite `direction`, covering `t` of the slot */
+const wipeClip = (direction: TransitionDirection, t: number) => {
+  switch (direction) {
+    case "left":
+      return { x: 1 - t, y: 0, width: t, height: 1 };
+    case "right":
+      return { x: 0, y: 0, width: t, height: 1 };
+    case "up":
+      return { x: 0, y: 1 - t, width: 1, height: t };
+    case "down":
+      return { x: 0, y: 0, width: 1, height: t };
+  }
+};
+
+/** The old source leaves towards `direction` as the new one follows it in */
+const slideOffsets = (direction: TransitionDirection, t: number) => {
+  const sign = direction === "left" || direction === "up" ? -1 : 1;
+  const from = sign * t;
+  const to = sign * (t - 1);
+  return direction === "left" || direction === "right"
+    ? { from: { offsetX: from }, to: { offsetX: to } }
+    : { from: { offsetY: from }, to: { offsetY: to } };
+};
+
+const builtInTransitions: Record<string, TransitionDefinition> = {
+  crossfade: {
+    durationMs: 200,
+    easing: "linear",
+    render: (t) => [
+      { kind: "source", source: "from", alpha: 1 - t },
+      { kind: "source", source: "to", alpha: t },
+    ],
+  },
+  cut: {
+    durationMs: 0,
+    easing: "linear",
+    render: () => [{ kind: "source", source: "to", alpha: 1 }],
+  },
+  wipe: {
+    durationMs: 400,
+    easing: "ease-in-out",
+    render: (t, { direction = "left" }) => [
+      { kind: "source", source: "from", alpha: 1 },
+      { kind: "source", source: "to", alpha: 1, clip: wipeClip(direction, t) },
+    ],
+  },
+  slide: {
+    durationMs: 400,
+    easing: "ease-in-out",
+    render: (t, { direction = "left" }) => {
+      const offsets = slideOffsets(direction, t);
+      return [
+        { kind: "source", source: "from", alpha: 1, ...offsets.from },
+        { kind: "source", source: "to", alpha: 1, ...offsets.to },
+      ];
+    },
+  },
+  zoom: {
+    durationMs: 400,
+    easing: "ease-out",
+    render: (t) => [
+      { kind: "source", source: "from", alpha: 1 - t, scale: 1 + 0.4 * t },
+      { kind: "source", source: "to", alpha: t, scale: 0.6 + 0.4 * t },
+    ],
+  },
+  "dip-to-black": {
+    durationMs: 500,
+    easing: "ease-in-out",
+    // Fade the old source out completely before the new one fades in
+    render: (t) =>
+      t < 0.5
+        ? [{ kind: "source", source: "from", alpha: 1 - 2 * t }]
+        : [{ kind: "source", source: "to", alpha: 2 * t - 1 }],
+  },
+  "luma-key": {
+    durationMs: 600,
+    easing: "linear",
+    // The new source shows through the old one's darkest areas first
+    render: (t) => [
+      { kind: "source", source: "to", alpha: 1 },
+      {
+        kind: "luma-key",
+        source: "from",
+        threshold: t * 1.1,
+        softness: 0.1,
+      },
+    ],
+  },
+};
+
+const registry = new Map<string, TransitionDefinition>(
+  Object.entries(builtInTransitions),
+);
+
+/**
+ * Add or replace a transition by name, for use in `TransitionSpec.type`
+ */
+export const registerTransition = (
+  name: string,
+  definition: TransitionDefinition,
+) => {
+  registry.set(name, definition);
+};
+
+export const getTransition = (name: string): TransitionDefinition | undefined =>
+  registry.get(name);
+
+export const getTransitionNames = (): string[] => Array.from(registry.keys());
+
+/**
+ * The steps of a transition at linear progress `progress` (0-1), with the
+ * spec's easing applied. Pure, so a transition can be checked frame by frame.
+ */
+export const renderTransition = (
+  spec: TransitionSpec,
+  progress: number,
+): { t: number; steps: TransitionStep[] } => {
+  const definition = getTransition(spec.type);
+  if (!definition) {
+    throw new Error(`Unknown transition "${spec.type}"`);
+  }
+  const clamped = Math.max(0, Math.min(1, progress));
+  const t = resolveEasing(spec.easing ?? definition.easing)(clamped);
+  return { t, steps: definition.render(t, spec) };
+};
+
+/**
+ * One run of a transition, timed by a clock from the moment it is created.
+ * `onEnd` is called once: on the first frame that reaches the end, or on
+ * `cancel`.
+ */
+export class TransitionRun {
+  readonly spec: TransitionSpec;
+  readonly durationMs: number;
+  private readonly clock: TransitionClock;
+  private readonly startMs: number;
+  private readonly onEnd?: (reason: TransitionEndReason) => void;
+  private endReason: TransitionEndReason | null = null;
+  private cancelledFrame: TransitionFrame | null = null;
+
+  constructor(
+    spec: TransitionSpec,
+    clock: TransitionClock = systemTransitionClock,
+    onEnd?: (reason: TransitionEndReason) => void,
+  ) {
+    const definition = getTransition(spec.type);
+    if (!definition) {
+      throw new Error(`Unknown transition "${spec.type}"`);
+    }
+    this.spec = spec;
+    this.durationMs = Math.max(0, spec.durationMs ?? definition.durationMs);
+    this.clock = clock;
+    this.startMs = clock.now();
+    this.onEnd = onEnd;
+  }
+
+  frame(): TransitionFrame {
+    if (this.cancelledFrame) return this.cancelledFrame;
+
+    const elapsed = this.clock.now() - this.startMs;
+    const progress =
+      this.durationMs === 0 ? 1 : Math.min(1, elapsed / this.durationMs);
+    const { t, steps } = renderTransition(this.spec, progress);
+    const done = progress >= 1;
+    if (done) this.end("completed");
+    return { progress, t, steps, done };
+  }
+
+  /**
+   * Stop the run where it is. Later frames repeat that point, marked done.
+   */
+  cancel() {
+    if (this.endReason) return;
+    const frame = this.frame();
+    if (this.endReason) return;
+    this.cancelledFrame = { ...frame, done: true };
+    this.end("cancelled");
+  }
+
+  /** How the run ended, or null while it is running */
+  getEndReason(): TransitionEndReason | null {
+    return this.endReason;
+  }
+
+  private end(reason: TransitionEndReason) {
+    if (this.endReason) return;
+    this.endReason = reason;
+    this.onEnd?.(reason);
+  }
+}
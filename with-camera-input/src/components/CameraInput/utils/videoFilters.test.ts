@@ -0,0 +1,293 @@
+import { describe, expect, it } from "vitest";
+import type { PixelBuffer } from '../types';
+import {
+  applyVideoFilters,
+  createIdentityLut,
+  createVideoFilter,
+  type VideoFilterInit,
+} from './videoFilters';
+
+type Rgb = [number, number, number];
+
+/** A frame from one colour per pixel, row by row, with a marker alpha */
+const frame = (width: number, height: number, colors: Rgb[]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  colors.forEach(([r, g, b], p) => data.set([r, g, b, 200], p * 4));
+  return { width, height, data };
+};
+
+const colors = ({ data }: PixelBuffer): Rgb[] => {
+  const out: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    out.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  return out;
+};
+
+/** Red channel as rows, for the greyscale frames */
+const rows = (pixels: PixelBuffer): number[][] =>
+  Array.from({ length: pixels.height }, (_, y) =>
+    colors(pixels)
+      .slice(y * pixels.width, (y + 1) * pixels.width)
+      .map(([r]) => r),
+  );
+
+const grey = (value: number): Rgb => [value, value, value];
+
+const apply = (input: Rgb[], ...inits: VideoFilterInit[]) =>
+  colors(
+    applyVideoFilters(frame(input.length, 1, input), inits.map(createVideoFilter)),
+  );
+
+const swatch: Rgb[] = [
+  [0, 0, 0],
+  [255, 255, 255],
+  [200, 100, 50],
+  [64, 128, 192],
+];
+
+describe("applyVideoFilters", () => {
+  it("filters in place and keeps alpha", () => {
+    const pixels = frame(2, 2, swatch);
+    const result = applyVideoFilters(pixels, [
+      createVideoFilter({ type: "invert" }),
+      createVideoFilter({ type: "posterize" }),
+    ]);
+
+    expect(result).toBe(pixels);
+    for (let i = 3; i < pixels.data.length; i += 4) {
+      expect(pixels.data[i]).toBe(200);
+    }
+  });
+
+  it("leaves pixels alone with an empty chain", () => {
+    expect(apply(swatch)).toEqual(swatch);
+  });
+
+  it("runs the chain in order", () => {
+    const posterize: VideoFilterInit = { type: "posterize", levels: 2 };
+    const halfInvert: VideoFilterInit = { type: "invert", amount: 0.5 };
+
+    // 64 rounds down to black, which half inverts to mid-grey...
+    expect(apply([grey(64)], posterize, halfInvert)).toEqual([grey(128)]);
+    // ...but half inverted first it is just past mid-grey, so rounds up
+    expect(apply([grey(64)], halfInvert, posterize)).toEqual([grey(255)]);
+  });
+
+  it("matches the filters applied one at a time", () => {
+    const chain: VideoFilterInit[] = [
+      { type: "color", brightness: 0.1, saturation: 1.5 },
+      { type: "invert", amount: 0.3 },
+      { type: "posterize", levels: 5 },
+    ];
+
+    const stepwise = chain.reduce((input, init) => apply(input, init), swatch);
+    expect(apply(swatch, ...chain)).toEqual(stepwise);
+  });
+
+  it("skips disabled filters", () => {
+    expect(apply(swatch, { type: "invert", enabled: false })).toEqual(swatch);
+    expect(
+      apply(
+        swatch,
+        { type: "posterize", levels: 2 },
+        { type: "invert", enabled: false },
+        { type: "color", saturation: 0, enabled: false },
+      ),
+    ).toEqual(apply(swatch, { type: "posterize", levels: 2 }));
+    // Enabled defaults to true
+    expect(apply([grey(0)], { type: "invert", enabled: true })).toEqual([
+      grey(255),
+    ]);
+  });
+
+  describe("color", () => {
+    it("changes nothing with the defaults", () => {
+      expect(apply(swatch, { type: "color" })).toEqual(swatch);
+    });
+
+    it("adds brightness to each channel", () => {
+      expect(apply(swatch, { type: "color", brightness: 0.2 })).toEqual([
+        [51, 51, 51],
+        [255, 255, 255],
+        [251, 151, 101],
+        [115, 179, 243],
+      ]);
+    });
+
+    it("scales contrast around mid-grey", () => {
+      expect(apply(swatch, { type: "color", contrast: 2 })).toEqual([
+        [0, 0, 0],
+        [255, 255, 255],
+        [255, 73, 0],
+        [0, 129, 255],
+      ]);
+    });
+
+    it("turns greyscale at zero saturation", () => {
+      expect(apply(swatch, { type: "color", saturation: 0 })).toEqual([
+        grey(0),
+        grey(255),
+        grey(118),
+        grey(119),
+      ]);
+    });
+  });
+
+  describe("lut", () => {
+    const invertingLut = () => {
+      const lut = createIdentityLut(2);
+      lut.data = lut.data.map((value) => 1 - value);
+      return lut;
+    };
+
+    it("changes nothing through the identity table", () => {
+      expect(apply(swatch, { type: "lut", lut: createIdentityLut(17) })).toEqual(
+        swatch,
+      );
+    });
+
+    it("looks colours up in the table", () => {
+      expect(apply(swatch, { type: "lut", lut: invertingLut() })).toEqual([
+        [255, 255, 255],
+        [0, 0, 0],
+        [55, 155, 205],
+        [191, 127, 63],
+      ]);
+    });
+
+    it("mixes with the ungraded frame by intensity", () => {
+      expect(
+        apply(swatch, { type: "lut", lut: invertingLut(), intensity: 0.5 }),
+      ).toEqual([grey(128), grey(128), grey(128), grey(128)]);
+    });
+  });
+
+  describe("edges", () => {
+    // Black on the left, white on the right
+    const step = () =>
+      frame(
+        8,
+        4,
+        Array.from({ length: 32 }, (_, p) => grey(p % 8 < 4 ? 0 : 255)),
+      );
+
+    it("draws white edges on black along the boundary", () => {
+      const pixels = applyVideoFilters(step(), [
+        createVideoFilter({ type: "edges" }),
+      ]);
+
+      expect(rows(pixels)).toEqual(
+        Array(4).fill([0, 0, 0, 255, 255, 0, 0, 0]),
+      );
+      expect(colors(pixels).every(([r, g, b]) => r === g && g === b)).toBe(
+        true,
+      );
+    });
+
+    it("finds nothing in a flat frame", () => {
+      const pixels = applyVideoFilters(frame(4, 4, Array(16).fill(grey(90))), [
+        createVideoFilter({ type: "edges" }),
+      ]);
+      expect(colors(pixels)).toEqual(Array(16).fill(grey(0)));
+    });
+
+    it("drops edges weaker than the thresholds", () => {
+      const faint = frame(
+        8,
+        4,
+        Array.from({ length: 32 }, (_, p) => grey(p % 8 < 4 ? 100 : 120)),
+      );
+      applyVideoFilters(faint, [createVideoFilter({ type: "edges" })]);
+      expect(colors(faint)).toEqual(Array(32).fill(grey(0)));
+    });
+  });
+
+  describe("posterize", () => {
+    it("rounds each channel to the nearest level", () => {
+      expect(apply(swatch, { type: "posterize", levels: 4 })).toEqual([
+        [0, 0, 0],
+        [255, 255, 255],
+        [170, 85, 85],
+        [85, 170, 170],
+      ]);
+    });
+
+    it("uses at least two levels", () => {
+      expect(apply(swatch, { type: "posterize", levels: 1 })).toEqual(
+        apply(swatch, { type: "posterize", levels: 2 }),
+      );
+    });
+  });
+
+  describe("depth-blur", () => {
+    // Black and white columns, 16 rows
+    const stripes = () =>
+      frame(
+        8,
+        16,
+        Array.from({ length: 128 }, (_, p) => grey(p % 2 ? 255 : 0)),
+      );
+
+    it("keeps the sharp band and blurs away from it", () => {
+      const input = rows(stripes());
+      const output = rows(
+        applyVideoFilters(stripes(), [
+          createVideoFilter({ type: "depth-blur", radius: 4 }),
+        ]),
+      );
+
+      // Rows 6-9 are inside the band around the centre
+      expect(output.slice(6, 10)).toEqual(input.slice(6, 10));
+      // The top and bottom rows are fully blurred; the edges of the frame
+      // repeat outwards, so the stripes smear into a ramp
+      expect(output[0]).toEqual([63, 91, 109, 122, 133, 146, 164, 192]);
+      expect(output[15]).toEqual(output[0]);
+      expect(output[3]).toEqual([33, 169, 57, 185, 70, 198, 86, 222]);
+      // In between, the blur grows with the distance from the band
+      const contrast = (row: number[]) => Math.max(...row) - Math.min(...row);
+      expect(contrast(output[4])).toBeLessThan(contrast(output[5]));
+      expect(contrast(output[3])).toBeLessThan(contrast(output[4]));
+    });
+
+    it("moves the band with focus", () => {
+      const input = rows(stripes());
+      const output = rows(
+        applyVideoFilters(stripes(), [
+          createVideoFilter({ type: "depth-blur", focus: 0, range: 0.2 }),
+        ]),
+      );
+
+      expect(output.slice(0, 2)).toEqual(input.slice(0, 2));
+      expect(output[15]).not.toEqual(input[15]);
+    });
+
+    it("changes nothing with no radius", () => {
+      const pixels = applyVideoFilters(stripes(), [
+        createVideoFilter({ type: "depth-blur", radius: 0 }),
+      ]);
+      expect(colors(pixels)).toEqual(colors(stripes()));
+    });
+  });
+
+  describe("invert", () => {
+    it("inverts each channel", () => {
+      expect(apply(swatch, { type: "invert" })).toEqual([
+        [255, 255, 255],
+        [0, 0, 0],
+        [55, 155, 205],
+        [191, 127, 63],
+      ]);
+    });
+
+    it("mixes towards the inverse by amount", () => {
+      expect(apply(swatch, { type: "invert", amount: 0.5 })).toEqual([
+        grey(128),
+        grey(128),
+        grey(128),
+        grey(128),
+      ]);
+      expect(apply(swatch, { type: "invert", amount: 0 })).toEqual(swatch);
+    });
+  });
+});
@@ -0,0 +1,470 @@
+import type { ColorLut, PixelBuffer, VideoFilter } from '../types';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+/** A filter with every parameter filled in */
+export type ResolvedVideoFilter = VideoFilter extends infer F
+  ? F extends unknown
+    ? Required<Omit<F, "id" | "enabled">>
+    : never
+  : never;
+
+export type VideoFilterInit = DistributiveOmit<VideoFilter, "id"> & {
+  id?: string;
+};
+
+/** Parameters of any filter type, as changed by `updateVideoFilter` */
+export type VideoFilterParams = Partial<
+  DistributiveOmit<VideoFilter, "id" | "type">
+>;
+
+const LUMA = [0.2126, 0.7152, 0.0722] as const;
+
+/** Distance past the sharp band over which the depth blur reaches full strength */
+export const DEPTH_BLUR_FALLOFF = 0.25;
+
+/** Taps either side of the centre of the separable depth blur */
+export const BLUR_TAPS = 4;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+let nextFilterId = 0;
+
+/**
+ * A filter for the chain, with a fresh id unless one is given
+ */
+export const createVideoFilter = (init: VideoFilterInit): VideoFilter =>
+  ({ ...init, id: init.id ?? `filter-${++nextFilterId}` }) as VideoFilter;
+
+/**
+ * `filter` with `params` changed; its id and type stay
+ */
+export const updateVideoFilter = (
+  filter: VideoFilter,
+  params: VideoFilterParams,
+): VideoFilter =>
+  ({ ...filter, ...params, id: filter.id, type: filter.type }) as VideoFilter;
+
+/**
+ * Move the filter with `id` to `toIndex`, clamped to the chain
+ */
+export const moveVideoFilter = (
+  filters: VideoFilter[],
+  id: string,
+  toIndex: number,
+): VideoFilter[] => {
+  const from = filters.findIndex((filter) => filter.id === id);
+  if (from === -1) return filters;
+  const next = filters.slice();
+  const [moved] = next.splice(from, 1);
+  next.splice(clamp(toIndex, 0, next.length), 0, moved);
+  return next;
+};
+
+/**
+ * `filter` with defaults for what it leaves out and its parameters clamped
+ * to their ranges; renderers read filters through this
+ */
+export const resolveFilter = (filter: VideoFilter): ResolvedVideoFilter => {
+  switch (filter.type) {
+    case "color":
+      return {
+        type: "color",
+        brightness: clamp(filter.brightness ?? 0, -1, 1),
+        contrast: Math.max(0, filter.contrast ?? 1),
+        saturation: Math.max(0, filter.saturation ?? 1),
+      };
+    case "lut":
+      return {
+        type: "lut",
+        lut: filter.lut,
+        intensity: clamp(filter.intensity ?? 1, 0, 1),
+      };
+    case "edges": {
+      const highThreshold = clamp(filter.highThreshold ?? 0.25, 0, 1);
+      return {
+        type: "edges",
+        lowThreshold: clamp(filter.lowThreshold ?? 0.1, 0, highThreshold),
+        highThreshold,
+      };
+    }
+    case "posterize":
+      return {
+        type: "posterize",
+        levels: Math.max(2, Math.round(filter.levels ?? 4)),
+      };
+    case "depth-blur":
+      return {
+        type: "depth-blur",
+        radius: Math.max(0, filter.radius ?? 12),
+        focus: clamp(filter.focus ?? 0.5, 0, 1),
+        range: clamp(filter.range ?? 0.3, 0, 1),
+      };
+    case "invert":
+      return { type: "invert", amount: clamp(filter.amount ?? 1, 0, 1) };
+  }
+};
+
+/**
+ * Weight of each depth blur tap, from -BLUR_TAPS to BLUR_TAPS
+ */
+export const blurWeights = (): number[] => {
+  const weights: number[] = [];
+  for (let i = -BLUR_TAPS; i <= BLUR_TAPS; i++) {
+    weights.push(Math.exp(-(i * i) / (2 * (BLUR_TAPS / 2) ** 2)));
+  }
+  const sum = weights.reduce((a, b) => a + b, 0);
+  return weights.map((w) => w / sum);
+};
+
+/**
+ * How much of the blurred frame shows at `y` (from the top, 0-1)
+ */
+export const depthBlurAmount = (y: number, focus: number, range: number) =>
+  clamp((Math.abs(y - focus) - range / 2) / DEPTH_BLUR_FALLOFF, 0, 1);
+
+// Colour
+
+/**
+ * Parse a `.cube` 3D LUT, as exported by most grading tools. Only the
+ * default 0-1 domain is supported.
+ */
+export const parseCubeLut = (text: string): ColorLut => {
+  let size = 0;
+  let title: string | undefined;
+  const values: number[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    if (keyword === "TITLE") {
+      title = line.slice(5).trim().replace(/^"|"$/g, "");
+    } else if (keyword === "LUT_3D_SIZE") {
+      size = Number(rest[0]);
+    } else if (keyword === "LUT_1D_SIZE") {
+      throw new Error("1D LUTs are not supported");
+    } else if (keyword === "DOMAIN_MIN" || keyword === "DOMAIN_MAX") {
+      const expected = keyword === "DOMAIN_MIN" ? 0 : 1;
+      if (rest.some((value) => Number(value) !== expected)) {
+        throw new Error("Only LUTs with a 0-1 domain are supported");
+      }
+    } else if (/^[-+.\d]/.test(keyword)) {
+      values.push(Number(keyword), Number(rest[0]), Number(rest[1]));
+    }
+  }
+
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error("Missing or invalid LUT_3D_SIZE");
+  }
+  if (values.length !== size ** 3 * 3 || values.some((v) => !Number.isFinite(v))) {
+    throw new Error(`Expected ${size ** 3} colours for a ${size}³ LUT`);
+  }
+  return { size, data: Float32Array.from(values), title };
+};
+
+/**
+ * A LUT that leaves colours as they are
+ */
+export const createIdentityLut = (size = 2): ColorLut => {
+  const data = new Float32Array(size ** 3 * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        data[i++] = r / (size - 1);
+        data[i++] = g / (size - 1);
+        data[i++] = b / (size - 1);
+      }
+    }
+  }
+  return { size, data };
+};
+
+/**
+ * Trilinear lookup of an RGB colour (0-1) in `lut`
+ */
+export const sampleLut = (
+  lut: ColorLut,
+  r: number,
+  g: number,
+  b: number,
+): [number, number, number] => {
+  const s = lut.size - 1;
+  const fr = clamp(r, 0, 1) * s;
+  const fg = clamp(g, 0, 1) * s;
+  const fb = clamp(b, 0, 1) * s;
+  const r0 = Math.floor(fr);
+  const g0 = Math.floor(fg);
+  const b0 = Math.floor(fb);
+  const r1 = Math.min(r0 + 1, s);
+  const g1 = Math.min(g0 + 1, s);
+  const b1 = Math.min(b0 + 1, s);
+  const dr = fr - r0;
+  const dg = fg - g0;
+  const db = fb - b0;
+
+  const out: [number, number, number] = [0, 0, 0];
+  for (let c = 0; c < 3; c++) {
+    const at = (ri: number, gi: number, bi: number) =>
+      lut.data[((bi * lut.size + gi) * lut.size + ri) * 3 + c];
+    const c00 = at(r0, g0, b0) * (1 - dr) + at(r1, g0, b0) * dr;
+    const c10 = at(r0, g1, b0) * (1 - dr) + at(r1, g1, b0) * dr;
+    const c01 = at(r0, g0, b1) * (1 - dr) + at(r1, g0, b1) * dr;
+    const c11 = at(r0, g1, b1) * (1 - dr) + at(r1, g1, b1) * dr;
+    const c0 = c00 * (1 - dg) + c10 * dg;
+    const c1 = c01 * (1 - dg) + c11 * dg;
+    out[c] = c0 * (1 - db) + c1 * db;
+  }
+  return out;
+};
+
+// Per-pixel colour changes, on 0-1 channels
+const mapColors = (
+  pixels: PixelBuffer,
+  map: (r: number, g: number, b: number) => [number, number, number],
+) => {
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b] = map(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255);
+    data[i] = Math.round(clamp(r, 0, 1) * 255);
+    data[i + 1] = Math.round(clamp(g, 0, 1) * 255);
+    data[i + 2] = Math.round(clamp(b, 0, 1) * 255);
+  }
+};
+
+// Neighbourhood filters
+
+const lumaPlane = ({ width, height, data }: PixelBuffer): Float32Array => {
+  const plane = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < plane.length; p++, i += 4) {
+    plane[p] = (LUMA[0] * data[i] + LUMA[1] * data[i + 1] + LUMA[2] * data[i + 2]) / 255;
+  }
+  return plane;
+};
+
+/**
+ * Canny-style edges: smoothing, Sobel gradients, non-maximum suppression
+ * along the gradient, then a double threshold where weak edges survive
+ * only next to strong ones
+ */
+const detectEdges = (
+  pixels: PixelBuffer,
+  lowThreshold: number,
+  highThreshold: number,
+) => {
+  const { width, height, data } = pixels;
+  const at = (plane: Float32Array, x: number, y: number) =>
+    plane[clamp(y, 0, height - 1) * width + clamp(x, 0, width - 1)];
+
+  const luma = lumaPlane(pixels);
+  const smooth = new Float32Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      smooth[y * width + x] =
+        (at(luma, x - 1, y - 1) + 2 * at(luma, x, y - 1) + at(luma, x + 1, y - 1) +
+          2 * at(luma, x - 1, y) + 4 * at(luma, x, y) + 2 * at(luma, x + 1, y) +
+          at(luma, x - 1, y + 1) + 2 * at(luma, x, y + 1) + at(luma, x + 1, y + 1)) /
+        16;
+    }
+  }
+
+  const magnitude = new Float32Array(luma.length);
+  const direction = new Uint8Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx =
+        at(smooth, x + 1, y - 1) + 2 * at(smooth, x + 1, y) + at(smooth, x + 1, y + 1) -
+        at(smooth, x - 1, y - 1) - 2 * at(smooth, x - 1, y) - at(smooth, x - 1, y + 1);
+      const gy =
+        at(smooth, x - 1, y + 1) + 2 * at(smooth, x, y + 1) + at(smooth, x + 1, y + 1) -
+        at(smooth, x - 1, y - 1) - 2 * at(smooth, x, y - 1) - at(smooth, x + 1, y - 1);
+      const p = y * width + x;
+      magnitude[p] = Math.min(1, Math.hypot(gx, gy) / 4);
+      direction[p] = gradientBin(gx, gy);
+    }
+  }
+
+  // 1 for strong edges, 0.5 for weak ones
+  const classes = new Float32Array(luma.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const [dx, dy] = BIN_OFFSETS[direction[p]];
+      const m = magnitude[p];
+      if (m < at(magnitude, x + dx, y + dy) || m < at(magnitude, x - dx, y - dy)) {
+        continue;
+      }
+      classes[p] = m >= highThreshold ? 1 : m >= lowThreshold ? 0.5 : 0;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const c = classes[y * width + x];
+      let edge = c === 1;
+      if (c === 0.5) {
+        for (let ny = -1; ny <= 1 && !edge; ny++) {
+          for (let nx = -1; nx <= 1 && !edge; nx++) {
+            edge = at(classes, x + nx, y + ny) === 1;
+          }
+        }
+      }
+      const i = (y * width + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = edge ? 255 : 0;
+    }
+  }
+};
+
+/** Neighbours compared in non-maximum suppression, per gradient direction */
+const BIN_OFFSETS: Array<[number, number]> = [
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+];
+
+/**
+ * Gradient direction quantized to 0 (horizontal), 1 (diagonal), 2
+ * (vertical) or 3 (the other diagonal)
+ */
+export const gradientBin = (gx: number, gy: number): number => {
+  const angle = ((Math.atan2(gy, gx) * 180) / Math.PI + 180) % 180;
+  if (angle < 22.5 || angle >= 157.5) return 0;
+  if (angle < 67.5) return 1;
+  if (angle < 112.5) return 2;
+  return 3;
+};
+
+const blurPass = (
+  source: Float32Array,
+  width: number,
+  height: number,
+  step: number,
+  horizontal: boolean,
+): Float32Array => {
+  const out = new Float32Array(source.length);
+  const weights = blurWeights();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let t = -BLUR_TAPS; t <= BLUR_TAPS; t++) {
+        const offset = Math.round(t * step);
+        const sx = horizontal ? clamp(x + offset, 0, width - 1) : x;
+        const sy = horizontal ? y : clamp(y + offset, 0, height - 1);
+        const i = (sy * width + sx) * 3;
+        const w = weights[t + BLUR_TAPS];
+        r += source[i] * w;
+        g += source[i + 1] * w;
+        b += source[i + 2] * w;
+      }
+      const o = (y * width + x) * 3;
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+    }
+  }
+  return out;
+};
+
+const depthBlur = (
+  pixels: PixelBuffer,
+  radius: number,
+  focus: number,
+  range: number,
+) => {
+  const { width, height, data } = pixels;
+  if (radius <= 0) return;
+
+  const rgb = new Float32Array(width * height * 3);
+  for (let p = 0; p < width * height; p++) {
+    rgb[p * 3] = data[p * 4];
+    rgb[p * 3 + 1] = data[p * 4 + 1];
+    rgb[p * 3 + 2] = data[p * 4 + 2];
+  }
+  const step = radius / BLUR_TAPS;
+  const blurred = blurPass(blurPass(rgb, width, height, step, true), width, height, step, false);
+
+  for (let y = 0; y < height; y++) {
+    const amount = depthBlurAmount((y + 0.5) / height, focus, range);
+    if (amount === 0) continue;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      for (let c = 0; c < 3; c++) {
+        data[p * 4 + c] = Math.round(
+          data[p * 4 + c] * (1 - amount) + blurred[p * 3 + c] * amount,
+        );
+      }
+    }
+  }
+};
+
+/**
+ * Run `filters` over `pixels` in order, in place; disabled filters are
+ * skipped. This is the software renderer, and the reference the WebGL
+ * shaders follow, so a chain can be checked on plain pixel arrays.
+ */
+export const applyVideoFilters = (
+  pixels: PixelBuffer,
+  filters: VideoFilter[],
+): PixelBuffer => {
+  for (const filter of filters) {
+    if (filter.enabled === false) continue;
+    const f = resolveFilter(filter);
+
+    switch (f.type) {
+      case "color":
+        mapColors(pixels, (r, g, b) => {
+          const adjust = (c: number) =>
+            clamp((c + f.brightness - 0.5) * f.contrast + 0.5, 0, 1);
+          const [ar, ag, ab] = [adjust(r), adjust(g), adjust(b)];
+          const l = LUMA[0] * ar + LUMA[1] * ag + LUMA[2] * ab;
+          return [
+            l + (ar - l) * f.saturation,
+            l + (ag - l) * f.saturation,
+            l + (ab - l) * f.saturation,
+          ];
+        });
+        break;
+      case "lut":
+        mapColors(pixels, (r, g, b) => {
+          const [lr, lg, lb] = sampleLut(f.lut, r, g, b);
+          return [
+            r + (lr - r) * f.intensity,
+            g + (lg - g) * f.intensity,
+            b + (lb - b) * f.intensity,
+          ];
+        });
+        break;
+      case "edges":
+        detectEdges(pixels, f.lowThreshold, f.highThreshold);
+        break;
+      case "posterize": {
+        const steps = f.levels - 1;
+        mapColors(pixels, (r, g, b) => [
+          Math.round(r * steps) / steps,
+          Math.round(g * steps) / steps,
+          Math.round(b * steps) / steps,
+        ]);
+        break;
+      }
+      case "depth-blur":
+        depthBlur(pixels, f.radius, f.focus, f.range);
+        break;
+      case "invert":
+        mapColors(pixels, (r, g, b) => [
+          r + (1 - 2 * r) * f.amount,
+          g + (1 - 2 * g) * f.amount,
+          b + (1 - 2 * b) * f.amount,
+        ]);
+        break;
+    }
+  }
+  return pixels;
+};
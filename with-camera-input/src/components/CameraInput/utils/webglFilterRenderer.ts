@@ -0,0 +1,502 @@
+import type { ColorLut, FilterRenderer, VideoFilter } from '../types';
+import {
+  BLUR_TAPS,
+  DEPTH_BLUR_FALLOFF,
+  type ResolvedVideoFilter,
+  blurWeights,
+  resolveFilter,
+} from './videoFilters';
+
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+interface Program {
+  program: WebGLProgram;
+  position: number;
+  uniforms: Map<string, WebGLUniformLocation | null>;
+}
+
+type Uniform = number | [number, number] | Float32Array;
+
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_uv;
+void main() {
+  v_uv = a_position * 0.5 + 0.5;
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const HEADER = `
+precision mediump float;
+varying vec2 v_uv;
+uniform sampler2D u_image;
+uniform vec2 u_texel;
+const vec3 LUMA = vec3(0.2126, 0.7152, 0.0722);
+`;
+
+// Fragment shaders, one per pass. They follow `applyVideoFilters`; edges
+// and the depth blur take several passes each.
+const FRAGMENT_SHADERS: Record<string, string> = {
+  copy: `
+void main() {
+  gl_FragColor = texture2D(u_image, v_uv);
+}`,
+  color: `
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+void main() {
+  vec4 c = texture2D(u_image, v_uv);
+  vec3 adjusted = clamp((c.rgb + u_brightness - 0.5) * u_contrast + 0.5, 0.0, 1.0);
+  float l = dot(adjusted, LUMA);
+  gl_FragColor = vec4(clamp(mix(vec3(l), adjusted, u_saturation), 0.0, 1.0), c.a);
+}`,
+  // Slices of the LUT sit side by side by blue; red and green are
+  // interpolated by the sampler, blue between slices here
+  lut: `
+uniform sampler2D u_lut;
+uniform float u_lutSize;
+uniform float u_intensity;
+vec3 slice(float b, vec3 c) {
+  return texture2D(u_lut, vec2(
+    (b * u_lutSize + c.r + 0.5) / (u_lutSize * u_lutSize),
+    (c.g + 0.5) / u_lutSize
+  )).rgb;
+}
+void main() {
+  vec4 c = texture2D(u_image, v_uv);
+  vec3 scaled = clamp(c.rgb, 0.0, 1.0) * (u_lutSize - 1.0);
+  float b0 = floor(scaled.b);
+  float b1 = min(b0 + 1.0, u_lutSize - 1.0);
+  vec3 graded = mix(slice(b0, scaled), slice(b1, scaled), scaled.b - b0);
+  gl_FragColor = vec4(mix(c.rgb, graded, u_intensity), c.a);
+}`,
+  posterize: `
+uniform float u_levels;
+void main() {
+  vec4 c = texture2D(u_image, v_uv);
+  float steps = u_levels - 1.0;
+  gl_FragColor = vec4(floor(c.rgb * steps + 0.5) / steps, c.a);
+}`,
+  invert: `
+uniform float u_amount;
+void main() {
+  vec4 c = texture2D(u_image, v_uv);
+  gl_FragColor = vec4(mix(c.rgb, 1.0 - c.rgb, u_amount), c.a);
+}`,
+  blur: `
+uniform vec2 u_step;
+uniform float u_weights[${BLUR_TAPS * 2 + 1}];
+void main() {
+  vec4 sum = vec4(0.0);
+  for (int i = 0; i <= ${BLUR_TAPS * 2}; i++) {
+    sum += texture2D(u_image, v_uv + u_step * float(i - ${BLUR_TAPS})) * u_weights[i];
+  }
+  gl_FragColor = sum;
+}`,
+  depthMix: `
+uniform sampler2D u_blurred;
+uniform float u_focus;
+uniform float u_range;
+void main() {
+  float y = 1.0 - v_uv.y;
+  float amount = clamp((abs(y - u_focus) - u_range / 2.0) / ${DEPTH_BLUR_FALLOFF.toFixed(4)}, 0.0, 1.0);
+  gl_FragColor = mix(texture2D(u_image, v_uv), texture2D(u_blurred, v_uv), amount);
+}`,
+  edgeSmooth: `
+float luma(vec2 offset) {
+  return dot(texture2D(u_image, v_uv + offset * u_texel).rgb, LUMA);
+}
+void main() {
+  float l =
+    luma(vec2(-1.0, -1.0)) + 2.0 * luma(vec2(0.0, -1.0)) + luma(vec2(1.0, -1.0)) +
+    2.0 * luma(vec2(-1.0, 0.0)) + 4.0 * luma(vec2(0.0)) + 2.0 * luma(vec2(1.0, 0.0)) +
+    luma(vec2(-1.0, 1.0)) + 2.0 * luma(vec2(0.0, 1.0)) + luma(vec2(1.0, 1.0));
+  gl_FragColor = vec4(vec3(l / 16.0), 1.0);
+}`,
+  // Magnitude in red, direction bin (0-3) / 3 in green
+  edgeSobel: `
+float at(float x, float y) {
+  return texture2D(u_image, v_uv + vec2(x, y) * u_texel).r;
+}
+void main() {
+  float gx = at(1.0, -1.0) + 2.0 * at(1.0, 0.0) + at(1.0, 1.0)
+    - at(-1.0, -1.0) - 2.0 * at(-1.0, 0.0) - at(-1.0, 1.0);
+  float gy = at(-1.0, 1.0) + 2.0 * at(0.0, 1.0) + at(1.0, 1.0)
+    - at(-1.0, -1.0) - 2.0 * at(0.0, -1.0) - at(1.0, -1.0);
+  float magnitude = min(1.0, length(vec2(gx, gy)) / 4.0);
+  float angle = magnitude > 0.0 ? mod(degrees(atan(gy, gx)) + 180.0, 180.0) : 0.0;
+  float bin = angle < 22.5 || angle >= 157.5 ? 0.0
+    : angle < 67.5 ? 1.0
+    : angle < 112.5 ? 2.0
+    : 3.0;
+  gl_FragColor = vec4(magnitude, bin / 3.0, 0.0, 1.0);
+}`,
+  // Non-maximum suppression and the double threshold: 1 strong, 0.5 weak
+  edgeThreshold: `
+uniform float u_low;
+uniform float u_high;
+void main() {
+  vec4 g = texture2D(u_image, v_uv);
+  float bin = floor(g.g * 3.0 + 0.5);
+  vec2 offset = bin == 0.0 ? vec2(1.0, 0.0)
+    : bin == 1.0 ? vec2(1.0, 1.0)
+    : bin == 2.0 ? vec2(0.0, 1.0)
+    : vec2(-1.0, 1.0);
+  float ahead = texture2D(u_image, v_uv + offset * u_texel).r;
+  float behind = texture2D(u_image, v_uv - offset * u_texel).r;
+  float edge = g.r < ahead || g.r < behind ? 0.0
+    : g.r >= u_high ? 1.0
+    : g.r >= u_low ? 0.5
+    : 0.0;
+  gl_FragColor = vec4(vec3(edge), 1.0);
+}`,
+  // Weak edges survive next to a strong one
+  edgeHysteresis: `
+void main() {
+  float c = texture2D(u_image, v_uv).r;
+  float strong = 0.0;
+  for (int y = -1; y <= 1; y++) {
+    for (int x = -1; x <= 1; x++) {
+      strong = max(strong, texture2D(u_image, v_uv + vec2(float(x), float(y)) * u_texel).r);
+    }
+  }
+  float edge = c > 0.75 || (c > 0.25 && strong > 0.75) ? 1.0 : 0.0;
+  gl_FragColor = vec4(vec3(edge), 1.0);
+}`,
+};
+
+/**
+ * Filter chain on the GPU, with WebGL 1. The frame is uploaded once, each
+ * filter renders into a pooled texture, and the last pass draws into
+ * `canvas`. Shaders compile on first use.
+ */
+export class WebGLFilterRenderer implements FilterRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGLRenderingContext;
+  private quad: WebGLBuffer;
+  private inputTexture: WebGLTexture;
+  private programs = new Map<string, Program>();
+  private targets: RenderTarget[] = [];
+  private lutTextures = new Map<ColorLut, WebGLTexture>();
+  private width = 0;
+  private height = 0;
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGLRenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+
+    const quad = gl.createBuffer();
+    const inputTexture = this.createTexture();
+    if (!quad) throw new Error("Failed to create a WebGL buffer");
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(
+      gl.ARRAY_BUFFER,
+      new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]),
+      gl.STATIC_DRAW,
+    );
+    this.quad = quad;
+    this.inputTexture = inputTexture;
+  }
+
+  /**
+   * A renderer on its own canvas, or null without WebGL
+   */
+  static create(): WebGLFilterRenderer | null {
+    if (typeof document === "undefined") return null;
+    const canvas = document.createElement("canvas");
+    const gl = canvas.getContext("webgl", {
+      premultipliedAlpha: false,
+      preserveDrawingBuffer: true,
+    });
+    if (!gl) return null;
+    try {
+      return new WebGLFilterRenderer(canvas, gl);
+    } catch {
+      return null;
+    }
+  }
+
+  render(input: HTMLCanvasElement, filters: VideoFilter[]): CanvasImageSource {
+    const gl = this.gl;
+    if (gl.isContextLost()) throw new Error("WebGL context lost");
+    this.resize(input.width, input.height);
+
+    // Flipped, so texture and framebuffer rows both run bottom up
+    gl.bindTexture(gl.TEXTURE_2D, this.inputTexture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, input);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    const luts = new Set<ColorLut>();
+    let current = this.inputTexture;
+    for (const filter of filters) {
+      if (filter.enabled === false) continue;
+      const resolved = resolveFilter(filter);
+      if (resolved.type === "lut") luts.add(resolved.lut);
+      current = this.applyFilter(resolved, current);
+    }
+
+    this.draw("copy", { u_image: current }, {}, null);
+
+    // LUTs that left the chain
+    this.lutTextures.forEach((texture, lut) => {
+      if (luts.has(lut)) return;
+      gl.deleteTexture(texture);
+      this.lutTextures.delete(lut);
+    });
+    return this.canvas;
+  }
+
+  dispose() {
+    const gl = this.gl;
+    this.targets.forEach(({ texture, framebuffer }) => {
+      gl.deleteTexture(texture);
+      gl.deleteFramebuffer(framebuffer);
+    });
+    this.targets = [];
+    this.lutTextures.forEach((texture) => gl.deleteTexture(texture));
+    this.lutTextures.clear();
+    this.programs.forEach(({ program }) => gl.deleteProgram(program));
+    this.programs.clear();
+    gl.deleteTexture(this.inputTexture);
+    gl.deleteBuffer(this.quad);
+    gl.getExtension("WEBGL_lose_context")?.loseContext();
+  }
+
+  private applyFilter(filter: ResolvedVideoFilter, input: WebGLTexture): WebGLTexture {
+    switch (filter.type) {
+      case "color":
+        return this.pass("color", { u_image: input }, {
+          u_brightness: filter.brightness,
+          u_contrast: filter.contrast,
+          u_saturation: filter.saturation,
+        }, this.take(input));
+      case "lut":
+        return this.pass("lut", {
+          u_image: input,
+          u_lut: this.lutTexture(filter.lut),
+        }, {
+          u_lutSize: filter.lut.size,
+          u_intensity: filter.intensity,
+        }, this.take(input));
+      case "posterize":
+        return this.pass("posterize", { u_image: input }, {
+          u_levels: filter.levels,
+        }, this.take(input));
+      case "invert":
+        return this.pass("invert", { u_image: input }, {
+          u_amount: filter.amount,
+        }, this.take(input));
+      case "depth-blur": {
+        if (filter.radius <= 0) return input;
+        const step = filter.radius / BLUR_TAPS;
+        const weights = new Float32Array(blurWeights());
+        const across = this.pass("blur", { u_image: input }, {
+          u_step: [step / this.width, 0],
+          u_weights: weights,
+        }, this.take(input));
+        const blurred = this.pass("blur", { u_image: across }, {
+          u_step: [0, step / this.height],
+          u_weights: weights,
+        }, this.take(input, across));
+        return this.pass("depthMix", { u_image: input, u_blurred: blurred }, {
+          u_focus: filter.focus,
+          u_range: filter.range,
+        }, this.take(input, blurred));
+      }
+      case "edges": {
+        const smooth = this.pass("edgeSmooth", { u_image: input }, {}, this.take(input));
+        const gradient = this.pass("edgeSobel", { u_image: smooth }, {}, this.take(smooth));
+        const classes = this.pass("edgeThreshold", { u_image: gradient }, {
+          u_low: filter.lowThreshold,
+          u_high: filter.highThreshold,
+        }, this.take(gradient));
+        return this.pass("edgeHysteresis", { u_image: classes }, {}, this.take(classes));
+      }
+    }
+  }
+
+  /**
+   * Run a pass into `target` and return the target's texture, for the next
+   * pass to read
+   */
+  private pass(
+    name: string,
+    textures: Record<string, WebGLTexture>,
+    uniforms: Record<string, Uniform>,
+    target: RenderTarget,
+  ): WebGLTexture {
+    this.draw(name, textures, uniforms, target.framebuffer);
+    return target.texture;
+  }
+
+  /**
+   * Draw a full-frame quad with a pass's shader into `framebuffer` (null:
+   * the canvas)
+   */
+  private draw(
+    name: string,
+    textures: Record<string, WebGLTexture>,
+    uniforms: Record<string, Uniform>,
+    framebuffer: WebGLFramebuffer | null,
+  ) {
+    const gl = this.gl;
+    const program = this.program(name);
+    gl.useProgram(program.program);
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.viewport(0, 0, this.width, this.height);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.quad);
+    gl.enableVertexAttribArray(program.position);
+    gl.vertexAttribPointer(program.position, 2, gl.FLOAT, false, 0, 0);
+
+    const uniform = (key: string) => {
+      if (!program.uniforms.has(key)) {
+        program.uniforms.set(key, gl.getUniformLocation(program.program, key));
+      }
+      return program.uniforms.get(key) ?? null;
+    };
+
+    Object.entries(textures).forEach(([key, texture], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, texture);
+      gl.uniform1i(uniform(key), unit);
+    });
+    gl.uniform2f(uniform("u_texel"), 1 / this.width, 1 / this.height);
+    Object.entries(uniforms).forEach(([key, value]) => {
+      if (typeof value === "number") gl.uniform1f(uniform(key), value);
+      else if (value instanceof Float32Array) gl.uniform1fv(uniform(key), value);
+      else gl.uniform2f(uniform(key), value[0], value[1]);
+    });
+
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  private program(name: string): Program {
+    const existing = this.programs.get(name);
+    if (existing) return existing;
+
+    const gl = this.gl;
+    const compile = (type: number, source: string) => {
+      const shader = gl.createShader(type);
+      if (!shader) throw new Error("Failed to create a WebGL shader");
+      gl.shaderSource(shader, source);
+      gl.compileShader(shader);
+      if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Shader "${name}" failed to compile: ${log}`);
+      }
+      return shader;
+    };
+
+    const vertex = compile(gl.VERTEX_SHADER, VERTEX_SHADER);
+    const fragment = compile(gl.FRAGMENT_SHADER, HEADER + FRAGMENT_SHADERS[name]);
+    const program = gl.createProgram();
+    if (!program) throw new Error("Failed to create a WebGL program");
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.linkProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const log = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Shader "${name}" failed to link: ${log}`);
+    }
+
+    const compiled: Program = {
+      program,
+      position: gl.getAttribLocation(program, "a_position"),
+      uniforms: new Map(),
+    };
+    this.programs.set(name, compiled);
+    return compiled;
+  }
+
+  /**
+   * A pooled render target other than the ones being read
+   */
+  private take(...busy: WebGLTexture[]): RenderTarget {
+    const free = this.targets.find((target) => !busy.includes(target.texture));
+    if (free) return free;
+
+    const gl = this.gl;
+    const texture = this.createTexture();
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA, this.width, this.height, 0,
+      gl.RGBA, gl.UNSIGNED_BYTE, null,
+    );
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) throw new Error("Failed to create a WebGL framebuffer");
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0,
+    );
+
+    const target = { texture, framebuffer };
+    this.targets.push(target);
+    return target;
+  }
+
+  private lutTexture(lut: ColorLut): WebGLTexture {
+    const existing = this.lutTextures.get(lut);
+    if (existing) return existing;
+
+    const { size, data } = lut;
+    const pixels = new Uint8Array(size * size * size * 4);
+    for (let b = 0; b < size; b++) {
+      for (let g = 0; g < size; g++) {
+        for (let r = 0; r < size; r++) {
+          const from = ((b * size + g) * size + r) * 3;
+          const to = (g * size * size + b * size + r) * 4;
+          pixels[to] = Math.round(data[from] * 255);
+          pixels[to + 1] = Math.round(data[from + 1] * 255);
+          pixels[to + 2] = Math.round(data[from + 2] * 255);
+          pixels[to + 3] = 255;
+        }
+      }
+    }
+
+    const gl = this.gl;
+    const texture = this.createTexture();
+    gl.texImage2D(
+      gl.TEXTURE_2D, 0, gl.RGBA, size * size, size, 0,
+      gl.RGBA, gl.UNSIGNED_BYTE, pixels,
+    );
+    this.lutTextures.set(lut, texture);
+    return texture;
+  }
+
+  private createTexture(): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) throw new Error("Failed to create a WebGL texture");
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    return texture;
+  }
+
+  // Render targets follow the frame size
+  private resize(width: number, height: number) {
+    if (width === this.width && height === this.height) return;
+    this.width = width;
+    this.height = height;
+    this.canvas.width = width;
+    this.canvas.height = height;
+
+    const gl = this.gl;
+    this.targets.forEach(({ texture, framebuffer }) => {
+      gl.deleteTexture(texture);
+      gl.deleteFramebuffer(framebuffer);
+    });
+    this.targets = [];
+  }
+}
@@ -1,7 +1,65 @@
 import { useState, useRef } from "react";
-import { DrawingCanvas } from "./components/DrawingCanvas";
+import {
+  DrawingCanvas,
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+  DaydreamClient,
+  OUTPUT_PROFILES,
+  createFakeDaydreamServer,
+  useDaydreamStream,
+  useWhipPublisher,
+  usePromptScheduler,
+  useAdaptiveBitrate,
+  type AdaptiveBitrateOptions,
+  type OutputProfileName,
+  type PromptPreset,
+  type PromptTimeline,
+} from "./components/DrawingCanvas";
 import "./App.css";
 
+// Without an API key the example runs against an in-process fake backend.
+// Its WHIP and WHEP URLs only resolve through its fetch, so the publisher
+// and the player take that fetch too
+const apiKey = import.meta.env.VITE_DAYDREAM_API_KEY;
+const offlineServer = apiKey ? null : createFakeDaydreamServer();
+const daydreamClient = new DaydreamClient({
+  apiKey: apiKey || "offline",
+  ...offlineServer?.clientOptions,
+});
+const pipelineId =
+  import.meta.env.VITE_DAYDREAM_PIPELINE_ID ?? "pip_qpUgXycjWF6YMeSL";
+const initialParams = { prompt: "watercolor painting, soft pastel colors" };
+const promptPresets: PromptPreset[] = [
+  { name: "Watercolor", prompt: "watercolor painting, soft pastel colors" },
+  { name: "Neon", prompt: "neon lights, cyberpunk city at night, glowing" },
+  { name: "Oil Paint", prompt: "thick impasto oil painting, van gogh style" },
+  { name: "Clay", prompt: "claymation, soft studio lighting, plasticine" },
+  {
+    name: "Sketch",
+    prompt: "pencil sketch, cross hatching, paper texture",
+    negative_prompt: "color, blurry",
+  },
+];
+
+// Unattended mode: hold each prompt for 8s, then crossfade for 4s
+const unattendedTimeline: PromptTimeline = {
+  keyframes: [
+    "watercolor painting, soft pastel colors",
+    "neon lights, cyberpunk city at night, glowing",
+    "thick impasto oil painting, van gogh style",
+  ].map(prompt => ({ prompt, holdMs: 8000, transitionMs: 4000 })),
+  loop: true,
+  easing: "ease-in-out",
+};
+
+// Line art on a flat background compresses well; a still drawing can drop
+// far below the 2 Mbps a busy scene gets
+const adaptiveBitrate: AdaptiveBitrateOptions = {
+  minBitrate: 250_000,
+  minFramerate: 10,
+};
+
 // Custom color palette
 const customColors = [
   { name: "Ocean Blue", value: "#0077BE" },
@@ -18,9 +76,40 @@ function App() {
   >("streaming");
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [isRecording, setIsRecording] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [adaptiveEncoding, setAdaptiveEncoding] = useState(true);
+  const [outputProfile, setOutputProfile] =
+    useState<OutputProfileName>("square-512");
   const mediaRecorder = useRef<MediaRecorder | null>(null);
   const chunks = useRef<Blob[]>([]);
 
+  const daydream = useDaydreamStream({
+    client: daydreamClient,
+    pipelineId,
+    initialParams,
+    autoCreate: activeExample === "streaming",
+    onError: (error) => {
+      console.error("Daydream stream error:", error);
+    },
+  });
+  const scheduler = usePromptScheduler({
+    updateParams: daydream.updateParams,
+  });
+  const publisher = useWhipPublisher({
+    stream: localStream,
+    endpoint: daydream.stream?.whipUrl,
+    fetch: offlineServer?.fetch,
+    onError: (error) => {
+      console.error("WHIP publish error:", error);
+    },
+  });
+  const encoding = useAdaptiveBitrate({
+    stream: localStream,
+    getPeerConnection: publisher.getPeerConnection,
+    enabled: adaptiveEncoding,
+    options: adaptiveBitrate,
+  });
+
   // Basic example stream handler
   const handleBasicStreamReady = (stream: MediaStream) => {
     console.log("Basic stream ready:", stream);
@@ -194,31 +283,110 @@ function App() {
                 <DrawingCanvas
                   onStreamReady={handleStreamingReady}
                   fps={30}
+                  outputProfile={outputProfile}
                   enableStreaming={true}
                   enableBackgroundStreaming={true}
                   initialColor="#663399"
                   className="drawing-canvas-container"
                   canvasClassName="custom-canvas"
                 />
+                <PromptPanel
+                  updateParams={daydream.updateParams}
+                  initialParams={initialParams}
+                  presets={promptPresets}
+                  disabled={daydream.status !== "ready"}
+                  className="prompt-panel"
+                />
+                <label className="unattended-toggle">
+                  <input
+                    type="checkbox"
+                    checked={scheduler.isRunning}
+                    disabled={daydream.status !== "ready"}
+                    onChange={e =>
+                      e.target.checked
+                        ? scheduler.play(unattendedTimeline)
+                        : scheduler.stop()
+                    }
+                  />
+                  Unattended mode (cycle prompts on a loop)
+                  {scheduler.error && ` - ${scheduler.error}`}
+                </label>
+                <label className="output-profile">
+                  Output
+                  <select
+                    value={outputProfile}
+                    onChange={e =>
+                      setOutputProfile(e.target.value as OutputProfileName)
+                    }
+                  >
+                    {Object.values(OUTPUT_PROFILES).map(profile => (
+                      <option key={profile.name} value={profile.name}>
+                        {profile.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
               </div>
               {localStream && (
                 <div className="stream-preview">
                   <h3>Live Stream Preview</h3>
-                  <video
-                    autoPlay
-                    muted
-                    ref={(video) => {
-                      if (video && localStream) {
-                        video.srcObject = localStream;
-                      }
-                    }}
-                    className="preview-video"
-                  />
+                  <div className="preview-wrapper">
+                    <video
+                      autoPlay
+                      muted
+                      ref={(video) => {
+                        if (video && localStream) {
+                          video.srcObject = localStream;
+                        }
+                      }}
+                      className="preview-video"
+                    />
+                    {showStats && (
+                      <PublisherStatsOverlay
+                        getPeerConnection={publisher.getPeerConnection}
+                      />
+                    )}
+                  </div>
+                  <label className="stats-toggle">
+                    <input
+                      type="checkbox"
+                      checked={showStats}
+                      onChange={e => setShowStats(e.target.checked)}
+                    />
+                    Show publisher stats
+                  </label>
+                  <label className="stats-toggle">
+                    <input
+                      type="checkbox"
+                      checked={adaptiveEncoding}
+                      onChange={e => setAdaptiveEncoding(e.target.checked)}
+                    />
+                    Adapt bitrate to the drawing
+                    {adaptiveEncoding &&
+                      encoding.params &&
+                      ` (${(encoding.params.maxBitrate / 1_000_000).toFixed(1)} Mbps @ ${encoding.params.maxFramerate} fps)`}
+                  </label>
                   <p className="stream-info">
                     This video element shows the canvas content as a
                     MediaStream, ready for WebRTC transmission or local
                     recording.
                   </p>
+                  <h3>Daydream Output</h3>
+                  <div className="output-player">
+                    <DaydreamOutputPlayer
+                      endpoint={daydream.stream?.whepUrl}
+                      fetch={offlineServer?.fetch}
+                    />
+                  </div>
+                  <p className="stream-info">
+                    The AI-transformed stream played back over WHEP.
+                    {" "}
+                    {apiKey ? "Stream" : "Offline stream"}: {daydream.status}
+                    {" • "}Publish: {publisher.connectionState}
+                    {publisher.connectionState === "reconnecting" &&
+                      ` (attempt ${publisher.reconnectAttempt})`}
+                    {daydream.error && ` (${daydream.error})`}
+                  </p>
                 </div>
               )}
             </div>
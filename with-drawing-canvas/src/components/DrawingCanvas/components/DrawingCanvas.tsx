@@ -2,10 +2,16 @@ import React, { useCallback, useEffect, useRef, useState } from "react";
 import { ColorPalette } from "./ColorPalette";
 import { BrushControls } from "./BrushControls";
 import { ToolSelector, type DrawingTool } from "./ToolSelector";
-import { useBackgroundStreaming } from "../hooks/useBackgroundStreaming";
-import { STREAMING_CONFIG } from "../lib/streamingConfig";
-import { createSilentAudioTrack } from "../lib/audioTrackManager";
-import { streamStabilizer } from "../lib/streamStabilizer";
+import {
+  STREAMING_CONFIG,
+  createSilentAudioTrack,
+  recaptureCanvasTrack,
+  resolveOutputProfile,
+  streamStabilizer,
+  useBackgroundStreaming,
+  type OutputProfile,
+  type OutputProfileName,
+} from "@daydream-examples/streaming-core";
 
 export interface DrawingCanvasProps {
   /**
@@ -19,6 +25,13 @@ export interface DrawingCanvasProps {
   width?: number;
   height?: number;
 
+  /**
+   * Named output size, e.g. "landscape-720p"; overrides `width`/`height`.
+   * Changing it while streaming resizes the canvas, keeps the drawing and
+   * swaps a new capture track into the same stream.
+   */
+  outputProfile?: OutputProfileName | OutputProfile;
+
   /**
    * Frame rate for the stream (default: 30)
    */
@@ -89,6 +102,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   onStreamReady,
   width = STREAMING_CONFIG.WIDTH,
   height = STREAMING_CONFIG.HEIGHT,
+  outputProfile,
   fps = STREAMING_CONFIG.FPS,
   initialBrushSize = 20,
   initialColor = "#000000",
@@ -125,6 +139,10 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   const [selectedTool, setSelectedTool] = useState<DrawingTool>("brush");
   const [canUndo, setCanUndo] = useState(false);
 
+  const profile = outputProfile ? resolveOutputProfile(outputProfile) : null;
+  const canvasWidth = profile?.width ?? width;
+  const canvasHeight = profile?.height ?? height;
+
   // Background frame rendering for stream stability
   const renderBackgroundFrame = useCallback(() => {
     const canvas = canvasRef.current;
@@ -141,7 +159,7 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     ctx.fillRect(canvas.width - 1, canvas.height - 1, 1, 1);
   }, []);
 
-  const { isBackgroundStreaming } = useBackgroundStreaming({
+  useBackgroundStreaming({
     onBackgroundFrame: renderBackgroundFrame,
     fps,
     enabled: enableStreaming && enableBackgroundStreaming,
@@ -332,6 +350,8 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
         minStableFrames: 3,
         timeoutMs: 2000,
         validateAudio: false,
+        // Strokes arrive in bursts, so an idle canvas may not produce frames yet
+        strategy: "track-state",
       });
     } catch (error) {
       console.warn("Stream validation warning:", error);
@@ -357,8 +377,14 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     isRestoringRef.current = true;
     const img = new Image();
     img.onload = () => {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0);
+      // Centred on white, in case the canvas changed size since the save
+      ctx.fillStyle = "white";
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(
+        img,
+        Math.round((canvas.width - img.width) / 2),
+        Math.round((canvas.height - img.height) / 2)
+      );
       isRestoringRef.current = false;
     };
     img.src = savedCanvasStateRef.current;
@@ -371,12 +397,19 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
       return;
     }
 
-    canvas.width = width;
-    canvas.height = height;
+    const resized =
+      canvas.width !== canvasWidth || canvas.height !== canvasHeight;
+    canvas.width = canvasWidth;
+    canvas.height = canvasHeight;
 
     if (previewCanvas) {
-      previewCanvas.width = width;
-      previewCanvas.height = height;
+      previewCanvas.width = canvasWidth;
+      previewCanvas.height = canvasHeight;
+    }
+
+    // A capture track keeps its size, so a live stream needs a new one
+    if (resized && streamRef.current) {
+      recaptureCanvasTrack(canvas, streamRef.current, fps);
     }
 
     const ctx = canvas.getContext("2d");
@@ -406,8 +439,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     restoreCanvasState,
     selectedColor,
     brushSize,
-    width,
-    height,
+    canvasWidth,
+    canvasHeight,
+    fps,
     enableStreaming,
   ]);
 
@@ -745,8 +779,9 @@ export const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     <div className={`flex flex-col gap-2 ${className}`}>
       <div className="w-full">
         <div
-          className="w-full aspect-square border border-gray-300 rounded-t-lg overflow-hidden flex items-center justify-center relative bg-white"
+          className="w-full border border-gray-300 rounded-t-lg overflow-hidden flex items-center justify-center relative bg-white"
           style={{
+            aspectRatio: `${canvasWidth} / ${canvasHeight}`,
             touchAction: "none",
             WebkitUserSelect: "none",
             userSelect: "none",
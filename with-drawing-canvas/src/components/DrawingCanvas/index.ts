@@ -8,18 +8,120 @@ export { BrushControls } from "./components/BrushControls";
 export { ToolSelector } from "./components/ToolSelector";
 export type { DrawingTool } from "./components/ToolSelector";
 
+// Daydream components, shared with the other examples
+export {
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+} from "@daydream-examples/streaming-core";
+export type {
+  DaydreamOutputPlayerProps,
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+  PublisherStatsOverlayProps,
+} from "@daydream-examples/streaming-core";
+
 // UI components (in case developers want to reuse them)
 export { Button } from "./ui/button";
 export { Slider } from "./ui/slider";
 export { Label } from "./ui/label";
 
 // Hooks
-export { useBackgroundStreaming } from "./hooks/useBackgroundStreaming";
+export {
+  useWhepPlayer,
+  useWhipPublisher,
+  useDaydreamStream,
+  useParamUpdater,
+  usePromptScheduler,
+  usePublisherStats,
+  useAdaptiveBitrate,
+} from "@daydream-examples/streaming-core";
+export type {
+  UseWhepPlayerOptions,
+  UseWhipPublisherOptions,
+  UsePromptSchedulerOptions,
+  UsePublisherStatsOptions,
+  UseAdaptiveBitrateOptions,
+  ParamUpdateStatus,
+  UseParamUpdaterOptions,
+  DaydreamStreamStatus,
+  UseDaydreamStreamOptions,
+} from "@daydream-examples/streaming-core";
 
 // Utilities
-export { STREAMING_CONFIG } from "./lib/streamingConfig";
 export {
+  STREAMING_CONFIG,
+  STREAMING_CORE_VERSION,
+  OUTPUT_PROFILES,
+  DEFAULT_OUTPUT_PROFILE,
+  resolveOutputProfile,
+  replaceStreamTrack,
+  recaptureCanvasTrack,
   createSilentAudioTrack,
   audioTrackManager,
-} from "./lib/audioTrackManager";
-export { streamStabilizer } from "./lib/streamStabilizer";
+  streamStabilizer,
+  useBackgroundStreaming,
+  measureFrameComplexity,
+  StreamComplexityManager,
+  WhepClient,
+  WhipClient,
+  WhipRequestError,
+  ReconnectingPublisher,
+  reconnectDelay,
+  isRetryablePublishError,
+  createFakePublishTransport,
+  DaydreamClient,
+  DaydreamApiError,
+  DaydreamAuthError,
+  DaydreamNotFoundError,
+  DaydreamValidationError,
+  DaydreamRateLimitError,
+  createFakeDaydreamServer,
+  PromptScheduler,
+  evaluateTimeline,
+  crossfadeTimeline,
+  timelineDuration,
+  systemClock,
+  PublisherStatsMonitor,
+  readPublisherStats,
+  computeEncodingParams,
+  applyEncodingParams,
+  isSameEncoding,
+  getVideoSender,
+} from "@daydream-examples/streaming-core";
+export type {
+  ComplexityMetrics,
+  OutputProfile,
+  OutputProfileName,
+  WhepClientOptions,
+  WhepPlaybackState,
+  WhipClientOptions,
+  WhipPublishState,
+  PublishConnectionState,
+  PublishTransport,
+  PublishTransportFactory,
+  ReconnectOptions,
+  ReconnectStrategy,
+  ReconnectingPublisherOptions,
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+  DaydreamClientOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+  PromptKeyframe,
+  PromptEasing,
+  PromptTimeline,
+  PromptSchedulerOptions,
+  SchedulerClock,
+  PublisherStatsSample,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  QualityLimitationReason,
+  AdaptiveBitrateInput,
+  AdaptiveBitrateOptions,
+  EncodingParams,
+} from "@daydream-examples/streaming-core";
@@ -1,8 +0,0 @@
-export const STREAMING_CONFIG = {
-  WIDTH: 512,
-  HEIGHT: 512,
-  FPS: 30,
-  // Bitrate settings for streams
-  VIDEO_BITRATE: 2000000, // 2.0 Mbps
-  AUDIO_BITRATE: 128000, // 128 kbps
-};
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /**
+   * Development only: Vite inlines VITE_ variables into the client bundle,
+   * so this key is readable by anyone who loads the page
+   */
+  readonly VITE_DAYDREAM_API_KEY?: string;
+  readonly VITE_DAYDREAM_PIPELINE_ID?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,5 +1,70 @@
 import { useState } from "react";
-import { FluidCanvas } from "./components/FluidCanvas";
+import {
+  FluidCanvas,
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+  DaydreamClient,
+  OUTPUT_PROFILES,
+  createFakeDaydreamServer,
+  useDaydreamStream,
+  useWhipPublisher,
+  usePromptScheduler,
+  useAdaptiveBitrate,
+  type AdaptiveBitrateOptions,
+  type OutputProfile,
+  type PromptPreset,
+  type PromptTimeline,
+} from "./components/FluidCanvas";
+
+// Without an API key the example runs against an in-process fake backend.
+// Its WHIP and WHEP URLs only resolve through its fetch, so the publisher
+// and the player take that fetch too
+const apiKey = import.meta.env.VITE_DAYDREAM_API_KEY;
+const offlineServer = apiKey ? null : createFakeDaydreamServer();
+const daydreamClient = new DaydreamClient({
+  apiKey: apiKey || "offline",
+  ...offlineServer?.clientOptions,
+});
+const pipelineId =
+  import.meta.env.VITE_DAYDREAM_PIPELINE_ID ?? "pip_qpUgXycjWF6YMeSL";
+const initialParams = { prompt: "nebula made of ink, cosmic colors" };
+const promptPresets: PromptPreset[] = [
+  { name: "Nebula", prompt: "nebula made of ink, cosmic colors" },
+  { name: "Lava", prompt: "flowing lava, glowing embers, dark rock" },
+  { name: "Aurora", prompt: "aurora borealis over a frozen lake" },
+  { name: "Marble", prompt: "swirling marble stone, gold veins, polished" },
+  {
+    name: "Smoke",
+    prompt: "colored smoke plumes, black background, long exposure",
+    negative_prompt: "blurry, low quality",
+  },
+];
+
+// Unattended mode: hold each prompt for 10s, then crossfade for 5s
+const unattendedTimeline: PromptTimeline = {
+  keyframes: [
+    "nebula made of ink, cosmic colors",
+    "flowing lava, glowing embers, dark rock",
+    "aurora borealis over a frozen lake",
+  ].map((prompt) => ({ prompt, holdMs: 10000, transitionMs: 5000 })),
+  loop: true,
+  easing: "ease-in-out",
+};
+
+// Swirling dye is all fine detail and motion: keep a high floor so busy
+// scenes don't starve, and let a calm canvas settle lower
+const adaptiveBitrate: AdaptiveBitrateOptions = {
+  minBitrate: 800_000,
+  maxBitrate: 3_000_000,
+  minFramerate: 20,
+};
+
+// The dye is detailed enough to stream above the named sizes by default
+const outputProfiles: OutputProfile[] = [
+  { name: "square-1024", label: "1024 × 1024", width: 1024, height: 1024 },
+  ...Object.values(OUTPUT_PROFILES),
+];
 
 export default function App() {
   const [selectedColor, setSelectedColor] = useState<string>("#FFA500");
@@ -8,6 +73,35 @@ export default function App() {
   const [velocityDissipation, setVelocityDissipation] = useState(0.86);
   const [glow, setGlow] = useState(2);
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [showStats, setShowStats] = useState(false);
+  const [adaptiveEncoding, setAdaptiveEncoding] = useState(true);
+  const [outputProfile, setOutputProfile] = useState(outputProfiles[0]);
+
+  const daydream = useDaydreamStream({
+    client: daydreamClient,
+    pipelineId,
+    initialParams,
+    onError: (error) => {
+      console.error("Daydream stream error:", error);
+    },
+  });
+  const scheduler = usePromptScheduler({
+    updateParams: daydream.updateParams,
+  });
+  const publisher = useWhipPublisher({
+    stream,
+    endpoint: daydream.stream?.whipUrl,
+    fetch: offlineServer?.fetch,
+    onError: (error) => {
+      console.error("WHIP publish error:", error);
+    },
+  });
+  const encoding = useAdaptiveBitrate({
+    stream,
+    getPeerConnection: publisher.getPeerConnection,
+    enabled: adaptiveEncoding,
+    options: adaptiveBitrate,
+  });
 
   const handleStreamReady = (mediaStream: MediaStream) => {
     console.log("Stream ready:", mediaStream);
@@ -93,19 +187,75 @@ export default function App() {
             <div className="text-sm text-gray-400">
               <p>Stream Status: {stream ? "Active" : "Inactive"}</p>
               {stream && <p>Tracks: {stream.getTracks().length}</p>}
+              <p>
+                Daydream{!apiKey && " (offline)"}: {daydream.status}
+              </p>
+              <p>
+                Publish: {publisher.connectionState}
+                {publisher.connectionState === "reconnecting" &&
+                  ` (attempt ${publisher.reconnectAttempt})`}
+              </p>
+              <label className="flex items-center gap-2 mt-2">
+                <input
+                  type="checkbox"
+                  checked={showStats}
+                  onChange={(e) => setShowStats(e.target.checked)}
+                />
+                Publisher stats
+              </label>
+              <label className="flex items-center gap-2 mt-2">
+                <input
+                  type="checkbox"
+                  checked={adaptiveEncoding}
+                  onChange={(e) => setAdaptiveEncoding(e.target.checked)}
+                />
+                Adaptive bitrate
+              </label>
+              <label className="flex items-center gap-2 mt-2">
+                Output
+                <select
+                  value={outputProfile.name}
+                  onChange={(e) =>
+                    setOutputProfile(
+                      outputProfiles.find(
+                        (profile) => profile.name === e.target.value
+                      ) ?? outputProfiles[0]
+                    )
+                  }
+                  className="bg-gray-800 rounded px-1 py-0.5"
+                >
+                  {outputProfiles.map((profile) => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {adaptiveEncoding && encoding.params && (
+                <p>
+                  Encoding:{" "}
+                  {(encoding.params.maxBitrate / 1_000_000).toFixed(1)} Mbps @{" "}
+                  {encoding.params.maxFramerate} fps
+                </p>
+              )}
+              {daydream.error && <p className="text-red-400">{daydream.error}</p>}
             </div>
           </div>
 
-          {/* Canvas */}
-          <div className="lg:col-span-3">
-            <div className="aspect-square w-full max-w-xl mx-auto bg-black rounded-lg overflow-hidden">
+          {/* Canvas + Daydream Output */}
+          <div className="lg:col-span-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div
+              className="relative w-full max-w-xl mx-auto bg-black rounded-lg overflow-hidden"
+              style={{
+                aspectRatio: `${outputProfile.width} / ${outputProfile.height}`,
+              }}
+            >
               <FluidCanvas
                 onStreamReady={handleStreamReady}
                 selectedColor={selectedColor}
                 splatForce={splatForce}
                 curl={curl}
-                width={1024}
-                height={1024}
+                outputProfile={outputProfile}
                 velocityDissipation={velocityDissipation}
                 glow={glow}
                 fps={30}
@@ -115,10 +265,45 @@ export default function App() {
                 autoGenerateSplats={true}
                 initialSplatCount={5}
               />
+              {showStats && (
+                <PublisherStatsOverlay
+                  getPeerConnection={publisher.getPeerConnection}
+                />
+              )}
+            </div>
+            <div className="aspect-square w-full max-w-xl mx-auto bg-black rounded-lg overflow-hidden">
+              <DaydreamOutputPlayer
+                endpoint={daydream.stream?.whepUrl}
+                fetch={offlineServer?.fetch}
+              />
             </div>
           </div>
         </div>
 
+        <PromptPanel
+          updateParams={daydream.updateParams}
+          initialParams={initialParams}
+          presets={promptPresets}
+          disabled={daydream.status !== "ready"}
+          theme="dark"
+          className="mt-8 max-w-3xl mx-auto"
+        />
+
+        <label className="mt-4 max-w-3xl mx-auto flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={scheduler.isRunning}
+            disabled={daydream.status !== "ready"}
+            onChange={(e) =>
+              e.target.checked
+                ? scheduler.play(unattendedTimeline)
+                : scheduler.stop()
+            }
+          />
+          Unattended mode (cycle prompts on a loop)
+          {scheduler.error && ` - ${scheduler.error}`}
+        </label>
+
         <div className="mt-8 text-center text-gray-400">
           <p>Click and drag to create fluid effects</p>
         </div>
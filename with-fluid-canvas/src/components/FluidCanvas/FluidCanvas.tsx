@@ -1,6 +1,12 @@
 "use client";
 
 import React, { useCallback, useEffect, useRef } from "react";
+import {
+  createSilentAudioTrack,
+  recaptureCanvasTrack,
+  resolveOutputProfile,
+  useBackgroundStreaming,
+} from "@daydream-examples/streaming-core";
 import type {
   FluidCanvasProps,
   FluidConfig,
@@ -40,13 +46,12 @@ import {
   applyInputs,
 } from "./input";
 import { multipleSplats, generateColor } from "./utils";
-import { useBackgroundStreaming } from "./hooks/useBackgroundStreaming";
-import { createSilentAudioTrack } from "./utils/audioTrack";
 
 export const FluidCanvas = ({
   onStreamReady,
-  width = 512,
-  height = 512,
+  width: widthProp = 512,
+  height: heightProp = 512,
+  outputProfile,
   fps = 30,
   splatForce = 15000,
   curl = 30,
@@ -67,6 +72,10 @@ export const FluidCanvas = ({
   className = "",
   style = {},
 }: FluidCanvasProps) => {
+  const { width, height } = outputProfile
+    ? resolveOutputProfile(outputProfile)
+    : { width: widthProp, height: heightProp };
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationIdRef = useRef<number | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -132,10 +141,12 @@ export const FluidCanvas = ({
     render(refs);
   }, [width, height]);
 
-  const { isBackgroundStreaming } = useBackgroundStreaming({
+  useBackgroundStreaming({
     onBackgroundFrame: renderBackgroundFrame,
     fps,
     enabled: enableBackgroundStreaming,
+    // WebGL only paints on the animation loop, so keep ticking regardless of visibility
+    trigger: "always",
   });
 
   function updateKeywords() {
@@ -534,14 +545,28 @@ export const FluidCanvas = ({
       if (animationIdRef.current) {
         cancelAnimationFrame(animationIdRef.current);
       }
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => {
-          track.stop();
-        });
-      }
     };
   }, [initWebGL, width, height]);
 
+  // A capture track keeps its size, so a resize while streaming swaps a new
+  // one into the same stream
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const stream = streamRef.current;
+    if (!canvas || !stream) return;
+    recaptureCanvasTrack(canvas, stream, fps);
+  }, [width, height, fps]);
+
+  // The stream outlives resizes and stops only on unmount
+  useEffect(() => {
+    const stream = streamRef;
+    return () => {
+      stream.current?.getTracks().forEach((track) => {
+        track.stop();
+      });
+    };
+  }, []);
+
   useEffect(() => {
     if (
       glRef.current &&
@@ -1,8 +1,63 @@
 // Main component export
 export { FluidCanvas } from "./FluidCanvas";
+export {
+  DaydreamOutputPlayer,
+  PromptPanel,
+  PublisherStatsOverlay,
+  useWhepPlayer,
+  useWhipPublisher,
+  useDaydreamStream,
+  useParamUpdater,
+  usePromptScheduler,
+  usePublisherStats,
+  useAdaptiveBitrate,
+} from "@daydream-examples/streaming-core";
 
 // Type exports
-export type { FluidCanvasProps, FluidConfig } from "./types";
+export type {
+  FluidCanvasProps,
+  FluidConfig,
+  DaydreamOutputPlayerProps,
+  WhepClientOptions,
+  WhepPlaybackState,
+  WhipClientOptions,
+  WhipPublishState,
+  PublishConnectionState,
+  PublishTransport,
+  PublishTransportFactory,
+  ReconnectOptions,
+  ReconnectStrategy,
+  ReconnectingPublisherOptions,
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+  DaydreamClientOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+  ParamUpdateStatus,
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+  PromptKeyframe,
+  PromptEasing,
+  PromptTimeline,
+  PromptSchedulerOptions,
+  SchedulerClock,
+  PublisherStatsSample,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  PublisherStatsOverlayProps,
+  QualityLimitationReason,
+  ComplexityMetrics,
+  OutputProfile,
+  OutputProfileName,
+  AdaptiveBitrateOptions,
+  AdaptiveBitrateInput,
+  EncodingParams,
+  DaydreamStreamStatus,
+} from "./types";
 
 // Utility exports for advanced usage
 export * from "./utils";
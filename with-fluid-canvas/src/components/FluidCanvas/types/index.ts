@@ -1,3 +1,56 @@
+import type {
+  OutputProfile,
+  OutputProfileName,
+} from "@daydream-examples/streaming-core";
+
+// Shared with the other examples through the streaming core package
+export type {
+  AdaptiveBitrateInput,
+  AdaptiveBitrateOptions,
+  ComplexityMetrics,
+  CreateDaydreamStreamOptions,
+  DaydreamClientOptions,
+  DaydreamOutputPlayerProps,
+  DaydreamRetryOptions,
+  DaydreamStream,
+  DaydreamStreamParams,
+  DaydreamStreamResponse,
+  DaydreamStreamStatus,
+  EncodingParams,
+  FakeDaydreamServer,
+  FakeDaydreamServerOptions,
+  FakePublishTransport,
+  FakePublishTransportOptions,
+  FakeTransportOperation,
+  OutputProfile,
+  OutputProfileName,
+  ParamUpdateStatus,
+  PromptEasing,
+  PromptKeyframe,
+  PromptPanelProps,
+  PromptPanelTheme,
+  PromptPreset,
+  PromptSchedulerOptions,
+  PromptTimeline,
+  PublishConnectionState,
+  PublishTransport,
+  PublishTransportFactory,
+  PublisherStatsCounters,
+  PublisherStatsMonitorOptions,
+  PublisherStatsOverlayProps,
+  PublisherStatsSample,
+  QualityLimitationReason,
+  ReconnectClock,
+  ReconnectOptions,
+  ReconnectStrategy,
+  ReconnectingPublisherOptions,
+  SchedulerClock,
+  WhepClientOptions,
+  WhepPlaybackState,
+  WhipClientOptions,
+  WhipPublishState,
+} from "@daydream-examples/streaming-core";
+
 export interface FluidCanvasProps {
   /**
    * Callback when the MediaStream is ready for consumption
@@ -10,6 +63,12 @@ export interface FluidCanvasProps {
   width?: number;
   height?: number;
 
+  /**
+   * Named output size, e.g. "portrait-720p"; overrides `width`/`height`.
+   * Changing it while streaming keeps the publish going on a new track.
+   */
+  outputProfile?: OutputProfileName | OutputProfile;
+
   /**
    * Frames per second for the stream
    */
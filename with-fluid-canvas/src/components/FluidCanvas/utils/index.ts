@@ -1 +1,42 @@
 export * from "./helpers";
+export {
+  STREAMING_CONFIG,
+  STREAMING_CORE_VERSION,
+  OUTPUT_PROFILES,
+  DEFAULT_OUTPUT_PROFILE,
+  resolveOutputProfile,
+  replaceStreamTrack,
+  recaptureCanvasTrack,
+  createSilentAudioTrack,
+  cleanupAudioTrack,
+  measureFrameComplexity,
+  StreamComplexityManager,
+  useBackgroundStreaming,
+  WhepClient,
+  WhipClient,
+  WhipRequestError,
+  DAYDREAM_API_URL,
+  DAYDREAM_WHEP_URL,
+  DaydreamClient,
+  DaydreamApiError,
+  DaydreamAuthError,
+  DaydreamNotFoundError,
+  DaydreamValidationError,
+  DaydreamRateLimitError,
+  createFakeDaydreamServer,
+  PromptScheduler,
+  evaluateTimeline,
+  crossfadeTimeline,
+  timelineDuration,
+  systemClock,
+  PublisherStatsMonitor,
+  readPublisherStats,
+  ReconnectingPublisher,
+  reconnectDelay,
+  isRetryablePublishError,
+  createFakePublishTransport,
+  computeEncodingParams,
+  applyEncodingParams,
+  isSameEncoding,
+  getVideoSender,
+} from "@daydream-examples/streaming-core";